@@ -8,7 +8,7 @@ import path from 'path';
 import cors from 'cors';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
+import { randomBytes, timingSafeEqual } from 'crypto';
 
 // Load environment variables
 dotenv.config();
@@ -19,36 +19,6 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Initialize OpenAI if API key is available
-let openai = null;
-if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-api-key-here') {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-  });
-  console.log('✅ OpenAI initialized');
-} else {
-  console.log('⚠️  OpenAI API key not found. Will try Ollama or use mock responses.');
-}
-
-// Check if Ollama is available
-let ollamaAvailable = false;
-async function checkOllama() {
-  try {
-    const response = await fetch('http://localhost:11434/api/tags');
-    if (response.ok) {
-      ollamaAvailable = true;
-      console.log('✅ Ollama detected and ready');
-      return true;
-    }
-  } catch (error) {
-    // Ollama not running
-  }
-  return false;
-}
-
-// Check Ollama on startup
-checkOllama();
-
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -56,19 +26,33 @@ app.use(express.static('ui-components'));
 app.use(express.static('public'));
 
 // Import the coaching engine (if available)
+// WORKLIFE_DATA_STORE picks where data is kept: sqlite:<path> (the default), file:<path> or memory
+// With WORKLIFE_MASTER_KEY set, conversations and memory notes are encrypted at rest
+// Recognized intents are logged, anonymized, to WORKLIFE_INTENT_LOG for `npm run intents`
+const DATA_STORE_SPEC = process.env.WORKLIFE_DATA_STORE || 'sqlite:./data/worklife.sqlite';
+const INTENT_LOG_PATH = process.env.WORKLIFE_INTENT_LOG || './data/intent-log.json';
 let CoachingEngine;
 try {
   // Try to import the TypeScript modules (if compiled)
-  const { InMemoryDataStore } = require('./dist/persistence/dataStore.js');
-  const { ConversationManager } = require('./dist/conversation/conversationManager.js');
+  const { openDataStore, closeDataStore } = await import('./dist/persistence/backup.js');
+  const { ConversationEncryption } = await import('./dist/persistence/encryption.js');
+  const { IntentAnalytics, FileIntentLogStore } = await import('./dist/analytics/index.js');
+  const { CoachingEngine: Engine } = await import('./dist/coachingEngine.js');
+  const { detectCrisis } = await import('./dist/intent/crisisDetector.js');
   
   // Initialize the coaching system
-  const dataStore = new InMemoryDataStore();
-  const conversationManager = new ConversationManager(dataStore);
+  const encryption = ConversationEncryption.fromEnv();
+  const dataStore = await openDataStore(DATA_STORE_SPEC, { encryption: encryption ?? undefined });
+  const intentAnalytics = new IntentAnalytics(new FileIntentLogStore(INTENT_LOG_PATH));
+  const engine = new Engine(dataStore, undefined, {}, intentAnalytics);
+  console.log(`💾 Data store: ${DATA_STORE_SPEC}${encryption ? ' (encrypted)' : ''}`);
+  console.log(`📊 Intent log: ${INTENT_LOG_PATH}`);
   
   CoachingEngine = {
     dataStore,
-    conversationManager
+    engine,
+    detectCrisis,
+    close: () => closeDataStore(dataStore)
   };
   
   console.log('✅ Coaching engine loaded successfully');
@@ -77,9 +61,287 @@ try {
   CoachingEngine = null;
 }
 
+// Language models answer chat messages before the coaching engine, tried in the order of WORKLIFE_LLM_PROVIDERS
+// Their health is checked at startup and every few minutes; providers that failed the last check are skipped
+let llmProviders = [];
+let llmHealth = null;
+try {
+  const { loadLLMProviders, ProviderHealthMonitor } = await import('./dist/llm/index.js');
+  llmProviders = loadLLMProviders();
+  const reported = new Map();
+  llmHealth = new ProviderHealthMonitor(llmProviders, {
+    onCheck: results => {
+      for (const health of results) {
+        if (reported.get(health.provider) !== health.status) {
+          reported.set(health.provider, health.status);
+          console.log(health.status === 'ok'
+            ? `✅ ${health.provider} ready (${health.model})`
+            : `⚠️  ${health.provider} unavailable, skipped until it answers: ${health.error}`);
+        }
+      }
+    }
+  });
+  llmHealth.start();
+  if (llmProviders.length === 0) {
+    console.log('⚠️  No language model configured. Will use the coaching engine or mock responses.');
+  }
+} catch (error) {
+  console.log('⚠️  Language models not available:', error.message);
+}
+
+// User tokens authorize access to a user's data routes
+let userTokens = null;
+try {
+  userTokens = await import('./dist/utils/userTokens.js');
+} catch (error) {
+  // Data routes stay unavailable without the compiled helpers
+}
+
+let USER_TOKEN_SECRET = process.env.USER_TOKEN_SECRET;
+if (!USER_TOKEN_SECRET) {
+  USER_TOKEN_SECRET = randomBytes(32).toString('hex');
+  console.log('⚠️  USER_TOKEN_SECRET not set. User tokens will not survive a restart.');
+}
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
+
+/**
+ * Reads the bearer token from the Authorization header
+ */
+function getBearerToken(req) {
+  const header = req.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Checks that a request may access the given user's data
+ * Accepts the user's own token or the admin token
+ */
+function isAuthorizedForUser(req, userId) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return false;
+  }
+  if (ADMIN_API_TOKEN && token.length === ADMIN_API_TOKEN.length &&
+      timingSafeEqual(Buffer.from(token), Buffer.from(ADMIN_API_TOKEN))) {
+    return true;
+  }
+  return userTokens ? userTokens.verifyUserToken(userId, token, USER_TOKEN_SECRET) : false;
+}
+
 // Store active sessions in memory with conversation history
 const sessions = new Map();
 
+/**
+ * Drops a user's chat histories kept by this server
+ * They are not part of the engine's sessions, so erasure has to clear them separately
+ */
+function removeServerSessions(userId) {
+  let removed = 0;
+  for (const [sessionId, session] of sessions.entries()) {
+    if (session.userId === userId) {
+      sessions.delete(sessionId);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Whether anything is already kept for a user: a live chat, a profile, messages or memory notes
+ * Starting a session as such a user recalls their data, so it takes their token
+ */
+async function isExistingUser(userId) {
+  for (const session of sessions.values()) {
+    if (session.userId === userId) {
+      return true;
+    }
+  }
+  if (!CoachingEngine) {
+    return false;
+  }
+  const { dataStore } = CoachingEngine;
+  const [profile, history, notes] = await Promise.all([
+    dataStore.getUserProfile(userId),
+    dataStore.getConversationHistory(userId),
+    dataStore.getMemoryNotes(userId)
+  ]);
+  return profile !== null || history.length > 0 || notes.length > 0;
+}
+
+/**
+ * The coach's system prompt, with what the engine remembers of the user's earlier conversations
+ */
+async function systemPromptFor(sessionId, message) {
+  const userId = sessions.get(sessionId)?.userId;
+  if (!CoachingEngine || !userId) {
+    return COACH_SYSTEM_PROMPT;
+  }
+  const memory = await CoachingEngine.engine.getMemoryPrompt(userId, message);
+  return memory ? `${COACH_SYSTEM_PROMPT}\n\n${memory}` : COACH_SYSTEM_PROMPT;
+}
+
+/**
+ * Summarizes chat messages into the user's memory notes before they leave the prompt
+ */
+async function rememberServerMessages(sessionId, messages) {
+  const userId = sessions.get(sessionId)?.userId;
+  if (!CoachingEngine || !userId) {
+    return;
+  }
+  await CoachingEngine.engine.rememberMessages(userId, sessionId, messages.map((m, index) => ({
+    id: `${sessionId}_${index}`,
+    sender: m.role === 'user' ? 'user' : 'system',
+    content: m.content,
+    timestamp: new Date()
+  })));
+}
+
+/**
+ * Keeps only the last 20 messages of a chat to avoid token limits; older ones live on as memory notes
+ */
+async function trimServerHistory(sessionId) {
+  const session = sessions.get(sessionId);
+  if (session.messages.length > 20) {
+    await rememberServerMessages(sessionId, session.messages.slice(0, -20));
+    session.messages = session.messages.slice(-20);
+  }
+}
+
+/**
+ * Answers a chat message with the first language model that can, keeping the exchange in the session's history
+ * @param onChunk - Receives the reply as it is generated; without it the reply comes in one piece
+ * @param signal - Cancels the reply, e.g. when the client disconnects
+ * @returns The reply and the model's provider, or null when no model answered
+ */
+async function replyWithModels(sessionId, message, { onChunk, signal } = {}) {
+  const providers = llmHealth ? llmHealth.getAvailableProviders() : [];
+  if (providers.length === 0) {
+    return null;
+  }
+  if (!sessions.has(sessionId)) {
+    sessions.set(sessionId, { messages: [] });
+  }
+  const session = sessions.get(sessionId);
+  const request = {
+    messages: [
+      { role: 'system', content: await systemPromptFor(sessionId, message) },
+      ...session.messages,
+      { role: 'user', content: message }
+    ],
+    signal
+  };
+  
+  for (const provider of providers) {
+    let streamed = false;
+    try {
+      const completion = onChunk
+        ? await provider.stream(request, text => {
+          streamed = true;
+          onChunk(text);
+        })
+        : await provider.complete(request);
+      
+      // Only finished exchanges make it into the history
+      session.messages.push({ role: 'user', content: message }, { role: 'assistant', content: completion.content });
+      await trimServerHistory(sessionId);
+      return { message: completion.content, source: provider.name };
+    } catch (error) {
+      // A cancelled reply, or one that failed halfway, cannot hand over without mixing two replies
+      if (signal?.aborted || streamed) {
+        throw error;
+      }
+      console.error(`${error.message}; trying the next option`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the engine request of a chat message
+ * Sessions this server did not start through the engine are coached as a guest of the session,
+ * which the retention job treats as an anonymous user
+ */
+function coachingRequest(sessionId, message, language) {
+  const userId = sessions.get(sessionId)?.userId ?? `guest_${sessionId}`;
+  return { userId, sessionId, message, language };
+}
+
+/**
+ * Canned replies, by keyword, for when neither a language model nor the coaching engine is available
+ */
+function mockReply(message) {
+  const lowerMessage = message.toLowerCase();
+  let responseText = '';
+  
+  // Check for specific career-related keywords
+  if (lowerMessage.includes('stuck') || lowerMessage.includes('lost') || lowerMessage.includes('confused')) {
+    responseText = "That feeling of being stuck is really common, and it doesn't mean you're behind—it means you're being honest with yourself.\n\nLet me ask: what's making you feel this way? Is it the work itself, the environment, the growth opportunities, or something else?";
+  } 
+  else if (lowerMessage.includes('skill') || lowerMessage.includes('learn') || lowerMessage.includes('training')) {
+    responseText = "Good instinct to question that. \"Everyone says\" is usually a red flag—what works for others might not fit your goals.\n\nLet me ask: what are you hoping a new skill will do for you? Are you trying to switch into a different field, make yourself more valuable in your current role, or open up freelance opportunities?";
+  } 
+  else if (lowerMessage.includes('confidence') || lowerMessage.includes('not good enough') || lowerMessage.includes('imposter')) {
+    responseText = "I hear this a lot, and here's the thing: confidence doesn't come before you do the thing—it comes after.\n\nYou're comparing your behind-the-scenes to everyone else's highlight reel. They're not more qualified—they're just better at talking about what they've done.\n\nWhat's a project or accomplishment you're proud of from the last year?";
+  } 
+  else if (lowerMessage.includes('career') || lowerMessage.includes('path') || lowerMessage.includes('direction')) {
+    responseText = "Let's break this down together.\n\nCould you tell me a bit about yourself? Things like:\n• What you're currently doing (job, field, or studying)\n• What's been on your mind lately about your career\n• What you're hoping to figure out";
+  }
+  else if (lowerMessage.includes('job') || lowerMessage.includes('work') || lowerMessage.includes('role')) {
+    responseText = "Let's talk about your current situation.\n\nWhat's your current role, and what's been on your mind about it? Are you looking to grow where you are, or are you thinking about making a change?";
+  }
+  else if (lowerMessage.includes('switch') || lowerMessage.includes('change') || lowerMessage.includes('transition')) {
+    responseText = "Career transitions can feel overwhelming, but they're more common than you think.\n\nWhat field are you in now, and what are you considering moving into? Or are you still exploring options?";
+  }
+  else if (lowerMessage.includes('salary') || lowerMessage.includes('money') || lowerMessage.includes('pay')) {
+    responseText = "Money conversations are important, and you're right to think about this.\n\nAre you looking to negotiate in your current role, or are you exploring opportunities that pay better? What's your current situation?";
+  }
+  else if (lowerMessage.includes('interview') || lowerMessage.includes('resume') || lowerMessage.includes('cv')) {
+    responseText = "Job search prep is crucial. Let's make sure you're set up for success.\n\nWhat stage are you at? Are you updating your materials, preparing for interviews, or just starting to think about applying?";
+  }
+  else if (lowerMessage.includes('manager') || lowerMessage.includes('boss') || lowerMessage.includes('team')) {
+    responseText = "Workplace relationships can make or break your experience.\n\nWhat's going on with your manager or team? Is it affecting your day-to-day work, or are you thinking about how it impacts your long-term growth?";
+  }
+  else if (lowerMessage.includes('burnout') || lowerMessage.includes('tired') || lowerMessage.includes('exhausted')) {
+    responseText = "Burnout is real, and it's a sign you need to make a change—not that you're weak.\n\nHow long have you been feeling this way? And what do you think is the main cause—workload, lack of purpose, or something else?";
+  }
+  else if (lowerMessage.includes('promotion') || lowerMessage.includes('advance') || lowerMessage.includes('grow')) {
+    responseText = "Growth is important, and it's good that you're thinking about it proactively.\n\nWhat does advancement look like for you? Are you looking for a title change, more responsibility, or something else? And what's been holding you back so far?";
+  }
+  else if (lowerMessage.includes('hello') || lowerMessage.includes('hi') || lowerMessage.includes('hey')) {
+    responseText = "Hey! I'm here to help you figure out your next career move.\n\nWhat's been on your mind lately? Whether it's feeling stuck, thinking about a change, or just wanting to level up—I'm here for it.";
+  }
+  else if (lowerMessage.includes('thank') || lowerMessage.includes('thanks')) {
+    responseText = "You're welcome! I'm here whenever you need to talk through career stuff.\n\nIs there anything else on your mind right now?";
+  }
+  else {
+    // More engaging default response
+    responseText = "I'm listening. Tell me more about what's going on.\n\nThe more context you share—like what you're currently doing, what's frustrating you, or what you're hoping to achieve—the better I can help you figure out your next steps.";
+  }
+  
+  return responseText;
+}
+
+// Enforce the retention policy in the background (set WORKLIFE_RETENTION_DRY_RUN=true to only report)
+if (CoachingEngine) {
+  try {
+    const { RetentionJob, loadRetentionPolicy } = await import('./dist/persistence/retention.js');
+    const retentionJob = new RetentionJob(CoachingEngine.dataStore, loadRetentionPolicy(), {
+      dryRun: process.env.WORKLIFE_RETENTION_DRY_RUN === 'true',
+      registries: [CoachingEngine.engine, { removeUserSessions: removeServerSessions }],
+      holders: [CoachingEngine.engine],
+      onReport: report => {
+        const verb = report.dryRun ? 'would purge' : 'purged';
+        console.log(`🧹 Retention ${verb} ${report.messagesPurged} messages and ${report.erasedUsers.length} anonymous users`);
+      },
+      onError: error => console.error('Retention purge failed:', error),
+    });
+    retentionJob.start();
+  } catch (error) {
+    console.log('⚠️  Retention purge not available:', error.message);
+  }
+}
+
 // System prompt for the AI coach
 const COACH_SYSTEM_PROMPT = `You are a WorkLife AI Coach. Your role is to help people with their careers in a direct, honest, and practical way.
 
@@ -120,28 +382,44 @@ Remember: You're a coach, not a therapist. Focus on career and professional deve
 /**
  * POST /api/chat/start
  * Start a new chat session
+ * Continuing as a user who already has data requires their token or the admin token,
+ * since the session recalls what earlier conversations noted
  */
 app.post('/api/chat/start', async (req, res) => {
   try {
     const userId = req.body.userId || `user_${Date.now()}`;
     
+    const authorized = req.body.userId ? isAuthorizedForUser(req, userId) : true;
+    if (!authorized && await isExistingUser(userId)) {
+      return getBearerToken(req)
+        ? res.status(403).json({ error: 'Not allowed to access this user' })
+        : res.status(401).json({ error: 'Authorization required' });
+    }
+    
+    // Only hand out a token for a new user, or to a caller who already holds one
+    const userToken = userTokens && authorized
+      ? userTokens.createUserToken(userId, USER_TOKEN_SECRET)
+      : undefined;
+    
     if (CoachingEngine) {
-      const session = CoachingEngine.conversationManager.startSession(userId);
-      sessions.set(session.id, { userId, sessionId: session.id });
+      const session = CoachingEngine.engine.startSession(userId);
+      sessions.set(session.id, { userId, sessionId: session.id, messages: [] });
       
       res.json({
         sessionId: session.id,
         userId,
+        userToken,
         message: "Hi! I'm your WorkLife coach. I'm here to help you get unstuck in your career—whether you're figuring out what to learn next, thinking about switching fields, or just feeling lost about where you're headed. Let's talk through it together."
       });
     } else {
       // Mock response
       const sessionId = `session_${Date.now()}`;
-      sessions.set(sessionId, { userId, sessionId });
+      sessions.set(sessionId, { userId, sessionId, messages: [] });
       
       res.json({
         sessionId,
         userId,
+        userToken,
         message: "Hi! I'm your WorkLife coach. I'm here to help you get unstuck in your career—whether you're figuring out what to learn next, thinking about switching fields, or just feeling lost about where you're headed. Let's talk through it together."
       });
     }
@@ -163,156 +441,35 @@ app.post('/api/chat/message', async (req, res) => {
       return res.status(400).json({ error: 'Session ID and message are required' });
     }
     
-    // Try OpenAI first
-    if (openai) {
-      try {
-        // Get or create session with conversation history
-        if (!sessions.has(sessionId)) {
-          sessions.set(sessionId, { messages: [] });
-        }
-        
-        const session = sessions.get(sessionId);
-        
-        // Add user message to history
-        session.messages.push({
-          role: 'user',
-          content: message
-        });
-        
-        // Call OpenAI - Use GPT-4 for better responses (costs more but higher quality)
-        // Change to 'gpt-3.5-turbo' for cheaper/faster responses
-        const completion = await openai.chat.completions.create({
-          model: process.env.USE_GPT4 === 'true' ? 'gpt-4' : 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: COACH_SYSTEM_PROMPT
-            },
-            ...session.messages
-          ],
-          temperature: 0.7,
-          max_tokens: 500
-        });
-        
-        const aiResponse = completion.choices[0].message.content;
-        
-        // Add AI response to history
-        session.messages.push({
-          role: 'assistant',
-          content: aiResponse
-        });
-        
-        // Keep only last 10 messages to avoid token limits
-        if (session.messages.length > 20) {
-          session.messages = session.messages.slice(-20);
-        }
-        
-        return res.json({
-          message: aiResponse,
-          timestamp: new Date(),
-          source: 'openai'
-        });
-        
-      } catch (openaiError) {
-        console.error('OpenAI error:', openaiError.message);
-        // Fall through to Ollama or mock responses
-      }
+    // Crisis messages get helplines from the engine and are never sent to an external model
+    if (CoachingEngine && CoachingEngine.detectCrisis(message)) {
+      const response = await CoachingEngine.engine.processRequest(coachingRequest(sessionId, message, req.body.language));
+      
+      return res.json({
+        message: response.content,
+        timestamp: response.timestamp,
+        source: 'safety'
+      });
     }
     
-    // Try Ollama if available
-    if (!openai || !sessions.has(sessionId)) {
-      try {
-        const ollamaResponse = await fetch('http://localhost:11434/api/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'llama2',
-            prompt: `You are a WorkLife AI Coach helping people with their careers. Be direct, honest, and practical.
-
-User: ${message}
-
-Coach:`,
-            stream: false,
-            system: COACH_SYSTEM_PROMPT
-          })
-        });
-        
-        if (ollamaResponse.ok) {
-          const data = await ollamaResponse.json();
-          
-          return res.json({
-            message: data.response,
-            timestamp: new Date(),
-            source: 'ollama'
-          });
-        }
-      } catch (ollamaError) {
-        // Ollama not available, fall through to mock
-        console.log('Ollama not available, using mock responses');
-      }
+    const reply = await replyWithModels(sessionId, message);
+    if (reply) {
+      return res.json({ ...reply, timestamp: new Date() });
     }
     
     // Fallback to TypeScript coaching engine
     if (CoachingEngine) {
-      const response = await CoachingEngine.conversationManager.continueSession(
-        sessionId,
-        message
-      );
+      const response = await CoachingEngine.engine.processRequest(coachingRequest(sessionId, message, req.body.language));
       
       res.json({
         message: response.content,
         timestamp: response.timestamp,
+        recommendations: response.recommendations,
+        intentRecordId: response.intentRecordId,
         source: 'coaching-engine'
       });
     } else {
-      // Enhanced mock responses with better context awareness
-      const lowerMessage = message.toLowerCase();
-      let responseText = '';
-      
-      // Check for specific career-related keywords
-      if (lowerMessage.includes('stuck') || lowerMessage.includes('lost') || lowerMessage.includes('confused')) {
-        responseText = "That feeling of being stuck is really common, and it doesn't mean you're behind—it means you're being honest with yourself.\n\nLet me ask: what's making you feel this way? Is it the work itself, the environment, the growth opportunities, or something else?";
-      } 
-      else if (lowerMessage.includes('skill') || lowerMessage.includes('learn') || lowerMessage.includes('training')) {
-        responseText = "Good instinct to question that. \"Everyone says\" is usually a red flag—what works for others might not fit your goals.\n\nLet me ask: what are you hoping a new skill will do for you? Are you trying to switch into a different field, make yourself more valuable in your current role, or open up freelance opportunities?";
-      } 
-      else if (lowerMessage.includes('confidence') || lowerMessage.includes('not good enough') || lowerMessage.includes('imposter')) {
-        responseText = "I hear this a lot, and here's the thing: confidence doesn't come before you do the thing—it comes after.\n\nYou're comparing your behind-the-scenes to everyone else's highlight reel. They're not more qualified—they're just better at talking about what they've done.\n\nWhat's a project or accomplishment you're proud of from the last year?";
-      } 
-      else if (lowerMessage.includes('career') || lowerMessage.includes('path') || lowerMessage.includes('direction')) {
-        responseText = "Let's break this down together.\n\nCould you tell me a bit about yourself? Things like:\n• What you're currently doing (job, field, or studying)\n• What's been on your mind lately about your career\n• What you're hoping to figure out";
-      }
-      else if (lowerMessage.includes('job') || lowerMessage.includes('work') || lowerMessage.includes('role')) {
-        responseText = "Let's talk about your current situation.\n\nWhat's your current role, and what's been on your mind about it? Are you looking to grow where you are, or are you thinking about making a change?";
-      }
-      else if (lowerMessage.includes('switch') || lowerMessage.includes('change') || lowerMessage.includes('transition')) {
-        responseText = "Career transitions can feel overwhelming, but they're more common than you think.\n\nWhat field are you in now, and what are you considering moving into? Or are you still exploring options?";
-      }
-      else if (lowerMessage.includes('salary') || lowerMessage.includes('money') || lowerMessage.includes('pay')) {
-        responseText = "Money conversations are important, and you're right to think about this.\n\nAre you looking to negotiate in your current role, or are you exploring opportunities that pay better? What's your current situation?";
-      }
-      else if (lowerMessage.includes('interview') || lowerMessage.includes('resume') || lowerMessage.includes('cv')) {
-        responseText = "Job search prep is crucial. Let's make sure you're set up for success.\n\nWhat stage are you at? Are you updating your materials, preparing for interviews, or just starting to think about applying?";
-      }
-      else if (lowerMessage.includes('manager') || lowerMessage.includes('boss') || lowerMessage.includes('team')) {
-        responseText = "Workplace relationships can make or break your experience.\n\nWhat's going on with your manager or team? Is it affecting your day-to-day work, or are you thinking about how it impacts your long-term growth?";
-      }
-      else if (lowerMessage.includes('burnout') || lowerMessage.includes('tired') || lowerMessage.includes('exhausted')) {
-        responseText = "Burnout is real, and it's a sign you need to make a change—not that you're weak.\n\nHow long have you been feeling this way? And what do you think is the main cause—workload, lack of purpose, or something else?";
-      }
-      else if (lowerMessage.includes('promotion') || lowerMessage.includes('advance') || lowerMessage.includes('grow')) {
-        responseText = "Growth is important, and it's good that you're thinking about it proactively.\n\nWhat does advancement look like for you? Are you looking for a title change, more responsibility, or something else? And what's been holding you back so far?";
-      }
-      else if (lowerMessage.includes('hello') || lowerMessage.includes('hi') || lowerMessage.includes('hey')) {
-        responseText = "Hey! I'm here to help you figure out your next career move.\n\nWhat's been on your mind lately? Whether it's feeling stuck, thinking about a change, or just wanting to level up—I'm here for it.";
-      }
-      else if (lowerMessage.includes('thank') || lowerMessage.includes('thanks')) {
-        responseText = "You're welcome! I'm here whenever you need to talk through career stuff.\n\nIs there anything else on your mind right now?";
-      }
-      else {
-        // More engaging default response
-        responseText = "I'm listening. Tell me more about what's going on.\n\nThe more context you share—like what you're currently doing, what's frustrating you, or what you're hoping to achieve—the better I can help you figure out your next steps.";
-      }
+      const responseText = mockReply(message);
       
       // Simulate thinking delay
       await new Promise(resolve => setTimeout(resolve, 800));
@@ -329,6 +486,143 @@ Coach:`,
   }
 });
 
+/**
+ * Opens a Server-Sent Events response
+ * @returns A function that sends one event with a JSON payload
+ */
+function openEventStream(res) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  return (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * POST /api/chat/stream
+ * Send a message and receive the response as Server-Sent Events, as it is written:
+ * - `chunk` events carry text of language model replies as it is generated
+ * - `section` events carry engine replies part by part: mindset support, recommendations, follow-up question
+ * - a final `done` event carries the whole message, its source and its recommendations
+ * - an `error` event ends a response that failed halfway
+ * Generation stops when the client disconnects.
+ */
+app.post('/api/chat/stream', async (req, res) => {
+  const { sessionId, message } = req.body;
+  
+  if (!sessionId || !message) {
+    return res.status(400).json({ error: 'Session ID and message are required' });
+  }
+  
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const send = openEventStream(res);
+  const finish = (data) => {
+    send('done', { timestamp: new Date(), ...data });
+    res.end();
+  };
+  
+  try {
+    // Crisis messages get helplines from the engine and are never sent to an external model
+    if (CoachingEngine && CoachingEngine.detectCrisis(message)) {
+      const response = await CoachingEngine.engine.processRequest(coachingRequest(sessionId, message, req.body.language));
+      send('section', { kind: 'message', content: response.content });
+      return finish({ message: response.content, timestamp: response.timestamp, source: 'safety' });
+    }
+    
+    const reply = await replyWithModels(sessionId, message, {
+      onChunk: text => send('chunk', { text }),
+      signal: controller.signal
+    });
+    if (reply) {
+      return finish(reply);
+    }
+    
+    if (CoachingEngine) {
+      const response = await CoachingEngine.engine.processRequest(coachingRequest(sessionId, message, req.body.language));
+      // Replies from an interview, a flow or a follow-up come in one piece
+      for (const section of response.sections ?? [{ kind: 'message', content: response.content }]) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        send('section', section);
+      }
+      return finish({
+        message: response.content,
+        timestamp: response.timestamp,
+        recommendations: response.recommendations,
+        intentRecordId: response.intentRecordId,
+        source: 'coaching-engine'
+      });
+    }
+    
+    const mock = mockReply(message);
+    mock.split('\n\n').forEach((paragraph, index) => send('chunk', { text: index === 0 ? paragraph : `\n\n${paragraph}` }));
+    finish({ message: mock, source: 'mock' });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    console.error('Error streaming message:', error);
+    send('error', { error: 'Failed to process message' });
+    res.end();
+  }
+});
+
+/**
+ * POST /api/chat/reaction
+ * Record how the user took a coaching engine answer, e.g. from a thumbs up or down
+ * Takes the `intentRecordId` of the answer and a reaction of positive, negative or neutral
+ */
+app.post('/api/chat/reaction', async (req, res) => {
+  try {
+    const { intentRecordId, reaction } = req.body;
+    
+    if (!intentRecordId || !['positive', 'negative', 'neutral'].includes(reaction)) {
+      return res.status(400).json({ error: 'intentRecordId and a reaction of positive, negative or neutral are required' });
+    }
+    if (!CoachingEngine) {
+      return res.status(503).json({ error: 'Coaching engine not available' });
+    }
+    
+    await CoachingEngine.engine.recordReaction(intentRecordId, reaction);
+    res.json({ intentRecordId, reaction });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(404).json({ error: 'Intent record not found' });
+    }
+    console.error('Error recording reaction:', error);
+    res.status(500).json({ error: 'Failed to record reaction' });
+  }
+});
+
+/**
+ * POST /api/chat/end
+ * End a chat session: the engine saves it and the server forgets its history
+ */
+app.post('/api/chat/end', async (req, res) => {
+  try {
+    const { sessionId } = req.body;
+    
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Session ID is required' });
+    }
+    
+    if (CoachingEngine) {
+      await CoachingEngine.engine.endSession(sessionId);
+    }
+    sessions.delete(sessionId);
+    
+    res.json({ sessionId, ended: true });
+  } catch (error) {
+    console.error('Error ending session:', error);
+    res.status(500).json({ error: 'Failed to end session' });
+  }
+});
+
 /**
  * GET /api/chat/history/:sessionId
  * Get chat history for a session
@@ -338,7 +632,7 @@ app.get('/api/chat/history/:sessionId', async (req, res) => {
     const { sessionId } = req.params;
     
     if (CoachingEngine) {
-      const context = CoachingEngine.conversationManager.getSessionContext(sessionId);
+      const context = CoachingEngine.engine.getSessionContext(sessionId);
       
       if (context) {
         res.json({
@@ -356,6 +650,65 @@ app.get('/api/chat/history/:sessionId', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/users/:userId/data
+ * Export everything stored about a user as a JSON archive
+ * Requires the user's token or the admin token as a bearer token
+ */
+app.get('/api/users/:userId/data', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    if (!getBearerToken(req)) {
+      return res.status(401).json({ error: 'Authorization required' });
+    }
+    if (!isAuthorizedForUser(req, userId)) {
+      return res.status(403).json({ error: 'Not allowed to access this user' });
+    }
+    if (!CoachingEngine) {
+      return res.status(503).json({ error: 'Coaching engine not available' });
+    }
+    
+    const archive = await CoachingEngine.dataStore.exportUserData(userId);
+    
+    res.set('Content-Disposition', `attachment; filename="worklife-${encodeURIComponent(userId)}.json"`);
+    res.json(archive);
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    res.status(500).json({ error: 'Failed to export user data' });
+  }
+});
+
+/**
+ * DELETE /api/users/:userId/data
+ * Erase a user's data and close their active sessions
+ * Requires the user's token or the admin token as a bearer token
+ */
+app.delete('/api/users/:userId/data', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    if (!getBearerToken(req)) {
+      return res.status(401).json({ error: 'Authorization required' });
+    }
+    if (!isAuthorizedForUser(req, userId)) {
+      return res.status(403).json({ error: 'Not allowed to access this user' });
+    }
+    if (!CoachingEngine) {
+      return res.status(503).json({ error: 'Coaching engine not available' });
+    }
+    
+    removeServerSessions(userId);
+    
+    const report = await CoachingEngine.engine.deleteUserData(userId);
+    
+    res.json(report);
+  } catch (error) {
+    console.error('Error deleting user data:', error);
+    res.status(500).json({ error: 'Failed to delete user data' });
+  }
+});
+
 /**
  * GET /
  * Serve the landing page
@@ -366,18 +719,21 @@ app.get('/', (req, res) => {
 
 /**
  * GET /health
- * Health check endpoint
+ * Health check endpoint, with whether each language model answered its last check
+ * Served from the cached checks, so probes never call a provider themselves
  */
 app.get('/health', (req, res) => {
   res.json({
     status: 'ok',
     coachingEngine: CoachingEngine ? 'loaded' : 'mock',
+    llm: llmHealth ? llmHealth.getHealth() : [],
+    llmCheckedAt: llmHealth ? llmHealth.getCheckedAt() : null,
     timestamp: new Date()
   });
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log('\n🚀 WorkLife AI Coach Server Started!\n');
   console.log(`   Local:   http://localhost:${PORT}`);
   console.log(`   Network: http://127.0.0.1:${PORT}\n`);
@@ -390,7 +746,9 @@ app.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
+  server.close(async () => {
     console.log('HTTP server closed');
+    // Let a disk-backed store finish its last write
+    await CoachingEngine?.close();
   });
 });
@@ -0,0 +1,40 @@
+/**
+ * Tests for message anonymization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { anonymizeEntities, anonymizeText } from './anonymizer.js';
+import { recognizeIntent } from '../intent/intentRecognizer.js';
+
+describe('anonymizeText', () => {
+  it('should replace contact details and names', () => {
+    expect(anonymizeText('Email me at jane.doe@example.com or call +1 555-123-4567'))
+      .toBe('Email me at [EMAIL] or call [PHONE]');
+    expect(anonymizeText('My name is Jane Doe, my portfolio is https://jane.dev/work'))
+      .toBe('My name is [NAME], my portfolio is [URL]');
+  });
+
+  it('should replace companies and locations the user mentions', () => {
+    expect(anonymizeText('I work at Google and want to grow')).toBe('I work at [COMPANY] and want to grow');
+    expect(anonymizeText("I'm a nurse based in London")).toBe("I'm a nurse based in [LOCATION]");
+  });
+
+  it('should keep everything else word for word', () => {
+    const message = 'I worked there from 2019-2023 and earn $80,000, what skills should I learn?';
+
+    expect(anonymizeText(message)).toBe(message);
+  });
+});
+
+describe('anonymizeEntities', () => {
+  it('should drop the text and offsets of mentions and the values of companies', () => {
+    const { entities } = recognizeIntent("I'm a senior data analyst at Acme");
+    const anonymized = anonymizeEntities(entities);
+
+    expect(JSON.stringify(anonymized)).not.toContain('Acme');
+    expect(anonymized.mentions).toContainEqual({ kind: 'company', value: '[COMPANY]' });
+    expect(anonymized.mentions.every((mention: object) => !('start' in mention) && !('text' in mention))).toBe(true);
+    expect(anonymized.mentions).toContainEqual({ kind: 'job_title', value: { title: 'senior data analyst', current: true } });
+    expect(entities.mentions[0].text).toBe('senior data analyst');
+  });
+});
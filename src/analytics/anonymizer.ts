@@ -0,0 +1,64 @@
+/**
+ * Message anonymization for analytics
+ * Strips contact details and the companies and places a user names, so logged
+ * messages can be reviewed and trained on without identifying anyone.
+ */
+
+import { extractRichEntities } from '../intent/entityExtractor.js';
+
+const CONTACT_PATTERNS: { placeholder: string; pattern: RegExp }[] = [
+  { placeholder: '[EMAIL]', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { placeholder: '[URL]', pattern: /\b(?:https?:\/\/|www\.)\S+/gi },
+  { placeholder: '[PHONE]', pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}\b/g },
+];
+
+const NAME_PATTERN = /\b([Mm]y name is|[Ii] am called|[Cc]all me)\s+[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)?/g;
+
+const ENTITY_PLACEHOLDERS: Record<string, string> = {
+  company: '[COMPANY]',
+  location: '[LOCATION]',
+};
+
+/**
+ * Replaces emails, URLs, phone numbers, names, companies and locations with placeholders
+ * The rest of the message is kept word for word, so it still reads as the user wrote it
+ */
+export function anonymizeText(message: string): string {
+  // Replace entity spans from the end so earlier offsets stay valid
+  let text = message;
+  const spans = extractRichEntities(message)
+    .filter(entity => ENTITY_PLACEHOLDERS[entity.kind])
+    .sort((a, b) => b.start - a.start);
+  let lastStart = Infinity;
+  for (const entity of spans) {
+    if (entity.end <= lastStart) {
+      text = text.slice(0, entity.start) + ENTITY_PLACEHOLDERS[entity.kind] + text.slice(entity.end);
+      lastStart = entity.start;
+    }
+  }
+
+  for (const { placeholder, pattern } of CONTACT_PATTERNS) {
+    text = text.replace(pattern, placeholder);
+  }
+  return text.replace(NAME_PATTERN, '$1 [NAME]');
+}
+
+/**
+ * Copies intent entities without anything that could identify the user
+ * Profile details found in the message keep their kind but lose their text and
+ * offsets; companies and locations lose their values too
+ */
+export function anonymizeEntities(entities: Record<string, any>): Record<string, any> {
+  const { mentions, ...rest } = entities;
+  if (!Array.isArray(mentions)) {
+    return { ...rest };
+  }
+
+  return {
+    ...rest,
+    mentions: mentions.map(({ kind, value }) => ({
+      kind,
+      value: ENTITY_PLACEHOLDERS[kind] ?? value,
+    })),
+  };
+}
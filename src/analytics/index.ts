@@ -0,0 +1,7 @@
+/**
+ * Export intent analytics components
+ */
+
+export * from './anonymizer.js';
+export * from './intentLog.js';
+export * from './intentAnalytics.js';
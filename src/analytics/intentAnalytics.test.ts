@@ -0,0 +1,133 @@
+/**
+ * Tests for intent analytics and the review queue
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IntentAnalytics, inferReaction } from './intentAnalytics.js';
+import { Intent } from '../models/index.js';
+import { ValidationError } from '../utils/validation.js';
+
+function intent(type: Intent['type'], confidence: number, entities: Record<string, any> = {}): Intent {
+  return { type, confidence, entities, language: 'en' };
+}
+
+describe('inferReaction', () => {
+  it('should read thanks as positive and complaints as negative', () => {
+    expect(inferReaction('Thanks, that helps a lot')).toBe('positive');
+    expect(inferReaction("That's not what I asked")).toBe('negative');
+    expect(inferReaction("Thanks, but that's not what I asked")).toBe('negative');
+    expect(inferReaction('What about salaries?')).toBe('neutral');
+  });
+});
+
+describe('IntentAnalytics', () => {
+  let analytics: IntentAnalytics;
+
+  beforeEach(() => {
+    analytics = new IntentAnalytics();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record anonymized turns and read the next message as a reaction', async () => {
+    const first = await analytics.recordTurn('session_1', 'I work at Google, what should I learn?', [
+      intent('skill_guidance', 0.8),
+      intent('growth_planning', 0.6),
+    ]);
+    expect(first.text).toBe('I work at [COMPANY], what should I learn?');
+    expect(first.intents).toEqual([
+      { type: 'skill_guidance', confidence: 0.8 },
+      { type: 'growth_planning', confidence: 0.6 },
+    ]);
+    expect(first.language).toBe('en');
+
+    await analytics.recordTurn('session_1', "That's not what I asked", [intent('profile_building', 0.3)]);
+    await analytics.recordTurn('session_2', 'Thanks!', [intent('profile_building', 0.3)]);
+
+    expect((await analytics.getStats()).reactions).toEqual({ positive: 0, negative: 1, neutral: 0 });
+  });
+
+  it('should erase a user\'s records and purge old ones', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T10:00:00Z'));
+    await analytics.recordTurn('session_1', 'What should I learn?', [intent('skill_guidance', 0.8)], 'user-1');
+    vi.setSystemTime(new Date('2024-03-05T10:00:00Z'));
+    await analytics.recordTurn('session_2', 'Should I switch jobs?', [intent('career_clarity', 0.8)], 'user-2');
+    await analytics.recordTurn('session_1', 'And then?', [intent('skill_guidance', 0.8)], 'user-1');
+
+    expect(await analytics.eraseUserRecords('user-1')).toBe(2);
+    expect(await analytics.purgeRecordsBefore(new Date('2024-03-06T00:00:00Z'), true)).toBe(1);
+    expect((await analytics.getStats()).total).toBe(1);
+    expect(await analytics.purgeRecordsBefore(new Date('2024-03-06T00:00:00Z'))).toBe(1);
+    expect((await analytics.getStats()).total).toBe(0);
+  });
+
+  it('should not read a message as a reaction once its session has ended', async () => {
+    await analytics.recordTurn('session_1', 'What should I learn?', [intent('skill_guidance', 0.8)]);
+    analytics.endSession('session_1');
+    await analytics.recordTurn('session_1', "That's not what I asked", [intent('profile_building', 0.3)]);
+
+    expect((await analytics.getStats()).reactions).toEqual({ positive: 0, negative: 0, neutral: 0 });
+  });
+
+  it('should keep explicit reactions over inferred ones', async () => {
+    const first = await analytics.recordTurn('session_1', 'What should I learn?', [intent('skill_guidance', 0.8)]);
+    await analytics.recordReaction(first.id, 'positive');
+    await analytics.recordTurn('session_1', "That's wrong", [intent('profile_building', 0.3)]);
+
+    expect((await analytics.getStats()).reactions.positive).toBe(1);
+  });
+
+  it('should sum up intents, low confidence and days', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T10:00:00Z'));
+    await analytics.recordTurn(undefined, 'What should I learn?', [intent('skill_guidance', 0.8)]);
+    await analytics.recordTurn(undefined, 'hmm', [intent('profile_building', 0.2)]);
+    vi.setSystemTime(new Date('2024-03-02T10:00:00Z'));
+    await analytics.recordTurn(undefined, 'Which skills matter?', [intent('skill_guidance', 0.4)]);
+
+    const stats = await analytics.getStats();
+    expect(stats.total).toBe(3);
+    expect(stats.distribution.skill_guidance).toBe(2);
+    expect(stats.distribution.mindset_support).toBe(0);
+    expect(stats.lowConfidence).toBe(2);
+    expect(stats.lowConfidenceRate).toBeCloseTo(2 / 3);
+    expect(stats.byDay.map(({ date, total, lowConfidence }) => ({ date, total, lowConfidence }))).toEqual([
+      { date: '2024-03-01', total: 2, lowConfidence: 1 },
+      { date: '2024-03-02', total: 1, lowConfidence: 1 },
+    ]);
+
+    const secondDay = await analytics.getStats({ from: new Date('2024-03-02T00:00:00Z') });
+    expect(secondDay.total).toBe(1);
+    expect((await new IntentAnalytics().getStats()).lowConfidenceRate).toBe(0);
+  });
+
+  it('should queue complaints and low-confidence messages until they are relabeled', async () => {
+    const confident = await analytics.recordTurn('session_1', 'What should I learn?', [intent('skill_guidance', 0.9)]);
+    const complaint = await analytics.recordTurn('session_1', 'No, I meant how to get promoted', [intent('skill_guidance', 0.45)]);
+    const unsure = await analytics.recordTurn(undefined, 'hmm', [intent('profile_building', 0.2)]);
+
+    // The complaint is about the answer to the confident message
+    const queue = await analytics.getReviewQueue();
+    expect(queue.map(record => record.id)).toEqual([confident.id, unsure.id, complaint.id]);
+    expect(await analytics.getReviewQueue(1)).toHaveLength(1);
+
+    const relabeled = await analytics.relabel(unsure.id, ['mindset_support', 'mindset_support'], 'sam');
+    expect(relabeled.reviewedIntents).toEqual(['mindset_support']);
+    expect(relabeled.reviewer).toBe('sam');
+    expect((await analytics.getReviewQueue()).map(record => record.id)).not.toContain(unsure.id);
+    expect(await analytics.exportReviewed()).toEqual([{ text: 'hmm', intents: ['mindset_support'] }]);
+    expect((await analytics.getStats()).reviewed).toBe(1);
+  });
+
+  it('should reject unknown intent types and records', async () => {
+    const record = await analytics.recordTurn(undefined, 'hmm', [intent('profile_building', 0.2)]);
+
+    await expect(analytics.relabel(record.id, ['chit_chat' as Intent['type']])).rejects.toThrow(ValidationError);
+    await expect(analytics.relabel(record.id, [])).rejects.toThrow(ValidationError);
+    await expect(analytics.relabel('intent_missing', ['skill_guidance'])).rejects.toThrow('No intent record');
+    await expect(analytics.recordTurn(undefined, 'hmm', [])).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Intent analytics and review queue
+ * Logs what intent each message was recognized as and how the user took the answer,
+ * sums the log up for dashboards, and lets the team relabel the messages the
+ * classifier was unsure of so they can be added to the training corpus.
+ */
+
+import { Intent } from '../models/index.js';
+import { INTENT_TYPES } from '../intent/intentClassifier.js';
+import { DEFAULT_INTENT_THRESHOLD } from '../intent/intentRecognizer.js';
+import { LabeledExample } from '../intent/naiveBayesClassifier.js';
+import { ValidationError } from '../utils/validation.js';
+import { anonymizeEntities, anonymizeText } from './anonymizer.js';
+import { UserRecordHolder } from '../persistence/userData.js';
+import {
+  InMemoryIntentLogStore,
+  IntentLogRecord,
+  IntentLogStore,
+  IntentReaction,
+  intentLogUserKey
+} from './intentLog.js';
+
+export interface IntentAnalyticsConfig {
+  /** Records whose main intent is less confident than this go to the review queue */
+  lowConfidenceThreshold: number;
+  /** Records returned by the review queue when no limit is given */
+  reviewQueueSize: number;
+}
+
+export const DEFAULT_INTENT_ANALYTICS_CONFIG: IntentAnalyticsConfig = {
+  lowConfidenceThreshold: DEFAULT_INTENT_THRESHOLD,
+  reviewQueueSize: 20,
+};
+
+/**
+ * Counts for the records of one day
+ */
+export interface IntentDayStats {
+  /** UTC date, YYYY-MM-DD */
+  date: string;
+  total: number;
+  lowConfidence: number;
+  distribution: Record<Intent['type'], number>;
+}
+
+export interface IntentStats {
+  total: number;
+  /** Records by main intent */
+  distribution: Record<Intent['type'], number>;
+  lowConfidence: number;
+  /** Share of records below the low-confidence threshold, 0 when there are none */
+  lowConfidenceRate: number;
+  /** Records by reaction; records without one are not counted */
+  reactions: Record<IntentReaction, number>;
+  /** Records already relabeled by a reviewer */
+  reviewed: number;
+  /** One entry per day with records, oldest first */
+  byDay: IntentDayStats[];
+}
+
+const POSITIVE_REACTIONS = /\b(?:thanks|thank you|thx|that helps|that helped|(?:very |really )?helpful|perfect|great advice|exactly what i (?:needed|wanted))\b/i;
+const NEGATIVE_REACTIONS = /\b(?:not what i (?:asked|meant|wanted)|that'?s (?:not (?:it|right|helpful)|wrong)|(?:doesn'?t|does not|didn'?t|did not) help|not helpful|you misunderstood|(?:that|this) is (?:wrong|irrelevant)|no,? i meant)\b/i;
+
+/**
+ * Reads a reply as a reaction to the answer before it
+ * Complaints win over thanks, since "thanks, but that's not what I asked" is a complaint
+ */
+export function inferReaction(reply: string): IntentReaction {
+  if (NEGATIVE_REACTIONS.test(reply)) {
+    return 'negative';
+  }
+  return POSITIVE_REACTIONS.test(reply) ? 'positive' : 'neutral';
+}
+
+function countByType(): Record<Intent['type'], number> {
+  return Object.fromEntries(INTENT_TYPES.map(type => [type, 0])) as Record<Intent['type'], number>;
+}
+
+/**
+ * Records recognized intents and turns low-confidence ones into labeled examples
+ * Records keep message text, so they are erased with their user and purged with old messages.
+ */
+export class IntentAnalytics implements UserRecordHolder {
+  private config: IntentAnalyticsConfig;
+  /** Latest record of each session, whose reaction the next message reveals */
+  private lastRecordBySession: Map<string, { recordId: string; userKey?: string }> = new Map();
+
+  constructor(
+    private readonly store: IntentLogStore = new InMemoryIntentLogStore(),
+    config: Partial<IntentAnalyticsConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_INTENT_ANALYTICS_CONFIG, ...config };
+  }
+
+  /**
+   * Logs the intents recognized in a message, anonymized
+   * The message is also read as the reaction to the previous answer of the session,
+   * unless that answer already has one.
+   * @param intents - Intents acted on, main one first
+   * @param userId - Sender of the message, so their records can be erased later
+   */
+  async recordTurn(
+    sessionId: string | undefined,
+    message: string,
+    intents: Intent[],
+    userId?: string
+  ): Promise<IntentLogRecord> {
+    if (intents.length === 0) {
+      throw new ValidationError('At least one intent is required', 'intents', intents);
+    }
+
+    if (sessionId) {
+      await this.recordImplicitReaction(sessionId, message);
+    }
+
+    const [main] = intents;
+    const record: IntentLogRecord = {
+      id: this.generateRecordId(),
+      recordedAt: new Date(),
+      text: anonymizeText(message),
+      type: main.type,
+      confidence: main.confidence,
+      intents: intents.map(({ type, confidence }) => ({ type, confidence })),
+      entities: anonymizeEntities(main.entities),
+    };
+    if (userId) {
+      record.userKey = intentLogUserKey(userId);
+    }
+    if (sessionId) {
+      record.sessionId = sessionId;
+      this.lastRecordBySession.set(sessionId, { recordId: record.id, userKey: record.userKey });
+    }
+    if (main.language) {
+      record.language = main.language;
+    }
+
+    await this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Records how the user took the answer to a logged message, e.g. from a thumbs up or down
+   */
+  async recordReaction(recordId: string, reaction: IntentReaction): Promise<IntentLogRecord> {
+    return this.store.update(recordId, { reaction });
+  }
+
+  /**
+   * Forgets the session's latest record once the session has ended, since no reply will follow
+   */
+  endSession(sessionId: string): void {
+    this.lastRecordBySession.delete(sessionId);
+  }
+
+  /**
+   * Sums up the records logged in a time range, both ends included
+   */
+  async getStats(range: { from?: Date; to?: Date } = {}): Promise<IntentStats> {
+    const records = (await this.store.list()).filter(record =>
+      (!range.from || record.recordedAt >= range.from) && (!range.to || record.recordedAt <= range.to)
+    );
+
+    const stats: IntentStats = {
+      total: records.length,
+      distribution: countByType(),
+      lowConfidence: 0,
+      lowConfidenceRate: 0,
+      reactions: { positive: 0, negative: 0, neutral: 0 },
+      reviewed: 0,
+      byDay: [],
+    };
+    const days = new Map<string, IntentDayStats>();
+
+    for (const record of records) {
+      const lowConfidence = this.isLowConfidence(record);
+      stats.distribution[record.type]++;
+      if (lowConfidence) {
+        stats.lowConfidence++;
+      }
+      if (record.reaction) {
+        stats.reactions[record.reaction]++;
+      }
+      if (record.reviewedIntents) {
+        stats.reviewed++;
+      }
+
+      const date = record.recordedAt.toISOString().slice(0, 10);
+      const day = days.get(date) ?? { date, total: 0, lowConfidence: 0, distribution: countByType() };
+      day.total++;
+      day.distribution[record.type]++;
+      if (lowConfidence) {
+        day.lowConfidence++;
+      }
+      days.set(date, day);
+    }
+
+    stats.lowConfidenceRate = records.length > 0 ? stats.lowConfidence / records.length : 0;
+    stats.byDay = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+    return stats;
+  }
+
+  /**
+   * Records waiting for a reviewer: low-confidence ones and those the user complained about
+   * Complaints come first, then the least confident records, then the oldest
+   */
+  async getReviewQueue(limit: number = this.config.reviewQueueSize): Promise<IntentLogRecord[]> {
+    const pending = (await this.store.list()).filter(record =>
+      !record.reviewedIntents && (this.isLowConfidence(record) || record.reaction === 'negative')
+    );
+
+    return pending
+      .sort((a, b) =>
+        Number(b.reaction === 'negative') - Number(a.reaction === 'negative') ||
+        a.confidence - b.confidence ||
+        a.recordedAt.getTime() - b.recordedAt.getTime()
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Sets the intents a reviewer says a logged message expresses
+   * @param intents - Intent types, main one first
+   * @throws ValidationError for unknown intent types or record IDs
+   */
+  async relabel(recordId: string, intents: Intent['type'][], reviewer?: string): Promise<IntentLogRecord> {
+    if (intents.length === 0 || !intents.every(type => INTENT_TYPES.includes(type))) {
+      throw new ValidationError('Relabeled intents must be known intent types', 'intents', intents);
+    }
+    if (!(await this.store.get(recordId))) {
+      throw new ValidationError(`No intent record with ID ${recordId}`, 'id', recordId);
+    }
+
+    return this.store.update(recordId, {
+      reviewedIntents: [...new Set(intents)],
+      reviewedAt: new Date(),
+      ...(reviewer ? { reviewer } : {}),
+    });
+  }
+
+  /**
+   * Relabeled records as corpus examples, oldest first
+   */
+  async exportReviewed(): Promise<LabeledExample[]> {
+    return (await this.store.list())
+      .filter(record => record.reviewedIntents)
+      .map(record => ({ text: record.text, intents: record.reviewedIntents! }));
+  }
+
+  /**
+   * Deletes every record of a user's messages
+   */
+  async eraseUserRecords(userId: string): Promise<number> {
+    const userKey = intentLogUserKey(userId);
+    for (const [sessionId, latest] of this.lastRecordBySession) {
+      if (latest.userKey === userKey) {
+        this.lastRecordBySession.delete(sessionId);
+      }
+    }
+    return this.store.deleteUserRecords(userKey);
+  }
+
+  /**
+   * Deletes the records logged before a time
+   * @param dryRun - Only count the records that would be deleted
+   */
+  async purgeRecordsBefore(before: Date, dryRun = false): Promise<number> {
+    if (dryRun) {
+      return (await this.store.list()).filter(record => record.recordedAt < before).length;
+    }
+    return this.store.deleteRecordsBefore(before);
+  }
+
+  private async recordImplicitReaction(sessionId: string, message: string): Promise<void> {
+    const previousId = this.lastRecordBySession.get(sessionId)?.recordId;
+    if (!previousId) {
+      return;
+    }
+    const previous = await this.store.get(previousId);
+    if (previous && !previous.reaction) {
+      await this.store.update(previousId, { reaction: inferReaction(message) });
+    }
+  }
+
+  private isLowConfidence(record: IntentLogRecord): boolean {
+    return record.confidence < this.config.lowConfidenceThreshold;
+  }
+
+  private generateRecordId(): string {
+    return `intent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Tests for intent log stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileIntentLogStore,
+  InMemoryIntentLogStore,
+  IntentLogRecord,
+  IntentLogStore,
+  intentLogUserKey
+} from './intentLog.js';
+import { DataIntegrityError } from '../utils/errorHandling.js';
+import { ValidationError } from '../utils/validation.js';
+
+function createRecord(id: string): IntentLogRecord {
+  return {
+    id,
+    recordedAt: new Date('2024-03-01T10:00:00Z'),
+    sessionId: 'session_1',
+    text: 'What should I learn?',
+    type: 'skill_guidance',
+    confidence: 0.4,
+    intents: [{ type: 'skill_guidance', confidence: 0.4 }],
+    entities: {},
+  };
+}
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-intent-log-'));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['InMemoryIntentLogStore', () => new InMemoryIntentLogStore()],
+  ['FileIntentLogStore', () => new FileIntentLogStore(path.join(tempDir, 'log.json'))],
+])('%s', (_name, createStore: () => IntentLogStore) => {
+  it('should append, update and list copies of records', async () => {
+    const store = createStore();
+    const record = createRecord('intent_1');
+    await store.append(record);
+    record.text = 'changed';
+
+    const updated = await store.update('intent_1', {
+      reviewedIntents: ['growth_planning'],
+      reviewedAt: new Date('2024-03-02T10:00:00Z'),
+    });
+
+    expect(updated.reviewedIntents).toEqual(['growth_planning']);
+    expect(await store.get('intent_1')).toEqual({ ...createRecord('intent_1'), ...updated });
+    expect((await store.list()).map(({ text }) => text)).toEqual(['What should I learn?']);
+    expect(await store.get('intent_2')).toBeNull();
+  });
+
+  it('should reject updates of unknown records', async () => {
+    await expect(createStore().update('intent_2', { reaction: 'positive' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should delete the records of one user and records older than a cutoff', async () => {
+    const store = createStore();
+    const userKey = intentLogUserKey('user-1');
+    await store.append({ ...createRecord('intent_1'), userKey });
+    await store.append({ ...createRecord('intent_2'), userKey: intentLogUserKey('user-2') });
+    await store.append({ ...createRecord('intent_3'), recordedAt: new Date('2024-03-05T10:00:00Z') });
+
+    expect(await store.deleteUserRecords(userKey)).toBe(1);
+    expect(await store.deleteUserRecords(userKey)).toBe(0);
+    expect(await store.deleteRecordsBefore(new Date('2024-03-02T00:00:00Z'))).toBe(1);
+    expect((await store.list()).map(({ id }) => id)).toEqual(['intent_3']);
+  });
+});
+
+describe('intentLogUserKey', () => {
+  it('should key each user apart without revealing the user ID', () => {
+    expect(intentLogUserKey('user-1')).toBe(intentLogUserKey('user-1'));
+    expect(intentLogUserKey('user-1')).not.toBe(intentLogUserKey('user-2'));
+    expect(intentLogUserKey('user-1')).not.toContain('user-1');
+  });
+});
+
+describe('FileIntentLogStore', () => {
+  it('should keep records across instances with their dates', async () => {
+    const filePath = path.join(tempDir, 'log.json');
+    await new FileIntentLogStore(filePath).append(createRecord('intent_1'));
+    await new FileIntentLogStore(filePath).update('intent_1', { reaction: 'negative' });
+
+    const [record] = await new FileIntentLogStore(filePath).list();
+    expect(record.recordedAt).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(record.reaction).toBe('negative');
+  });
+
+  it('should refuse a corrupt log file', async () => {
+    const filePath = path.join(tempDir, 'log.json');
+    await fs.writeFile(filePath, '{"version": 1');
+
+    await expect(new FileIntentLogStore(filePath).list()).rejects.toThrow(DataIntegrityError);
+  });
+
+  it('should append a record once when a write has to be retried', async () => {
+    const filePath = path.join(tempDir, 'log.json');
+    const store = new FileIntentLogStore(filePath);
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('disk busy'), { code: 'EBUSY' }));
+
+    await store.append(createRecord('intent_1'));
+
+    expect((await store.list()).map(record => record.id)).toEqual(['intent_1']);
+    expect((await new FileIntentLogStore(filePath).list()).map(record => record.id)).toEqual(['intent_1']);
+  });
+
+  it('should undo changes whose write keeps failing', async () => {
+    const filePath = path.join(tempDir, 'log.json');
+    const store = new FileIntentLogStore(filePath);
+    await store.append({ ...createRecord('intent_1'), userKey: intentLogUserKey('user_1') });
+    vi.spyOn(fs, 'rename').mockRejectedValue(new Error('disk full'));
+
+    await expect(store.append(createRecord('intent_2'))).rejects.toThrow('disk full');
+    await expect(store.update('intent_1', { reaction: 'negative' })).rejects.toThrow('disk full');
+    await expect(store.deleteUserRecords(intentLogUserKey('user_1'))).rejects.toThrow('disk full');
+
+    const records = await store.list();
+    expect(records.map(record => record.id)).toEqual(['intent_1']);
+    expect(records[0].reaction).toBeUndefined();
+
+    vi.restoreAllMocks();
+    await store.append(createRecord('intent_3'));
+    expect((await new FileIntentLogStore(filePath).list()).map(record => record.id)).toEqual(['intent_1', 'intent_3']);
+  });
+});
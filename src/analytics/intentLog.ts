@@ -0,0 +1,271 @@
+/**
+ * Intent log storage
+ * Keeps one anonymized record per recognized message, with how the user reacted
+ * to the answer and any corrected labels from review. Records carry no user ID, only
+ * a one-way key of the user, so a user's records can still be erased.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { Intent } from '../models/index.js';
+import { Language } from '../i18n/languages.js';
+import { writeFileAtomic } from '../persistence/atomicWrite.js';
+import { DataIntegrityError, withRetry } from '../utils/errorHandling.js';
+import { ValidationError } from '../utils/validation.js';
+
+/**
+ * How the user took the answer to a message
+ */
+export type IntentReaction = 'positive' | 'negative' | 'neutral';
+
+export interface IntentLogRecord {
+  id: string;
+  recordedAt: Date;
+  /** Links the turns of one conversation, so a reply can be read as a reaction */
+  sessionId?: string;
+  /** Key of the user who sent the message (see intentLogUserKey), so their records can be erased */
+  userKey?: string;
+  /** The message with contact details, names, companies and places replaced */
+  text: string;
+  language?: Language;
+  /** Main intent and its confidence */
+  type: Intent['type'];
+  confidence: number;
+  /** Every intent acted on, most likely first */
+  intents: { type: Intent['type']; confidence: number }[];
+  /** Entities of the main intent, anonymized */
+  entities: Record<string, any>;
+  reaction?: IntentReaction;
+  /** Intents a reviewer says the message expresses, main one first */
+  reviewedIntents?: Intent['type'][];
+  reviewedAt?: Date;
+  reviewer?: string;
+}
+
+/**
+ * Changes that can be made to a record after it is logged
+ */
+export type IntentLogUpdate = Partial<Pick<IntentLogRecord, 'reaction' | 'reviewedIntents' | 'reviewedAt' | 'reviewer'>>;
+
+export interface IntentLogStore {
+  append(record: IntentLogRecord): Promise<void>;
+  /**
+   * @throws ValidationError when no record has the ID
+   */
+  update(id: string, changes: IntentLogUpdate): Promise<IntentLogRecord>;
+  get(id: string): Promise<IntentLogRecord | null>;
+  /** Every record, oldest first */
+  list(): Promise<IntentLogRecord[]>;
+  /** Deletes the records of one user; returns how many were deleted */
+  deleteUserRecords(userKey: string): Promise<number>;
+  /** Deletes the records logged before a time; returns how many were deleted */
+  deleteRecordsBefore(before: Date): Promise<number>;
+}
+
+/**
+ * The key a user's records are logged under; the user ID cannot be read back from it
+ */
+export function intentLogUserKey(userId: string): string {
+  return createHash('sha256').update(`worklife-intent-log:${userId}`).digest('hex');
+}
+
+function cloneRecord(record: IntentLogRecord): IntentLogRecord {
+  return reviveRecord(JSON.parse(JSON.stringify(record)));
+}
+
+function reviveRecord(record: any): IntentLogRecord {
+  return {
+    ...record,
+    recordedAt: new Date(record.recordedAt),
+    ...(record.reviewedAt ? { reviewedAt: new Date(record.reviewedAt) } : {}),
+  };
+}
+
+/**
+ * Intent log held in memory, for tests and single-process deployments
+ */
+export class InMemoryIntentLogStore implements IntentLogStore {
+  private records: IntentLogRecord[] = [];
+
+  async append(record: IntentLogRecord): Promise<void> {
+    return withRetry(async () => {
+      this.records.push(cloneRecord(record));
+    });
+  }
+
+  async update(id: string, changes: IntentLogUpdate): Promise<IntentLogRecord> {
+    return withRetry(async () => applyUpdate(this.records, id, changes));
+  }
+
+  async get(id: string): Promise<IntentLogRecord | null> {
+    return withRetry(async () => {
+      const record = this.records.find(candidate => candidate.id === id);
+      return record ? cloneRecord(record) : null;
+    });
+  }
+
+  async list(): Promise<IntentLogRecord[]> {
+    return withRetry(async () => this.records.map(cloneRecord));
+  }
+
+  async deleteUserRecords(userKey: string): Promise<number> {
+    return withRetry(async () => this.deleteWhere(record => record.userKey === userKey));
+  }
+
+  async deleteRecordsBefore(before: Date): Promise<number> {
+    return withRetry(async () => this.deleteWhere(record => record.recordedAt < before));
+  }
+
+  private deleteWhere(matches: (record: IntentLogRecord) => boolean): number {
+    const kept = this.records.filter(record => !matches(record));
+    const deleted = this.records.length - kept.length;
+    this.records = kept;
+    return deleted;
+  }
+}
+
+const LOG_VERSION = 1;
+
+/**
+ * Intent log kept in a JSON file, rewritten atomically after every change
+ */
+export class FileIntentLogStore implements IntentLogStore {
+  private records: IntentLogRecord[] = [];
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async append(record: IntentLogRecord): Promise<void> {
+    await this.commit(() => {
+      this.records = [...this.records, cloneRecord(record)];
+    });
+  }
+
+  async update(id: string, changes: IntentLogUpdate): Promise<IntentLogRecord> {
+    return this.commit(() => {
+      const records = [...this.records];
+      const updated = applyUpdate(records, id, changes);
+      this.records = records;
+      return updated;
+    });
+  }
+
+  async get(id: string): Promise<IntentLogRecord | null> {
+    return withRetry(async () => {
+      await this.ensureLoaded();
+      const record = this.records.find(candidate => candidate.id === id);
+      return record ? cloneRecord(record) : null;
+    });
+  }
+
+  async list(): Promise<IntentLogRecord[]> {
+    return withRetry(async () => {
+      await this.ensureLoaded();
+      return this.records.map(cloneRecord);
+    });
+  }
+
+  async deleteUserRecords(userKey: string): Promise<number> {
+    return this.deleteWhere(record => record.userKey === userKey);
+  }
+
+  async deleteRecordsBefore(before: Date): Promise<number> {
+    return this.deleteWhere(record => record.recordedAt < before);
+  }
+
+  private async deleteWhere(matches: (record: IntentLogRecord) => boolean): Promise<number> {
+    await withRetry(() => this.ensureLoaded());
+    if (!this.records.some(matches)) {
+      return 0;
+    }
+
+    return this.commit(() => {
+      const kept = this.records.filter(record => !matches(record));
+      const deleted = this.records.length - kept.length;
+      this.records = kept;
+      return deleted;
+    });
+  }
+
+  /**
+   * Applies a change and rewrites the log file
+   * Changes run one at a time and only the write is retried. A change whose write
+   * keeps failing is undone. Changes must replace the record list rather than modify it.
+   */
+  private async commit<T>(change: () => T): Promise<T> {
+    await withRetry(() => this.ensureLoaded());
+
+    const run = this.writeChain.then(async () => {
+      const before = this.records;
+      try {
+        const result = change();
+        await withRetry(() =>
+          writeFileAtomic(this.filePath, JSON.stringify({ version: LOG_VERSION, records: this.records }))
+        );
+        return result;
+      } catch (error) {
+        this.records = before;
+        throw error;
+      }
+    });
+    // Keep the chain alive even if this change fails
+    this.writeChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        // Allow a later call to retry the load
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let log: any;
+    try {
+      log = JSON.parse(raw);
+    } catch (error) {
+      throw new DataIntegrityError(`Intent log ${this.filePath} is not valid JSON`, { filePath: this.filePath });
+    }
+    if (!log || log.version !== LOG_VERSION || !Array.isArray(log.records)) {
+      throw new DataIntegrityError(`Unsupported intent log version in ${this.filePath}`, {
+        filePath: this.filePath,
+        version: log ? log.version : undefined
+      });
+    }
+
+    this.records = log.records.map(reviveRecord);
+  }
+}
+
+function applyUpdate(records: IntentLogRecord[], id: string, changes: IntentLogUpdate): IntentLogRecord {
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) {
+    throw new ValidationError(`No intent record with ID ${id}`, 'id', id);
+  }
+  records[index] = { ...records[index], ...cloneChanges(changes) };
+  return cloneRecord(records[index]);
+}
+
+function cloneChanges(changes: IntentLogUpdate): IntentLogUpdate {
+  return {
+    ...changes,
+    ...(changes.reviewedIntents ? { reviewedIntents: [...changes.reviewedIntents] } : {}),
+    ...(changes.reviewedAt ? { reviewedAt: new Date(changes.reviewedAt) } : {}),
+  };
+}
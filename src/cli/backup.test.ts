@@ -0,0 +1,86 @@
+/**
+ * Tests for the backup command-line tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runBackupCommand } from './backup.js';
+import { FileDataStore } from '../persistence/fileDataStore.js';
+import { SqliteDataStore } from '../persistence/sqliteDataStore.js';
+import { UserProfile } from '../models/core.js';
+
+const profile: UserProfile = {
+  userId: 'user-1',
+  personalInfo: { age: 40, currentRole: 'Accountant', yearsOfExperience: 15, education: 'BCom' },
+  careerInfo: { goals: [], interests: ['finance'], struggles: [] },
+  skills: { current: [], learning: [], target: [] },
+  mindset: { confidenceLevel: 0.7, motivationLevel: 0.6, primaryConcerns: [] },
+  progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+};
+
+describe('backup CLI', () => {
+  let tempDir: string;
+  let output: string[];
+  const log = (line: string) => output.push(line);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-backup-cli-'));
+    output = [];
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should snapshot a file store and restore it into SQLite', async () => {
+    const source = new FileDataStore(path.join(tempDir, 'data.json'));
+    await source.saveUserProfile(profile);
+    await source.flush();
+    const archive = path.join(tempDir, 'backup.json.gz');
+    const sqlitePath = path.join(tempDir, 'data.sqlite');
+
+    expect(await runBackupCommand(['snapshot', '--store', `file:${path.join(tempDir, 'data.json')}`, '--out', archive], log)).toBe(0);
+    expect(await runBackupCommand(['verify', '--in', archive], log)).toBe(0);
+    expect(await runBackupCommand(['restore', '--in', archive, '--store', `sqlite:${sqlitePath}`], log)).toBe(0);
+
+    expect(output).toEqual([
+      `Backed up 1 users to ${archive}`,
+      'Would restore 1 users (2 records)',
+      'Restored 1 users (2 records)',
+    ]);
+    const restored = await SqliteDataStore.open(sqlitePath);
+    expect((await restored.getUserProfile('user-1'))!.personalInfo.currentRole).toBe('Accountant');
+    await restored.close();
+  });
+
+  it('should write encrypted backups when a master key is set', async () => {
+    const storePath = path.join(tempDir, 'data.json');
+    const source = new FileDataStore(storePath);
+    await source.saveUserProfile({ ...profile, version: undefined });
+    await source.flush();
+    const archive = path.join(tempDir, 'backup.json.gz');
+    vi.stubEnv('WORKLIFE_MASTER_KEY', randomBytes(32).toString('base64'));
+
+    expect(await runBackupCommand(['snapshot', '--store', `file:${storePath}`, '--out', archive], log)).toBe(0);
+    expect(await runBackupCommand(['verify', '--in', archive], log)).toBe(0);
+    vi.stubEnv('WORKLIFE_MASTER_KEY', '');
+    expect(await runBackupCommand(['verify', '--in', archive], log)).toBe(1);
+
+    expect(output.slice(1)).toEqual([
+      'Would restore 1 users (2 records)',
+      `Error: Backup file ${archive} is encrypted; set WORKLIFE_MASTER_KEY to read it`,
+    ]);
+  });
+
+  it('should print usage for unknown commands and fail on missing flags', async () => {
+    expect(await runBackupCommand(['compact'], log)).toBe(1);
+    expect(output[0]).toContain('Usage:');
+
+    expect(await runBackupCommand(['snapshot', '--store', 'memory'], log)).toBe(1);
+    expect(output[1]).toContain('Missing --out');
+  });
+});
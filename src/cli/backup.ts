@@ -0,0 +1,98 @@
+/**
+ * Command-line backup tool for WorkLife data stores
+ *
+ *   npm run backup -- snapshot --store sqlite:./data/worklife.sqlite --out ./backups/worklife.json.gz
+ *   npm run backup -- restore --in ./backups/worklife.json.gz --store file:./data/worklife.json [--dry-run]
+ *   npm run backup -- verify --in ./backups/worklife.json.gz
+ *
+ * Stores are given as memory, file:<path> or sqlite:<path>. When WORKLIFE_MASTER_KEY
+ * is set, backups are written encrypted with it and conversations are encrypted
+ * again under the store's data keys on restore.
+ */
+
+import { pathToFileURL } from 'url';
+import {
+  openDataStore,
+  closeDataStore,
+  createBackup,
+  writeBackupFile,
+  readBackupFile,
+  restoreBackup,
+  RestoreReport
+} from '../persistence/backup.js';
+import { ConversationEncryption } from '../persistence/encryption.js';
+import { parseFlags, requireFlag } from './flags.js';
+
+const USAGE = `Usage:
+  backup snapshot --store <store> --out <file>
+  backup restore --in <file> --store <store> [--dry-run]
+  backup verify --in <file>
+
+<store> is memory, file:<path> or sqlite:<path>`;
+
+/**
+ * Runs a backup command
+ * @param args - Command-line arguments after the script name
+ * @param log - Where progress and reports are written
+ * @returns Process exit code
+ */
+export async function runBackupCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+  const [command, ...rest] = args;
+  const flags = parseFlags(rest);
+
+  try {
+    const encryption = ConversationEncryption.fromEnv() ?? undefined;
+
+    switch (command) {
+      case 'snapshot': {
+        const store = await openDataStore(requireFlag(flags, 'store', USAGE), { encryption });
+        const backup = await createBackup(store);
+        await closeDataStore(store);
+        await writeBackupFile(requireFlag(flags, 'out', USAGE), backup, encryption);
+        log(`Backed up ${backup.users.length} users to ${flags.out}`);
+        return 0;
+      }
+
+      case 'restore': {
+        const backup = await readBackupFile(requireFlag(flags, 'in', USAGE), encryption);
+        const store = await openDataStore(requireFlag(flags, 'store', USAGE), { encryption });
+        const report = await restoreBackup(backup, store, { dryRun: flags['dry-run'] === true });
+        await closeDataStore(store);
+        printReport(report, log);
+        return 0;
+      }
+
+      case 'verify': {
+        const backup = await readBackupFile(requireFlag(flags, 'in', USAGE), encryption);
+        const report = await restoreBackup(backup, await openDataStore('memory'), { dryRun: true });
+        printReport(report, log);
+        return report.skipped.length > 0 ? 2 : 0;
+      }
+
+      default:
+        log(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+function printReport(report: RestoreReport, log: (line: string) => void): void {
+  const verb = report.dryRun ? 'Would restore' : 'Restored';
+  log(`${verb} ${report.restoredUsers.length} users (${report.restoredRecords} records)`);
+
+  if (report.skipped.length > 0) {
+    log(`Skipped ${report.skipped.length} records:`);
+    for (const record of report.skipped) {
+      log(`  ${record.userId || '(no user)'} ${record.kind}${record.id ? ` ${record.id}` : ''}: ${record.reason}`);
+    }
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runBackupCommand(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
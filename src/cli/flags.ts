@@ -0,0 +1,39 @@
+/**
+ * Flag parsing shared by the command-line tools
+ */
+
+export type Flags = Record<string, string | true>;
+
+/**
+ * Parses --name value pairs; a flag without a value is true
+ */
+export function parseFlags(args: string[]): Flags {
+  const flags: Flags = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      continue;
+    }
+    const name = args[i].slice(2);
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      flags[name] = next;
+      i++;
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Returns the value of a flag, failing with the usage text when it is missing
+ */
+export function requireFlag(flags: Flags, name: string, usage: string): string {
+  const value = flags[name];
+  if (typeof value !== 'string') {
+    throw new Error(`Missing --${name}\n${usage}`);
+  }
+  return value;
+}
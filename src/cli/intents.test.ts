@@ -0,0 +1,96 @@
+/**
+ * Tests for the intent classifier command-line tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runIntentsCommand } from './intents.js';
+import { NaiveBayesIntentClassifier } from '../intent/naiveBayesClassifier.js';
+import { IntentAnalytics } from '../analytics/intentAnalytics.js';
+import { FileIntentLogStore } from '../analytics/intentLog.js';
+
+describe('intents CLI', () => {
+  let tempDir: string;
+  let output: string[];
+  const log = (line: string) => output.push(line);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-intents-cli-'));
+    output = [];
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should train, evaluate and export a model', async () => {
+    const modelPath = path.join(tempDir, 'models', 'intents.json');
+    const exportPath = path.join(tempDir, 'intents.min.json');
+
+    expect(await runIntentsCommand(['train', '--out', modelPath], log)).toBe(0);
+    expect(output[0]).toMatch(/^Trained on \d+ examples \(\d+ features\), saved to /);
+
+    expect(await runIntentsCommand(['evaluate', '--model', modelPath], log)).toBe(0);
+    expect(output).toContain('Confusion matrix (rows actual, columns predicted)');
+    expect(output.some(line => /^skill_guidance\s+\d+\.\d%/.test(line))).toBe(true);
+
+    expect(await runIntentsCommand(['export', '--model', modelPath, '--out', exportPath, '--min-count', '2'], log)).toBe(0);
+    const exported = NaiveBayesIntentClassifier.fromJSON(JSON.parse(await fs.readFile(exportPath, 'utf8')));
+    expect(exported.classify('What skill should I learn?')[0].type).toBe('skill_guidance');
+  });
+
+  it('should evaluate on a held-out split by default and the keyword baseline on request', async () => {
+    expect(await runIntentsCommand(['evaluate', '--holdout', '0.25'], log)).toBe(0);
+    expect(output[0]).toMatch(/^Evaluating naive Bayes trained on \d+ examples on \d+ examples$/);
+
+    expect(await runIntentsCommand(['evaluate', '--keyword'], log)).toBe(0);
+    expect(output).toContainEqual(expect.stringMatching(/^Evaluating keyword classifier on \d+ examples$/));
+  });
+
+  it('should report, review and relabel the intent log and export it to a corpus', async () => {
+    const logPath = path.join(tempDir, 'intent-log.json');
+    const corpusPath = path.join(tempDir, 'corpus.jsonl');
+    const analytics = new IntentAnalytics(new FileIntentLogStore(logPath));
+    const unsure = await analytics.recordTurn(undefined, 'hmm, no idea', [
+      { type: 'profile_building', confidence: 0.2, entities: {} },
+    ]);
+    await analytics.recordTurn(undefined, 'What skills should I learn?', [
+      { type: 'skill_guidance', confidence: 0.9, entities: {} },
+    ]);
+
+    expect(await runIntentsCommand(['stats', '--log', logPath, '--to', new Date().toISOString().slice(0, 10)], log)).toBe(0);
+    expect(output[0]).toBe('Messages 2, low confidence 1 (50.0%), relabeled 0');
+    expect(output).toContainEqual(expect.stringMatching(/^skill_guidance\s+1\s+50\.0%$/));
+
+    output = [];
+    expect(await runIntentsCommand(['review', '--log', logPath], log)).toBe(0);
+    expect(output).toEqual(['1 message to review', `${unsure.id}   20%  profile_building`, '    "hmm, no idea"']);
+
+    output = [];
+    expect(await runIntentsCommand(['relabel', '--log', logPath, '--id', unsure.id, '--intents', 'career_clarity, mindset_support'], log)).toBe(0);
+    expect(output).toEqual([`Relabeled ${unsure.id} as career_clarity, mindset_support`]);
+    expect(await runIntentsCommand(['relabel', '--log', logPath, '--id', unsure.id, '--intents', 'chit_chat'], log)).toBe(1);
+
+    output = [];
+    expect(await runIntentsCommand(['export-reviewed', '--log', logPath, '--corpus', corpusPath], log)).toBe(0);
+    expect(await runIntentsCommand(['export-reviewed', '--log', logPath, '--corpus', corpusPath], log)).toBe(0);
+    expect(output).toEqual([
+      `Added 1 of 1 relabeled messages to ${corpusPath}`,
+      `Added 0 of 1 relabeled messages to ${corpusPath}`,
+    ]);
+    expect(await fs.readFile(corpusPath, 'utf8')).toBe('{"text": "hmm, no idea", "intents": ["career_clarity", "mindset_support"]}\n');
+  });
+
+  it('should report bad input', async () => {
+    const corpusPath = path.join(tempDir, 'corpus.jsonl');
+    await fs.writeFile(corpusPath, '{"text": "hi", "intents": ["chit_chat"]}\n');
+
+    expect(await runIntentsCommand(['evaluate', '--corpus', corpusPath, '--keyword'], log)).toBe(1);
+    expect(output[0]).toMatch(/^Error: Corpus line 1/);
+    expect(await runIntentsCommand(['train'], log)).toBe(1);
+    expect(await runIntentsCommand(['classify'], log)).toBe(1);
+    expect(output[output.length - 1]).toMatch(/^Usage:/);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Command-line training and evaluation for intent classifiers
+ *
+ *   npm run intents -- train --out ./models/intents.json [--corpus <file>] [--alpha 1]
+ *   npm run intents -- evaluate [--corpus <file>] [--holdout 0.2]
+ *   npm run intents -- evaluate --model ./models/intents.json [--corpus <file>]
+ *   npm run intents -- evaluate --keyword [--corpus <file>]
+ *   npm run intents -- export --model ./models/intents.json --out ./models/intents.min.json [--min-count 2]
+ *   npm run intents -- stats --log ./data/intent-log.json [--from 2024-01-01] [--to 2024-01-31]
+ *   npm run intents -- review --log ./data/intent-log.json [--limit 20]
+ *   npm run intents -- relabel --log ./data/intent-log.json --id <record> --intents skill_guidance,growth_planning
+ *   npm run intents -- export-reviewed --log ./data/intent-log.json [--corpus <file>]
+ *
+ * The corpus defaults to the labeled examples checked into src/intent/data. Without a
+ * model, evaluate trains on the corpus and scores the held-out part of it. The log is
+ * the intent log file the server writes, WORKLIFE_INTENT_LOG (./data/intent-log.json by
+ * default); export-reviewed adds the relabeled messages to the corpus, skipping ones it
+ * already has.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { INTENT_TYPES, IntentClassifier, KeywordIntentClassifier } from '../intent/intentClassifier.js';
+import { NaiveBayesIntentClassifier } from '../intent/naiveBayesClassifier.js';
+import {
+  DEFAULT_CORPUS_PATH,
+  IntentEvaluation,
+  appendToIntentCorpus,
+  evaluateIntentClassifier,
+  loadIntentCorpus,
+  splitIntentCorpus
+} from '../intent/intentCorpus.js';
+import { IntentAnalytics, IntentStats } from '../analytics/intentAnalytics.js';
+import { FileIntentLogStore } from '../analytics/intentLog.js';
+import { Intent } from '../models/index.js';
+import { ValidationError } from '../utils/validation.js';
+import { Flags, parseFlags, requireFlag } from './flags.js';
+
+const USAGE = `Usage:
+  intents train --out <model> [--corpus <file>] [--alpha <smoothing>]
+  intents evaluate [--corpus <file>] [--model <model> | --keyword] [--holdout <fraction>]
+  intents export --model <model> --out <file> [--min-count <n>]
+  intents stats --log <file> [--from <date>] [--to <date>]
+  intents review --log <file> [--limit <n>]
+  intents relabel --log <file> --id <record> --intents <type,...> [--reviewer <name>]
+  intents export-reviewed --log <file> [--corpus <file>]`;
+
+/**
+ * Runs an intent classifier command
+ * @param args - Command-line arguments after the script name
+ * @param log - Where progress and reports are written
+ * @returns Process exit code
+ */
+export async function runIntentsCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+  const [command, ...rest] = args;
+  const flags = parseFlags(rest);
+  const corpusPath = typeof flags.corpus === 'string' ? flags.corpus : DEFAULT_CORPUS_PATH;
+
+  try {
+    switch (command) {
+      case 'train': {
+        const out = requireFlag(flags, 'out', USAGE);
+        const examples = await loadIntentCorpus(corpusPath);
+        const alpha = typeof flags.alpha === 'string' ? parseNumber(flags.alpha, 'alpha') : undefined;
+        const classifier = NaiveBayesIntentClassifier.train(examples, alpha === undefined ? {} : { alpha });
+        await writeModel(out, classifier);
+        log(`Trained on ${examples.length} examples (${classifier.vocabularySize} features), saved to ${out}`);
+        return 0;
+      }
+
+      case 'evaluate': {
+        const examples = await loadIntentCorpus(corpusPath);
+        const { classifier, testSet, description } = await chooseEvaluation(flags, examples);
+        log(`Evaluating ${description} on ${testSet.length} examples`);
+        printEvaluation(evaluateIntentClassifier(classifier, testSet), log);
+        return 0;
+      }
+
+      case 'export': {
+        const classifier = await readModel(requireFlag(flags, 'model', USAGE));
+        const out = requireFlag(flags, 'out', USAGE);
+        const minCount = typeof flags['min-count'] === 'string' ? parseNumber(flags['min-count'], 'min-count') : 1;
+        const exported = classifier.prune(minCount);
+        await writeModel(out, exported);
+        log(`Exported ${exported.vocabularySize} of ${classifier.vocabularySize} features to ${out}`);
+        return 0;
+      }
+
+      case 'stats': {
+        const analytics = openIntentLog(flags);
+        const from = typeof flags.from === 'string' ? parseDate(flags.from, 'from') : undefined;
+        let to = typeof flags.to === 'string' ? parseDate(flags.to, 'to') : undefined;
+        if (to && /^\d{4}-\d{2}-\d{2}$/.test(flags.to as string)) {
+          // A bare date includes the whole day
+          to = new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1);
+        }
+        printStats(await analytics.getStats({ from, to }), log);
+        return 0;
+      }
+
+      case 'review': {
+        const analytics = openIntentLog(flags);
+        const limit = typeof flags.limit === 'string' ? parseNumber(flags.limit, 'limit') : undefined;
+        const queue = await analytics.getReviewQueue(limit);
+        log(`${queue.length} message${queue.length === 1 ? '' : 's'} to review`);
+        for (const record of queue) {
+          const reaction = record.reaction === 'negative' ? '  (user complained)' : '';
+          log(`${record.id}  ${(record.confidence * 100).toFixed(0).padStart(3)}%  ${record.type}${reaction}`);
+          log(`    ${JSON.stringify(record.text)}`);
+        }
+        return 0;
+      }
+
+      case 'relabel': {
+        const analytics = openIntentLog(flags);
+        const id = requireFlag(flags, 'id', USAGE);
+        const intents = requireFlag(flags, 'intents', USAGE).split(',').map(type => type.trim()) as Intent['type'][];
+        const reviewer = typeof flags.reviewer === 'string' ? flags.reviewer : undefined;
+        const record = await analytics.relabel(id, intents, reviewer);
+        log(`Relabeled ${record.id} as ${record.reviewedIntents!.join(', ')}`);
+        return 0;
+      }
+
+      case 'export-reviewed': {
+        const reviewed = await openIntentLog(flags).exportReviewed();
+        const added = await appendToIntentCorpus(reviewed, corpusPath);
+        log(`Added ${added.length} of ${reviewed.length} relabeled messages to ${corpusPath}`);
+        return 0;
+      }
+
+      default:
+        log(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+async function chooseEvaluation(
+  flags: Flags,
+  examples: Awaited<ReturnType<typeof loadIntentCorpus>>
+): Promise<{ classifier: IntentClassifier; testSet: typeof examples; description: string }> {
+  if (flags.keyword === true) {
+    return { classifier: new KeywordIntentClassifier(), testSet: examples, description: 'keyword classifier' };
+  }
+  if (typeof flags.model === 'string') {
+    return { classifier: await readModel(flags.model), testSet: examples, description: flags.model };
+  }
+
+  const holdout = typeof flags.holdout === 'string' ? parseNumber(flags.holdout, 'holdout') : 0.2;
+  const { training, heldOut } = splitIntentCorpus(examples, holdout);
+  return {
+    classifier: NaiveBayesIntentClassifier.train(training),
+    testSet: heldOut,
+    description: `naive Bayes trained on ${training.length} examples`,
+  };
+}
+
+async function readModel(filePath: string): Promise<NaiveBayesIntentClassifier> {
+  return NaiveBayesIntentClassifier.fromJSON(JSON.parse(await fs.readFile(filePath, 'utf8')));
+}
+
+async function writeModel(filePath: string, classifier: NaiveBayesIntentClassifier): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(classifier.toJSON()));
+}
+
+function openIntentLog(flags: Flags): IntentAnalytics {
+  return new IntentAnalytics(new FileIntentLogStore(requireFlag(flags, 'log', USAGE)));
+}
+
+function parseDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a date`, field, value);
+  }
+  return date;
+}
+
+function parseNumber(value: string, field: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new ValidationError(`${field} must be a positive number`, field, value);
+  }
+  return number;
+}
+
+function printEvaluation(evaluation: IntentEvaluation, log: (line: string) => void): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const width = Math.max(...INTENT_TYPES.map(type => type.length));
+
+  log(`Accuracy ${percent(evaluation.accuracy).trim()}`);
+  log('');
+  log(`${'intent'.padEnd(width)}  precision   recall       f1  support`);
+  for (const type of INTENT_TYPES) {
+    const { precision, recall, f1, support } = evaluation.metrics[type];
+    log(`${type.padEnd(width)}    ${percent(precision)}  ${percent(recall)}  ${percent(f1)}  ${String(support).padStart(7)}`);
+  }
+
+  // Columns are predictions, abbreviated to the number of the intent's row
+  log('');
+  log('Confusion matrix (rows actual, columns predicted)');
+  log(`${''.padEnd(width + 4)}${INTENT_TYPES.map((_, i) => String(i + 1).padStart(4)).join('')}`);
+  INTENT_TYPES.forEach((actual, i) => {
+    const counts = INTENT_TYPES.map(predicted => String(evaluation.confusion[actual][predicted]).padStart(4));
+    log(`${String(i + 1).padStart(2)}. ${actual.padEnd(width)}${counts.join('')}`);
+  });
+}
+
+function printStats(stats: IntentStats, log: (line: string) => void): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const width = Math.max(...INTENT_TYPES.map(type => type.length));
+
+  log(`Messages ${stats.total}, low confidence ${stats.lowConfidence} (${percent(stats.lowConfidenceRate)}), relabeled ${stats.reviewed}`);
+  log(`Reactions: ${stats.reactions.positive} positive, ${stats.reactions.negative} negative, ${stats.reactions.neutral} neutral`);
+  log('');
+  for (const type of INTENT_TYPES) {
+    const count = stats.distribution[type];
+    log(`${type.padEnd(width)}  ${String(count).padStart(6)}  ${percent(stats.total > 0 ? count / stats.total : 0).padStart(6)}`);
+  }
+  log('');
+  for (const day of stats.byDay) {
+    log(`${day.date}  ${String(day.total).padStart(6)} messages  ${String(day.lowConfidence).padStart(6)} low confidence`);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runIntentsCommand(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for the retention command-line tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runRetentionCommand } from './retention.js';
+import { FileDataStore } from '../persistence/fileDataStore.js';
+
+describe('retention CLI', () => {
+  let tempDir: string;
+  let output: string[];
+  const log = (line: string) => output.push(line);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-retention-cli-'));
+    output = [];
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report a dry run and then purge old messages from a file store', async () => {
+    const filePath = path.join(tempDir, 'data.json');
+    const source = new FileDataStore(filePath);
+    source.associateSessionWithUser('session-1', 'user-1');
+    await source.saveConversation('session-1', [
+      { id: 'm-1', sender: 'user', content: 'Years ago', timestamp: new Date('2020-01-01T00:00:00.000Z') },
+      { id: 'm-2', sender: 'user', content: 'Today', timestamp: new Date() },
+    ]);
+    await source.flush();
+    const store = `file:${filePath}`;
+
+    expect(await runRetentionCommand(['purge', '--store', store, '--dry-run', '--message-days', '30'], log)).toBe(0);
+    expect(await runRetentionCommand(['purge', '--store', store, '--message-days', '30'], log)).toBe(0);
+
+    expect(output).toEqual([
+      'Would purge 1 messages and 0 anonymous users (1 users scanned)',
+      '  user-1: 1 messages',
+      'Purged 1 messages and 0 anonymous users (1 users scanned)',
+      '  user-1: 1 messages',
+    ]);
+    const purged = new FileDataStore(filePath);
+    expect((await purged.getConversationHistory('user-1')).map(m => m.id)).toEqual(['m-2']);
+  });
+
+  it('should reject unknown commands and invalid periods', async () => {
+    expect(await runRetentionCommand(['compact'], log)).toBe(1);
+    expect(output[0]).toContain('Usage:');
+
+    expect(await runRetentionCommand(['purge', '--store', 'memory', '--message-days', 'soon'], log)).toBe(1);
+    expect(output[1]).toContain('message-days must be a positive number of days');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Command-line retention purge for WorkLife data stores
+ *
+ *   npm run retention -- purge --store sqlite:./data/worklife.sqlite [--dry-run]
+ *   npm run retention -- purge --store file:./data/worklife.json --message-days 90 --anonymous-days off
+ *
+ * The policy comes from WORKLIFE_RETENTION_MESSAGE_DAYS and WORKLIFE_RETENTION_ANONYMOUS_DAYS
+ * unless given as flags. When WORKLIFE_MASTER_KEY is set, encrypted conversations can be read.
+ */
+
+import { pathToFileURL } from 'url';
+import { openDataStore, closeDataStore } from '../persistence/backup.js';
+import { ConversationEncryption } from '../persistence/encryption.js';
+import { PurgeReport, loadRetentionPolicy, parseRetentionDays, runRetentionPurge } from '../persistence/retention.js';
+import { parseFlags, requireFlag } from './flags.js';
+
+const USAGE = `Usage:
+  retention purge --store <store> [--dry-run] [--message-days <days|off>] [--anonymous-days <days|off>]
+
+<store> is memory, file:<path> or sqlite:<path>`;
+
+/**
+ * Runs a retention command
+ * @param args - Command-line arguments after the script name
+ * @param log - Where the purge report is written
+ * @returns Process exit code
+ */
+export async function runRetentionCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+  const [command, ...rest] = args;
+  const flags = parseFlags(rest);
+
+  if (command !== 'purge') {
+    log(USAGE);
+    return 1;
+  }
+
+  try {
+    const policy = loadRetentionPolicy();
+    if (typeof flags['message-days'] === 'string') {
+      policy.messageRetentionDays = parseRetentionDays(flags['message-days'], 'message-days');
+    }
+    if (typeof flags['anonymous-days'] === 'string') {
+      policy.anonymousUserInactivityDays = parseRetentionDays(flags['anonymous-days'], 'anonymous-days');
+    }
+
+    const encryption = ConversationEncryption.fromEnv() ?? undefined;
+    const store = await openDataStore(requireFlag(flags, 'store', USAGE), { encryption });
+    const report = await runRetentionPurge(store, policy, { dryRun: flags['dry-run'] === true });
+    await closeDataStore(store);
+
+    printReport(report, log);
+    return report.failures.length > 0 ? 2 : 0;
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+function printReport(report: PurgeReport, log: (line: string) => void): void {
+  const verb = report.dryRun ? 'Would purge' : 'Purged';
+  log(`${verb} ${report.messagesPurged} messages and ${report.erasedUsers.length} anonymous users (${report.usersScanned} users scanned)`);
+
+  for (const purge of report.purgedMessages) {
+    log(`  ${purge.userId}: ${purge.count} messages`);
+  }
+  for (const userId of report.erasedUsers) {
+    log(`  ${userId}: erased`);
+  }
+  if (report.failures.length > 0) {
+    log(`Failed for ${report.failures.length} users:`);
+    for (const failure of report.failures) {
+      log(`  ${failure.userId}: ${failure.reason}`);
+    }
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runRetentionCommand(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -3,9 +3,10 @@
  * Tests the complete flow from user input to formatted response
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CoachingEngine } from './coachingEngine.js';
 import { InMemoryDataStore } from './persistence/dataStore.js';
+import { IntentAnalytics } from './analytics/intentAnalytics.js';
 import { UserProfile, Goal, Challenge, Skill } from './models/core.js';
 
 describe('CoachingEngine Integration', () => {
@@ -136,6 +137,253 @@ describe('CoachingEngine Integration', () => {
 
       expect(response.intent.type).toBe('mindset_support');
     });
+
+    it('should recognize intents in the language of the message', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: '¿Qué habilidades debería aprender?'
+      });
+
+      expect(response.intent.type).toBe('skill_guidance');
+      expect(response.intent.language).toBe('es');
+      expect(response.recommendations?.skills).toBeDefined();
+    });
+  });
+
+  describe('Multi-Intent Routing', () => {
+    it('should answer every intent of a message that asks for several things', async () => {
+      const profile = createTestProfile(testUserId);
+      await dataStore.saveUserProfile(profile);
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'I\'m anxious and want to switch to data science, what should I learn?'
+      });
+
+      expect(response.intents.map(intent => intent.type)).toEqual(
+        expect.arrayContaining(['transition_guidance', 'skill_guidance', 'mindset_support'])
+      );
+      expect(response.intent).toBe(response.intents[0]);
+      expect(response.recommendations?.transitionPlan).toBeDefined();
+      expect(response.recommendations?.skills?.length).toBeGreaterThan(0);
+      expect(response.recommendations?.actions?.some(action => action.category === 'reflection')).toBe(true);
+    });
+
+    it('should route only the top intent when nothing else is confident', async () => {
+      const profile = createTestProfile(testUserId);
+      await dataStore.saveUserProfile(profile);
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'What skills do I need to learn?'
+      });
+
+      expect(response.intents).toHaveLength(1);
+      expect(response.recommendations?.transitionPlan).toBeUndefined();
+    });
+
+    it('should route with the intent classifier it was given', async () => {
+      const classifier = { classify: vi.fn().mockReturnValue([{ type: 'growth_planning', confidence: 0.9 }]) };
+      engine = new CoachingEngine(dataStore, classifier);
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const response = await engine.processRequest({ userId: testUserId, message: 'What skills do I need to learn?' });
+
+      expect(classifier.classify).toHaveBeenCalledWith('What skills do I need to learn?', 'en');
+      expect(response.intents.map(intent => intent.type)).toEqual(['growth_planning']);
+    });
+  });
+
+  describe('Conversation Context', () => {
+    it('should resolve a follow-up against the paths offered in the previous turn', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const first = await engine.processRequest({
+        userId: testUserId,
+        message: 'I\'m confused about what career path to take'
+      });
+      const offered = first.recommendations!.careerPaths!.map(path => path.title);
+      const context = engine.getSessionContext(first.sessionId)!;
+      expect(context.currentIntent.type).toBe('career_clarity');
+      expect(context.currentIntent.entities.options).toEqual(offered);
+
+      const followUp = await engine.processRequest({
+        userId: testUserId,
+        sessionId: first.sessionId,
+        message: 'the first one'
+      });
+
+      expect(followUp.intent.type).toBe('career_clarity');
+      expect(followUp.intent.entities.selectedOption).toBe(offered[0]);
+      expect(context.activeTopics[0]).toBe(offered[0]);
+      expect(context.currentIntent.entities.selectedOption).toBe(offered[0]);
+    });
+
+    it('should keep the current intent up to date across turns', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const first = await engine.processRequest({ userId: testUserId, message: 'What skills do I need to learn for python?' });
+      await engine.processRequest({
+        userId: testUserId,
+        sessionId: first.sessionId,
+        message: 'I finished the course and completed my project'
+      });
+
+      const context = engine.getSessionContext(first.sessionId)!;
+      expect(context.currentIntent.type).toBe('progress_check');
+      expect(context.activeTopics).toContain('python');
+    });
+  });
+
+  describe('Crisis Messages', () => {
+    it('should answer with helplines instead of routing the message', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const classifier = { classify: vi.fn(() => []) };
+      engine = new CoachingEngine(dataStore, classifier);
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'I\'m done with this career, I want to kill myself',
+        language: 'ja'
+      });
+
+      expect(classifier.classify).not.toHaveBeenCalled();
+      expect(response.crisis?.categories).toEqual(['suicidal_ideation']);
+      expect(response.intent.type).toBe('mindset_support');
+      expect(response.recommendations).toBeUndefined();
+      expect(response.content).toContain('0570-783-556');
+      expect((await engine.getFlaggedSessions()).map(flagged => flagged.sessionId)).toEqual([response.sessionId]);
+    });
+
+    it('should keep the session of an ongoing conversation', async () => {
+      const first = await engine.processRequest({ userId: testUserId, message: 'What skills should I learn?' });
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        sessionId: first.sessionId,
+        message: 'Honestly I have been thinking about suicide'
+      });
+
+      expect(response.sessionId).toBe(first.sessionId);
+      expect(response.content).toContain('988');
+      expect(engine.getSessionContext(first.sessionId)!.conversationHistory.at(-1)!.content).toBe(response.content);
+    });
+
+    it('should coach through ordinary frustration', async () => {
+      const response = await engine.processRequest({ userId: testUserId, message: 'This job is killing me, I feel stuck' });
+
+      expect(response.crisis).toBeUndefined();
+      expect(await engine.getFlaggedSessions()).toEqual([]);
+    });
+  });
+
+  describe('Intent Analytics', () => {
+    it('should log anonymized intents and the reaction to each response', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const analytics = new IntentAnalytics();
+      engine = new CoachingEngine(dataStore, undefined, {}, analytics);
+
+      const first = await engine.processRequest({ userId: testUserId, message: 'I work at Google, what skills should I learn?' });
+      const second = await engine.processRequest({ userId: testUserId, sessionId: first.sessionId, message: 'Thanks, that helps' });
+      expect(await engine.recordReaction(second.intentRecordId!, 'negative')).toBe(true);
+
+      const stats = await analytics.getStats();
+      expect(stats.total).toBe(2);
+      expect(stats.reactions).toEqual({ positive: 1, negative: 1, neutral: 0 });
+      expect((await analytics.getReviewQueue()).map(record => record.text)).toContain('Thanks, that helps');
+      expect(JSON.stringify(await analytics.getReviewQueue(100))).not.toContain('Google');
+    });
+
+    it('should erase a user\'s logged messages with the rest of their data', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const analytics = new IntentAnalytics();
+      engine = new CoachingEngine(dataStore, undefined, {}, analytics);
+      await engine.processRequest({ userId: testUserId, message: 'What skills should I learn?' });
+      await engine.processRequest({ userId: 'other-user', message: 'What skills should I learn?' });
+
+      const report = await engine.deleteUserData(testUserId);
+
+      expect(report.recordsErased).toBe(1);
+      expect((await analytics.getStats()).total).toBe(1);
+    });
+
+    it('should not log crisis messages or fail when logging does', async () => {
+      const analytics = new IntentAnalytics();
+      engine = new CoachingEngine(dataStore, undefined, {}, analytics);
+
+      const crisis = await engine.processRequest({ userId: testUserId, message: 'I want to kill myself' });
+      expect(crisis.intentRecordId).toBeUndefined();
+      expect((await analytics.getStats()).total).toBe(0);
+
+      vi.spyOn(analytics, 'recordTurn').mockRejectedValue(new Error('disk full'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const response = await engine.processRequest({ userId: testUserId, message: 'What skills should I learn?' });
+      expect(response.intent.type).toBe('skill_guidance');
+      expect(response.intentRecordId).toBeUndefined();
+      vi.restoreAllMocks();
+    });
+
+    it('should ignore reactions without analytics', async () => {
+      expect(await engine.recordReaction('intent_1', 'positive')).toBe(false);
+    });
+  });
+
+  describe('Profile Interview', () => {
+    it('should interview newcomers after answering their first message', async () => {
+      const first = await engine.processRequest({ userId: 'newcomer', message: 'What skills should I learn?' });
+      expect(first.intent.type).toBe('skill_guidance');
+      expect(first.content).toContain('What do you do right now?');
+
+      const answer = await engine.processRequest({ userId: 'newcomer', sessionId: first.sessionId, message: 'I am a data analyst' });
+      expect(answer.intent).toEqual({ type: 'profile_building', confidence: 1.0, entities: { interviewField: 'currentRole' } });
+      expect(answer.content).toBe('Just to check: your current role is Data Analyst. Is that right?');
+      await engine.processRequest({ userId: 'newcomer', sessionId: first.sessionId, message: 'yes' });
+
+      // A question leaves the interview and is coached as usual
+      const question = await engine.processRequest({ userId: 'newcomer', sessionId: first.sessionId, message: 'How do I grow in my role?' });
+      expect(question.intent.type).not.toBe('profile_building');
+      expect(engine.getSessionContext(first.sessionId)!.conversationHistory.filter(m => m.sender === 'user')).toHaveLength(4);
+    });
+
+    it('should interview returning users only on request', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const statement = await engine.processRequest({ userId: testUserId, message: 'I finished my course' });
+      expect(statement.content).not.toContain('To tailor my advice');
+
+      const started = await engine.startProfileInterview(testUserId, statement.sessionId);
+      expect(started.sessionId).toBe(statement.sessionId);
+      expect(started.content).toContain('To tailor my advice');
+    });
+  });
+
+  describe('Profile Auto-Fill', () => {
+    it('should update the profile from details mentioned in chat and use them right away', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'I\'m a data analyst with 5 years of experience and I\'m really good at SQL. What skills should I learn?'
+      });
+
+      expect(response.intent.entities.mentions.map((mention: { kind: string }) => mention.kind)).toEqual([
+        'job_title', 'years_of_experience', 'skill_proficiency'
+      ]);
+      const stored = (await dataStore.getUserProfile(testUserId))!;
+      expect(stored.personalInfo.currentRole).toBe('Data Analyst');
+      expect(stored.personalInfo.yearsOfExperience).toBe(5);
+      expect(stored.skills.current).toContainEqual({ name: 'SQL', level: 8, category: 'self-reported' });
+    });
+
+    it('should not save the profile when the message adds nothing', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const version = (await dataStore.getUserProfile(testUserId))!.version;
+
+      await engine.processRequest({ userId: testUserId, message: 'I\'m a junior developer, what should I learn?' });
+
+      expect((await dataStore.getUserProfile(testUserId))!.version).toBe(version);
+    });
   });
 
   describe('Mindset-First Ordering', () => {
@@ -167,6 +415,20 @@ describe('CoachingEngine Integration', () => {
       const firstHalf = response.content.substring(0, response.content.length / 2);
       expect(firstHalf.toLowerCase()).toMatch(/lost|confused|clarity|uncertain/);
     });
+
+    it('should split the response into mindset support, then recommendations', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'I feel lost and confused about my career path'
+      });
+
+      const kinds = response.sections!.map(section => section.kind);
+      expect(kinds[0]).toBe('mindset');
+      expect(kinds).toContain('recommendations');
+      expect(response.sections!.map(section => section.content).join('\n\n')).toBe(response.content);
+    });
   });
 
   describe('Recommendation Generation', () => {
@@ -353,6 +615,79 @@ describe('CoachingEngine Integration', () => {
       expect(response2.sessionId).toBe(response1.sessionId);
     });
 
+    it('should reuse the session and keep the recommendation-driven reply in its history', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const session = engine.startSession(testUserId);
+
+      const response = await engine.processRequest({
+        userId: testUserId,
+        message: 'What career paths fit me?',
+        sessionId: session.id
+      });
+
+      expect(response.sessionId).toBe(session.id);
+      expect(response.recommendations?.careerPaths?.length).toBeGreaterThan(0);
+      const history = engine.getSessionContext(session.id)!.conversationHistory;
+      expect(history.map(m => m.content)).toEqual(['What career paths fit me?', response.content]);
+      expect(response.content).not.toContain('Let me help you work through this');
+    });
+
+    it('should not continue a session of another user', async () => {
+      const session = engine.startSession('someone-else');
+
+      const response = await engine.processRequest({ userId: testUserId, message: 'Hello', sessionId: session.id });
+
+      expect(response.sessionId).not.toBe(session.id);
+      expect(engine.getSessionContext(session.id)!.conversationHistory).toHaveLength(0);
+    });
+
+    it('should record a step the user takes on as a pending action', async () => {
+      const profile = createTestProfile(testUserId);
+      profile.careerInfo.goals.push({ id: 'goal-1', description: 'Become a software engineer', type: 'long_term', priority: 1 });
+      await dataStore.saveUserProfile(profile);
+      const session = engine.startSession(testUserId);
+
+      const steps = await engine.processRequest({ userId: testUserId, sessionId: session.id, message: 'What concrete steps should I take this week?' });
+      const commitment = await engine.processRequest({ userId: testUserId, sessionId: session.id, message: "ok I'll do that this week" });
+
+      const step = steps.recommendations!.actions!.find(action => action.timeframe === 'this_week')!;
+      expect(commitment.intent.type).toBe('action_planning');
+      expect(commitment.commitments?.committed?.map(action => action.id)).toEqual([step.id]);
+      expect(engine.getSessionContext(session.id)!.pendingActions.map(action => action.id)).toEqual([step.id]);
+    });
+
+    it('should take users through a coaching flow', async () => {
+      expect((await engine.listFlows()).map(flow => flow.id)).toContain('weekly_review');
+
+      const started = await engine.processRequest({ userId: testUserId, message: "Let's do a weekly review" });
+      expect(started.content).toBe('Time for a weekly review.\n\nWhat went well this week, big or small?');
+      expect(started.intent).toMatchObject({ type: 'progress_check', entities: { flowId: 'weekly_review', flowState: 'wins' } });
+
+      const reply = (message: string) => engine.processRequest({ userId: testUserId, sessionId: started.sessionId, message });
+      await reply('I finished my course');
+      expect((await reply('yes')).flow?.state).toBe('next_step');
+      await reply('apply to three jobs');
+      const done = await reply('8');
+
+      expect(done.flow).toMatchObject({ status: 'completed', state: 'wrap_up' });
+      expect(done.content).toContain("Next week's step: apply to three jobs.");
+      expect(done.recommendations).toBeUndefined();
+      expect((await engine.startFlow(testUserId, 'career_clarity', started.sessionId)).intent.type).toBe('career_clarity');
+    });
+
+    it('should remember dropped messages for later language model prompts', async () => {
+      await engine.rememberMessages(testUserId, 'chat-1', [
+        { id: 'm1', sender: 'user', content: "I'm a nurse. I've decided to learn SQL.", timestamp: new Date() },
+        { id: 'm2', sender: 'system', content: 'Great choice.', timestamp: new Date() },
+      ]);
+
+      const prompt = await engine.getMemoryPrompt(testUserId, 'Where do I start?');
+
+      expect(prompt).toContain("- Key facts: I'm a nurse");
+      expect(prompt).toContain("- Decisions: I've decided to learn SQL");
+      expect(await engine.getMemoryPrompt('someone-else', 'Hello')).toBe('');
+    });
+
     it('should end session successfully', async () => {
       const profile = createTestProfile(testUserId);
       await dataStore.saveUserProfile(profile);
@@ -400,6 +735,195 @@ describe('CoachingEngine Integration', () => {
     });
   });
 
+  describe('Growth Plan Persistence', () => {
+    it('should save a growth plan and adapt it on later requests', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const first = await engine.processRequest({
+        userId: testUserId,
+        message: 'Can you build me a growth plan for the next year?'
+      });
+      const second = await engine.processRequest({
+        userId: testUserId,
+        message: 'Can you update my growth plan?'
+      });
+
+      expect(first.recommendations?.growthPlan).toBeDefined();
+      expect(second.recommendations?.growthPlan).toBeDefined();
+      // The second request adapts the saved plan instead of building a new one
+      expect(second.recommendations!.growthPlan!.id).toBe(first.recommendations!.growthPlan!.id);
+      // Nothing changed, so no new version was saved
+      expect((await engine.getGrowthPlanHistory(testUserId)).map(v => v.version)).toEqual([1]);
+
+      const [action] = first.recommendations!.growthPlan!.phases[0].actions;
+      await dataStore.trackActionCompletion(testUserId, action.id);
+      await engine.processRequest({ userId: testUserId, message: 'Can you update my growth plan?' });
+
+      const history = await engine.getGrowthPlanHistory(testUserId);
+      expect(history.map(v => v.version)).toEqual([1, 2]);
+      expect(history[1].plan.createdAt.getTime()).toBe(history[0].plan.createdAt.getTime());
+      expect(history[1].plan.phases[0].actions[0].completed).toBe(true);
+    });
+
+    it('should build a new plan when the chosen career path changes', async () => {
+      const profile = createTestProfile(testUserId);
+      await dataStore.saveUserProfile(profile);
+      const first = await engine.processRequest({
+        userId: testUserId,
+        message: 'Can you build me a growth plan for the next year?'
+      });
+
+      profile.careerInfo.currentPath = {
+        id: 'path-ux',
+        title: 'UX Design',
+        description: 'Design user experiences',
+        reasoning: 'Strong interest in users',
+        fitScore: 0.7,
+        requiredSkills: ['user research', 'prototyping'],
+        timeToTransition: '9 months',
+        growthPotential: 0.8
+      };
+      await dataStore.saveUserProfile(profile);
+
+      const second = await engine.processRequest({
+        userId: testUserId,
+        message: 'Can you build me a growth plan for the next year?'
+      });
+
+      expect(second.recommendations!.growthPlan!.id).not.toBe(first.recommendations!.growthPlan!.id);
+      expect(second.recommendations!.growthPlan!.careerPath.title).toBe('UX Design');
+      expect((await dataStore.getActiveGrowthPlan(testUserId))!.id).toBe(second.recommendations!.growthPlan!.id);
+    });
+  });
+
+  describe('Analysis History', () => {
+    it('should save transition plans with the profile they were built from', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      const first = await engine.processRequest({
+        userId: testUserId,
+        message: 'I want to transition from marketing to data science'
+      });
+
+      expect(first.recommendations?.transitionPlan).toBeDefined();
+      expect(first.recommendations?.planHistory).toBeUndefined();
+
+      const history = await engine.getTransitionPlanHistory(testUserId);
+      expect(history).toHaveLength(1);
+      expect(history[0].kind).toBe('transition_plan');
+      expect(history[0].profileSnapshot.personalInfo.currentRole).toBe('Junior Developer');
+      expect(history[0].result.targetField).toBe(first.recommendations!.transitionPlan!.targetField);
+    });
+
+    it('should refer back to the previous plan and show phase progress on a re-run', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      await engine.processRequest({
+        userId: testUserId,
+        message: 'I want to transition from marketing to data science'
+      });
+
+      const [saved] = await engine.getTransitionPlanHistory(testUserId);
+      const firstPhase = saved.result.phases[0];
+      for (const action of firstPhase.actions) {
+        await dataStore.trackActionCompletion(testUserId, action.id);
+      }
+
+      const second = await engine.processRequest({
+        userId: testUserId,
+        message: 'I want to transition from marketing to data science'
+      });
+
+      const notes = second.recommendations!.planHistory!;
+      expect(notes).toHaveLength(1);
+      expect(notes[0].change.isMaterial).toBe(false);
+      expect(notes[0].phaseProgress![0].criteriaMet).toBe(true);
+      expect(second.content).toContain('transition plan we built earlier today');
+      expect(second.content).toContain(firstPhase.name);
+
+      const progress = await engine.getTransitionPhaseProgress(testUserId);
+      expect(progress[0].completedActions).toBe(firstPhase.actions.length);
+      // The same advice is not saved twice
+      expect(await engine.getTransitionPlanHistory(testUserId)).toHaveLength(1);
+    });
+
+    it('should detect materially different advice when the target changes', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      await engine.processRequest({
+        userId: testUserId,
+        message: 'I want to transition from marketing to data science'
+      });
+
+      const second = await engine.processRequest({
+        userId: testUserId,
+        message: 'I want to transition from marketing to design'
+      });
+
+      const note = second.recommendations!.planHistory![0];
+      expect(note.change.isMaterial).toBe(true);
+      expect(second.content).toContain('my advice has changed');
+      expect(await engine.getTransitionPlanHistory(testUserId)).toHaveLength(2);
+    });
+
+    it('should keep in-role growth analyses per user', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+
+      await engine.processRequest({ userId: testUserId, message: 'How can I grow in my current role?' });
+      const second = await engine.processRequest({ userId: testUserId, message: 'How can I grow in my current role?' });
+
+      expect(await engine.getInRoleGrowthHistory(testUserId)).toHaveLength(1);
+      expect(second.recommendations!.planHistory!.some(n => n.kind === 'in_role_growth')).toBe(true);
+    });
+  });
+
+  describe('Progress Reports', () => {
+    it('should report only progress made within the timeframe', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(new Date('2026-09-01T09:00:00.000Z'));
+        await dataStore.saveUserProfile(createTestProfile(testUserId));
+        await dataStore.trackActionCompletion(testUserId, 'action-old');
+        vi.setSystemTime(new Date('2026-10-05T09:00:00.000Z'));
+        await dataStore.trackActionCompletion(testUserId, 'action-new');
+        await dataStore.appendProgressEvent(testUserId, { type: 'skill_level_changed', skill: 'TypeScript', level: 8 });
+
+        const report = await engine.getProgressReport(testUserId, {
+          start: new Date('2026-10-01T00:00:00.000Z'),
+          end: new Date('2026-10-31T00:00:00.000Z'),
+        });
+
+        expect(report!.completedActions).toBe(1);
+        expect(report!.skillsAcquired).toEqual(['TypeScript']);
+        expect(await engine.getProgressReport(testUserId, {
+          start: new Date('2026-01-01T00:00:00.000Z'),
+          end: new Date('2026-02-01T00:00:00.000Z'),
+        })).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('User Data', () => {
+    it('should export a user\'s data and erase it along with their live sessions', async () => {
+      await dataStore.saveUserProfile(createTestProfile(testUserId));
+      const response = await engine.processRequest({ userId: testUserId, message: 'I feel stuck in my career' });
+      await dataStore.trackActionCompletion(testUserId, 'action-1');
+
+      const archive = await engine.exportUserData(testUserId);
+      expect(archive.profile!.userId).toBe(testUserId);
+      expect(archive.progressEvents).toHaveLength(1);
+
+      const report = await engine.deleteUserData(testUserId);
+
+      expect(report.activeSessionsClosed).toBe(1);
+      expect(await dataStore.getUserProfile(testUserId)).toBeNull();
+      expect(await dataStore.getProgressEvents(testUserId)).toEqual([]);
+      // The erased session cannot write anything back
+      await engine.endSession(response.sessionId);
+      expect(await dataStore.getConversationHistory(testUserId)).toEqual([]);
+    });
+  });
+
   describe('In-Role Growth', () => {
     it('should provide in-role growth guidance when requested', async () => {
       const profile = createTestProfile(testUserId);
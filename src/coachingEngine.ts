@@ -4,17 +4,57 @@
  * and graceful degradation
  */
 
-import { ConversationManager, Response } from './conversation/conversationManager.js';
+import {
+  CoachingReply,
+  ConversationManager,
+  FlaggedSession,
+  FlowTurn,
+  Response,
+  ResponseSection
+} from './conversation/conversationManager.js';
 import { ResponseFormatter, ResponseContext } from './conversation/responseFormatter.js';
-import { recognizeIntent, shouldPrioritizeMindset } from './intent/intentRecognizer.js';
-import { ProfileAnalyzer } from './profile/profileAnalyzer.js';
-import { DataStore } from './persistence/dataStore.js';
+import { CommitmentTurn } from './conversation/commitments.js';
+import { recognizeIntents, selectIntents, shouldPrioritizeMindset } from './intent/intentRecognizer.js';
+import { IntentClassifier, KeywordIntentClassifier } from './intent/intentClassifier.js';
+import { resolveIntentsInContext } from './intent/intentContext.js';
+import { detectLanguage } from './intent/languageDetector.js';
+import { ExtractedEntity } from './intent/entityExtractor.js';
+import { CrisisAssessment, detectCrisis } from './intent/crisisDetector.js';
+import { Language } from './i18n/languages.js';
+import {
+  CrisisResponseConfig,
+  CrisisResponseOptions,
+  getCrisisResponse,
+  resolveCrisisResponseConfig
+} from './i18n/crisisResources.js';
+import { IntentAnalytics } from './analytics/intentAnalytics.js';
+import { IntentLogRecord, IntentReaction } from './analytics/intentLog.js';
+import { ConversationMemory } from './memory/conversationMemory.js';
+import { CoachingFlow, loadCoachingFlows } from './flows/coachingFlow.js';
+import { ProfileAnalyzer, ProgressReport, TimeRange } from './profile/profileAnalyzer.js';
+import { applyExtractedEntities } from './profile/profileAutoFill.js';
+import {
+  DataStore,
+  GrowthPlanVersion,
+  AnalysisKind,
+  AnalysisRecord,
+  AnalysisResults
+} from './persistence/dataStore.js';
+import {
+  UserDataArchive,
+  UserDataErasureReport,
+  ActiveSessionRegistry,
+  eraseUserData
+} from './persistence/userData.js';
+import { ProfileUpdate, updateUserProfile } from './persistence/profileUpdates.js';
 import { 
   UserProfile, 
   Intent, 
   Goal,
   ActionStep,
-  Session 
+  Session,
+  SessionContext,
+  Message
 } from './models/core.js';
 import {
   CareerPath,
@@ -36,7 +76,8 @@ import {
 } from './recommendations/actionStepGenerator.js';
 import {
   buildGrowthPlan,
-  adaptGrowthPlan
+  adaptGrowthPlan,
+  isSameGrowthPlan
 } from './recommendations/growthPlanBuilder.js';
 import {
   generateTransitionPlan
@@ -45,6 +86,14 @@ import {
   analyzeInRoleGrowth,
   InRoleGrowthAnalysis
 } from './recommendations/inRoleGrowthAdvisor.js';
+import {
+  compareTransitionPlans,
+  compareInRoleGrowthAnalyses,
+  calculateTransitionPhaseProgress,
+  AdviceChange,
+  PlanHistoryNote,
+  TransitionPhaseProgress
+} from './recommendations/planHistory.js';
 
 /**
  * Coaching request with user message and context
@@ -53,6 +102,8 @@ export interface CoachingRequest {
   userId: string;
   message: string;
   sessionId?: string;
+  /** Language of the message, e.g. the one chosen in the UI; detected from the message when not given */
+  language?: Language;
 }
 
 /**
@@ -63,6 +114,13 @@ export interface CoachingResponse {
   sessionId: string;
   timestamp: Date;
   intent: Intent;
+  /** Every intent the response acted on, most likely first */
+  intents: Intent[];
+  /**
+   * The content in parts, in order: a recap of earlier sessions, mindset support, recommendations
+   * and a closing question; set on responses with recommendations
+   */
+  sections?: ResponseSection[];
   recommendations?: {
     careerPaths?: CareerPath[];
     skills?: SkillRecommendation[];
@@ -70,7 +128,16 @@ export interface CoachingResponse {
     growthPlan?: GrowthPlan;
     transitionPlan?: TransitionPlan;
     inRoleGrowth?: InRoleGrowthAnalysis;
+    planHistory?: PlanHistoryNote[];
   };
+  /** Set when the message spoke of suicide or self-harm and was answered with helplines only */
+  crisis?: CrisisAssessment;
+  /** Intent log record of the message, for reporting the user's reaction to this response */
+  intentRecordId?: string;
+  /** Set when the response recorded, followed up on or settled commitments to action steps */
+  commitments?: CommitmentTurn;
+  /** Set when the response started, continued or ended a coaching flow */
+  flow?: FlowTurn;
 }
 
 /**
@@ -81,77 +148,290 @@ export class CoachingEngine {
   private profileAnalyzer: ProfileAnalyzer;
   private responseFormatter: ResponseFormatter;
   private dataStore: DataStore;
+  private intentClassifier: IntentClassifier;
+  private crisisConfig: CrisisResponseConfig;
+  private intentAnalytics?: IntentAnalytics;
+  private memory: ConversationMemory;
+  /** Settles once the coaching flows are registered with the conversation manager */
+  private flowsLoaded: Promise<void>;
 
-  constructor(dataStore: DataStore) {
+  /**
+   * @param intentClassifier - Scores intent types of incoming messages; keyword matching by default
+   * @param crisisConfig - Default language and helplines of crisis responses
+   * @param intentAnalytics - Logs recognized intents for stats and review; nothing is logged without it
+   * @param flows - Coaching flows users can go through; the flows in src/flows/data by default
+   */
+  constructor(
+    dataStore: DataStore,
+    intentClassifier: IntentClassifier = new KeywordIntentClassifier(),
+    crisisConfig: CrisisResponseOptions = {},
+    intentAnalytics?: IntentAnalytics,
+    flows?: CoachingFlow[]
+  ) {
     this.dataStore = dataStore;
-    this.conversationManager = new ConversationManager(dataStore);
+    this.intentClassifier = intentClassifier;
+    this.intentAnalytics = intentAnalytics;
+    this.crisisConfig = resolveCrisisResponseConfig(crisisConfig);
+    this.memory = new ConversationMemory(dataStore);
+    // Returning users are only interviewed on request, so their statements reach the engines
+    this.conversationManager = new ConversationManager(
+      dataStore,
+      this.crisisConfig,
+      { interviewIncompleteProfiles: false },
+      { respond: (session, message, language) => this.coach(session, message, language) },
+      this.memory
+    );
     this.profileAnalyzer = new ProfileAnalyzer();
     this.responseFormatter = new ResponseFormatter();
+    this.flowsLoaded = (flows ? Promise.resolve(flows) : loadCoachingFlows())
+      .then(loaded => this.conversationManager.registerFlows(loaded))
+      // Coaching goes on without flows that fail to load
+      .catch(error => console.error('Error loading coaching flows:', error));
   }
 
   /**
    * Process a coaching request and generate a response
-   * Handles intent recognition, routing, and recommendation generation
+   * Handles intent recognition, routing, and recommendation generation.
+   * Messages that speak of suicide or self-harm skip all of it and get helplines.
    */
   async processRequest(request: CoachingRequest): Promise<CoachingResponse> {
+    const crisis = detectCrisis(request.message);
+    if (crisis) {
+      return this.respondToCrisis(request, crisis);
+    }
+
     try {
-      // Start or continue session
-      let session: Session;
-      if (request.sessionId) {
-        const existingSession = this.conversationManager.getSessionContext(request.sessionId);
-        if (!existingSession) {
-          session = this.conversationManager.startSession(request.userId);
-        } else {
-          session = {
-            id: request.sessionId,
-            userId: request.userId,
-            startTime: new Date(),
-            lastActivity: new Date(),
-            context: existingSession
-          };
+      // The manager records the turn, runs a profile interview and asks the engines for the rest
+      await this.flowsLoaded;
+      const session = this.resolveSession(request.userId, request.sessionId);
+      const response = await this.conversationManager.continueSession(session.id, request.message, request.language);
+
+      // Only replies from the engines carry intents; the others came from a flow, the profile interview or a commitment
+      if (!response.intents) {
+        if (response.flow) {
+          return this.flowResponse(response);
         }
-      } else {
-        session = this.conversationManager.startSession(request.userId);
+        return response.commitments ? this.commitmentResponse(response) : this.interviewResponse(response);
       }
+      const intents = response.intents;
+      const intentRecord = await this.recordIntents(session.id, session.userId, request.message, intents);
 
-      // Recognize intent
-      const intent = recognizeIntent(request.message);
+      return {
+        content: response.content,
+        sessionId: session.id,
+        timestamp: response.timestamp,
+        intent: intents[0],
+        intents,
+        sections: response.sections,
+        recommendations: response.recommendations,
+        ...(intentRecord ? { intentRecordId: intentRecord.id } : {}),
+        ...(response.commitments ? { commitments: response.commitments } : {})
+      };
+    } catch (error) {
+      // Graceful degradation on error
+      return this.handleError(error, request);
+    }
+  }
 
-      // Get user profile
-      const userProfile = await this.getUserProfileSafely(request.userId);
+  /**
+   * Answer a message with recommendations, for the conversation manager
+   * Handles intent recognition, routing, and recommendation generation.
+   */
+  private async coach(session: Session, message: string, language?: Language): Promise<CoachingReply> {
+    // Recognize intents in the context of the turns before this message, keeping every one confident enough to act on
+    const history = session.context.conversationHistory;
+    const intents = selectIntents(resolveIntentsInContext(
+      message,
+      recognizeIntents(message, this.intentClassifier, language),
+      { ...session.context, conversationHistory: history.slice(0, -1) }
+    ));
+    const intent = intents[0];
+
+    // Get user profile, filling in details the user mentioned about themselves
+    const userProfile = await this.autoFillProfile(
+      await this.getUserProfileSafely(session.userId),
+      intent.entities.mentions
+    );
+
+    // Route to the handler of every selected intent
+    const recommendations = await this.routeRequest(intents, message, userProfile);
+
+    // Format response
+    const formattedResponse = await this.formatResponse(
+      intents,
+      recommendations,
+      userProfile,
+      session
+    );
+
+    // Remember what this turn was about and which paths were offered
+    this.conversationManager.recordIntents(
+      session.id,
+      intents,
+      recommendations.careerPaths?.map(path => path.title)
+    );
 
-      // Route to appropriate handler based on intent
-      const recommendations = await this.routeRequest(intent, request.message, userProfile);
+    return {
+      content: formattedResponse.content,
+      intents,
+      recommendations: formattedResponse.recommendations,
+      sections: formattedResponse.sections
+    };
+  }
 
-      // Format response
-      const formattedResponse = await this.formatResponse(
-        intent,
-        recommendations,
-        userProfile,
-        session
-      );
+  /**
+   * The active session a request continues, or a new one
+   * A session of another user is never continued.
+   */
+  private resolveSession(userId: string, sessionId?: string): Session {
+    const existing = sessionId ? this.conversationManager.getSession(sessionId) : null;
+    return existing && existing.userId === userId ? existing : this.conversationManager.startSession(userId);
+  }
+
+  /**
+   * Start asking the user for the profile details they have not given yet
+   * Their answers to the following requests fill in the profile.
+   */
+  async startProfileInterview(userId: string, sessionId?: string): Promise<CoachingResponse> {
+    const session = this.resolveSession(userId, sessionId);
+    return this.interviewResponse(await this.conversationManager.startProfileInterview(session.id));
+  }
+
+  /**
+   * Start a coaching flow, such as a weekly review
+   * The following requests answer its prompts until it ends.
+   * @throws ValidationError when no flow has the id
+   */
+  async startFlow(userId: string, flowId: string, sessionId?: string): Promise<CoachingResponse> {
+    await this.flowsLoaded;
+    const session = this.resolveSession(userId, sessionId);
+    return this.flowResponse(await this.conversationManager.startFlow(session.id, flowId));
+  }
+
+  /**
+   * Coaching flows users can go through
+   */
+  async listFlows(): Promise<CoachingFlow[]> {
+    await this.flowsLoaded;
+    return this.conversationManager.listFlows();
+  }
 
-      // Continue session with formatted response
-      await this.conversationManager.continueSession(session.id, request.message);
+  private flowResponse(reply: Response): CoachingResponse {
+    const flow = this.conversationManager.listFlows().find(f => f.id === reply.flow!.flowId);
+    const intent: Intent = {
+      type: flow?.intent ?? 'progress_check',
+      confidence: 1.0,
+      entities: { flowId: reply.flow!.flowId, flowState: reply.flow!.state }
+    };
+    return {
+      content: reply.content,
+      sessionId: reply.sessionId,
+      timestamp: reply.timestamp,
+      intent,
+      intents: [intent],
+      flow: reply.flow
+    };
+  }
+
+  /**
+   * Taking on action steps is action planning; answering a follow-up on them is a progress check
+   */
+  private commitmentResponse(reply: Response): CoachingResponse {
+    const intent: Intent = {
+      type: reply.commitments!.committed ? 'action_planning' : 'progress_check',
+      confidence: 1.0,
+      entities: {}
+    };
+    return {
+      content: reply.content,
+      sessionId: reply.sessionId,
+      timestamp: reply.timestamp,
+      intent,
+      intents: [intent],
+      commitments: reply.commitments
+    };
+  }
+
+  private interviewResponse(reply: Response): CoachingResponse {
+    const intent: Intent = {
+      type: 'profile_building',
+      confidence: 1.0,
+      entities: reply.interview?.field ? { interviewField: reply.interview.field } : {}
+    };
+    return { content: reply.content, sessionId: reply.sessionId, timestamp: reply.timestamp, intent, intents: [intent] };
+  }
 
+  /**
+   * Log the intents of a message for analytics
+   * Crisis messages never get here, and a logging failure never fails the request
+   */
+  private async recordIntents(
+    sessionId: string,
+    userId: string,
+    message: string,
+    intents: Intent[]
+  ): Promise<IntentLogRecord | null> {
+    if (!this.intentAnalytics) {
+      return null;
+    }
+    try {
+      return await this.intentAnalytics.recordTurn(sessionId, message, intents, userId);
+    } catch (error) {
+      console.error('Error recording intents:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record how the user took a response, e.g. from a thumbs up or down in the UI
+   * @param intentRecordId - The intentRecordId of the response
+   * @returns false when intent analytics are not enabled
+   */
+  async recordReaction(intentRecordId: string, reaction: IntentReaction): Promise<boolean> {
+    if (!this.intentAnalytics) {
+      return false;
+    }
+    await this.intentAnalytics.recordReaction(intentRecordId, reaction);
+    return true;
+  }
+
+  /**
+   * Answer a crisis message with helplines, without recognizing intents or loading the profile
+   * The conversation manager records the message and flags the session for review
+   */
+  private async respondToCrisis(request: CoachingRequest, crisis: CrisisAssessment): Promise<CoachingResponse> {
+    const intent: Intent = {
+      type: 'mindset_support',
+      confidence: 1.0,
+      entities: { crisis: crisis.categories }
+    };
+    const language = request.language ?? detectLanguage(request.message, this.crisisConfig.defaultLanguage);
+
+    try {
+      const sessionId = this.resolveSession(request.userId, request.sessionId).id;
+      const response = await this.conversationManager.continueSession(sessionId, request.message, language);
+
+      return { content: response.content, sessionId, timestamp: response.timestamp, intent, intents: [intent], crisis };
+    } catch (error) {
+      // Never let a failure hide the helplines
+      console.error('Error recording crisis message:', error);
       return {
-        content: formattedResponse.content,
-        sessionId: session.id,
+        content: getCrisisResponse(language, this.crisisConfig),
+        sessionId: request.sessionId ?? '',
         timestamp: new Date(),
         intent,
-        recommendations: formattedResponse.recommendations
+        intents: [intent],
+        crisis
       };
-    } catch (error) {
-      // Graceful degradation on error
-      return this.handleError(error, request);
     }
   }
 
   /**
-   * Route request to appropriate recommendation systems based on intent
+   * Route request to the recommendation systems of each intent
+   * Results of all intents are merged; actions from several handlers are combined
    */
   private async routeRequest(
-    intent: Intent,
+    intents: Intent[],
     message: string,
     userProfile: UserProfile | null
   ): Promise<{
@@ -161,50 +441,13 @@ export class CoachingEngine {
     growthPlan?: GrowthPlan;
     transitionPlan?: TransitionPlan;
     inRoleGrowth?: InRoleGrowthAnalysis;
+    planHistory?: PlanHistoryNote[];
   }> {
     const recommendations: any = {};
 
     try {
-      switch (intent.type) {
-        case 'career_clarity':
-          recommendations.careerPaths = await this.generateCareerPathRecommendations(userProfile);
-          break;
-
-        case 'skill_guidance':
-          recommendations.skills = await this.generateSkillRecommendations(userProfile);
-          break;
-
-        case 'action_planning':
-          recommendations.actions = await this.generateActionStepRecommendations(userProfile);
-          break;
-
-        case 'growth_planning':
-          recommendations.growthPlan = await this.generateGrowthPlanRecommendation(userProfile);
-          break;
-
-        case 'transition_guidance':
-          recommendations.transitionPlan = await this.generateTransitionGuidance(intent, userProfile);
-          break;
-
-        case 'progress_check':
-          recommendations.actions = await this.handleProgressCheck(userProfile);
-          break;
-
-        case 'mindset_support':
-          // Mindset support doesn't generate specific recommendations
-          // but may include actions for reflection
-          recommendations.actions = await this.generateMindsetActions(userProfile);
-          break;
-
-        case 'profile_building':
-          // Profile building may suggest next steps
-          recommendations.actions = await this.generateProfileBuildingActions(userProfile);
-          break;
-
-        default:
-          // Default: provide general guidance
-          recommendations.actions = await this.generateActionStepRecommendations(userProfile);
-          break;
+      for (const intent of intents) {
+        await this.routeIntent(intent, userProfile, recommendations);
       }
 
       // Check if user wants in-role growth specifically
@@ -214,6 +457,14 @@ export class CoachingEngine {
         recommendations.inRoleGrowth = await this.generateInRoleGrowthGuidance(userProfile);
       }
 
+      // Keep advisor results so later sessions can refer back to them
+      if (userProfile) {
+        const planHistory = await this.recordAnalysisHistory(userProfile, recommendations);
+        if (planHistory.length > 0) {
+          recommendations.planHistory = planHistory;
+        }
+      }
+
     } catch (error) {
       console.error('Error routing request:', error);
       // Continue with partial recommendations
@@ -222,6 +473,59 @@ export class CoachingEngine {
     return recommendations;
   }
 
+  /**
+   * Add the recommendations for a single intent
+   */
+  private async routeIntent(intent: Intent, userProfile: UserProfile | null, recommendations: any): Promise<void> {
+    const addActions = (actions: ActionStep[]) => {
+      const existing: ActionStep[] = recommendations.actions || [];
+      const known = new Set(existing.map(action => action.id));
+      recommendations.actions = [...existing, ...actions.filter(action => !known.has(action.id))];
+    };
+
+    switch (intent.type) {
+      case 'career_clarity':
+        recommendations.careerPaths = await this.generateCareerPathRecommendations(userProfile);
+        break;
+
+      case 'skill_guidance':
+        recommendations.skills = await this.generateSkillRecommendations(userProfile);
+        break;
+
+      case 'action_planning':
+        addActions(await this.generateActionStepRecommendations(userProfile));
+        break;
+
+      case 'growth_planning':
+        recommendations.growthPlan = await this.generateGrowthPlanRecommendation(userProfile);
+        break;
+
+      case 'transition_guidance':
+        recommendations.transitionPlan = await this.generateTransitionGuidance(intent, userProfile);
+        break;
+
+      case 'progress_check':
+        addActions(await this.handleProgressCheck(userProfile));
+        break;
+
+      case 'mindset_support':
+        // Mindset support doesn't generate specific recommendations
+        // but may include actions for reflection
+        addActions(await this.generateMindsetActions(userProfile));
+        break;
+
+      case 'profile_building':
+        // Profile building may suggest next steps
+        addActions(await this.generateProfileBuildingActions(userProfile));
+        break;
+
+      default:
+        // Default: provide general guidance
+        addActions(await this.generateActionStepRecommendations(userProfile));
+        break;
+    }
+  }
+
   /**
    * Generate career path recommendations with error handling
    */
@@ -325,16 +629,19 @@ export class CoachingEngine {
         }
       }
 
-      // Check if user has an existing growth plan
+      // Check if user has an existing growth plan for the same career path
       const existingPlan = await this.getExistingGrowthPlan(userProfile);
       
-      if (existingPlan) {
-        // Adapt existing plan
-        return adaptGrowthPlan(existingPlan, userProfile);
+      const plan = existingPlan && this.isSameCareerPath(existingPlan.careerPath, userProfile.careerInfo.currentPath)
+        ? adaptGrowthPlan(existingPlan, userProfile)
+        : buildGrowthPlan(userProfile, careerPath);
+
+      // Save changes as a new version so the plan's history is kept
+      if (!existingPlan || !isSameGrowthPlan(existingPlan, plan)) {
+        await this.dataStore.saveGrowthPlan(plan);
       }
 
-      // Build new growth plan
-      return buildGrowthPlan(userProfile, careerPath);
+      return plan;
     } catch (error) {
       console.error('Error generating growth plan:', error);
       return undefined;
@@ -357,9 +664,10 @@ export class CoachingEngine {
       const careerFields = intent.entities.careerFields as string[] | undefined;
       
       let sourceField = userProfile.personalInfo.industry || 'current field';
+      const selectedOption = intent.entities.selectedOption as string | undefined;
       let targetField = careerFields && careerFields.length > 0 
         ? careerFields[0] 
-        : 'target field';
+        : selectedOption || 'target field';
 
       // If multiple fields mentioned, assume first is source, second is target
       if (careerFields && careerFields.length >= 2) {
@@ -506,24 +814,26 @@ export class CoachingEngine {
    * Format response with mindset-first ordering if needed
    */
   private async formatResponse(
-    intent: Intent,
+    intents: Intent[],
     recommendations: any,
     userProfile: UserProfile | null,
     session: Session
   ): Promise<{
     content: string;
     recommendations?: any;
+    sections?: ResponseSection[];
   }> {
     try {
+      const intent = intents[0];
+
       // Check if mindset should be prioritized
-      const prioritizeMindset = shouldPrioritizeMindset(intent);
+      const prioritizeMindset = intents.some(shouldPrioritizeMindset);
 
-      let content = '';
+      const sections: ResponseSection[] = [];
 
       // Add mindset support first if needed
       if (prioritizeMindset) {
-        content += this.generateMindsetSupport(intent, userProfile);
-        content += '\n\n';
+        sections.push({ kind: 'mindset', content: this.generateMindsetSupport(intent, userProfile) });
       }
 
       // Check for progress acknowledgment
@@ -543,16 +853,19 @@ export class CoachingEngine {
         context
       );
 
-      content += formatted.content;
+      if (formatted.content) {
+        sections.push({ kind: 'recommendations', content: formatted.content });
+      }
 
       // Ensure actionable element is present
       if (!formatted.hasActionableElement) {
-        content += '\n\nWhat would you like to focus on next?';
+        sections.push({ kind: 'follow_up', content: 'What would you like to focus on next?' });
       }
 
       return {
-        content,
-        recommendations: formatted.recommendations
+        content: sections.map(section => section.content).join('\n\n'),
+        recommendations: formatted.recommendations,
+        sections
       };
     } catch (error) {
       console.error('Error formatting response:', error);
@@ -608,13 +921,222 @@ export class CoachingEngine {
     }
   }
 
+  /**
+   * Apply profile details found in the message to the stored profile
+   * Only saves when something changed; if saving fails the details still shape this response
+   */
+  private async autoFillProfile(
+    userProfile: UserProfile | null,
+    mentions: ExtractedEntity[] | undefined
+  ): Promise<UserProfile | null> {
+    if (!userProfile || !mentions || applyExtractedEntities(userProfile, mentions).length === 0) {
+      return userProfile;
+    }
+
+    try {
+      const updated = await updateUserProfile(this.dataStore, userProfile.userId, profile => {
+        applyExtractedEntities(profile, mentions);
+      });
+      return updated ?? userProfile;
+    } catch (error) {
+      console.error('Error auto-filling user profile:', error);
+      return userProfile;
+    }
+  }
+
   /**
    * Get existing growth plan for user
    */
   private async getExistingGrowthPlan(userProfile: UserProfile): Promise<GrowthPlan | null> {
-    // This would typically query the data store for an existing plan
-    // For now, return null to always create new plans
-    return null;
+    try {
+      return await this.dataStore.getActiveGrowthPlan(userProfile.userId);
+    } catch (error) {
+      console.error('Error retrieving growth plan:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a saved plan still targets the user's chosen career path
+   * Users without a chosen path keep adapting the plan they already have
+   */
+  private isSameCareerPath(planPath: CareerPath, currentPath?: CareerPath | string): boolean {
+    if (!currentPath) {
+      return true;
+    }
+
+    if (typeof currentPath === 'string') {
+      return planPath.title.toLowerCase() === currentPath.toLowerCase();
+    }
+
+    return planPath.id === currentPath.id || planPath.title === currentPath.title;
+  }
+
+  /**
+   * Get every saved version of a user's growth plan, oldest first
+   */
+  async getGrowthPlanHistory(userId: string): Promise<GrowthPlanVersion[]> {
+    return this.dataStore.getGrowthPlanVersions(userId);
+  }
+
+  /**
+   * Build a progress report from the user's profile as it was at both ends
+   * of the timeframe, replayed from the progress event log
+   * Returns null when the user had no profile by the end of the timeframe
+   */
+  async getProgressReport(userId: string, timeframe: TimeRange): Promise<ProgressReport | null> {
+    const [atEnd, atStart] = await Promise.all([
+      this.dataStore.getUserProfileAsOf(userId, timeframe.end),
+      this.dataStore.getUserProfileAsOf(userId, timeframe.start),
+    ]);
+
+    if (!atEnd) {
+      return null;
+    }
+
+    return this.profileAnalyzer.trackProgress(atEnd, timeframe, atStart || undefined);
+  }
+
+  /**
+   * Get every saved transition plan for a user, oldest first
+   */
+  async getTransitionPlanHistory(userId: string): Promise<AnalysisRecord<'transition_plan'>[]> {
+    return this.dataStore.getAnalysisRecords(userId, 'transition_plan');
+  }
+
+  /**
+   * Get every saved in-role growth analysis for a user, oldest first
+   */
+  async getInRoleGrowthHistory(userId: string): Promise<AnalysisRecord<'in_role_growth'>[]> {
+    return this.dataStore.getAnalysisRecords(userId, 'in_role_growth');
+  }
+
+  /**
+   * Get progress through each phase of the user's latest transition plan
+   * Returns an empty list when no transition plan has been saved yet
+   */
+  async getTransitionPhaseProgress(userId: string): Promise<TransitionPhaseProgress[]> {
+    const history = await this.dataStore.getAnalysisRecords(userId, 'transition_plan');
+    if (history.length === 0) {
+      return [];
+    }
+
+    const profile = await this.getUserProfileSafely(userId);
+    const completedActions = profile ? profile.progress.completedActions : [];
+
+    return calculateTransitionPhaseProgress(history[history.length - 1].result, completedActions);
+  }
+
+  /**
+   * Apply a change to a user's stored profile without losing concurrent saves
+   * The update is re-applied to a fresh read if another save lands first
+   */
+  async updateUserProfile(userId: string, update: ProfileUpdate): Promise<UserProfile | null> {
+    return updateUserProfile(this.dataStore, userId, update);
+  }
+
+  /**
+   * Export everything stored about a user as a portable archive
+   */
+  async exportUserData(userId: string): Promise<UserDataArchive> {
+    return this.dataStore.exportUserData(userId);
+  }
+
+  /**
+   * Erase a user's data, their intent log records and their live sessions
+   * @param registries - Additional session holders to clear, such as a SessionManager
+   */
+  async deleteUserData(userId: string, registries: ActiveSessionRegistry[] = []): Promise<UserDataErasureReport> {
+    return eraseUserData(userId, this.dataStore, [this.conversationManager, ...registries], [this]);
+  }
+
+  /**
+   * Delete the intent log records of a user's messages
+   * @returns Number of records deleted; 0 when intent analytics are not enabled
+   */
+  async eraseUserRecords(userId: string): Promise<number> {
+    return this.intentAnalytics ? this.intentAnalytics.eraseUserRecords(userId) : 0;
+  }
+
+  /**
+   * Delete the intent log records older than a retention cutoff
+   * @param dryRun - Only count the records that would be deleted
+   */
+  async purgeRecordsBefore(before: Date, dryRun = false): Promise<number> {
+    return this.intentAnalytics ? this.intentAnalytics.purgeRecordsBefore(before, dryRun) : 0;
+  }
+
+  /**
+   * Save freshly generated advisor results and compare them with the previous run
+   */
+  private async recordAnalysisHistory(
+    userProfile: UserProfile,
+    recommendations: { transitionPlan?: TransitionPlan; inRoleGrowth?: InRoleGrowthAnalysis }
+  ): Promise<PlanHistoryNote[]> {
+    const notes: PlanHistoryNote[] = [];
+
+    try {
+      if (recommendations.transitionPlan) {
+        const saved = await this.saveAnalysis(
+          'transition_plan', userProfile, recommendations.transitionPlan, compareTransitionPlans
+        );
+        if (saved) {
+          notes.push({
+            kind: 'transition_plan',
+            previousCreatedAt: saved.previous.createdAt,
+            change: saved.change,
+            phaseProgress: calculateTransitionPhaseProgress(saved.previous.result, userProfile.progress.completedActions),
+          });
+        }
+      }
+
+      if (recommendations.inRoleGrowth) {
+        const saved = await this.saveAnalysis(
+          'in_role_growth', userProfile, recommendations.inRoleGrowth, compareInRoleGrowthAnalyses
+        );
+        if (saved) {
+          notes.push({
+            kind: 'in_role_growth',
+            previousCreatedAt: saved.previous.createdAt,
+            change: saved.change,
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error saving analysis history:', error);
+    }
+
+    return notes;
+  }
+
+  /**
+   * Save an advisor result with the profile it was computed from
+   * A result that gives the same advice as the latest saved one is not saved again.
+   * @param compare - How the result differs from the latest saved one
+   * @returns The latest saved result of the same kind and how the new one differs, if there was one
+   */
+  private async saveAnalysis<K extends AnalysisKind>(
+    kind: K,
+    userProfile: UserProfile,
+    result: AnalysisResults[K],
+    compare: (previous: AnalysisResults[K], current: AnalysisResults[K]) => AdviceChange
+  ): Promise<{ previous: AnalysisRecord<K>; change: AdviceChange } | undefined> {
+    const history = await this.dataStore.getAnalysisRecords(userProfile.userId, kind);
+    const previous = history[history.length - 1];
+    const change = previous ? compare(previous.result, result) : undefined;
+
+    if (!change || change.isMaterial) {
+      await this.dataStore.saveAnalysisRecord({
+        id: `${kind}-${userProfile.userId}-${Date.now()}-${history.length + 1}`,
+        userId: userProfile.userId,
+        kind,
+        createdAt: new Date(),
+        profileSnapshot: userProfile,
+        result,
+      });
+    }
+
+    return previous && change ? { previous, change } : undefined;
   }
 
   /**
@@ -625,24 +1147,81 @@ export class CoachingEngine {
 
     // Create a fallback session
     const session = this.conversationManager.startSession(request.userId);
+    const intent: Intent = {
+      type: 'profile_building',
+      confidence: 0.5,
+      entities: {}
+    };
 
     return {
       content: 'I\'m experiencing some technical difficulties, but I\'m still here to help. ' +
                'Could you tell me more about what you\'re looking for guidance on?',
       sessionId: session.id,
       timestamp: new Date(),
-      intent: {
-        type: 'profile_building',
-        confidence: 0.5,
-        entities: {}
-      }
+      intent,
+      intents: [intent]
     };
   }
 
+  /**
+   * Start a coaching session; pass its id with each request to continue it
+   */
+  startSession(userId: string): Session {
+    return this.conversationManager.startSession(userId);
+  }
+
+  /**
+   * Drop a user's active sessions, e.g. when their data is erased
+   * @returns Number of sessions removed
+   */
+  removeUserSessions(userId: string): number {
+    return this.conversationManager.removeUserSessions(userId);
+  }
+
+  /**
+   * What earlier conversations noted that bears on a message, for a language model's system prompt
+   * @returns The prompt section, or an empty string when nothing is remembered
+   */
+  async getMemoryPrompt(userId: string, message: string): Promise<string> {
+    try {
+      return await this.memory.promptContext(userId, message);
+    } catch (error) {
+      console.error('Error recalling memory notes:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Summarize messages of a conversation held outside the engine, e.g. with a language model,
+   * into the user's memory notes
+   */
+  async rememberMessages(userId: string, sessionId: string, messages: Message[]): Promise<void> {
+    try {
+      await this.memory.summarizeSession(userId, sessionId, messages);
+    } catch (error) {
+      console.error('Error summarizing messages:', error);
+    }
+  }
+
+  /**
+   * Get the context of an active session, including its current intent and topics
+   */
+  getSessionContext(sessionId: string): SessionContext | null {
+    return this.conversationManager.getSessionContext(sessionId);
+  }
+
+  /**
+   * Get the sessions flagged for review, such as those with crisis messages
+   */
+  getFlaggedSessions(): Promise<FlaggedSession[]> {
+    return this.conversationManager.getFlaggedSessions();
+  }
+
   /**
    * End a coaching session
    */
   async endSession(sessionId: string): Promise<void> {
+    this.intentAnalytics?.endSession(sessionId);
     try {
       await this.conversationManager.endSession(sessionId);
     } catch (error) {
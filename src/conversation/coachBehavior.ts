@@ -5,6 +5,9 @@
  */
 
 import { UserProfile, Message } from '../models/core.js';
+import { detectEmotionalContent } from '../intent/intentRecognizer.js';
+import { detectLanguage } from '../intent/languageDetector.js';
+import { getIntentLanguagePack } from '../intent/languagePacks.js';
 
 export interface CoachResponse {
   content: string;
@@ -191,7 +194,20 @@ No need to write a novel—just whatever feels relevant.`;
     ];
     
     const lowerMessage = userMessage.toLowerCase();
-    return emotionalIndicators.some(indicator => lowerMessage.includes(indicator));
+    if (emotionalIndicators.some(indicator => lowerMessage.includes(indicator))) {
+      return true;
+    }
+
+    // Other languages: any negative emotion from the language's pack
+    const language = detectLanguage(userMessage);
+    if (language === 'en') {
+      return false;
+    }
+    const positive = getIntentLanguagePack(language).emotions
+      .filter(emotion => emotion.positive)
+      .map(emotion => emotion.indicator);
+    return detectEmotionalContent(userMessage, language).emotionalIndicators
+      .some(indicator => !positive.includes(indicator));
   }
 
   /**
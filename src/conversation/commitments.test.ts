@@ -0,0 +1,97 @@
+/**
+ * Tests for commitments to action steps
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifyFollowUpReply,
+  commitmentQuestion,
+  confirmCommitment,
+  describeAction,
+  detectCommitment,
+  dueDateFor,
+  parseDueDate
+} from './commitments.js';
+import { ActionStep } from '../models/core.js';
+
+// Wednesday, October 14, 2026, in local time
+const NOW = new Date(2026, 9, 14, 10, 0);
+
+const endOf = (month: number, day: number) => new Date(2026, month, day, 23, 59, 59, 999);
+
+const offered: ActionStep[] = [
+  { id: 'a-1', description: 'Write down 3 outcomes you want.', timeframe: 'today', category: 'reflection', completed: false },
+  { id: 'a-2', description: 'Reach out to 2 professionals for informational interviews', timeframe: 'this_week', category: 'networking', completed: false },
+  { id: 'a-3', description: 'Update your resume', timeframe: 'this_month', category: 'application', completed: false },
+];
+
+describe('detectCommitment', () => {
+  it('should take on the step of the timeframe mentioned, or the first one', () => {
+    expect(detectCommitment("ok I'll do that this week", offered, NOW)).toEqual([
+      { ...offered[1], dueDate: endOf(9, 18) },
+    ]);
+    expect(detectCommitment('Sounds good', offered, NOW)).toEqual([{ ...offered[0], dueDate: endOf(9, 14) }]);
+  });
+
+  it('should take on the steps a user names, or all of them', () => {
+    expect(detectCommitment("Sure, I'll update my resume by Friday", offered, NOW)).toEqual([
+      { ...offered[2], dueDate: endOf(9, 16) },
+    ]);
+    expect(detectCommitment("I'll do all of them", offered, NOW)!.map(a => [a.id, a.dueDate])).toEqual([
+      ['a-1', endOf(9, 14)],
+      ['a-2', endOf(9, 21)],
+      ['a-3', endOf(10, 13)],
+    ]);
+  });
+
+  it('should not read questions, refusals or other messages as commitments', () => {
+    expect(detectCommitment('ok, but how do I find professionals?', offered, NOW)).toBeNull();
+    expect(detectCommitment("I don't think I can do that", offered, NOW)).toBeNull();
+    expect(detectCommitment('Tell me about data science', offered, NOW)).toBeNull();
+    expect(detectCommitment("ok I'll do that", [], NOW)).toBeNull();
+  });
+});
+
+describe('due dates', () => {
+  it('should read when a message says something will be done', () => {
+    expect(parseDueDate('tonight', NOW)).toEqual(endOf(9, 14));
+    expect(parseDueDate('Tomorrow morning', NOW)).toEqual(endOf(9, 15));
+    expect(parseDueDate('by the end of the week', NOW)).toEqual(endOf(9, 18));
+    expect(parseDueDate('next week', NOW)).toEqual(endOf(9, 21));
+    expect(parseDueDate('on Monday', NOW)).toEqual(endOf(9, 19));
+    expect(parseDueDate('this month', NOW)).toEqual(endOf(9, 31));
+    expect(parseDueDate('next month', NOW)).toEqual(endOf(10, 30));
+    expect(parseDueDate('in two weeks', NOW)).toEqual(endOf(9, 28));
+    expect(parseDueDate('soon', NOW)).toBeNull();
+  });
+
+  it('should give steps without a date a day, a week or a month', () => {
+    expect(dueDateFor('today', NOW)).toEqual(endOf(9, 14));
+    expect(dueDateFor('this_week', NOW)).toEqual(endOf(9, 21));
+    expect(dueDateFor('this_month', NOW)).toEqual(endOf(10, 13));
+  });
+});
+
+describe('follow-ups', () => {
+  it('should tell done from not yet and from moving on', () => {
+    expect(classifyFollowUpReply('Yes, I did!')).toBe('done');
+    expect(classifyFollowUpReply('done')).toBe('done');
+    expect(classifyFollowUpReply('Not yet')).toBe('not_yet');
+    expect(classifyFollowUpReply("No, I didn't have time")).toBe('not_yet');
+    expect(classifyFollowUpReply('Yes, but what should I say to them?')).toBe('other');
+    expect(classifyFollowUpReply('I want to talk about my salary')).toBe('other');
+  });
+
+  it('should word questions and confirmations around the action', () => {
+    expect(describeAction(offered[0])).toBe('write down 3 outcomes you want');
+    expect(describeAction({ ...offered[0], description: 'SQL practice' })).toBe('SQL practice');
+    expect(commitmentQuestion(offered[2])).toBe('Did you get to update your resume?');
+    expect(confirmCommitment([{ ...offered[2], dueDate: endOf(9, 16) }])).toBe(
+      "Deal. I've noted that you'll update your resume by Friday, October 16. I'll ask how it went next time."
+    );
+    expect(confirmCommitment([{ ...offered[0], dueDate: endOf(9, 14) }, { ...offered[2], dueDate: endOf(9, 16) }])).toBe(
+      "Deal. I've noted that you'll:\n- write down 3 outcomes you want (by Wednesday, October 14)\n" +
+      "- update your resume (by Friday, October 16)\nI'll ask how it went next time."
+    );
+  });
+});
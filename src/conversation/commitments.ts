@@ -0,0 +1,202 @@
+/**
+ * Commitments
+ * Recognizes when a user takes on an action step the coach suggested, works out
+ * when it is due, and reads their answers when the coach follows up on it.
+ */
+
+import { ActionStep } from '../models/core.js';
+
+/**
+ * What a response did with the user's commitments
+ */
+export interface CommitmentTurn {
+  /** Action steps the user took on with this message, with their due dates */
+  committed?: ActionStep[];
+  /** Action the user reported done */
+  completed?: ActionStep;
+  /** Action moved to a new due date */
+  rescheduled?: ActionStep;
+  /** Action the response asks about */
+  followUp?: ActionStep;
+}
+
+/**
+ * How a user answered "Did you get to ...?"
+ */
+export type FollowUpReply = 'done' | 'not_yet' | 'other';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4 };
+
+const TIMEFRAME_PHRASES: [ActionStep['timeframe'], RegExp][] = [
+  ['today', /\b(?:today|tonight)\b/i],
+  ['this_week', /\bthis (?:week|weekend)\b/i],
+  ['this_month', /\bthis month\b/i],
+];
+
+const ACCEPT_START = /^(?:ok(?:ay)?|sure|yes|yeah|yep|deal|alright|all right|great|perfect|will do|sounds (?:good|great|like a plan)|let'?s do (?:it|that)|i(?:'ll| will) (?:do|try|start|give)|i'?m (?:on it|in)|i can do)\b/i;
+const ACCEPT_ANYWHERE = /\bi(?:'ll| will| am going to|'m going to)\s+(?:do|try|start on|get to|tackle|work on)\s+(?:that|it|this|those|them|both)\b/i;
+const REFUSE = /\b(?:no|not|won'?t|can'?t|don'?t|never|maybe|rather not)\b/i;
+const ACCEPT_ALL = /\b(?:all|both|everything|each)\b/i;
+
+const NOT_YET = /\b(?:not yet|no|nope|nah|haven'?t|have not|didn'?t|did not|not really|not quite|still (?:need|have) to|ran out of time|no time|couldn'?t|could not)\b/i;
+const DONE = /\b(?:yes|yeah|yep|yup|done|did|finished|completed|i have|got it done|managed)\b/i;
+
+/**
+ * Words that say nothing about which action a user means
+ */
+const FILLER_WORDS = new Set([
+  'that', 'this', 'those', 'them', 'then', 'with', 'your', 'will', 'week', 'weeks', 'month', 'today',
+  'tomorrow', 'sounds', 'good', 'okay', 'sure', 'going', 'first', 'just', 'also', 'really', 'great',
+  'plan', 'start', 'time', 'about', 'from', 'have', 'into', 'next', 'some', 'what', 'when', 'which',
+  'would', 'could', 'should', 'there', 'their', 'these', 'weekend', 'deal', 'perfect', 'alright',
+]);
+
+/**
+ * Reads a message answering suggested action steps as a commitment to some of them
+ * Users commit to the steps they name, to every step with "both" or "all", and otherwise to
+ * the first step of the timeframe they mention ("ok I'll do that this week") or the first step.
+ * Each is due when the message says, or by its timeframe.
+ * @returns The steps taken on, with their due dates, or null when the message is not a commitment
+ */
+export function detectCommitment(message: string, offered: ActionStep[], now: Date = new Date()): ActionStep[] | null {
+  const text = message.trim();
+  if (offered.length === 0 || text.includes('?') || REFUSE.test(text) || !(ACCEPT_START.test(text) || ACCEPT_ANYWHERE.test(text))) {
+    return null;
+  }
+
+  const dueDate = parseDueDate(text, now);
+  return chooseActions(text, offered).map(action => ({
+    ...action,
+    completed: false,
+    dueDate: dueDate ?? dueDateFor(action.timeframe, now),
+  }));
+}
+
+/**
+ * Reads when a message says something will be done: "today", "tomorrow", "this week",
+ * "next week", "by Friday", "this month", "in 3 days"
+ * @returns The end of that day, or null when the message names no time
+ */
+export function parseDueDate(message: string, now: Date = new Date()): Date | null {
+  const text = message.toLowerCase();
+
+  if (/\b(?:today|tonight)\b/.test(text)) {
+    return endOfDay(now, 0);
+  }
+  if (/\btomorrow\b/.test(text)) {
+    return endOfDay(now, 1);
+  }
+  if (/\bnext week\b/.test(text)) {
+    return endOfDay(now, 7);
+  }
+  if (/\b(?:this|the) (?:week|weekend)\b/.test(text)) {
+    // Weeks end on Sunday
+    return endOfDay(now, (7 - now.getDay()) % 7);
+  }
+  if (/\bnext month\b/.test(text)) {
+    return new Date(now.getFullYear(), now.getMonth() + 2, 0, 23, 59, 59, 999);
+  }
+  if (/\b(?:this|the) month\b/.test(text)) {
+    return new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+  }
+
+  const weekday = WEEKDAYS.findIndex(day => new RegExp(`\\b${day}\\b`).test(text));
+  if (weekday >= 0) {
+    return endOfDay(now, (weekday - now.getDay() + 7) % 7);
+  }
+
+  const within = text.match(/\bin (\d+|a|an|one|two|three|four) (day|week|month)s?\b/);
+  if (within) {
+    const count = NUMBER_WORDS[within[1]] ?? parseInt(within[1], 10);
+    const days = within[2] === 'day' ? count : within[2] === 'week' ? count * 7 : count * 30;
+    return endOfDay(now, days);
+  }
+
+  return null;
+}
+
+/**
+ * Due date of an action step taken on without a date: the end of today, or a week or a month from now
+ */
+export function dueDateFor(timeframe: ActionStep['timeframe'], now: Date = new Date()): Date {
+  const days = timeframe === 'today' ? 0 : timeframe === 'this_week' ? 7 : 30;
+  return endOfDay(now, days);
+}
+
+/**
+ * Reads an answer to a follow-up on a commitment
+ * Questions and anything that is neither a yes nor a not yet count as moving on.
+ */
+export function classifyFollowUpReply(message: string): FollowUpReply {
+  const text = message.trim();
+  if (text.includes('?')) {
+    return 'other';
+  }
+  if (NOT_YET.test(text)) {
+    return 'not_yet';
+  }
+  return DONE.test(text) ? 'done' : 'other';
+}
+
+export function commitmentQuestion(action: ActionStep): string {
+  return `Did you get to ${describeAction(action)}?`;
+}
+
+/**
+ * Confirms the steps a user took on, with when each is due
+ */
+export function confirmCommitment(actions: ActionStep[]): string {
+  if (actions.length === 1) {
+    return `Deal. I've noted that you'll ${describeAction(actions[0])} by ${formatDueDate(actions[0].dueDate!)}. ` +
+      'I\'ll ask how it went next time.';
+  }
+  const items = actions.map(action => `- ${describeAction(action)} (by ${formatDueDate(action.dueDate!)})`);
+  return `Deal. I've noted that you'll:\n${items.join('\n')}\nI'll ask how it went next time.`;
+}
+
+/**
+ * An action's description to use within a sentence: "Update your resume." becomes "update your resume"
+ */
+export function describeAction(action: ActionStep): string {
+  const description = action.description.trim().replace(/[.!]+$/, '');
+  // Acronyms such as "SQL" keep their case
+  return /^[A-Z][A-Z]/.test(description) ? description : description.charAt(0).toLowerCase() + description.slice(1);
+}
+
+/**
+ * A due date as it reads in a sentence, e.g. "Friday, October 23"
+ */
+export function formatDueDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+function chooseActions(message: string, offered: ActionStep[]): ActionStep[] {
+  if (ACCEPT_ALL.test(message)) {
+    return offered;
+  }
+
+  const named = meaningfulWords(message);
+  const scored = offered.map(action => ({
+    action,
+    score: [...meaningfulWords(action.description)].filter(word => named.has(word)).length,
+  }));
+  const best = Math.max(...scored.map(s => s.score));
+  if (best > 0) {
+    return scored.filter(s => s.score === best).map(s => s.action);
+  }
+
+  const timeframe = TIMEFRAME_PHRASES.find(([, pattern]) => pattern.test(message))?.[0];
+  return [offered.find(action => action.timeframe === timeframe) ?? offered[0]];
+}
+
+function meaningfulWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z]+/g) || []).filter(word => word.length >= 4 && !FILLER_WORDS.has(word))
+  );
+}
+
+function endOfDay(from: Date, daysAhead: number): Date {
+  return new Date(from.getFullYear(), from.getMonth(), from.getDate() + daysAhead, 23, 59, 59, 999);
+}
@@ -4,8 +4,11 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
-import { ConversationManager } from './conversationManager.js';
+import { CoachingResponder, ConversationManager } from './conversationManager.js';
 import { InMemoryDataStore } from '../persistence/dataStore.js';
+import { formatDueDate, parseDueDate } from './commitments.js';
+import { CoachingFlow } from '../flows/coachingFlow.js';
+import { ValidationError } from '../utils/validation.js';
 import { UserProfile, Message } from '../models/core.js';
 
 describe('ConversationManager Property Tests', () => {
@@ -77,7 +80,8 @@ describe('ConversationManager Property Tests', () => {
               }
             };
 
-            // Save the profile
+            // Save the profile, replacing one an earlier run may have left for the same user
+            userProfile.version = (await dataStore.getUserProfile(userId))?.version;
             await dataStore.saveUserProfile(userProfile);
 
             // Create a first session and have some conversation
@@ -162,6 +166,8 @@ describe('ConversationManager Property Tests', () => {
               }
             };
 
+            // Replace the profile an earlier run may have left for the same user
+            userProfile.version = (await dataStore.getUserProfile(userId))?.version;
             await dataStore.saveUserProfile(userProfile);
 
             // First session with substantial conversation
@@ -266,6 +272,8 @@ describe('ConversationManager Property Tests', () => {
               }
             };
 
+            // Replace the profile an earlier run may have left for the same user
+            userProfile.version = (await dataStore.getUserProfile(userId))?.version;
             await dataStore.saveUserProfile(userProfile);
 
             // Create a session and send messages
@@ -312,4 +320,391 @@ describe('ConversationManager Property Tests', () => {
       );
     }, 30000);
   });
+
+  describe('Crisis messages', () => {
+    it('should answer with helplines and flag the session for review', async () => {
+      const session = conversationManager.startSession('crisis-user');
+
+      const response = await conversationManager.continueSession(session.id, 'I want to end my life', 'de');
+
+      expect(response.crisis?.categories).toEqual(['suicidal_ideation']);
+      expect(response.content).toContain('TelefonSeelsorge');
+      expect((await conversationManager.getFlaggedSessions()).map(flagged => flagged.sessionId)).toEqual([session.id]);
+      expect(session.reviewFlags).toEqual([
+        expect.objectContaining({ reason: 'crisis', messageId: session.context.conversationHistory[0].id })
+      ]);
+      expect(await dataStore.getConversationHistory('crisis-user')).toHaveLength(2);
+    });
+
+    it('should keep flags after the session ends', async () => {
+      const session = conversationManager.startSession('crisis-user');
+      await conversationManager.continueSession(session.id, 'quiero morir');
+      await conversationManager.endSession(session.id);
+
+      const restarted = new ConversationManager(dataStore);
+      expect(await restarted.getFlaggedSessions()).toEqual([{
+        sessionId: session.id,
+        userId: 'crisis-user',
+        flags: [expect.objectContaining({ reason: 'crisis', details: ['suicidal_ideation'] })],
+      }]);
+    });
+
+    it('should use configured helplines in the default language when the message gives none', async () => {
+      const manager = new ConversationManager(dataStore, {
+        defaultLanguage: 'pt',
+        resources: { pt: [{ name: 'Linha interna', contact: '4000' }] }
+      });
+      const session = manager.startSession('crisis-user');
+
+      const response = await manager.continueSession(session.id, 'self-harm again');
+
+      expect(response.content).toContain('• Linha interna: 4000');
+      expect(response.content).toContain('Sinto muito');
+    });
+
+    it('should coach as usual and leave the session unflagged otherwise', async () => {
+      const session = conversationManager.startSession('busy-user');
+
+      const response = await conversationManager.continueSession(session.id, 'This job is killing me');
+
+      expect(response.crisis).toBeUndefined();
+      expect(await conversationManager.getFlaggedSessions()).toEqual([]);
+    });
+  });
+
+  describe('Coaching responder', () => {
+    const responder: CoachingResponder = {
+      respond: async (session, userMessage) => ({
+        content: `Here are paths for ${session.userId}`,
+        intents: [{ type: 'career_clarity', confidence: 0.9, entities: {} }],
+        recommendations: { actions: [{ id: 'a1', description: userMessage, timeframe: 'today', category: 'reflection', completed: false }] },
+      }),
+    };
+
+    it('should answer with the responder and keep its reply in the history', async () => {
+      await dataStore.saveUserProfile(createInterviewProfile('returning-user'));
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, responder);
+      const session = manager.startSession('returning-user');
+
+      const response = await manager.continueSession(session.id, 'What career suits me?');
+
+      expect(response.content).toBe('Here are paths for returning-user');
+      expect(response.intents?.[0].type).toBe('career_clarity');
+      expect(response.recommendations?.actions?.[0].description).toBe('What career suits me?');
+      expect(response.interview).toBeUndefined();
+      expect(manager.getSession(session.id)!.context.conversationHistory.map(m => m.content))
+        .toEqual(['What career suits me?', 'Here are paths for returning-user']);
+    });
+
+    it('should follow the reply with the interview for newcomers', async () => {
+      const manager = new ConversationManager(dataStore, {}, {}, responder);
+      const session = manager.startSession('new-user');
+
+      const response = await manager.continueSession(session.id, 'What career suits me?');
+
+      expect(response.content).toMatch(/^Here are paths for new-user\n\nTo tailor my advice/);
+      expect(response.interview).toEqual({ field: 'currentRole', started: expect.stringContaining('What do you do right now?') });
+      expect(response.sections?.map(section => section.kind)).toEqual(['recommendations', 'follow_up']);
+      expect(response.sections?.map(section => section.content).join('\n\n')).toBe(response.content);
+      expect((await manager.continueSession(session.id, "I'm a nurse")).intents).toBeUndefined();
+    });
+
+    it('should open the next session with what the user committed to in the last one', async () => {
+      await dataStore.saveUserProfile(createInterviewProfile('returning-user'));
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, responder);
+      const first = manager.startSession('returning-user');
+      await manager.continueSession(first.id, "I'll update my CV this weekend. Should I add my volunteering?");
+      await manager.endSession(first.id);
+
+      const second = manager.startSession('returning-user');
+      const opening = await manager.continueSession(second.id, 'What career suits me?');
+      const followUp = await manager.continueSession(second.id, 'And what else?');
+
+      expect(opening.content).toBe(
+        'Last time, you told me "I\'ll update my CV this weekend". ' +
+        'You also asked "Should I add my volunteering"; we can come back to that.\n\n' +
+        'Here are paths for returning-user'
+      );
+      expect(followUp.content).toBe('Here are paths for returning-user');
+      expect(opening.sections?.map(section => section.kind)).toEqual(['recap', 'recommendations']);
+    });
+
+    it('should not give canned next steps without a responder', async () => {
+      await dataStore.saveUserProfile(createInterviewProfile('returning-user'));
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false });
+      const session = manager.startSession('returning-user');
+
+      const response = await manager.continueSession(session.id, 'I finished my course');
+
+      expect(response.content).not.toContain('Let me help you work through this');
+      expect(response.recommendations).toBeUndefined();
+      expect(manager.getSession('session_missing')).toBeNull();
+    });
+  });
+
+  describe('Commitments', () => {
+    const planner: CoachingResponder = {
+      respond: async () => ({
+        content: 'Try these steps.',
+        intents: [{ type: 'action_planning', confidence: 0.9, entities: {} }],
+        recommendations: {
+          actions: [
+            { id: 'resume', description: 'Update your resume', timeframe: 'this_week', category: 'application', completed: false },
+            { id: 'network', description: 'Message two former colleagues', timeframe: 'this_week', category: 'networking', completed: false },
+          ],
+        },
+      }),
+    };
+
+    async function commitToResume(manager: ConversationManager) {
+      await dataStore.saveUserProfile(createInterviewProfile('returning-user'));
+      const session = manager.startSession('returning-user');
+      await manager.continueSession(session.id, 'How do I get more interviews?');
+      const response = await manager.continueSession(session.id, "ok I'll update my resume this week");
+      await manager.endSession(session.id);
+      return response;
+    }
+
+    it('should record the step a user takes on and ask about it in the next session', async () => {
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, planner);
+
+      const committed = await commitToResume(manager);
+      expect(committed.content).toMatch(/^Deal\. I've noted that you'll update your resume by \w+day, /);
+      expect(committed.commitments?.committed?.map(a => a.id)).toEqual(['resume']);
+      expect((await dataStore.getProgressEvents('returning-user')).map(e => e.type)).toEqual(['action_committed']);
+
+      const session = manager.startSession('returning-user');
+      const opening = await manager.continueSession(session.id, 'Hi again');
+      expect(opening.content).toMatch(/Try these steps\.\n\nDid you get to update your resume\?$/);
+      expect(opening.commitments?.followUp?.id).toBe('resume');
+      expect(manager.getSessionContext(session.id)!.pendingActions.map(a => a.id)).toEqual(['resume']);
+
+      const done = await manager.continueSession(session.id, 'Yes, I did!');
+      expect(done.content).toBe("Nice work! I've marked that as done. What would you like to work on today?");
+      expect(done.commitments?.completed?.completed).toBe(true);
+      expect((await dataStore.getUserProfile('returning-user'))!.progress.completedActions).toEqual(['resume']);
+      expect(manager.getSessionContext(session.id)!.pendingActions).toEqual([]);
+    });
+
+    it('should reschedule steps that are not done yet and keep them pending when the user moves on', async () => {
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, planner);
+      await commitToResume(manager);
+
+      const session = manager.startSession('returning-user');
+      await manager.continueSession(session.id, 'Hi again');
+      const notYet = await manager.continueSession(session.id, "Not yet, I'll do it tomorrow");
+      const tomorrow = parseDueDate('tomorrow')!;
+
+      expect(notYet.content).toBe(`No problem. I've moved it to ${formatDueDate(tomorrow)}. What would you like to work on today?`);
+      expect(notYet.commitments?.rescheduled?.dueDate).toEqual(tomorrow);
+      await manager.endSession(session.id);
+
+      const later = manager.startSession('returning-user');
+      expect((await manager.continueSession(later.id, 'Hello')).commitments?.followUp?.dueDate).toEqual(tomorrow);
+      const movedOn = await manager.continueSession(later.id, 'Can we talk about salary instead?');
+      expect(movedOn.content).toBe('Try these steps.');
+      expect(movedOn.commitments).toBeUndefined();
+      expect(manager.getSessionContext(later.id)!.pendingActions).toHaveLength(1);
+    });
+
+    it('should only read commitments right after steps were suggested', async () => {
+      await dataStore.saveUserProfile(createInterviewProfile('returning-user'));
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, planner);
+      const session = manager.startSession('returning-user');
+
+      expect((await manager.continueSession(session.id, "ok I'll do that")).commitments).toBeUndefined();
+      expect((await manager.continueSession(session.id, 'What else could help?')).commitments).toBeUndefined();
+      expect((await manager.continueSession(session.id, "Both, I'll do them this week")).commitments?.committed).toHaveLength(2);
+    });
+  });
+
+  describe('Coaching flows', () => {
+    const checkIn: CoachingFlow = {
+      id: 'check_in',
+      title: 'Check-in',
+      intent: 'progress_check',
+      triggers: ['check in'],
+      intro: 'Quick check-in.',
+      start: 'mood',
+      states: {
+        mood: {
+          prompt: 'How is work going, from 1 to 5?',
+          expect: { type: 'scale', min: 1, max: 5 },
+          saveAs: 'mood',
+          branches: [{ when: { atMost: 2 }, next: 'low' }],
+          next: 'focus',
+        },
+        focus: {
+          prompt: 'What will you focus on?',
+          expect: { type: 'text' },
+          saveAs: 'focus',
+          next: 'done',
+        },
+        low: { prompt: 'Sorry it is hard right now. Want to talk about it?', final: true },
+        done: { prompt: 'Good luck with {{focus}}!', final: true },
+      },
+    };
+
+    it('should run a flow a message asks for and keep its progress in the session context', async () => {
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false }, undefined, undefined, [checkIn]);
+      const session = manager.startSession('flow-user');
+
+      const started = await manager.continueSession(session.id, 'Can we do a check in?');
+      expect(started.content).toBe('Quick check-in.\n\nHow is work going, from 1 to 5?');
+      expect(started.flow).toEqual({ flowId: 'check_in', status: 'started', state: 'mood', answers: {} });
+      expect(manager.getSessionContext(session.id)!.flow).toMatchObject({ flowId: 'check_in', state: 'mood' });
+      expect(manager.getSessionContext(session.id)!.currentIntent.type).toBe('progress_check');
+
+      const retry = await manager.continueSession(session.id, 'Pretty busy');
+      expect(retry.flow?.status).toBe('retry');
+      expect(retry.content).toBe("I didn't quite catch that. How is work going, from 1 to 5?");
+
+      const next = await manager.continueSession(session.id, '4');
+      expect(next.flow).toEqual({ flowId: 'check_in', status: 'continued', state: 'focus', answers: { mood: 4 } });
+
+      const done = await manager.continueSession(session.id, 'the launch');
+      expect(done.content).toBe('Good luck with the launch!');
+      expect(done.flow?.status).toBe('completed');
+      expect(manager.getSessionContext(session.id)!.flow).toBeUndefined();
+      expect((await manager.continueSession(session.id, 'Thanks')).flow).toBeUndefined();
+    });
+
+    it('should start flows by id, follow branches and leave on an exit phrase', async () => {
+      const manager = new ConversationManager(dataStore, {}, { interviewIncompleteProfiles: false });
+      manager.registerFlows([checkIn]);
+      expect(manager.listFlows().map(flow => flow.id)).toEqual(['check_in']);
+      const session = manager.startSession('flow-user');
+      await expect(manager.startFlow(session.id, 'unknown')).rejects.toThrow(ValidationError);
+
+      expect((await manager.startFlow(session.id, 'check_in')).flow?.status).toBe('started');
+      const low = await manager.continueSession(session.id, '2');
+      expect(low.flow).toMatchObject({ status: 'completed', state: 'low' });
+
+      await manager.startFlow(session.id, 'check_in');
+      const exited = await manager.continueSession(session.id, 'stop');
+      expect(exited.flow?.status).toBe('exited');
+      expect(manager.getSessionContext(session.id)!.flow).toBeUndefined();
+    });
+
+    it('should end a flow when a message speaks of crisis', async () => {
+      const manager = new ConversationManager(dataStore, {}, {}, undefined, undefined, [checkIn]);
+      const session = manager.startSession('flow-user');
+      await manager.continueSession(session.id, "Let's check in");
+
+      const response = await manager.continueSession(session.id, 'I want to kill myself');
+      expect(response.crisis).toBeDefined();
+      expect(response.flow).toBeUndefined();
+      expect(manager.getSessionContext(session.id)!.flow).toBeUndefined();
+    });
+  });
+
+  describe('Profile interview', () => {
+    const reply = async (sessionId: string, message: string) =>
+      (await conversationManager.continueSession(sessionId, message)).content;
+
+    it('should welcome newcomers with questions and save their profile once it is valid', async () => {
+      const session = conversationManager.startSession('new-user');
+
+      const welcome = await conversationManager.continueSession(session.id, 'Hello');
+      expect(welcome.content).toContain('What do you do right now?');
+      expect(welcome.interview?.field).toBe('currentRole');
+
+      expect(await reply(session.id, "I'm a nurse")).toBe('Just to check: your current role is Nurse. Is that right?');
+      expect(await reply(session.id, 'yes')).toContain('How many years of work experience');
+      expect(await reply(session.id, 'No idea')).toContain("What's your educational background?");
+      expect(await reply(session.id, 'skip')).toContain('I need at least your education');
+      expect(await dataStore.getUserProfile('new-user')).toBeNull();
+
+      await reply(session.id, "I have a bachelor's in nursing");
+      expect(await reply(session.id, 'Yes')).toContain('What would you like to achieve');
+      expect((await dataStore.getUserProfile('new-user'))!.personalInfo).toMatchObject({
+        currentRole: 'Nurse',
+        education: "Bachelor's in Nursing",
+      });
+    });
+
+    it('should take corrections and finish with a complete profile', async () => {
+      const profile = createInterviewProfile('returning-user');
+      profile.careerInfo.goals.push({ id: 'goal-1', description: 'Lead a team', type: 'long_term', priority: 1 });
+      await dataStore.saveUserProfile(profile);
+      const session = conversationManager.startSession('returning-user');
+
+      const started = await conversationManager.startProfileInterview(session.id);
+      expect(started.content).toContain('Which kinds of work or topics interest you most?');
+
+      expect(await reply(session.id, 'data and design')).toContain("you're interested in data, design");
+      expect(await reply(session.id, 'No, data and teaching')).toContain("you're interested in data, teaching");
+      expect(await reply(session.id, 'yes')).toContain('What feels hardest');
+      await reply(session.id, 'I feel stuck and overwhelmed');
+      const done = await conversationManager.continueSession(session.id, 'correct');
+
+      expect(done.content).toContain('What would you like to work on first?');
+      expect(done.interview).toEqual({ field: undefined });
+      expect(conversationManager.isInterviewing(session.id)).toBe(false);
+      const saved = (await dataStore.getUserProfile('returning-user'))!;
+      expect(saved.careerInfo.interests).toEqual(['data', 'teaching']);
+      expect(saved.careerInfo.struggles).toEqual([expect.objectContaining({ type: 'overwhelm' })]);
+    });
+
+    it('should drop the interview answers of a user erased in the middle of it', async () => {
+      const session = conversationManager.startSession('erased-user');
+      await conversationManager.continueSession(session.id, 'Hello');
+      await reply(session.id, "I'm a nurse");
+      expect(conversationManager.isInterviewing(session.id)).toBe(true);
+
+      expect(conversationManager.removeUserSessions('erased-user')).toBe(1);
+
+      expect(conversationManager.isInterviewing(session.id)).toBe(false);
+      await expect(reply(session.id, 'yes')).rejects.toThrow('not found');
+      expect(await dataStore.getUserProfile('erased-user')).toBeNull();
+    });
+
+    it('should forget the interview of an ended session', async () => {
+      const session = conversationManager.startSession('leaving-user');
+      await conversationManager.continueSession(session.id, 'Hello');
+      expect(conversationManager.isInterviewing(session.id)).toBe(true);
+
+      await conversationManager.endSession(session.id);
+
+      expect(conversationManager.isInterviewing(session.id)).toBe(false);
+    });
+
+    it('should step aside for questions and not ask again in the same session', async () => {
+      await dataStore.saveUserProfile(createInterviewProfile('busy-user'));
+      const session = conversationManager.startSession('busy-user');
+
+      await conversationManager.continueSession(session.id, 'Hi');
+      await conversationManager.continueSession(session.id, 'Hello');
+      expect(conversationManager.isInterviewing(session.id)).toBe(true);
+
+      const response = await conversationManager.continueSession(session.id, 'Which skills should I learn?');
+      expect(response.interview).toBeUndefined();
+      expect(conversationManager.isInterviewing(session.id)).toBe(false);
+      expect((await conversationManager.continueSession(session.id, 'Okay')).interview).toBeUndefined();
+
+      const manager = new ConversationManager(dataStore);
+      await dataStore.saveUserProfile({
+        ...createInterviewProfile('complete-user'),
+        careerInfo: {
+          goals: [{ id: 'goal-1', description: 'Lead a team', type: 'long_term', priority: 1 }],
+          interests: ['data'],
+          struggles: [{ type: 'stagnation', description: 'Stuck', severity: 0.5 }],
+        },
+      });
+      const complete = await manager.startProfileInterview(manager.startSession('complete-user').id);
+      expect(complete.content).toContain('already has everything');
+      expect(complete.interview).toBeUndefined();
+    });
+  });
 });
+
+function createInterviewProfile(userId: string): UserProfile {
+  return {
+    userId,
+    personalInfo: { age: 30, currentRole: 'Analyst', yearsOfExperience: 4, education: 'BA in Economics' },
+    careerInfo: { goals: [], interests: [], struggles: [] },
+    skills: { current: [], learning: [], target: [] },
+    mindset: { confidenceLevel: 0.5, motivationLevel: 0.5, primaryConcerns: [] },
+    progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-01-01T00:00:00.000Z') },
+  };
+}
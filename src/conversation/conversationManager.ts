@@ -6,29 +6,191 @@
 import { 
   Session, 
   SessionContext, 
+  SessionReviewFlag,
   Message, 
   Intent, 
   UserProfile,
-  ActionStep 
+  ActionStep,
+  FlowProgress
 } from '../models/core.js';
 import { 
   CareerPath, 
   SkillRecommendation, 
-  GrowthPlan 
+  GrowthPlan,
+  TransitionPlan
 } from '../models/recommendations.js';
+import { InRoleGrowthAnalysis } from '../recommendations/inRoleGrowthAdvisor.js';
+import { PlanHistoryNote } from '../recommendations/planHistory.js';
 import { DataStore } from '../persistence/dataStore.js';
+import { mergeActiveTopics } from '../intent/intentContext.js';
+import { CrisisAssessment, detectCrisis } from '../intent/crisisDetector.js';
+import { detectLanguage } from '../intent/languageDetector.js';
+import { Language } from '../i18n/languages.js';
+import {
+  CrisisResponseConfig,
+  CrisisResponseOptions,
+  getCrisisResponse,
+  resolveCrisisResponseConfig
+} from '../i18n/crisisResources.js';
+import { ProfileAnalyzer } from '../profile/profileAnalyzer.js';
+import { collectProfileData } from '../profile/profileCollector.js';
+import {
+  INTERVIEW_QUESTIONS,
+  InterviewAnswer,
+  InterviewField,
+  applyInterviewAnswer,
+  classifyInterviewReply,
+  describeInterviewAnswer,
+  isInterviewFieldFilled,
+  missingInterviewFields,
+  parseInterviewAnswer,
+  stripNegativeReply
+} from '../profile/profileInterview.js';
+import { updateUserProfile } from '../persistence/profileUpdates.js';
+import { ValidationError } from '../utils/validation.js';
+import { ConversationMemory } from '../memory/conversationMemory.js';
+import { projectPendingActions } from '../persistence/progressEvents.js';
+import {
+  CommitmentTurn,
+  classifyFollowUpReply,
+  commitmentQuestion,
+  confirmCommitment,
+  detectCommitment,
+  dueDateFor,
+  formatDueDate,
+  parseDueDate
+} from './commitments.js';
 import { CoachBehavior } from './coachBehavior.js';
+import { CoachingFlow } from '../flows/coachingFlow.js';
+import { FlowStatus, FlowStep, advanceFlow, beginFlow, findTriggeredFlow } from '../flows/flowRunner.js';
+
+/**
+ * Where a profile interview stands after a response
+ */
+export interface InterviewTurn {
+  /** Field the response asks about; missing once the interview is over */
+  field?: InterviewField;
+  /** Set on the turn the interview starts: its introduction and first question */
+  started?: string;
+}
+
+export interface InterviewConfig {
+  /** Interview returning users whose profile is incomplete, not only newcomers without one */
+  interviewIncompleteProfiles: boolean;
+}
+
+export const DEFAULT_INTERVIEW_CONFIG: InterviewConfig = {
+  interviewIncompleteProfiles: true,
+};
+
+/**
+ * Where a coaching flow stands after a response
+ */
+export interface FlowTurn {
+  flowId: string;
+  status: FlowStatus;
+  /** State whose prompt the response showed */
+  state: string;
+  answers: FlowProgress['answers'];
+}
+
+/**
+ * A session a person should look at, with every flag raised in it
+ */
+export interface FlaggedSession {
+  sessionId: string;
+  userId: string;
+  /** Oldest first */
+  flags: SessionReviewFlag[];
+}
+
+/**
+ * A session's profile interview
+ */
+interface InterviewState {
+  /** Fields to ask, in order */
+  plan: InterviewField[];
+  /** Fields answered or skipped */
+  settled: InterviewField[];
+  asking?: InterviewField;
+  /** Answer waiting for the user to confirm it */
+  pending?: InterviewAnswer;
+  /** Answers of a user without a stored profile, saved once they make a valid profile */
+  draft?: UserProfile;
+}
+
+/**
+ * Commitments of earlier sessions the coach follows up on, one at a time
+ */
+interface FollowUpState {
+  /** Pending actions still to ask about, soonest due first */
+  queue: ActionStep[];
+  /** Action the last response asked about */
+  asking?: ActionStep;
+}
+
+const INTERVIEW_INTRO = 'To tailor my advice, I\'d like to fill in a few details about you. ' +
+  'Say "skip" to pass on a question, or "stop" to come back to it later.';
+
+const LEAVE_INTERVIEW = /^(?:stop|later|not now|cancel|enough|let'?s (?:talk about something else|move on))\b/i;
+
+/**
+ * A part of a reply, such as its recommendations or the question it ends with
+ */
+export interface ResponseSection {
+  kind: 'recap' | 'mindset' | 'recommendations' | 'follow_up';
+  content: string;
+}
 
 export interface Response {
   content: string;
   sessionId: string;
   timestamp: Date;
+  /** Intents a coaching reply acted on, most likely first; set on replies from the responder */
+  intents?: Intent[];
+  /** The content in parts, in order, which joined by blank lines make it; set on replies from the responder */
+  sections?: ResponseSection[];
   recommendations?: {
     careerPaths?: CareerPath[];
     skills?: SkillRecommendation[];
     actions?: ActionStep[];
     growthPlan?: GrowthPlan;
+    transitionPlan?: TransitionPlan;
+    inRoleGrowth?: InRoleGrowthAnalysis;
+    planHistory?: PlanHistoryNote[];
   };
+  /** Set when the message spoke of suicide or self-harm and was answered with helplines */
+  crisis?: CrisisAssessment;
+  /** Set when the response started or continued a profile interview */
+  interview?: InterviewTurn;
+  /** Set when the response recorded, followed up on or settled commitments */
+  commitments?: CommitmentTurn;
+  /** Set when the response started, continued or ended a coaching flow */
+  flow?: FlowTurn;
+}
+
+/**
+ * Coaching content of a reply, drawn from the recommendation engines
+ */
+export interface CoachingReply {
+  content: string;
+  /** Intents the reply acted on, most likely first */
+  intents: Intent[];
+  recommendations?: Response['recommendations'];
+  /** The content in parts; the whole content is taken as recommendations without them */
+  sections?: ResponseSection[];
+}
+
+/**
+ * Answers the messages of a session with recommendations
+ * Crisis messages and answers to the profile interview never reach it.
+ */
+export interface CoachingResponder {
+  /**
+   * @param session - The session, with the message already added to its history
+   * @param language - Language the user chose, if any
+   */
+  respond(session: Session, userMessage: string, language?: Language): Promise<CoachingReply>;
 }
 
 /**
@@ -40,10 +202,41 @@ export class ConversationManager {
   private sessions: Map<string, Session> = new Map();
   private dataStore: DataStore;
   private coachBehavior: CoachBehavior;
+  private crisisConfig: CrisisResponseConfig;
+  private interviewConfig: InterviewConfig;
+  private profileAnalyzer: ProfileAnalyzer = new ProfileAnalyzer();
+  private interviews: Map<string, InterviewState> = new Map();
+  /** Sessions whose interview was finished or put off, so it is not offered again */
+  private closedInterviews: Set<string> = new Set();
+  private responder?: CoachingResponder;
+  private memory: ConversationMemory;
+  /** Action steps of each session's last reply, which the next message may take on */
+  private offeredActions: Map<string, ActionStep[]> = new Map();
+  private followUps: Map<string, FollowUpState> = new Map();
+  private flows: CoachingFlow[] = [];
 
-  constructor(dataStore: DataStore) {
+  /**
+   * @param crisisConfig - Default language and helplines of crisis responses, replaced per language
+   * @param interviewConfig - When the profile interview starts on its own
+   * @param responder - Answers messages with recommendations; without it, responses come from coach behavior alone
+   * @param memory - Summarizes sessions into notes recalled in later sessions; kept in the data store by default
+   * @param flows - Coaching flows a message can start; see registerFlows
+   */
+  constructor(
+    dataStore: DataStore,
+    crisisConfig: CrisisResponseOptions = {},
+    interviewConfig: Partial<InterviewConfig> = {},
+    responder?: CoachingResponder,
+    memory?: ConversationMemory,
+    flows: CoachingFlow[] = []
+  ) {
     this.dataStore = dataStore;
+    this.registerFlows(flows);
+    this.responder = responder;
+    this.memory = memory ?? new ConversationMemory(dataStore);
     this.coachBehavior = new CoachBehavior();
+    this.crisisConfig = resolveCrisisResponseConfig(crisisConfig);
+    this.interviewConfig = { ...DEFAULT_INTERVIEW_CONFIG, ...interviewConfig };
   }
 
   /**
@@ -82,9 +275,14 @@ export class ConversationManager {
 
   /**
    * Continue an existing session with a new user message
-   * Maintains context and references previous discussions
+   * Maintains context and references previous discussions. A message that speaks of
+   * suicide or self-harm is answered with helplines instead of coaching, and the
+   * session is flagged for review. Users who take on suggested action steps are followed
+   * up on them in their next session. While a coaching flow runs, messages answer its prompts.
+   * @param language - Language the user chose, for crisis responses and the responder;
+   * crisis responses detect it from the message otherwise
    */
-  async continueSession(sessionId: string, userMessage: string): Promise<Response> {
+  async continueSession(sessionId: string, userMessage: string, language?: Language): Promise<Response> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
@@ -102,6 +300,67 @@ export class ConversationManager {
     };
     session.context.conversationHistory.push(message);
 
+    // Returning users are asked about what they committed to in earlier sessions
+    if (session.context.conversationHistory.filter(m => m.sender === 'user').length === 1) {
+      await this.loadCommitments(session);
+    }
+    const offered = this.offeredActions.get(sessionId) ?? [];
+    this.offeredActions.delete(sessionId);
+
+    const crisis = detectCrisis(userMessage);
+    if (crisis) {
+      await this.flagForReview(session, {
+        reason: 'crisis',
+        messageId: message.id,
+        details: crisis.categories,
+        flaggedAt: message.timestamp
+      });
+      // A coaching flow is no place for someone in crisis
+      delete session.context.flow;
+      const crisisResponse = await this.respond(
+        session,
+        getCrisisResponse(language ?? detectLanguage(userMessage, this.crisisConfig.defaultLanguage), this.crisisConfig)
+      );
+      return { ...crisisResponse, crisis };
+    }
+
+    if (session.context.flow) {
+      return this.continueFlow(session, session.context.flow, userMessage);
+    }
+    const triggered = findTriggeredFlow(this.flows, userMessage);
+    if (triggered) {
+      return this.enterFlow(session, triggered);
+    }
+
+    // Answers to a follow-up settle the commitment, unless the user moves on
+    if (this.followUps.get(sessionId)?.asking) {
+      const followUpTurn = await this.continueFollowUp(session, userMessage);
+      if (followUpTurn !== null) {
+        const followUpResponse = await this.respond(session, followUpTurn.content);
+        return { ...followUpResponse, commitments: followUpTurn.commitments };
+      }
+    }
+
+    // Answers to the profile interview are handled by it, unless the user moves on
+    if (this.interviews.has(sessionId)) {
+      const interviewReply = await this.continueInterview(session, userMessage);
+      if (interviewReply !== null) {
+        const interviewResponse = await this.respond(session, interviewReply);
+        return { ...interviewResponse, interview: { field: this.interviews.get(sessionId)?.asking } };
+      }
+    }
+
+    const committed = detectCommitment(userMessage, offered);
+    if (committed) {
+      await this.recordCommitments(session, committed);
+      const commitmentResponse = await this.respond(session, confirmCommitment(committed));
+      return { ...commitmentResponse, commitments: { committed } };
+    }
+
+    if (this.responder) {
+      return this.respondWithRecommendations(session, userMessage, language);
+    }
+
     // Get user profile and historical context for returning users
     const userProfile = await this.dataStore.getUserProfile(session.userId);
     const historicalMessages = await this.dataStore.getConversationHistory(session.userId);
@@ -114,27 +373,96 @@ export class ConversationManager {
       historicalMessages
     );
 
-    // Add system response to conversation history
-    const systemMessage: Message = {
-      id: this.generateMessageId(),
-      sender: 'system',
-      content: responseContent,
-      timestamp: new Date()
-    };
-    session.context.conversationHistory.push(systemMessage);
+    const response = await this.respond(session, responseContent);
+    // An interview still open here was started by this response
+    const started = this.interviews.get(sessionId);
+    if (started) {
+      return { ...response, interview: { field: started.asking, started: this.introduceInterview(started) } };
+    }
+    // Likewise for a follow-up
+    const followUp = this.followUps.get(sessionId)?.asking;
+    return followUp ? { ...response, commitments: { followUp } } : response;
+  }
 
-    // Save conversation to data store
-    await this.dataStore.saveConversation(sessionId, session.context.conversationHistory);
+  /**
+   * Start asking the user for the profile fields they have not filled in
+   * Each confirmed answer is saved right away. Users without a profile get one once
+   * they have given their education, the least a valid profile needs.
+   * @returns The first question, or a note that the profile is already complete
+   */
+  async startProfileInterview(sessionId: string): Promise<Response> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
 
-    return {
-      content: responseContent,
-      sessionId,
-      timestamp: systemMessage.timestamp
-    };
+    this.closedInterviews.delete(sessionId);
+    const state = this.beginInterview(session, await this.dataStore.getUserProfile(session.userId));
+    if (!state) {
+      return this.respond(session, 'Your profile already has everything I need. What would you like to work on?');
+    }
+
+    const response = await this.respond(session, this.introduceInterview(state));
+    return { ...response, interview: { field: state.asking, started: response.content } };
+  }
+
+  /**
+   * Add coaching flows that messages can start; a flow replaces the one with the same id
+   */
+  registerFlows(flows: CoachingFlow[]): void {
+    for (const flow of flows) {
+      this.flows = [...this.flows.filter(other => other.id !== flow.id), flow];
+    }
+  }
+
+  /**
+   * Coaching flows that messages can start
+   */
+  listFlows(): CoachingFlow[] {
+    return [...this.flows];
+  }
+
+  /**
+   * Start a coaching flow, leaving any flow the session was in
+   * @returns The flow's introduction and first prompt
+   * @throws ValidationError when no flow has the id
+   */
+  async startFlow(sessionId: string, flowId: string): Promise<Response> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const flow = this.flows.find(f => f.id === flowId);
+    if (!flow) {
+      throw new ValidationError(`Unknown coaching flow "${flowId}"`, 'flowId', flowId);
+    }
+    return this.enterFlow(session, flow);
+  }
+
+  /**
+   * Whether the session is in the middle of a profile interview
+   */
+  isInterviewing(sessionId: string): boolean {
+    return this.interviews.has(sessionId);
+  }
+
+  /**
+   * Get the sessions a person should look at, such as those with crisis messages
+   * Flags are kept by the data store, so ended sessions and earlier runs are included.
+   */
+  async getFlaggedSessions(): Promise<FlaggedSession[]> {
+    const flagged = new Map<string, FlaggedSession>();
+    for (const { userId, sessionId, ...flag } of await this.dataStore.getReviewFlags()) {
+      const entry = flagged.get(sessionId) ?? { sessionId, userId, flags: [] };
+      entry.flags.push(flag);
+      flagged.set(sessionId, entry);
+    }
+    return [...flagged.values()];
   }
 
   /**
    * End a conversation session and persist final state
+   * The session is summarized into the user's memory notes, whatever its length
    */
   async endSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
@@ -144,9 +472,63 @@ export class ConversationManager {
 
     // Save final conversation state
     await this.dataStore.saveConversation(sessionId, session.context.conversationHistory);
+    await this.rememberSession(session, true);
 
     // Remove from active sessions
+    this.forgetSession(sessionId);
+  }
+
+  /**
+   * Drop every active session of a user without persisting them
+   * Used when the user's data is erased
+   * @returns Number of sessions removed
+   */
+  removeUserSessions(userId: string): number {
+    let removed = 0;
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (session.userId === userId) {
+        this.forgetSession(sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Drop everything held in memory for a session, including interview answers not yet saved
+   */
+  private forgetSession(sessionId: string): void {
     this.sessions.delete(sessionId);
+    this.offeredActions.delete(sessionId);
+    this.followUps.delete(sessionId);
+    this.interviews.delete(sessionId);
+    this.closedInterviews.delete(sessionId);
+  }
+
+  /**
+   * Record the intents a turn was answered with
+   * The first becomes the session's current intent and their topics become the most
+   * recent active topics, so the next message can be read as a follow-up
+   * @param options - Choices offered in the answer that the next message may pick from
+   */
+  recordIntents(sessionId: string, intents: Intent[], options?: string[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || intents.length === 0) {
+      return;
+    }
+
+    const [current] = intents;
+    session.context.currentIntent = options && options.length > 0
+      ? { ...current, entities: { ...current.entities, options } }
+      : current;
+    session.context.activeTopics = mergeActiveTopics(session.context.activeTopics, intents);
+  }
+
+  /**
+   * Get an active session
+   */
+  getSession(sessionId: string): Session | null {
+    return this.sessions.get(sessionId) ?? null;
   }
 
   /**
@@ -167,15 +549,8 @@ export class ConversationManager {
     userProfile: UserProfile | null,
     historicalMessages: Message[]
   ): Promise<string> {
-    let response = '';
-
-    // Check if this is a returning user with history
-    const isReturningUser = historicalMessages.length > 0;
-    
-    if (isReturningUser) {
-      // Reference previous discussions when relevant
-      response += this.referencePreviousContext(session, historicalMessages);
-    }
+    // Remind returning users of what earlier sessions noted
+    let response = await this.recallPreviousSessions(session, userMessage);
 
     // Check for recommendation consistency
     if (userProfile) {
@@ -197,28 +572,39 @@ export class ConversationManager {
   }
 
   /**
-   * Reference previous discussions when contextually appropriate
+   * Recap what earlier sessions noted, on the first message of a session
    * Validates: Property 23 - Historical context reference
+   * @returns The recap followed by a blank line, or an empty string when nothing bears on the message
    */
-  private referencePreviousContext(
-    session: Session,
-    historicalMessages: Message[]
-  ): string {
-    if (historicalMessages.length === 0) {
+  private async recallPreviousSessions(session: Session, userMessage: string): Promise<string> {
+    const userMessages = session.context.conversationHistory.filter(message => message.sender === 'user');
+    if (userMessages.length !== 1) {
       return '';
     }
 
-    // Check if current conversation should reference history
-    const recentHistory = historicalMessages.slice(-10);
-    const hasRelevantHistory = recentHistory.some(msg => 
-      msg.sender === 'system' && msg.content.length > 50
-    );
-
-    if (hasRelevantHistory) {
-      return 'Based on our previous conversations, ';
+    try {
+      const recap = await this.memory.recap(session.userId, userMessage, { excludeSessionId: session.id });
+      return recap ? `${recap}\n\n` : '';
+    } catch (error) {
+      // Memory never gets in the way of a response
+      console.error('Error recalling memory notes:', error);
+      return '';
     }
+  }
 
-    return '';
+  /**
+   * Summarize the session into the user's memory notes
+   * @param always - Summarize even when too few messages came in since the last summary
+   */
+  private async rememberSession(session: Session, always = false): Promise<void> {
+    try {
+      const history = session.context.conversationHistory;
+      await (always
+        ? this.memory.summarizeSession(session.userId, session.id, history)
+        : this.memory.summarizeIfDue(session.userId, session.id, history));
+    } catch (error) {
+      console.error('Error summarizing session:', error);
+    }
   }
 
   /**
@@ -285,13 +671,17 @@ export class ConversationManager {
   ): string {
     // Check if this is the first message (no history)
     const isFirstMessage = session.context.conversationHistory.length === 1;
-    
-    if (isFirstMessage && !userProfile) {
-      return this.coachBehavior.getFirstTimeGreeting();
-    }
 
     // Detect emotional struggle and prioritize mindset support (Property 13)
     const hasEmotionalStruggle = this.coachBehavior.detectEmotionalStruggle(userMessage);
+
+    // Newcomers are welcomed with the profile interview instead of an open question
+    if (isFirstMessage && !userProfile) {
+      const interview = this.offerInterview(session, userMessage, userProfile);
+      return interview
+        ? `Welcome! I'm glad you're here.\n\n${this.introduceInterview(interview)}`
+        : this.coachBehavior.getFirstTimeGreeting();
+    }
     
     if (hasEmotionalStruggle) {
       const mindsetResponse = this.coachBehavior.generateMindsetResponse(userMessage);
@@ -305,27 +695,376 @@ export class ConversationManager {
 
     // Generate acknowledgment
     const acknowledgment = this.coachBehavior.generateAcknowledgment(userMessage);
+
+    // Returning users are first asked about their commitments
+    const followUp = this.askFollowUp(session);
+    if (followUp) {
+      return `${acknowledgment}\n\n${commitmentQuestion(followUp)}`;
+    }
+
+    // Ask for what the profile is missing rather than for "more details"
+    const interview = this.offerInterview(session, userMessage, userProfile);
+    if (interview) {
+      return `${acknowledgment}\n\n${this.introduceInterview(interview)}`;
+    }
     
-    // Generate follow-up question
+    // Without a responder there are no recommendations to give, only a question to move on
     const followUpQuestion = this.coachBehavior.generateFollowUpQuestion(
       session.context.currentIntent.type,
       userProfile,
       session.context.conversationHistory.length
     );
+    return `${acknowledgment}\n\n${followUpQuestion}`;
+  }
+
+  /**
+   * Answer a message with the responder's recommendations
+   * Returning users are then asked about their commitments; newcomers, and incomplete
+   * profiles when configured, are asked for their details
+   */
+  private async respondWithRecommendations(session: Session, userMessage: string, language?: Language): Promise<Response> {
+    const recap = await this.recallPreviousSessions(session, userMessage);
+    const reply = await this.responder!.respond(session, userMessage, language);
+    if (reply.recommendations?.actions && reply.recommendations.actions.length > 0) {
+      this.offeredActions.set(session.id, reply.recommendations.actions);
+    }
+
+    const followUp = this.coachBehavior.detectEmotionalStruggle(userMessage) ? null : this.askFollowUp(session);
+    // The profile is read after the reply, which may have filled some of it in
+    const interview = followUp
+      ? null
+      : this.offerInterview(session, userMessage, await this.dataStore.getUserProfile(session.userId));
+    const started = interview ? this.introduceInterview(interview) : undefined;
+    const closing = followUp ? commitmentQuestion(followUp) : started;
+
+    const sections: ResponseSection[] = [
+      ...(recap ? [{ kind: 'recap' as const, content: recap.trim() }] : []),
+      ...(reply.sections ?? [{ kind: 'recommendations' as const, content: reply.content }]),
+      ...(closing ? [{ kind: 'follow_up' as const, content: closing }] : [])
+    ];
+    const response = await this.respond(session, sections.map(section => section.content).join('\n\n'));
+    return {
+      ...response,
+      intents: reply.intents,
+      sections,
+      ...(reply.recommendations ? { recommendations: reply.recommendations } : {}),
+      ...(interview ? { interview: { field: interview.asking, started } } : {}),
+      ...(followUp ? { commitments: { followUp } } : {})
+    };
+  }
+
+  /**
+   * Start the profile interview where a message allows it: never over an emotional message,
+   * for newcomers on their first message, and for incomplete profiles when configured
+   */
+  private offerInterview(session: Session, userMessage: string, userProfile: UserProfile | null): InterviewState | null {
+    if (this.coachBehavior.detectEmotionalStruggle(userMessage)) {
+      return null;
+    }
+    const isNewcomer = !userProfile && session.context.conversationHistory.length === 1;
+    return isNewcomer || this.interviewConfig.interviewIncompleteProfiles
+      ? this.beginInterview(session, userProfile)
+      : null;
+  }
+
+  /**
+   * Add a system response to the conversation and save it
+   */
+  private async respond(session: Session, content: string): Promise<Response> {
+    const systemMessage: Message = {
+      id: this.generateMessageId(),
+      sender: 'system',
+      content,
+      timestamp: new Date()
+    };
+    session.context.conversationHistory.push(systemMessage);
+
+    // Save conversation to data store
+    await this.dataStore.saveConversation(session.id, session.context.conversationHistory);
+    await this.rememberSession(session);
+
+    return {
+      content,
+      sessionId: session.id,
+      timestamp: systemMessage.timestamp
+    };
+  }
+
+  /**
+   * Set up an interview of the fields a profile lacks, unless the session already had one
+   * @returns The interview, asking its first question, or null when there is nothing to ask
+   */
+  private beginInterview(session: Session, userProfile: UserProfile | null): InterviewState | null {
+    if (this.interviews.has(session.id)) {
+      return this.interviews.get(session.id)!;
+    }
+    if (this.closedInterviews.has(session.id)) {
+      return null;
+    }
+
+    const plan = missingInterviewFields(userProfile, this.profileAnalyzer);
+    if (plan.length === 0) {
+      return null;
+    }
+    const state: InterviewState = { plan, settled: [], asking: plan[0] };
+    this.interviews.set(session.id, state);
+    return state;
+  }
+
+  private introduceInterview(state: InterviewState): string {
+    return `${INTERVIEW_INTRO}\n\n${INTERVIEW_QUESTIONS[state.asking!]}`;
+  }
+
+  /**
+   * Handle a reply during the profile interview
+   * Answers are said back for the user to confirm before they are saved; a "no" with a
+   * correction is read as a new answer. Questions, "stop" and emotional messages end the
+   * interview so the message gets a regular response.
+   * @returns The reply, or null when the user moved on
+   */
+  private async continueInterview(session: Session, userMessage: string): Promise<string | null> {
+    const state = this.interviews.get(session.id)!;
+    const field = state.asking!;
+
+    const movesOn = userMessage.includes('?') || LEAVE_INTERVIEW.test(userMessage.trim()) ||
+      (field !== 'struggles' && this.coachBehavior.detectEmotionalStruggle(userMessage));
+    if (movesOn) {
+      this.closeInterview(session.id);
+      return null;
+    }
+
+    const reply = classifyInterviewReply(userMessage);
+    if (state.pending) {
+      if (reply === 'affirmative') {
+        await this.saveInterviewAnswer(session, state, state.pending);
+        return `Great, I've saved that. ${await this.askNextQuestion(session, state)}`;
+      }
+      if (reply === 'skip') {
+        state.pending = undefined;
+        return this.skipQuestion(session, state);
+      }
+      const correction = reply === 'negative' ? stripNegativeReply(userMessage) : userMessage;
+      state.pending = undefined;
+      if (correction === '') {
+        return `Sorry about that, let's try again. ${INTERVIEW_QUESTIONS[field]}`;
+      }
+      return this.understandAnswer(state, correction);
+    }
 
-    // For now, provide a structured response
-    // In full implementation, this would integrate with recommendation engines
-    const response = this.coachBehavior.structureResponse(
-      acknowledgment,
-      [`Let me help you work through this.`],
-      [
-        { timeframe: 'today', action: 'Share more details about your situation' },
-        { timeframe: 'this week', action: 'Reflect on what you want to achieve' }
-      ],
-      followUpQuestion
+    if (reply === 'skip') {
+      return this.skipQuestion(session, state);
+    }
+    return this.understandAnswer(state, userMessage);
+  }
+
+  private understandAnswer(state: InterviewState, answerText: string): string {
+    const answer = parseInterviewAnswer(state.asking!, answerText, this.profileAnalyzer);
+    if (!answer) {
+      return `I didn't quite catch that. ${INTERVIEW_QUESTIONS[state.asking!]}`;
+    }
+    state.pending = answer;
+    return `Just to check: ${describeInterviewAnswer(answer)}. Is that right?`;
+  }
+
+  private async skipQuestion(session: Session, state: InterviewState): Promise<string> {
+    // A profile cannot be stored without an education
+    if (state.asking === 'education' && !(await this.dataStore.getUserProfile(session.userId))) {
+      return 'I need at least your education to set up your profile; "self-taught" or a course name is fine. ' +
+        INTERVIEW_QUESTIONS.education;
+    }
+    state.settled.push(state.asking!);
+    return `No problem. ${await this.askNextQuestion(session, state)}`;
+  }
+
+  /**
+   * Save a confirmed answer to the stored profile, or to the draft of a user without one
+   */
+  private async saveInterviewAnswer(session: Session, state: InterviewState, answer: InterviewAnswer): Promise<void> {
+    state.pending = undefined;
+    state.settled.push(answer.field);
+
+    if (!state.draft) {
+      const updated = await updateUserProfile(this.dataStore, session.userId, profile => applyInterviewAnswer(profile, answer));
+      if (updated) {
+        return;
+      }
+      state.draft = collectProfileData({ userId: session.userId, age: 0, yearsOfExperience: 0, education: '' });
+    }
+
+    // Keep collecting until the draft can be stored
+    const answered = structuredClone(state.draft);
+    applyInterviewAnswer(answered, answer);
+    if (!answered.personalInfo.education) {
+      state.draft = answered;
+      return;
+    }
+
+    // The draft becomes the first version, unless a profile was saved in the meantime
+    await updateUserProfile(this.dataStore, session.userId, profile => applyInterviewAnswer(profile, answer), {
+      initial: state.draft,
+    });
+    state.draft = undefined;
+  }
+
+  private async askNextQuestion(session: Session, state: InterviewState): Promise<string> {
+    const profile = state.draft ?? await this.dataStore.getUserProfile(session.userId);
+    const next = state.plan.find(field =>
+      !state.settled.includes(field) && !(profile && isInterviewFieldFilled(profile, field))
     );
 
-    return response.content + '\n\n' + response.followUpQuestion;
+    if (!next) {
+      this.closeInterview(session.id);
+      return 'That gives me a clear picture of where you are. What would you like to work on first?';
+    }
+    state.asking = next;
+    return INTERVIEW_QUESTIONS[next];
+  }
+
+  private closeInterview(sessionId: string): void {
+    this.interviews.delete(sessionId);
+    this.closedInterviews.add(sessionId);
+  }
+
+  /**
+   * Load the user's pending actions into the session and queue them for follow-up
+   */
+  private async loadCommitments(session: Session): Promise<void> {
+    try {
+      const pending = projectPendingActions(await this.dataStore.getProgressEvents(session.userId));
+      session.context.pendingActions = pending;
+      if (pending.length > 0) {
+        const queue = [...pending].sort((a, b) => (a.dueDate?.getTime() ?? 0) - (b.dueDate?.getTime() ?? 0));
+        this.followUps.set(session.id, { queue });
+      }
+    } catch (error) {
+      // Commitments never get in the way of a response
+      console.error('Error loading commitments:', error);
+    }
+  }
+
+  /**
+   * Save the action steps a user took on as pending actions
+   */
+  private async recordCommitments(session: Session, actions: ActionStep[]): Promise<void> {
+    for (const action of actions) {
+      await this.dataStore.appendProgressEvent(session.userId, { type: 'action_committed', action });
+      session.context.pendingActions = [...session.context.pendingActions.filter(a => a.id !== action.id), action];
+    }
+  }
+
+  /**
+   * Take the next commitment to ask about
+   * @returns The action to ask about, or null when there is none left
+   */
+  private askFollowUp(session: Session): ActionStep | null {
+    const state = this.followUps.get(session.id);
+    if (!state || state.asking) {
+      return null;
+    }
+    state.asking = state.queue.shift();
+    if (!state.asking) {
+      this.followUps.delete(session.id);
+      return null;
+    }
+    return state.asking;
+  }
+
+  /**
+   * Handle a reply to "Did you get to ...?"
+   * Done actions are completed; the others are moved to the date the user gives, or by their
+   * timeframe once overdue. Anything else ends the follow-ups for the session.
+   * @returns The reply, or null when the user moved on
+   */
+  private async continueFollowUp(session: Session, userMessage: string): Promise<{ content: string; commitments: CommitmentTurn } | null> {
+    const state = this.followUps.get(session.id)!;
+    const action = state.asking!;
+    const reply = classifyFollowUpReply(userMessage);
+    if (reply === 'other') {
+      this.followUps.delete(session.id);
+      return null;
+    }
+    state.asking = undefined;
+
+    let content: string;
+    const commitments: CommitmentTurn = {};
+    if (reply === 'done') {
+      await this.dataStore.trackActionCompletion(session.userId, action.id);
+      session.context.pendingActions = session.context.pendingActions.filter(a => a.id !== action.id);
+      commitments.completed = { ...action, completed: true };
+      content = 'Nice work! I\'ve marked that as done.';
+    } else {
+      const now = new Date();
+      const overdue = !action.dueDate || action.dueDate <= now;
+      const dueDate = parseDueDate(userMessage, now) ?? (overdue ? dueDateFor(action.timeframe, now) : null);
+      if (dueDate) {
+        await this.dataStore.appendProgressEvent(session.userId, { type: 'action_rescheduled', actionId: action.id, dueDate });
+        commitments.rescheduled = { ...action, dueDate };
+        session.context.pendingActions = session.context.pendingActions.map(a => a.id === action.id ? commitments.rescheduled! : a);
+        content = `No problem. I've moved it to ${formatDueDate(dueDate)}.`;
+      } else {
+        content = `No problem, there's still time: it's due ${formatDueDate(action.dueDate!)}.`;
+      }
+    }
+
+    const next = this.askFollowUp(session);
+    if (next) {
+      commitments.followUp = next;
+      return { content: `${content} ${commitmentQuestion(next)}`, commitments };
+    }
+    return { content: `${content} What would you like to work on today?`, commitments };
+  }
+
+  /**
+   * Start a flow in the session
+   * The flow takes over from the profile interview, and puts off a follow-up it interrupts.
+   */
+  private async enterFlow(session: Session, flow: CoachingFlow): Promise<Response> {
+    if (this.interviews.has(session.id)) {
+      this.closeInterview(session.id);
+    }
+    const followUp = this.followUps.get(session.id);
+    if (followUp?.asking) {
+      followUp.queue.unshift(followUp.asking);
+      followUp.asking = undefined;
+    }
+    return this.respondToFlow(session, flow, beginFlow(flow));
+  }
+
+  private async continueFlow(session: Session, progress: FlowProgress, userMessage: string): Promise<Response> {
+    const flow = this.flows.find(f => f.id === progress.flowId);
+    if (!flow) {
+      // The flow is no longer registered; carry on as if it had ended
+      delete session.context.flow;
+      return this.respond(session, 'Let\'s pick up from here. What would you like to work on?');
+    }
+    return this.respondToFlow(session, flow, advanceFlow(flow, progress, userMessage));
+  }
+
+  /**
+   * Keep the flow's progress in the session context until it completes or the user leaves it
+   */
+  private async respondToFlow(session: Session, flow: CoachingFlow, step: FlowStep): Promise<Response> {
+    const over = step.status === 'completed' || step.status === 'exited';
+    if (over) {
+      delete session.context.flow;
+    } else {
+      session.context.flow = step.progress;
+    }
+    session.context.currentIntent = { type: flow.intent, confidence: 1.0, entities: {} };
+
+    const response = await this.respond(session, step.reply);
+    const { flowId, state, answers } = step.progress;
+    return { ...response, flow: { flowId, status: step.status, state, answers } };
+  }
+
+  private async flagForReview(session: Session, flag: SessionReviewFlag): Promise<void> {
+    session.reviewFlags = [...(session.reviewFlags ?? []), flag];
+    try {
+      await this.dataStore.saveReviewFlag({ ...flag, userId: session.userId, sessionId: session.id });
+    } catch (error) {
+      // The helplines still go out; the flag stays on the live session
+      console.error('Error saving review flag:', error);
+    }
   }
 
   /**
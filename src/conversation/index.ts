@@ -5,3 +5,4 @@
 export * from './conversationManager.js';
 export * from './responseFormatter.js';
 export * from './coachBehavior.js';
+export * from './commitments.js';
@@ -483,6 +483,38 @@ describe('ResponseFormatter', () => {
     });
   });
 
+  describe('Combined Responses', () => {
+    it('should answer every kind of recommendation it is given', () => {
+      const skills: SkillRecommendation[] = [{
+        skill: 'SQL',
+        priority: 1,
+        reasoning: 'Every data role starts with it',
+        learningResources: [],
+        estimatedTime: '1 month',
+        dependencies: []
+      }];
+      const actions: ActionStep[] = [{
+        id: 'a1',
+        description: 'Write down what worries you most about switching',
+        timeframe: 'today',
+        category: 'reflection',
+        completed: false
+      }];
+
+      const context: ResponseContext = {
+        intent: 'skill_guidance',
+        isReturningUser: false
+      };
+
+      const response = formatter.formatCombinedResponse({ skills, actions }, context);
+
+      expect(response.content).toContain('SQL');
+      expect(response.content).toContain(actions[0].description);
+      expect(response.content.indexOf('SQL')).toBeLessThan(response.content.indexOf(actions[0].description));
+      expect(response.hasActionableElement).toBe(true);
+    });
+  });
+
   describe('Progress Acknowledgment', () => {
     it('should acknowledge single completed action', () => {
       const actions: ActionStep[] = [
@@ -15,6 +15,7 @@ import {
   GrowthPlan, 
   TransitionPlan 
 } from '../models/recommendations.js';
+import { PlanHistoryNote, describeRelativeDate } from '../recommendations/planHistory.js';
 
 export interface FormattedResponse {
   content: string;
@@ -259,6 +260,45 @@ export class ResponseFormatter {
     };
   }
 
+  /**
+   * Format what changed since advice was last given
+   * Lets the coach refer back to earlier plans and show phase progress
+   */
+  formatPlanHistory(notes: PlanHistoryNote[], now: Date = new Date()): string {
+    let content = '';
+
+    notes.forEach(note => {
+      const when = describeRelativeDate(note.previousCreatedAt, now);
+      content += note.kind === 'transition_plan'
+        ? `Compared with the transition plan we built ${when}`
+        : `Compared with the growth review we did ${when}`;
+
+      if (note.change.isMaterial) {
+        content += ', my advice has changed:\n';
+        note.change.changes.forEach(change => {
+          content += `- ${change}\n`;
+        });
+      } else {
+        content += ', my advice still holds.\n';
+      }
+
+      const startedPhases = (note.phaseProgress || []).filter(p => p.completedActions > 0);
+      if (startedPhases.length > 0) {
+        content += '\n**Phase progress:**\n';
+        startedPhases.forEach(phase => {
+          content += `- ${phase.phaseName}: ${phase.completedActions}/${phase.totalActions} actions done`;
+          content += phase.criteriaMet
+            ? ` — success criteria met (${phase.successCriteria.join('; ')})\n`
+            : '\n';
+        });
+      }
+
+      content += '\n';
+    });
+
+    return content;
+  }
+
   /**
    * Format progress acknowledgment
    * Required by Property 11
@@ -344,11 +384,11 @@ export class ResponseFormatter {
       actions?: ActionStep[];
       growthPlan?: GrowthPlan;
       transitionPlan?: TransitionPlan;
+      planHistory?: PlanHistoryNote[];
     },
     context: ResponseContext
   ): FormattedResponse {
     let content = '';
-    let hasActionableElement = false;
 
     // Acknowledge progress if returning user
     if (context.hasProgress && context.userProfile) {
@@ -357,28 +397,32 @@ export class ResponseFormatter {
       content += this.formatProgressAcknowledgment(completedActions, context);
     }
 
-    // Prioritize based on intent
+    // Refer back to earlier advice before giving the new version
+    if (recommendations.planHistory && recommendations.planHistory.length > 0) {
+      content += this.formatPlanHistory(recommendations.planHistory);
+    }
+
+    // Every kind of recommendation gets its own section, most specific first,
+    // so a message with several intents is answered in full
+    const sections: FormattedResponse[] = [];
     if (recommendations.transitionPlan) {
-      const formatted = this.formatTransitionPlan(recommendations.transitionPlan, context);
-      content += formatted.content;
-      hasActionableElement = formatted.hasActionableElement;
-    } else if (recommendations.growthPlan) {
-      const formatted = this.formatGrowthPlan(recommendations.growthPlan, context);
-      content += formatted.content;
-      hasActionableElement = formatted.hasActionableElement;
-    } else if (recommendations.careerPaths && recommendations.careerPaths.length > 0) {
-      const formatted = this.formatCareerPathRecommendation(recommendations.careerPaths, context);
-      content += formatted.content;
-      hasActionableElement = formatted.hasActionableElement;
-    } else if (recommendations.skills && recommendations.skills.length > 0) {
-      const formatted = this.formatSkillRecommendation(recommendations.skills, context);
-      content += formatted.content;
-      hasActionableElement = formatted.hasActionableElement;
-    } else if (recommendations.actions && recommendations.actions.length > 0) {
-      const formatted = this.formatActionSteps(recommendations.actions, context);
-      content += formatted.content;
-      hasActionableElement = formatted.hasActionableElement;
+      sections.push(this.formatTransitionPlan(recommendations.transitionPlan, context));
     }
+    if (recommendations.growthPlan) {
+      sections.push(this.formatGrowthPlan(recommendations.growthPlan, context));
+    }
+    if (recommendations.careerPaths && recommendations.careerPaths.length > 0) {
+      sections.push(this.formatCareerPathRecommendation(recommendations.careerPaths, context));
+    }
+    if (recommendations.skills && recommendations.skills.length > 0) {
+      sections.push(this.formatSkillRecommendation(recommendations.skills, context));
+    }
+    if (recommendations.actions && recommendations.actions.length > 0) {
+      sections.push(this.formatActionSteps(recommendations.actions, context));
+    }
+
+    content += sections.map(section => section.content).join('\n\n');
+    const hasActionableElement = sections.some(section => section.hasActionableElement);
 
     return {
       content,
@@ -0,0 +1,99 @@
+/**
+ * Tests for coaching flow definitions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CoachingFlow, loadCoachingFlows, parseCoachingFlow } from './coachingFlow.js';
+import { ValidationError } from '../utils/validation.js';
+
+const validFlow = (): CoachingFlow => ({
+  id: 'check_in',
+  title: 'Check-in',
+  intent: 'progress_check',
+  triggers: ['check in'],
+  start: 'mood',
+  states: {
+    mood: {
+      prompt: 'How are you, from 1 to 5?',
+      expect: { type: 'scale', min: 1, max: 5 },
+      saveAs: 'mood',
+      branches: [{ when: { atMost: 2 }, next: 'low' }],
+      next: 'done',
+    },
+    low: { prompt: 'Sorry to hear that.', final: true },
+    done: { prompt: 'Glad to hear it.', final: true },
+  },
+});
+
+describe('parseCoachingFlow', () => {
+  it('should accept a valid flow', () => {
+    expect(parseCoachingFlow(validFlow())).toEqual(validFlow());
+  });
+
+  it('should name the first problem of an invalid flow', () => {
+    const invalid: [string, (flow: any) => void, string][] = [
+      ['missing id', flow => { delete flow.id; }, 'id'],
+      ['unknown intent', flow => { flow.intent = 'small_talk'; }, 'intent'],
+      ['missing start state', flow => { flow.start = 'nowhere'; }, 'states'],
+      ['unknown next state', flow => { flow.states.mood.next = 'nowhere'; }, 'states.mood.next'],
+      ['branch to an unknown state', flow => { flow.states.mood.branches[0].next = 'nowhere'; }, 'states.mood.branches.0.next'],
+      ['unknown condition', flow => { flow.states.mood.branches[0].when = { above: 2 }; }, 'states.mood.branches.0.when'],
+      ['missing answer type', flow => { delete flow.states.mood.expect; }, 'states.mood.expect.type'],
+      ['scale without a range', flow => { flow.states.mood.expect = { type: 'scale', min: 5, max: 1 }; }, 'states.mood.expect'],
+      ['choice with one option', flow => {
+        flow.states.mood.expect = { type: 'choice', options: [{ value: 'a', label: 'A' }] };
+      }, 'states.mood.expect.options'],
+      ['no final state', flow => { flow.states = { mood: { ...flow.states.mood, branches: undefined, next: 'mood' } }; }, 'states'],
+    ];
+
+    for (const [, change, field] of invalid) {
+      const flow = validFlow();
+      change(flow);
+      try {
+        parseCoachingFlow(flow, 'check-in.json');
+        expect.unreachable(`${field} should have been rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).field).toBe(field);
+        expect((error as ValidationError).message).toMatch(/^check-in\.json: /);
+      }
+    }
+  });
+});
+
+describe('loadCoachingFlows', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-flows-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load the flows checked into the repository', async () => {
+    const flows = await loadCoachingFlows();
+    expect(flows.map(flow => flow.id)).toEqual(['career_clarity', 'transition_readiness', 'weekly_review']);
+  });
+
+  it('should read the JSON files of a directory in file name order', async () => {
+    await fs.writeFile(path.join(tempDir, 'b.json'), JSON.stringify(validFlow()));
+    await fs.writeFile(path.join(tempDir, 'a.json'), JSON.stringify({ ...validFlow(), id: 'first' }));
+    await fs.writeFile(path.join(tempDir, 'notes.txt'), 'not a flow');
+
+    expect((await loadCoachingFlows(tempDir)).map(flow => flow.id)).toEqual(['first', 'check_in']);
+  });
+
+  it('should reject invalid JSON and duplicate ids', async () => {
+    await fs.writeFile(path.join(tempDir, 'a.json'), JSON.stringify(validFlow()));
+    await fs.writeFile(path.join(tempDir, 'b.json'), JSON.stringify(validFlow()));
+    await expect(loadCoachingFlows(tempDir)).rejects.toThrow('b.json: another flow already has the id "check_in"');
+
+    await fs.writeFile(path.join(tempDir, 'b.json'), '{ not json');
+    await expect(loadCoachingFlows(tempDir)).rejects.toThrow('b.json: not valid JSON');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Coaching flow definitions
+ *
+ * A coaching flow is a multi-step program, such as a weekly review, written as data: its
+ * states, the prompt of each, the answer it expects, where each answer leads and which
+ * states end it. Flows are JSON files, one per flow, in the data directory next to this
+ * module; adding a file adds a flow.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Intent } from '../models/index.js';
+import { ValidationError } from '../utils/validation.js';
+import { INTENT_TYPES } from '../intent/intentClassifier.js';
+
+/**
+ * The flows checked into the repository
+ */
+export const DEFAULT_FLOWS_DIR = fileURLToPath(new URL('./data/', import.meta.url));
+
+/**
+ * Messages that leave a flow, unless the flow lists its own
+ */
+export const DEFAULT_EXIT_PHRASES = ['stop', 'quit', 'exit', 'cancel', 'not now'];
+
+/**
+ * Answers to a prompt that may go unrecognized before the flow ends, unless the flow sets its own
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export interface FlowOption {
+  /** Saved as the answer and compared by conditions */
+  value: string;
+  /** Shown in the prompt's numbered list and in summaries */
+  label: string;
+  /** Other words that pick this option */
+  keywords?: string[];
+}
+
+/**
+ * What a state accepts as an answer
+ */
+export type ExpectedAnswer =
+  | { type: 'text'; minWords?: number }
+  | { type: 'choice'; options: FlowOption[] }
+  | { type: 'yes_no' }
+  | { type: 'scale'; min: number; max: number };
+
+/**
+ * A test of an answer
+ * Every test that is set must hold.
+ */
+export interface FlowCondition {
+  /** Saved answer to test; the answer just given by default */
+  of?: string;
+  equals?: string | number;
+  oneOf?: (string | number)[];
+  atLeast?: number;
+  atMost?: number;
+  /** Text the answer contains, ignoring case */
+  contains?: string;
+}
+
+export interface FlowBranch {
+  /** A condition, or several that must all hold */
+  when: FlowCondition | FlowCondition[];
+  next: string;
+}
+
+export interface FlowStateDefinition {
+  /** Shown to the user; {{name}} is replaced by the answer saved as name */
+  prompt: string;
+  /** Required unless the state is final */
+  expect?: ExpectedAnswer;
+  /** Name to save the answer as, for later prompts and conditions */
+  saveAs?: string;
+  /** Branches are tried in order; the first that holds picks the next state */
+  branches?: FlowBranch[];
+  /** Next state when no branch holds */
+  next?: string;
+  /** Said before the prompt is repeated when an answer is not understood */
+  retryPrompt?: string;
+  /** Final states end the flow once their prompt is shown */
+  final?: boolean;
+}
+
+export interface CoachingFlow {
+  id: string;
+  title: string;
+  description?: string;
+  /** Intent the flow serves, reported with its responses */
+  intent: Intent['type'];
+  /** Phrases that start the flow when a message contains them */
+  triggers: string[];
+  /** Said before the first prompt */
+  intro?: string;
+  start: string;
+  states: Record<string, FlowStateDefinition>;
+  exitPhrases?: string[];
+  /** Said when the user leaves the flow */
+  exitMessage?: string;
+  maxAttempts?: number;
+}
+
+const ANSWER_TYPES = ['text', 'choice', 'yes_no', 'scale'];
+const CONDITION_KEYS = ['of', 'equals', 'oneOf', 'atLeast', 'atMost', 'contains'];
+
+/**
+ * Checks a flow definition, such as the parsed content of a flow file
+ * @param source - Where the definition comes from, to name in errors
+ * @throws ValidationError naming the first problem found
+ */
+export function parseCoachingFlow(raw: unknown, source: string = 'flow'): CoachingFlow {
+  const fail = (message: string, field: string, value: unknown): never => {
+    throw new ValidationError(`${source}: ${message}`, field, value);
+  };
+  const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+  const flow = raw as CoachingFlow;
+
+  if (!flow || typeof flow !== 'object') {
+    fail('A flow must be an object', 'flow', raw);
+  }
+  for (const field of ['id', 'title', 'start'] as const) {
+    if (!isText(flow[field])) {
+      fail(`${field} must be a non-empty string`, field, flow[field]);
+    }
+  }
+  if (!INTENT_TYPES.includes(flow.intent)) {
+    fail(`intent must be one of: ${INTENT_TYPES.join(', ')}`, 'intent', flow.intent);
+  }
+  if (!Array.isArray(flow.triggers) || !flow.triggers.every(isText)) {
+    fail('triggers must be a list of phrases', 'triggers', flow.triggers);
+  }
+  if (flow.exitPhrases !== undefined && (!Array.isArray(flow.exitPhrases) || !flow.exitPhrases.every(isText))) {
+    fail('exitPhrases must be a list of phrases', 'exitPhrases', flow.exitPhrases);
+  }
+  if (flow.maxAttempts !== undefined && (!Number.isInteger(flow.maxAttempts) || flow.maxAttempts < 1)) {
+    fail('maxAttempts must be a positive whole number', 'maxAttempts', flow.maxAttempts);
+  }
+  if (!flow.states || typeof flow.states !== 'object' || !flow.states[flow.start]) {
+    fail(`states must include the start state "${flow.start}"`, 'states', flow.states);
+  }
+
+  const stateIds = Object.keys(flow.states);
+  const requireState = (field: string, target: unknown) => {
+    if (typeof target !== 'string' || !stateIds.includes(target)) {
+      fail(`${field} must name a state`, field, target);
+    }
+  };
+
+  for (const [id, state] of Object.entries(flow.states)) {
+    const field = `states.${id}`;
+    if (!state || !isText(state.prompt)) {
+      fail(`${field}.prompt must be a non-empty string`, `${field}.prompt`, state?.prompt);
+    }
+    if (state.final) {
+      continue;
+    }
+
+    checkExpectedAnswer(state.expect, `${field}.expect`, fail);
+    if (state.saveAs !== undefined && !isText(state.saveAs)) {
+      fail(`${field}.saveAs must be a non-empty string`, `${field}.saveAs`, state.saveAs);
+    }
+    if (state.next === undefined && !state.branches) {
+      fail(`${field} must have a next state or branches`, field, state);
+    }
+    if (state.next !== undefined) {
+      requireState(`${field}.next`, state.next);
+    }
+    (state.branches ?? []).forEach((branch, index) => {
+      const branchField = `${field}.branches.${index}`;
+      requireState(`${branchField}.next`, branch?.next);
+      const conditions = Array.isArray(branch.when) ? branch.when : [branch.when];
+      if (conditions.length === 0 || !conditions.every(condition =>
+        condition && typeof condition === 'object' && Object.keys(condition).every(key => CONDITION_KEYS.includes(key)))) {
+        fail(`${branchField}.when must be conditions using ${CONDITION_KEYS.join(', ')}`, `${branchField}.when`, branch.when);
+      }
+    });
+  }
+
+  if (!Object.values(flow.states).some(state => state.final)) {
+    fail('at least one state must be final', 'states', flow.states);
+  }
+
+  return flow;
+}
+
+/**
+ * Reads every flow file (*.json) of a directory, in file name order
+ * @throws ValidationError when a file is not valid JSON, or two flows share an id
+ */
+export async function loadCoachingFlows(directory: string = DEFAULT_FLOWS_DIR): Promise<CoachingFlow[]> {
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  const flows: CoachingFlow[] = [];
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(directory, file), 'utf8');
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(`${file}: not valid JSON`, file, content);
+    }
+
+    const flow = parseCoachingFlow(raw, file);
+    if (flows.some(other => other.id === flow.id)) {
+      throw new ValidationError(`${file}: another flow already has the id "${flow.id}"`, 'id', flow.id);
+    }
+    flows.push(flow);
+  }
+
+  return flows;
+}
+
+function checkExpectedAnswer(expect: ExpectedAnswer | undefined, field: string, fail: (message: string, field: string, value: unknown) => never): void {
+  if (!expect || !ANSWER_TYPES.includes(expect.type)) {
+    fail(`${field}.type must be one of: ${ANSWER_TYPES.join(', ')}`, `${field}.type`, expect?.type);
+  }
+  if (expect!.type === 'choice') {
+    const options = expect!.options;
+    if (!Array.isArray(options) || options.length < 2 ||
+        !options.every(option => option && typeof option.value === 'string' && typeof option.label === 'string')) {
+      fail(`${field}.options must list at least two options with a value and a label`, `${field}.options`, options);
+    }
+  }
+  if (expect!.type === 'scale') {
+    const { min, max } = expect as { min: number; max: number };
+    if (typeof min !== 'number' || typeof max !== 'number' || min >= max) {
+      fail(`${field} must have a min below its max`, field, expect);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Tests for the coaching flow runner
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CoachingFlow, loadCoachingFlows } from './coachingFlow.js';
+import { advanceFlow, beginFlow, findTriggeredFlow, interpretAnswer, renderPrompt } from './flowRunner.js';
+import { FlowProgress } from '../models/index.js';
+
+const NOW = new Date(2026, 9, 14, 10, 0);
+
+let flows: CoachingFlow[];
+const flow = (id: string) => flows.find(f => f.id === id)!;
+
+/** Answers each message in turn, from the start of the flow */
+const run = (f: CoachingFlow, messages: string[]) => {
+  let step = beginFlow(f, NOW);
+  for (const message of messages) {
+    step = advanceFlow(f, step.progress, message);
+  }
+  return step;
+};
+
+beforeAll(async () => {
+  flows = await loadCoachingFlows();
+});
+
+describe('findTriggeredFlow', () => {
+  it('should find the flow whose trigger a message contains', () => {
+    expect(findTriggeredFlow(flows, "Can we do a Weekly Review?")?.id).toBe('weekly_review');
+    expect(findTriggeredFlow(flows, 'Am I ready to switch careers?')?.id).toBe('transition_readiness');
+    expect(findTriggeredFlow(flows, 'What skills should I learn?')).toBeNull();
+  });
+});
+
+describe('interpretAnswer', () => {
+  const options = [
+    { value: 'lead', label: 'Move into leading people', keywords: ['manage'] },
+    { value: 'switch', label: 'Switch to a different field' },
+  ];
+
+  it('should read choices by number, value, label or keyword', () => {
+    expect(interpretAnswer({ type: 'choice', options }, '2')).toBe('switch');
+    expect(interpretAnswer({ type: 'choice', options }, 'I want to manage a team')).toBe('lead');
+    expect(interpretAnswer({ type: 'choice', options }, 'switch')).toBe('switch');
+    expect(interpretAnswer({ type: 'choice', options }, '3')).toBeNull();
+    expect(interpretAnswer({ type: 'choice', options }, 'no idea')).toBeNull();
+  });
+
+  it('should read yes or no, numbers within a scale, and long enough text', () => {
+    expect(interpretAnswer({ type: 'yes_no' }, 'Yeah, a couple of people')).toBe('yes');
+    expect(interpretAnswer({ type: 'yes_no' }, 'Not really')).toBe('no');
+    expect(interpretAnswer({ type: 'yes_no' }, 'maybe')).toBeNull();
+    expect(interpretAnswer({ type: 'scale', min: 1, max: 10 }, "I'd say 7")).toBe(7);
+    expect(interpretAnswer({ type: 'scale', min: 1, max: 10 }, '11')).toBeNull();
+    expect(interpretAnswer({ type: 'text', minWords: 2 }, 'meetings')).toBeNull();
+    expect(interpretAnswer({ type: 'text', minWords: 2 }, ' team meetings ')).toBe('team meetings');
+  });
+});
+
+describe('beginFlow and advanceFlow', () => {
+  it('should start with the introduction and the first prompt', () => {
+    const step = beginFlow(flow('weekly_review'), NOW);
+    expect(step).toEqual({
+      progress: { flowId: 'weekly_review', state: 'wins', answers: {}, attempts: 0, startedAt: NOW },
+      reply: 'Time for a weekly review.\n\nWhat went well this week, big or small?',
+      status: 'started',
+    });
+  });
+
+  it('should save answers and follow branches to a final state', () => {
+    const low = run(flow('weekly_review'), ['Finished my portfolio', 'no', 'Too many meetings', 'book two interviews', '3']);
+    expect(low.status).toBe('completed');
+    expect(low.progress.state).toBe('low_energy');
+    expect(low.progress.answers).toEqual({
+      wins: 'Finished my portfolio',
+      progress: 'no',
+      blockers: 'Too many meetings',
+      next_step: 'book two interviews',
+      energy: 3,
+    });
+    expect(low.reply).toBe('Thanks for being honest. Your energy is low, so keep next week light: ' +
+      'book two interviews is enough. And don\'t forget this week\'s win: Finished my portfolio.');
+
+    const good = run(flow('weekly_review'), ['Finished my portfolio', 'yes', 'book two interviews', '8']);
+    expect(good.progress.state).toBe('wrap_up');
+    expect(good.progress.answers).not.toHaveProperty('blockers');
+  });
+
+  it('should branch on several saved answers at once', () => {
+    const answers = (skills: string, runway: string, network: string) =>
+      run(flow('transition_readiness'), ['data analysis', skills, runway, network]).progress.state;
+
+    expect(answers('4', '3', 'yes')).toBe('ready');
+    expect(answers('4', '1', 'yes')).toBe('close_gaps');
+    expect(answers('2', '3', 'yes')).toBe('build_skills');
+    expect(answers('3', '2', 'no')).toBe('close_gaps');
+  });
+
+  it('should fill in choice labels and list the options of a choice', () => {
+    const step = run(flow('transition_readiness'), ['data analysis', '4', 'more than 6 months', 'yes']);
+    expect(step.reply).toContain('you have a runway of More than 6 months');
+
+    const progress: FlowProgress = { flowId: 'career_clarity', state: 'direction', answers: {}, attempts: 0, startedAt: NOW };
+    expect(renderPrompt(flow('career_clarity'), progress.state, progress.answers)).toBe(
+      'Step 4 of 5: Which direction pulls at you most right now?\n' +
+      '1. Go deeper in my current field\n2. Move into leading people\n3. Switch to a different field\n4. Work for myself'
+    );
+  });
+
+  it('should repeat a prompt it did not understand, then give up', () => {
+    const start = beginFlow(flow('weekly_review'), NOW);
+    const answered = advanceFlow(flow('weekly_review'), start.progress, 'Shipped a feature');
+
+    const retry = advanceFlow(flow('weekly_review'), answered.progress, 'hmm');
+    expect(retry.status).toBe('retry');
+    expect(retry.progress).toMatchObject({ state: 'progress', attempts: 1 });
+    expect(retry.reply).toBe('A yes or no is fine. Did you move forward on your main goal?');
+
+    const again = advanceFlow(flow('weekly_review'), retry.progress, 'perhaps');
+    expect(again.status).toBe('retry');
+    const givenUp = advanceFlow(flow('weekly_review'), again.progress, 'who knows');
+    expect(givenUp.status).toBe('exited');
+    expect(givenUp.reply).toContain('say "weekly review" whenever you want to start over');
+
+    // An understood answer starts the count over
+    expect(advanceFlow(flow('weekly_review'), retry.progress, 'yes').progress.attempts).toBe(0);
+  });
+
+  it('should leave the flow on an exit phrase', () => {
+    const step = run(flow('career_clarity'), ['Solving hard bugs', 'stop please']);
+    expect(step.status).toBe('exited');
+    expect(step.reply).toBe('No problem, we can pick this up another time. What would you like to talk about?');
+    // "stop" only counts at the start of a message
+    expect(run(flow('career_clarity'), ['Solving hard bugs', "Meetings that don't stop"]).status).toBe('continued');
+  });
+});
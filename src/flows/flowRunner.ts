@@ -0,0 +1,187 @@
+/**
+ * Coaching flow runner
+ * Moves a session through a coaching flow one answer at a time. The runner keeps no
+ * state of its own: progress goes in and comes out with every step.
+ */
+
+import { FlowAnswer, FlowProgress } from '../models/index.js';
+import {
+  CoachingFlow,
+  DEFAULT_EXIT_PHRASES,
+  DEFAULT_MAX_ATTEMPTS,
+  ExpectedAnswer,
+  FlowCondition
+} from './coachingFlow.js';
+
+/**
+ * What a step did: started the flow, moved on to the next prompt, repeated a prompt whose
+ * answer was not understood, reached a final state, or left the flow
+ */
+export type FlowStatus = 'started' | 'continued' | 'retry' | 'completed' | 'exited';
+
+export interface FlowStep {
+  /** Progress after the step; a completed or exited flow is over */
+  progress: FlowProgress;
+  reply: string;
+  status: FlowStatus;
+}
+
+const DEFAULT_EXIT_MESSAGE = 'No problem, we can pick this up another time. What would you like to talk about?';
+const DEFAULT_RETRY_PROMPT = 'I didn\'t quite catch that.';
+
+const YES = /^(?:yes|yeah|yep|yup|sure|definitely|absolutely|of course|i do|i did|i have|i am|correct|right)\b/i;
+const NO = /^(?:no|nope|nah|not really|not yet|i don'?t|i didn'?t|i haven'?t|i'?m not|never)\b/i;
+
+/**
+ * The flow a message asks for, if it contains one of a flow's triggers
+ */
+export function findTriggeredFlow(flows: CoachingFlow[], message: string): CoachingFlow | null {
+  const text = message.toLowerCase();
+  return flows.find(flow => flow.triggers.some(trigger => text.includes(trigger.toLowerCase()))) ?? null;
+}
+
+/**
+ * Start a flow at its start state
+ */
+export function beginFlow(flow: CoachingFlow, now: Date = new Date()): FlowStep {
+  const progress: FlowProgress = { flowId: flow.id, state: flow.start, answers: {}, attempts: 0, startedAt: now };
+  const prompt = renderPrompt(flow, flow.start, progress.answers);
+  return {
+    progress,
+    reply: flow.intro ? `${flow.intro}\n\n${prompt}` : prompt,
+    status: flow.states[flow.start].final ? 'completed' : 'started',
+  };
+}
+
+/**
+ * Take the user's answer to the current prompt
+ * Answers are saved and lead to the first branch that holds, or to the state's next state.
+ * Answers that are not understood repeat the prompt, until the flow's attempts run out.
+ */
+export function advanceFlow(flow: CoachingFlow, progress: FlowProgress, message: string): FlowStep {
+  const exitPhrases = flow.exitPhrases ?? DEFAULT_EXIT_PHRASES;
+  if (exitPhrases.some(phrase => new RegExp(`^${escapeRegExp(phrase)}\\b`, 'i').test(message.trim()))) {
+    return { progress, reply: flow.exitMessage ?? DEFAULT_EXIT_MESSAGE, status: 'exited' };
+  }
+
+  const state = flow.states[progress.state];
+  const answer = interpretAnswer(state.expect!, message);
+  if (answer === null) {
+    const attempts = progress.attempts + 1;
+    if (attempts >= (flow.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) {
+      return {
+        progress: { ...progress, attempts },
+        reply: `Let's leave the ${flow.title.toLowerCase()} here for now; say "${flow.triggers[0]}" whenever you want to start over.`,
+        status: 'exited',
+      };
+    }
+    return {
+      progress: { ...progress, attempts },
+      reply: `${state.retryPrompt ?? DEFAULT_RETRY_PROMPT} ${renderPrompt(flow, progress.state, progress.answers)}`,
+      status: 'retry',
+    };
+  }
+
+  const answers = state.saveAs ? { ...progress.answers, [state.saveAs]: answer } : progress.answers;
+  const branch = (state.branches ?? []).find(b =>
+    (Array.isArray(b.when) ? b.when : [b.when]).every(condition => holds(condition, answers, answer))
+  );
+  const next = branch ? branch.next : state.next!;
+
+  return {
+    progress: { ...progress, state: next, answers, attempts: 0 },
+    reply: renderPrompt(flow, next, answers),
+    status: flow.states[next].final ? 'completed' : 'continued',
+  };
+}
+
+/**
+ * Reads a message as the answer a state expects
+ * @returns The answer, or null when the message does not give one
+ */
+export function interpretAnswer(expect: ExpectedAnswer, message: string): FlowAnswer | null {
+  const text = message.trim();
+
+  switch (expect.type) {
+    case 'text':
+      return text.split(/\s+/).filter(Boolean).length >= (expect.minWords ?? 1) ? text : null;
+
+    case 'yes_no':
+      return YES.test(text) ? 'yes' : NO.test(text) ? 'no' : null;
+
+    case 'scale': {
+      const match = text.match(/-?\d+(?:\.\d+)?/);
+      const value = match ? parseFloat(match[0]) : NaN;
+      return value >= expect.min && value <= expect.max ? value : null;
+    }
+
+    case 'choice': {
+      const lower = text.toLowerCase();
+      const number = lower.match(/^(\d+)\b/);
+      if (number) {
+        const option = expect.options[parseInt(number[1], 10) - 1];
+        return option ? option.value : null;
+      }
+      const option = expect.options.find(o =>
+        [o.value, o.label, ...(o.keywords ?? [])].some(word => lower.includes(word.toLowerCase()))
+      );
+      return option ? option.value : null;
+    }
+  }
+}
+
+/**
+ * A state's prompt with saved answers filled in; choices are listed after the prompt
+ * Answers to choices read as their labels, and names not answered yet as "not given".
+ */
+export function renderPrompt(flow: CoachingFlow, stateId: string, answers: Record<string, FlowAnswer>): string {
+  const state = flow.states[stateId];
+  const prompt = state.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) =>
+    name in answers ? describeAnswer(flow, name, answers[name]) : 'not given'
+  );
+
+  if (state.expect?.type === 'choice') {
+    const options = state.expect.options.map((option, index) => `${index + 1}. ${option.label}`);
+    return `${prompt}\n${options.join('\n')}`;
+  }
+  return prompt;
+}
+
+function describeAnswer(flow: CoachingFlow, name: string, answer: FlowAnswer): string {
+  for (const state of Object.values(flow.states)) {
+    if (state.saveAs === name && state.expect?.type === 'choice') {
+      const option = state.expect.options.find(o => o.value === answer);
+      if (option) {
+        return option.label;
+      }
+    }
+  }
+  return String(answer);
+}
+
+function holds(condition: FlowCondition, answers: Record<string, FlowAnswer>, current: FlowAnswer): boolean {
+  const value = condition.of !== undefined ? answers[condition.of] : current;
+  if (value === undefined) {
+    return false;
+  }
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.oneOf !== undefined && !condition.oneOf.includes(value)) {
+    return false;
+  }
+  if (condition.atLeast !== undefined && !(typeof value === 'number' && value >= condition.atLeast)) {
+    return false;
+  }
+  if (condition.atMost !== undefined && !(typeof value === 'number' && value <= condition.atMost)) {
+    return false;
+  }
+  if (condition.contains !== undefined && !String(value).toLowerCase().includes(condition.contains.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,6 @@
+/**
+ * Coaching flows exports
+ */
+
+export * from './coachingFlow.js';
+export * from './flowRunner.js';
@@ -0,0 +1,39 @@
+/**
+ * Tests for localized crisis responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCrisisResponse, DEFAULT_CRISIS_RESPONSE_CONFIG, CrisisResponseConfig } from './crisisResources.js';
+import { supportedLanguages } from './languages.js';
+
+describe('getCrisisResponse', () => {
+  it('should list at least one helpline in every supported language', () => {
+    for (const { code } of supportedLanguages) {
+      const response = getCrisisResponse(code);
+      expect(response).toMatch(/• .+: .+/);
+      expect(response).toContain('findahelpline.com');
+    }
+  });
+
+  it('should answer in the requested language', () => {
+    expect(getCrisisResponse('en')).toContain('988');
+    expect(getCrisisResponse('fr')).toContain('3114');
+    expect(getCrisisResponse('es')).toContain('Siento mucho');
+  });
+
+  it('should use configured helplines and fall back to the default language for missing ones', () => {
+    const config: CrisisResponseConfig = {
+      defaultLanguage: 'en',
+      resources: {
+        ...DEFAULT_CRISIS_RESPONSE_CONFIG.resources,
+        en: [{ name: 'Company EAP', contact: '0800 000 000' }],
+        de: [],
+      },
+    };
+
+    expect(getCrisisResponse('en', config)).toContain('• Company EAP: 0800 000 000');
+    expect(getCrisisResponse('en', config)).not.toContain('988');
+    expect(getCrisisResponse('de', config)).toContain('Company EAP');
+    expect(getCrisisResponse('de', config)).toContain('Es tut mir sehr leid');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Crisis responses and helpline resources
+ * What the coach says, in each language, when a message speaks of suicide or
+ * self-harm. Deployments should list the helplines of the regions they serve.
+ */
+
+import { Language } from './languages.js';
+
+export interface HelplineResource {
+  name: string;
+  /** Phone number, text line or other way to reach the service */
+  contact: string;
+  url?: string;
+}
+
+export interface CrisisResponseConfig {
+  /** Language used when a request does not name one */
+  defaultLanguage: Language;
+  /** Helplines offered per language, in order of preference */
+  resources: Record<Language, HelplineResource[]>;
+}
+
+/**
+ * Overrides of the defaults; helplines are replaced per language
+ */
+export type CrisisResponseOptions = Partial<Omit<CrisisResponseConfig, 'resources'>> & {
+  resources?: Partial<Record<Language, HelplineResource[]>>;
+};
+
+const FIND_A_HELPLINE: HelplineResource = {
+  name: 'Find A Helpline',
+  contact: 'https://findahelpline.com',
+};
+
+export const DEFAULT_CRISIS_RESOURCES: Record<Language, HelplineResource[]> = {
+  en: [
+    { name: '988 Suicide & Crisis Lifeline (US)', contact: 'Call or text 988', url: 'https://988lifeline.org' },
+    { name: 'Samaritans (UK & Ireland)', contact: '116 123', url: 'https://www.samaritans.org' },
+    FIND_A_HELPLINE,
+  ],
+  es: [
+    { name: 'Línea 024 (España)', contact: '024' },
+    FIND_A_HELPLINE,
+  ],
+  fr: [
+    { name: 'Numéro national de prévention du suicide (France)', contact: '3114', url: 'https://3114.fr' },
+    FIND_A_HELPLINE,
+  ],
+  de: [
+    { name: 'TelefonSeelsorge (Deutschland)', contact: '0800 111 0 111', url: 'https://www.telefonseelsorge.de' },
+    FIND_A_HELPLINE,
+  ],
+  zh: [FIND_A_HELPLINE],
+  ja: [
+    { name: 'いのちの電話', contact: '0570-783-556', url: 'https://www.inochinodenwa.org' },
+    FIND_A_HELPLINE,
+  ],
+  pt: [
+    { name: 'CVV - Centro de Valorização da Vida (Brasil)', contact: '188', url: 'https://cvv.org.br' },
+    FIND_A_HELPLINE,
+  ],
+  ar: [FIND_A_HELPLINE],
+  hi: [
+    { name: 'Tele-MANAS (India)', contact: '14416' },
+    FIND_A_HELPLINE,
+  ],
+  ru: [FIND_A_HELPLINE],
+};
+
+export const DEFAULT_CRISIS_RESPONSE_CONFIG: CrisisResponseConfig = {
+  defaultLanguage: 'en',
+  resources: DEFAULT_CRISIS_RESOURCES,
+};
+
+/**
+ * Applies overrides to the default crisis response config
+ */
+export function resolveCrisisResponseConfig(options: CrisisResponseOptions = {}): CrisisResponseConfig {
+  return {
+    ...DEFAULT_CRISIS_RESPONSE_CONFIG,
+    ...options,
+    resources: { ...DEFAULT_CRISIS_RESPONSE_CONFIG.resources, ...options.resources } as Record<Language, HelplineResource[]>
+  };
+}
+
+const CRISIS_MESSAGES: Record<Language, { intro: string; resources: string; closing: string }> = {
+  en: {
+    intro: "I'm really sorry you're going through this, and I'm glad you told me. What you're describing is bigger than career coaching, and you deserve support from someone who can help right now.",
+    resources: 'You can reach people who are trained to listen, any time:',
+    closing: "If you are in immediate danger, please call your local emergency number. I'm still here to talk about your work whenever you're ready.",
+  },
+  es: {
+    intro: 'Siento mucho que estés pasando por esto, y me alegra que me lo hayas contado. Lo que describes va más allá del coaching profesional, y mereces el apoyo de alguien que pueda ayudarte ahora mismo.',
+    resources: 'Puedes hablar en cualquier momento con personas preparadas para escucharte:',
+    closing: 'Si estás en peligro inmediato, llama al número de emergencias de tu zona. Sigo aquí para hablar de tu trabajo cuando estés listo o lista.',
+  },
+  fr: {
+    intro: "Je suis vraiment désolé que tu traverses cela, et merci de me l'avoir dit. Ce que tu décris dépasse le coaching de carrière, et tu mérites le soutien de quelqu'un qui peut t'aider dès maintenant.",
+    resources: "Des personnes formées à l'écoute sont joignables à tout moment :",
+    closing: "Si tu es en danger immédiat, appelle le numéro d'urgence local. Je reste là pour parler de ton travail quand tu seras prêt ou prête.",
+  },
+  de: {
+    intro: 'Es tut mir sehr leid, dass du das gerade durchmachst, und danke, dass du es mir sagst. Was du beschreibst, geht über Karrierecoaching hinaus, und du verdienst Unterstützung von jemandem, der dir jetzt helfen kann.',
+    resources: 'Hier erreichst du jederzeit Menschen, die dir zuhören:',
+    closing: 'Wenn du in akuter Gefahr bist, ruf bitte den örtlichen Notruf an. Ich bin weiter für Gespräche über deine Arbeit da, wann immer du bereit bist.',
+  },
+  zh: {
+    intro: '听到你正在经历这些，我真的很难过，也谢谢你愿意告诉我。你所描述的已经超出了职业辅导的范围，你值得立即得到能够真正帮助你的人的支持。',
+    resources: '你可以随时联系这些受过专业训练、愿意倾听的人：',
+    closing: '如果你正处于紧急危险中，请立即拨打当地的紧急电话。等你准备好了，我仍然在这里和你聊工作上的事。',
+  },
+  ja: {
+    intro: 'つらい思いをされているのですね。話してくださってありがとうございます。お話しの内容はキャリアコーチングの範囲を超えています。今すぐ支えてくれる人の助けを受けてください。',
+    resources: '話を聴く訓練を受けた人たちに、いつでも相談できます：',
+    closing: '差し迫った危険がある場合は、地域の緊急通報番号に電話してください。準備ができたら、仕事のことはいつでもここで話しましょう。',
+  },
+  pt: {
+    intro: 'Sinto muito que você esteja passando por isso, e fico feliz que tenha me contado. O que você descreve vai além do coaching de carreira, e você merece o apoio de alguém que possa ajudar agora.',
+    resources: 'Você pode falar a qualquer momento com pessoas preparadas para ouvir:',
+    closing: 'Se você estiver em perigo imediato, ligue para o número de emergência local. Continuo aqui para falar sobre o seu trabalho quando você estiver pronto ou pronta.',
+  },
+  ar: {
+    intro: 'يؤسفني حقًا أنك تمر بهذا، وأنا ممتن لأنك أخبرتني. ما تصفه أكبر من الإرشاد المهني، وتستحق دعمًا من شخص يستطيع مساعدتك الآن.',
+    resources: 'يمكنك التواصل في أي وقت مع أشخاص مدرَّبين على الاستماع:',
+    closing: 'إذا كنت في خطر مباشر، فيرجى الاتصال برقم الطوارئ المحلي. سأبقى هنا للحديث عن عملك متى كنت مستعدًا.',
+  },
+  hi: {
+    intro: 'मुझे सच में दुख है कि आप इससे गुज़र रहे हैं, और मुझे खुशी है कि आपने मुझे बताया। आप जो बता रहे हैं वह करियर कोचिंग से बड़ी बात है, और आप ऐसे किसी व्यक्ति के सहारे के हक़दार हैं जो अभी मदद कर सके।',
+    resources: 'आप किसी भी समय ऐसे लोगों से बात कर सकते हैं जो सुनने के लिए प्रशिक्षित हैं:',
+    closing: 'अगर आप तुरंत खतरे में हैं, तो कृपया अपने स्थानीय आपातकालीन नंबर पर कॉल करें। जब आप तैयार हों, मैं आपके काम के बारे में बात करने के लिए यहीं हूँ।',
+  },
+  ru: {
+    intro: 'Мне очень жаль, что вам сейчас так тяжело, и спасибо, что рассказали мне. То, что вы описываете, выходит за рамки карьерного коучинга, и вы заслуживаете поддержки человека, который может помочь прямо сейчас.',
+    resources: 'Вы можете в любое время обратиться к людям, которые умеют выслушать:',
+    closing: 'Если вы в непосредственной опасности, позвоните в местную экстренную службу. Я по-прежнему здесь, чтобы поговорить о вашей работе, когда вы будете готовы.',
+  },
+};
+
+/**
+ * Builds the safe response to a crisis message in a language
+ * Languages without helplines of their own fall back to the default language's list
+ */
+export function getCrisisResponse(
+  language: Language,
+  config: CrisisResponseConfig = DEFAULT_CRISIS_RESPONSE_CONFIG
+): string {
+  const messages = CRISIS_MESSAGES[language] || CRISIS_MESSAGES[config.defaultLanguage];
+  const resources = config.resources[language]?.length
+    ? config.resources[language]
+    : config.resources[config.defaultLanguage] || [];
+
+  const lines = resources.map(resource =>
+    `• ${resource.name}: ${resource.contact}${resource.url ? ` (${resource.url})` : ''}`
+  );
+
+  return [messages.intro, [messages.resources, ...lines].join('\n'), messages.closing].join('\n\n');
+}
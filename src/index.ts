@@ -4,12 +4,19 @@
  */
 
 export { CoachingEngine, CoachingRequest, CoachingResponse } from './coachingEngine.js';
-export { ConversationManager, Response } from './conversation/conversationManager.js';
+export { ConversationManager, Response, ResponseSection } from './conversation/conversationManager.js';
 export { ResponseFormatter } from './conversation/responseFormatter.js';
 export { recognizeIntent, detectEmotionalContent, shouldPrioritizeMindset } from './intent/intentRecognizer.js';
 export { ProfileAnalyzer } from './profile/profileAnalyzer.js';
 export { collectProfileData, hasRequiredFields } from './profile/profileCollector.js';
 export { DataStore, InMemoryDataStore } from './persistence/dataStore.js';
+export { FileDataStore } from './persistence/fileDataStore.js';
+export { SqliteDataStore } from './persistence/sqliteDataStore.js';
+export { IntentAnalytics } from './analytics/intentAnalytics.js';
+export { FileIntentLogStore, InMemoryIntentLogStore } from './analytics/intentLog.js';
+export { ConversationMemory } from './memory/conversationMemory.js';
+export { CoachingFlow, loadCoachingFlows, parseCoachingFlow } from './flows/coachingFlow.js';
+export { LLMProvider, MockLLMProvider, OllamaProvider, OpenAIProvider, loadLLMProviders } from './llm/index.js';
 
 // Export all models
 export * from './models/index.js';
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryDataStore } from './persistence/dataStore.js';
+import { updateUserProfile } from './persistence/profileUpdates.js';
 import { collectProfileData } from './profile/profileCollector.js';
 import { ProfileAnalyzer } from './profile/profileAnalyzer.js';
 import { generateCareerPaths, identifyTradeOffs } from './recommendations/careerPathEngine.js';
@@ -383,17 +384,17 @@ describe('End-to-End Integration Tests', () => {
 
     for (const action of actionsToComplete) {
       await dataStore.trackActionCompletion(userId, action.id);
-      profile.progress.completedActions.push(action.id);
     }
 
-    // Complete a milestone
+    // Complete a milestone on top of the recorded completions
     const firstMilestone = growthPlan.milestones[0];
     firstMilestone.completed = true;
     firstMilestone.completedDate = new Date();
-    profile.progress.milestones.push(firstMilestone);
-
-    profile.progress.lastUpdated = new Date();
-    await dataStore.saveUserProfile(profile);
+    await updateUserProfile(dataStore, userId, current => {
+      current.careerInfo.currentPath = selectedPath;
+      current.progress.milestones.push(firstMilestone);
+      current.progress.lastUpdated = new Date();
+    });
 
     // Wait a moment to ensure timestamp difference
     await new Promise(resolve => setTimeout(resolve, 10));
@@ -530,18 +531,17 @@ describe('End-to-End Integration Tests', () => {
     // Complete first phase actions
     for (const action of phaseActions) {
       await dataStore.trackActionCompletion(userId, action.id);
-      profile.progress.completedActions.push(action.id);
     }
 
-    await dataStore.saveUserProfile(profile);
-
     // Verify progress tracking
     const progressHistory = await dataStore.getProgressHistory(userId);
     expect(progressHistory.length).toBe(phaseActions.length);
+    const progressedProfile = await dataStore.getUserProfile(userId);
+    expect(progressedProfile!.progress.completedActions).toEqual(phaseActions.map(a => a.id));
 
     // Generate acknowledgment for transition progress
     const completedActions = phaseActions.map(a => ({ ...a, completed: true }));
-    const acknowledgment = generateProgressAcknowledgment(completedActions, profile);
+    const acknowledgment = generateProgressAcknowledgment(completedActions, progressedProfile!);
     expect(acknowledgment).toBeTruthy();
   });
 
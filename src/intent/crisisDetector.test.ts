@@ -0,0 +1,81 @@
+/**
+ * Tests for crisis and self-harm detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectCrisis } from './crisisDetector.js';
+import { INTENT_LANGUAGE_PACKS } from './languagePacks.js';
+
+describe('detectCrisis', () => {
+  it.each([
+    ['I want to kill myself', 'suicidal_ideation'],
+    ['Sometimes I think about ending my life', 'suicidal_ideation'],
+    ['I\'ve been having suicidal thoughts since the layoff', 'suicidal_ideation'],
+    ['I don\'t want to live anymore', 'suicidal_ideation'],
+    ['Everyone would be better off dead without me, I mean I would be', 'suicidal_ideation'],
+    ['I kind of want to die', 'suicidal_ideation'],
+    ['I keep hurting myself when work gets bad', 'self_harm'],
+    ['I started self-harming again', 'self_harm'],
+  ])('should flag "%s"', (message, category) => {
+    expect(detectCrisis(message)?.categories).toContain(category);
+  });
+
+  it.each([
+    'This job is killing me',
+    'I want to kill it in my next interview',
+    'Quitting without an offer would be career suicide',
+    'I could die of embarrassment after that presentation',
+    'I\'m dying to get into product management',
+    'I feel hopeless about my job search',
+    'I\'m not suicidal, just burned out',
+    'I would never hurt myself over a job',
+  ])('should not flag "%s"', message => {
+    expect(detectCrisis(message)).toBeNull();
+  });
+
+  it('should report where each statement is', () => {
+    const message = 'Work is awful. I want to die and I keep cutting myself';
+    const assessment = detectCrisis(message)!;
+
+    expect(assessment.categories).toEqual(['suicidal_ideation', 'self_harm']);
+    expect(assessment.signals.map(signal => message.slice(signal.start, signal.end)))
+      .toEqual(['want to die', 'cutting myself']);
+  });
+
+  it.each([
+    ['quiero morir', 'suicidal_ideation'],
+    ['A veces pienso en quitarme la vida', 'suicidal_ideation'],
+    ['Ich will mich umbringen', 'suicidal_ideation'],
+    ['Ich will nicht mehr leben', 'suicidal_ideation'],
+    ['je veux mourir', 'suicidal_ideation'],
+    ['Je n\'ai plus envie de vivre', 'suicidal_ideation'],
+    ['Eu quero morrer', 'suicidal_ideation'],
+    ['我想死', 'suicidal_ideation'],
+    ['もう死にたい', 'suicidal_ideation'],
+    ['أريد أن أموت', 'suicidal_ideation'],
+    ['मैं मरना चाहता हूँ', 'suicidal_ideation'],
+    ['Я не хочу жить', 'suicidal_ideation'],
+    ['Me hago daño cuando el trabajo va mal', 'self_harm'],
+    ['Ich ritze mich wieder', 'self_harm'],
+  ])('should flag "%s" in its own language', (message, category) => {
+    expect(detectCrisis(message)?.categories).toContain(category);
+  });
+
+  it.each([
+    'No quiero morir, solo cambiar de trabajo',
+    'Das wäre beruflicher Selbstmord',
+    'Я не хочу умереть на этой работе',
+    '我不想死在这个岗位上',
+    'Este trabajo me está matando',
+  ])('should not flag "%s"', message => {
+    expect(detectCrisis(message)).toBeNull();
+  });
+
+  it('should have statements of both kinds in every language pack', () => {
+    for (const pack of Object.values(INTENT_LANGUAGE_PACKS)) {
+      const categories = new Set(pack.crisis.map(pattern => pattern.category));
+      expect([pack.language, ...categories]).toEqual([pack.language, 'suicidal_ideation', 'self_harm']);
+      expect(pack.crisis.every(({ pattern }) => pattern.global)).toBe(true);
+    }
+  });
+});
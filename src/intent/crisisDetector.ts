@@ -0,0 +1,59 @@
+/**
+ * Crisis and self-harm detection
+ * Separates statements of suicidal thoughts or self-harm from ordinary career
+ * frustration ("this job is killing me", "career suicide"). Only explicit statements
+ * count, so a match is reason enough to stop coaching and point to real help.
+ */
+
+import { analyzeModifiers, isWithin } from './textModifiers.js';
+import { INTENT_LANGUAGE_PACKS } from './languagePacks.js';
+
+export type CrisisCategory = 'suicidal_ideation' | 'self_harm';
+
+/**
+ * One crisis statement found in a message; end is exclusive
+ */
+export interface CrisisSignal {
+  category: CrisisCategory;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface CrisisAssessment {
+  categories: CrisisCategory[];
+  signals: CrisisSignal[];
+}
+
+/**
+ * Looks for statements of suicidal thoughts or self-harm in a message
+ * The statements of every supported language are looked for, since a short message
+ * is easily taken for the wrong language. Statements the user denies ("I'm not
+ * suicidal") do not count; hedges still do, since "I kind of want to die" is no less serious.
+ * @returns The crisis statements found, or null when there are none
+ */
+export function detectCrisis(message: string): CrisisAssessment | null {
+  const signals: CrisisSignal[] = [];
+
+  for (const pack of Object.values(INTENT_LANGUAGE_PACKS)) {
+    const { negated } = analyzeModifiers(message, pack.modifiers);
+    for (const { category, pattern } of pack.crisis) {
+      for (const match of message.matchAll(pattern)) {
+        const start = match.index!;
+        if (!isWithin(negated, start)) {
+          signals.push({ category, text: match[0], start, end: start + match[0].length });
+        }
+      }
+    }
+  }
+
+  if (signals.length === 0) {
+    return null;
+  }
+
+  signals.sort((a, b) => a.start - b.start);
+  return {
+    categories: [...new Set(signals.map(signal => signal.category))],
+    signals,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for entity extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { extractRichEntities, ExtractedEntity } from './entityExtractor.js';
+
+function valuesOf(message: string, kind: ExtractedEntity['kind']): unknown[] {
+  return extractRichEntities(message).filter(entity => entity.kind === kind).map(entity => entity.value);
+}
+
+describe('extractRichEntities', () => {
+  it('should find job titles and tell current roles from wanted ones', () => {
+    expect(valuesOf('I\'m a senior data analyst but want to become a product manager', 'job_title')).toEqual([
+      { title: 'senior data analyst', current: true },
+      { title: 'product manager', current: false },
+    ]);
+  });
+
+  it('should read years of experience with the role they were spent in', () => {
+    expect(valuesOf('I have 7 years as a nurse', 'years_of_experience')).toEqual([{ years: 7, role: 'nurse' }]);
+    expect(valuesOf('I\'ve been a teacher for twelve years', 'years_of_experience')).toEqual([{ years: 12, role: 'teacher' }]);
+    expect(valuesOf('5+ years of experience in sales', 'years_of_experience')).toEqual([{ years: 5 }]);
+    expect(valuesOf('I want to be a chef in 3 years', 'years_of_experience')).toEqual([]);
+  });
+
+  it('should parse salaries with currencies and periods', () => {
+    expect(valuesOf('I make $85k a year', 'salary')).toEqual([{ amount: 85000, currency: 'USD', period: 'year' }]);
+    expect(valuesOf('They offered 95,000 EUR per year', 'salary')).toEqual([{ amount: 95000, currency: 'EUR', period: 'year' }]);
+    expect(valuesOf('I earn 4000 a month', 'salary')).toEqual([{ amount: 4000, period: 'month' }]);
+    expect(valuesOf('£30 per hour', 'salary')).toEqual([{ amount: 30, currency: 'GBP', period: 'hour' }]);
+    expect(valuesOf('I applied to 12 jobs', 'salary')).toEqual([]);
+  });
+
+  it('should find locations, remote preferences and companies', () => {
+    const message = 'I work at Mercy General Hospital, based in Austin, TX, and I\'d like a hybrid or fully remote job';
+
+    expect(valuesOf(message, 'company')).toEqual(['Mercy General Hospital']);
+    expect(valuesOf(message, 'location')).toEqual(['Austin, TX']);
+    expect(valuesOf(message, 'remote_preference')).toEqual(['hybrid', 'remote']);
+    expect(valuesOf('I work for myself at a startup', 'company')).toEqual([]);
+  });
+
+  it('should find degrees and fields of study', () => {
+    expect(valuesOf('I have a Master\'s in Computer Science from MIT and a BA in history.', 'education')).toEqual([
+      { degree: 'Master\'s', field: 'computer science' },
+      { degree: 'BA', field: 'history' },
+    ]);
+    expect(valuesOf('I have an MBA which helped', 'education')).toEqual([{ degree: 'MBA' }]);
+    expect(valuesOf('I studied biology at university', 'education')).toEqual([{ field: 'biology' }]);
+    expect(valuesOf('ma and pa', 'education')).toEqual([]);
+  });
+
+  it('should rate skills from how users describe them', () => {
+    expect(valuesOf('I\'m pretty good at SQL', 'skill_proficiency')).toEqual([{ skill: 'sql', level: 6 }]);
+    expect(valuesOf('I\'m really strong in Python', 'skill_proficiency')).toEqual([{ skill: 'python', level: 9 }]);
+    expect(valuesOf('I am not great with Excel', 'skill_proficiency')).toEqual([{ skill: 'excel', level: 4 }]);
+    expect(valuesOf('I know Tableau well', 'skill_proficiency')).toEqual([{ skill: 'tableau', level: 7 }]);
+  });
+
+  it('should report offsets that point at the entity text, in message order', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom(
+          'I\'m a nurse', 'for 7 years', 'I make $85k a year', 'based in Berlin', 'remote',
+          'I work at Acme Corp', 'a BA in history', 'I\'m pretty good at SQL', 'hello'
+        ), { minLength: 1, maxLength: 6 }),
+        (parts) => {
+          const message = parts.join('. ');
+          const entities = extractRichEntities(message);
+
+          for (let i = 0; i < entities.length; i++) {
+            expect(message.slice(entities[i].start, entities[i].end)).toBe(entities[i].text);
+            if (i > 0) {
+              expect(entities[i].start).toBeGreaterThanOrEqual(entities[i - 1].start);
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Entity extraction for profile details mentioned in chat
+ * Finds job titles, years of experience, salaries, locations, remote preferences,
+ * companies, degrees and self-rated skills, each with its position in the message.
+ */
+
+/**
+ * Where an entity was found: message.slice(start, end) === text
+ */
+interface EntitySpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface JobTitleEntity extends EntitySpan {
+  kind: 'job_title';
+  /** current is true when the user says they hold the role now */
+  value: { title: string; current: boolean };
+}
+
+export interface YearsOfExperienceEntity extends EntitySpan {
+  kind: 'years_of_experience';
+  value: { years: number; role?: string };
+}
+
+export interface SalaryEntity extends EntitySpan {
+  kind: 'salary';
+  /** currency is an ISO code when one was given */
+  value: { amount: number; currency?: string; period?: 'year' | 'month' | 'hour' };
+}
+
+export interface LocationEntity extends EntitySpan {
+  kind: 'location';
+  value: string;
+}
+
+export interface RemotePreferenceEntity extends EntitySpan {
+  kind: 'remote_preference';
+  value: 'remote' | 'hybrid' | 'onsite';
+}
+
+export interface CompanyEntity extends EntitySpan {
+  kind: 'company';
+  value: string;
+}
+
+export interface EducationEntity extends EntitySpan {
+  kind: 'education';
+  value: { degree?: string; field?: string };
+}
+
+export interface SkillProficiencyEntity extends EntitySpan {
+  kind: 'skill_proficiency';
+  /** level is on the 0-10 scale of Skill.level */
+  value: { skill: string; level: number };
+}
+
+export type ExtractedEntity =
+  | JobTitleEntity
+  | YearsOfExperienceEntity
+  | SalaryEntity
+  | LocationEntity
+  | RemotePreferenceEntity
+  | CompanyEntity
+  | EducationEntity
+  | SkillProficiencyEntity;
+
+const ROLE_NOUNS = [
+  'software engineer', 'software developer', 'web developer', 'frontend developer', 'backend developer',
+  'data scientist', 'data analyst', 'data engineer', 'business analyst', 'product manager', 'project manager',
+  'program manager', 'engineering manager', 'marketing manager', 'sales manager', 'account manager',
+  'ux designer', 'ui designer', 'graphic designer', 'product designer', 'designer', 'developer', 'engineer',
+  'nurse', 'teacher', 'accountant', 'lawyer', 'paralegal', 'pharmacist', 'doctor', 'physician', 'consultant',
+  'analyst', 'architect', 'recruiter', 'copywriter', 'writer', 'journalist', 'editor', 'researcher', 'scientist',
+  'administrator', 'office administrator', 'customer support lead', 'support engineer', 'sales representative',
+  'cashier', 'chef', 'electrician', 'mechanic', 'technician', 'pharmacy technician', 'manager', 'director',
+];
+
+const SENIORITY = '(?:(?:junior|senior|lead|principal|staff|chief|assistant|associate|head)\\s+)?';
+
+// Longest first, so "data scientist" wins over "scientist"
+const ROLE_PATTERN = `${SENIORITY}(?:${[...ROLE_NOUNS].sort((a, b) => b.length - a.length).join('|')})s?`;
+
+const CURRENT_ROLE_CUES = /(?:\bi'?m|\bi am|\bi work as|\bworking as|\bi'?ve been|\bi have been|\bcurrently|\bmy (?:current )?(?:role|job|title) is)\s+(?:an?\s+|the\s+)?$/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+};
+
+const NUMBER_PATTERN = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const CURRENCY_CODES: Record<string, string> = {
+  '$': 'USD', '€': 'EUR', '£': 'GBP', usd: 'USD', eur: 'EUR', gbp: 'GBP', cad: 'CAD', aud: 'AUD',
+  dollars: 'USD', euros: 'EUR', pounds: 'GBP',
+};
+
+const DEGREE_NAMES: Record<string, string> = {
+  bachelors: "Bachelor's", bachelor: "Bachelor's", masters: "Master's", master: "Master's",
+  associates: "Associate's", associate: "Associate's", doctorate: 'Doctorate', phd: 'PhD', mba: 'MBA',
+  'high school diploma': 'High school diploma', ged: 'GED',
+};
+
+const SKILLS = [
+  'python', 'javascript', 'typescript', 'java', 'sql', 'excel', 'react', 'node', 'aws', 'docker', 'figma',
+  'tableau', 'power bi', 'machine learning', 'statistics', 'communication', 'leadership', 'public speaking',
+  'negotiation', 'project management', 'data analysis', 'data visualization', 'design', 'marketing', 'sales',
+  'writing', 'coding', 'networking', 'presenting', 'spanish', 'french', 'german',
+];
+
+const PROFICIENCY_LEVELS: Record<string, number> = {
+  'an expert': 9, expert: 9, excellent: 9, great: 8, strong: 8, proficient: 8, fluent: 8, advanced: 8,
+  good: 7, experienced: 7, comfortable: 6, decent: 6, okay: 5, ok: 5, rusty: 4, 'a beginner': 3, new: 3,
+  weak: 2, bad: 2, terrible: 1,
+};
+
+const PROFICIENCY_MODIFIERS: Record<string, number> = {
+  really: 1, very: 1, extremely: 1, pretty: -1, fairly: -1, quite: -1, 'kind of': -2, somewhat: -2,
+};
+
+/**
+ * Extracts profile details from a message, in the order they appear
+ * @param message - User's message text
+ * @returns Entities with their character offsets into the message
+ */
+export function extractRichEntities(message: string): ExtractedEntity[] {
+  const titles = extractJobTitles(message);
+  const entities: ExtractedEntity[] = [
+    ...titles,
+    ...extractYearsOfExperience(message, titles),
+    ...extractSalaries(message),
+    ...extractLocations(message),
+    ...extractRemotePreferences(message),
+    ...extractCompanies(message),
+    ...extractEducation(message),
+    ...extractSkillProficiency(message),
+  ];
+
+  return entities.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the first number in a short answer, written in digits or as a word ("five")
+ * @returns The number, or null when the text has none
+ */
+export function findNumber(text: string): number | null {
+  const match = new RegExp(`\\b${NUMBER_PATTERN}\\b`, 'i').exec(text);
+  return match ? parseNumber(match[1]) : null;
+}
+
+function span(message: string, start: number, text: string): EntitySpan {
+  return { text, start, end: start + text.length };
+}
+
+/**
+ * Offset of a capture group, found by searching from the start of the whole match
+ */
+function groupStart(match: RegExpExecArray, group: number): number {
+  return match.index + match[0].indexOf(match[group]);
+}
+
+function parseNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? parseFloat(value);
+}
+
+function extractJobTitles(message: string): JobTitleEntity[] {
+  const entities: JobTitleEntity[] = [];
+  const pattern = new RegExp(`\\b${ROLE_PATTERN}\\b`, 'gi');
+
+  for (let match; (match = pattern.exec(message));) {
+    const current = CURRENT_ROLE_CUES.test(message.slice(0, match.index));
+    entities.push({
+      kind: 'job_title',
+      ...span(message, match.index, match[0]),
+      value: { title: match[0].toLowerCase(), current },
+    });
+  }
+
+  return entities;
+}
+
+function extractYearsOfExperience(message: string, titles: JobTitleEntity[]): YearsOfExperienceEntity[] {
+  const entities: YearsOfExperienceEntity[] = [];
+
+  // "7 years of experience", "7 years as a nurse", "7+ years in marketing"
+  const stated = new RegExp(
+    `\\b${NUMBER_PATTERN}\\+?\\s*(?:years?|yrs?)(?:(?:\\s+of)?\\s+experience|(?=\\s+(?:as|in)\\s))`,
+    'gi'
+  );
+  for (let match; (match = stated.exec(message));) {
+    const end = match.index + match[0].length;
+    const as = /^\s+as\s+(?:an?\s+)?/i.exec(message.slice(end));
+    const role = as ? titles.find(title => title.start === end + as[0].length) : undefined;
+    entities.push({
+      kind: 'years_of_experience',
+      ...span(message, match.index, role ? message.slice(match.index, role.end) : match[0]),
+      value: { years: parseNumber(match[1]), ...(role ? { role: role.value.title } : {}) },
+    });
+  }
+
+  // "I've been a teacher for twelve years"
+  const tenure = new RegExp(`\\bfor\\s+${NUMBER_PATTERN}\\+?\\s*(?:years?|yrs?)\\b`, 'gi');
+  for (let match; (match = tenure.exec(message));) {
+    const role = [...titles].reverse().find(title => title.value.current && title.end <= match!.index);
+    if (role && !entities.some(entity => entity.start <= match!.index && match!.index < entity.end)) {
+      entities.push({
+        kind: 'years_of_experience',
+        ...span(message, match.index, match[0]),
+        value: { years: parseNumber(match[1]), role: role.value.title },
+      });
+    }
+  }
+
+  return entities;
+}
+
+function extractSalaries(message: string): SalaryEntity[] {
+  const entities: SalaryEntity[] = [];
+  const amount = '(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?\\s?k?)\\b';
+  const period = '(?:\\s*(?:per|a|an|\\/)\\s*(year|yr|annum|month|mo|hour|hr)\\b)?';
+  const patterns: { pattern: RegExp; groups: { symbol?: number; amount: number; period: number } }[] = [
+    // "$85k", "€60,000 a year"
+    { pattern: new RegExp(`([$€£])\\s?${amount}${period}`, 'gi'), groups: { symbol: 1, amount: 2, period: 3 } },
+    // "90000 USD", "70k euros per year"
+    {
+      pattern: new RegExp(`\\b${amount}\\s?(usd|eur|gbp|cad|aud|dollars|euros|pounds)\\b${period}`, 'gi'),
+      groups: { symbol: 2, amount: 1, period: 3 },
+    },
+    // "I make 80k", "a salary of 95,000"; bare numbers need a thousands marker
+    {
+      pattern: new RegExp(
+        `\\b(?:salary|make|earn|earning|paid|pay|offer(?:ed)?)\\b[^.!?\\d$€£]{0,20}?(\\d{1,3}(?:,\\d{3})+|\\d{4,}|\\d+(?:\\.\\d+)?\\s?k)\\b${period}`,
+        'gi'
+      ),
+      groups: { amount: 1, period: 2 },
+    },
+  ];
+
+  for (const { pattern, groups } of patterns) {
+    for (let match; (match = pattern.exec(message));) {
+      const start = groups.symbol === undefined ? groupStart(match, groups.amount) : match.index;
+      if (entities.some(entity => entity.start <= start && start < entity.end)) {
+        continue;
+      }
+
+      const amountText = match[groups.amount].replace(/[,\s]/g, '').toLowerCase();
+      const symbol = groups.symbol === undefined ? undefined : match[groups.symbol];
+      const periodText = match[groups.period];
+      entities.push({
+        kind: 'salary',
+        ...span(message, start, message.slice(start, match.index + match[0].length)),
+        value: {
+          amount: parseFloat(amountText) * (amountText.endsWith('k') ? 1000 : 1),
+          ...(symbol ? { currency: CURRENCY_CODES[symbol.toLowerCase()] } : {}),
+          ...(periodText ? { period: normalizePeriod(periodText) } : {}),
+        },
+      });
+    }
+  }
+
+  return entities;
+}
+
+function normalizePeriod(period: string): 'year' | 'month' | 'hour' {
+  const periodLower = period.toLowerCase();
+  if (periodLower.startsWith('mo')) {
+    return 'month';
+  }
+  return periodLower.startsWith('h') ? 'hour' : 'year';
+}
+
+/**
+ * Finds capitalized names right after a cue; cues match in any case, names only when capitalized
+ */
+function findNamesAfter(message: string, cue: RegExp, name: RegExp): { value: string; start: number }[] {
+  const found: { value: string; start: number }[] = [];
+  const sticky = new RegExp(name.source, 'y');
+
+  for (let match; (match = cue.exec(message));) {
+    sticky.lastIndex = match.index + match[0].length;
+    const named = sticky.exec(message);
+    if (named) {
+      found.push({ value: named[0].replace(/[.,'-]+$/, ''), start: named.index });
+    }
+  }
+
+  return found;
+}
+
+function extractLocations(message: string): LocationEntity[] {
+  const cue = /\b(?:based in|live in|living in|located in|relocate to|relocating to|move to|moving to|remote from|near)\s+/gi;
+  const place = /[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+)*(?:,\s*[A-Z][a-zA-Z]+)?/;
+
+  return findNamesAfter(message, cue, place).map(({ value, start }) => ({
+    kind: 'location',
+    ...span(message, start, value),
+    value,
+  }));
+}
+
+function extractRemotePreferences(message: string): RemotePreferenceEntity[] {
+  const entities: RemotePreferenceEntity[] = [];
+  const preferences: { pattern: RegExp; value: RemotePreferenceEntity['value'] }[] = [
+    { pattern: /\b(?:fully remote|remote(?:ly)?|work from home|working from home|wfh)\b/gi, value: 'remote' },
+    { pattern: /\bhybrid\b/gi, value: 'hybrid' },
+    { pattern: /\b(?:on-?site|in[- ]office|in the office|in person)\b/gi, value: 'onsite' },
+  ];
+
+  for (const { pattern, value } of preferences) {
+    for (let match; (match = pattern.exec(message));) {
+      entities.push({ kind: 'remote_preference', ...span(message, match.index, match[0]), value });
+    }
+  }
+
+  return entities;
+}
+
+function extractCompanies(message: string): CompanyEntity[] {
+  const cue = new RegExp(
+    `\\b(?:work(?:s|ing|ed)?\\s+(?:at|for)|employed\\s+(?:at|by)|joined|(?:job|role|position|internship|${ROLE_PATTERN})\\s+at)\\s+`,
+    'gi'
+  );
+  const name = /[A-Z][\w&'.-]*(?:(?:\s+(?:of|and|&))?\s+[A-Z][\w&'.-]*)*/;
+
+  return findNamesAfter(message, cue, name)
+    .filter(({ value }) => !/^(?:I|University|College|School)\b/.test(value))
+    .map(({ value, start }) => ({ kind: 'company', ...span(message, start, value), value }));
+}
+
+function extractEducation(message: string): EducationEntity[] {
+  const entities: EducationEntity[] = [];
+  const field = "(?:\\s+(?:degree\\s+)?(?:in|of)\\s+([a-zA-Z][a-zA-Z -]*?)(?=[,.!?;]|\\s+(?:and|from|at|but|so)\\b|$))?";
+  const degrees: { pattern: RegExp; degree: (text: string) => string }[] = [
+    {
+      pattern: new RegExp(`\\b(bachelor'?s|master'?s|associate'?s|doctorate|phd|ph\\.d\\.?|mba|high school diploma|ged)(?:\\s+degree)?${field}`, 'gi'),
+      degree: text => DEGREE_NAMES[text.toLowerCase().replace(/[.']/g, '')],
+    },
+    {
+      // Short abbreviations only count in capitals, so "ma" or "ms" in a sentence is left alone
+      pattern: new RegExp(`\\b(BA|BS|BSc|BFA|MA|MS|MSc|MFA|MEng|BEng)\\b${field}`, 'g'),
+      degree: text => text,
+    },
+  ];
+
+  for (const { pattern, degree } of degrees) {
+    for (let match; (match = pattern.exec(message));) {
+      entities.push({
+        kind: 'education',
+        ...span(message, match.index, match[0]),
+        value: { degree: degree(match[1]), ...(match[2] ? { field: match[2].trim().toLowerCase() } : {}) },
+      });
+    }
+  }
+
+  // "I studied biology", "a degree in nursing"
+  const studied = /\b(?:studied|majored in|degree in)\s+([a-zA-Z][a-zA-Z -]*?)(?=[,.!?;]|\s+(?:and|from|at|but|so|in)\b|$)/gi;
+  for (let match; (match = studied.exec(message));) {
+    if (!entities.some(entity => entity.start <= match!.index && match!.index < entity.end)) {
+      entities.push({
+        kind: 'education',
+        ...span(message, match.index, match[0]),
+        value: { field: match[1].trim().toLowerCase() },
+      });
+    }
+  }
+
+  return entities;
+}
+
+function extractSkillProficiency(message: string): SkillProficiencyEntity[] {
+  const entities: SkillProficiencyEntity[] = [];
+  const skill = `(${[...SKILLS].sort((a, b) => b.length - a.length).join('|')})`;
+  const modifier = `(?:(not|${Object.keys(PROFICIENCY_MODIFIERS).join('|')})\\s+)?`;
+  const level = `(${Object.keys(PROFICIENCY_LEVELS).join('|')})`;
+
+  // "I'm pretty good at SQL", "I am not great with Excel"
+  const rated = new RegExp(`\\b(?:i'?m|i am)\\s+${modifier}${level}\\s+(?:at|in|with|to)\\s+${skill}\\b`, 'gi');
+  for (let match; (match = rated.exec(message));) {
+    const [, modifierText, levelText, skillText] = match;
+    let value = PROFICIENCY_LEVELS[levelText.toLowerCase()];
+    if (modifierText?.toLowerCase() === 'not') {
+      // "not great" is weak, "not bad" is decent
+      value = Math.round((15 - value) / 2);
+    } else if (modifierText) {
+      value += PROFICIENCY_MODIFIERS[modifierText.toLowerCase()];
+    }
+    entities.push({
+      kind: 'skill_proficiency',
+      ...span(message, match.index, match[0]),
+      value: { skill: skillText.toLowerCase(), level: Math.max(0, Math.min(10, value)) },
+    });
+  }
+
+  // "I know Python really well"
+  const known = new RegExp(`\\bi know\\s+${skill}\\s+(?:(really|very)\\s+)?well\\b`, 'gi');
+  for (let match; (match = known.exec(message));) {
+    entities.push({
+      kind: 'skill_proficiency',
+      ...span(message, match.index, match[0]),
+      value: { skill: match[1].toLowerCase(), level: match[2] ? 8 : 7 },
+    });
+  }
+
+  return entities;
+}
@@ -3,3 +3,12 @@
  */
 
 export * from './intentRecognizer.js';
+export * from './intentClassifier.js';
+export * from './naiveBayesClassifier.js';
+export * from './intentCorpus.js';
+export * from './intentContext.js';
+export * from './entityExtractor.js';
+export * from './textModifiers.js';
+export * from './crisisDetector.js';
+export * from './languageDetector.js';
+export * from './languagePacks.js';
@@ -0,0 +1,114 @@
+/**
+ * Intent classifiers
+ * A classifier scores the intent types a message expresses; the recognizer adds
+ * emotional content, entities and fallbacks on top, whichever classifier is used.
+ */
+
+import { Intent } from '../models/index.js';
+import { Language } from '../i18n/languages.js';
+import { analyzeModifiers, isWithin } from './textModifiers.js';
+import { INTENT_LANGUAGE_PACKS, getIntentLanguagePack, getIntentPatterns } from './languagePacks.js';
+import { detectLanguage } from './languageDetector.js';
+
+/**
+ * Every intent type, in the order ties are broken
+ */
+export const INTENT_TYPES: Intent['type'][] = [
+  'profile_building',
+  'career_clarity',
+  'skill_guidance',
+  'action_planning',
+  'mindset_support',
+  'growth_planning',
+  'transition_guidance',
+  'progress_check',
+];
+
+/**
+ * How likely a message is to express one intent type, from 0 to 1
+ */
+export interface IntentScore {
+  type: Intent['type'];
+  confidence: number;
+}
+
+export interface IntentClassifier {
+  /**
+   * Scores the intent types a message expresses, most likely first
+   * Types without any evidence may be left out; an empty list means no evidence at all
+   * @param language - Language of the message, when already known
+   */
+  classify(message: string, language?: Language): IntentScore[];
+}
+
+/**
+ * Intent type assumed when a classifier finds no evidence in a message
+ */
+export function fallbackIntentType(message: string): Intent['type'] {
+  return message.includes('?') ? 'career_clarity' : 'profile_building';
+}
+
+/**
+ * Global copies of the phrase patterns of every language, to visit every match
+ */
+const GLOBAL_PHRASES = new Map(
+  Object.values(INTENT_LANGUAGE_PACKS)
+    .flatMap(pack => pack.intents.flatMap(({ phrases }) => phrases))
+    .map(phrase => [phrase, new RegExp(phrase.source, phrase.flags + 'g')])
+);
+
+/**
+ * Scores every intent type by keyword (1 point) and phrase (2 points) matches
+ * A keyword or phrase only counts when it appears at least once outside a negation,
+ * so "I don't want to switch careers" is no evidence for a transition
+ * @param language - Language whose pack is matched, along with the English terms
+ */
+export function scoreIntentTypes(messageLower: string, language: Language = 'en'): Record<Intent['type'], number> {
+  const scores = Object.fromEntries(INTENT_TYPES.map(type => [type, 0])) as Record<Intent['type'], number>;
+  const { negated } = analyzeModifiers(messageLower, getIntentLanguagePack(language).modifiers);
+  const affirmed = (index: number) => !isWithin(negated, index);
+
+  for (const { type, keywords, phrases } of getIntentPatterns(language)) {
+    // Check keywords
+    for (const keyword of keywords) {
+      if (occurrences(messageLower, keyword).some(affirmed)) {
+        scores[type] += 1;
+      }
+    }
+
+    // Check phrases (higher weight)
+    for (const phrase of phrases) {
+      if ([...messageLower.matchAll(GLOBAL_PHRASES.get(phrase)!)].some(match => affirmed(match.index!))) {
+        scores[type] += 2;
+      }
+    }
+  }
+
+  return scores;
+}
+
+function occurrences(text: string, keyword: string): number[] {
+  const indexes: number[] = [];
+  for (let index = text.indexOf(keyword); index !== -1; index = text.indexOf(keyword, index + 1)) {
+    indexes.push(index);
+  }
+  return indexes;
+}
+
+/**
+ * Classifier built on hand-written keyword and phrase lists
+ *
+ * A type's confidence is 1 - e^(-score/2), so one phrase match (or two keywords)
+ * gives about 0.63 and further evidence approaches 1. Types with no match are left out.
+ * Messages are matched against the keyword pack of their language, detected when not given.
+ */
+export class KeywordIntentClassifier implements IntentClassifier {
+  classify(message: string, language: Language = detectLanguage(message)): IntentScore[] {
+    const scores = scoreIntentTypes(message.toLowerCase(), language);
+
+    return INTENT_TYPES
+      .filter(type => scores[type] > 0)
+      .map(type => ({ type, confidence: 1 - Math.exp(-scores[type] / 2) }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
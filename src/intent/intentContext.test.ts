@@ -0,0 +1,111 @@
+/**
+ * Tests for conversation-aware intent resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  IntentContext,
+  isFollowUp,
+  resolveSelectedOption,
+  resolveIntentsInContext,
+  mergeActiveTopics,
+  MAX_ACTIVE_TOPICS
+} from './intentContext.js';
+import { recognizeIntents } from './intentRecognizer.js';
+import { Intent } from '../models/index.js';
+
+const OPTIONS = ['Data Scientist', 'Product Manager', 'UX Designer'];
+
+function contextAfter(currentIntent: Intent): IntentContext {
+  return {
+    conversationHistory: [
+      { id: 'm-1', sender: 'user', content: 'What career path should I take?', timestamp: new Date() },
+      { id: 'm-2', sender: 'system', content: 'Here are three paths...', timestamp: new Date() },
+    ],
+    currentIntent,
+    activeTopics: [],
+  };
+}
+
+const careerClarity: Intent = {
+  type: 'career_clarity',
+  confidence: 0.86,
+  entities: { careerFields: ['data science'], options: OPTIONS, emotional: { hasEmotionalContent: true } },
+};
+
+describe('isFollowUp', () => {
+  it('should recognize short replies that lean on the previous turn', () => {
+    expect(isFollowUp('yes, that one')).toBe(true);
+    expect(isFollowUp('How long would it take?')).toBe(true);
+    expect(isFollowUp('the second one please')).toBe(true);
+    expect(isFollowUp('What skills should I learn for a move into data science next year?')).toBe(false);
+    expect(isFollowUp('Hello there')).toBe(false);
+    expect(isFollowUp('')).toBe(false);
+  });
+});
+
+describe('resolveSelectedOption', () => {
+  it('should pick an option by name, ordinal or as the only one offered', () => {
+    expect(resolveSelectedOption('the product manager one', OPTIONS)).toBe('Product Manager');
+    expect(resolveSelectedOption('the second one', OPTIONS)).toBe('Product Manager');
+    expect(resolveSelectedOption('the last option', OPTIONS)).toBe('UX Designer');
+    expect(resolveSelectedOption('yes, that one', ['Data Scientist'])).toBe('Data Scientist');
+    expect(resolveSelectedOption('yes, that one', OPTIONS)).toBeUndefined();
+    expect(resolveSelectedOption('the fifth one', OPTIONS)).toBeUndefined();
+  });
+});
+
+describe('resolveIntentsInContext', () => {
+  it('should let a follow-up inherit the previous intent and entities', () => {
+    const message = 'the second one';
+
+    const [intent] = resolveIntentsInContext(message, recognizeIntents(message), contextAfter(careerClarity));
+
+    expect(intent.type).toBe('career_clarity');
+    expect(intent.confidence).toBe(0.86);
+    expect(intent.entities).toMatchObject({
+      careerFields: ['data science'],
+      options: OPTIONS,
+      selectedOption: 'Product Manager',
+      followUp: true,
+    });
+    // Emotional content belongs to the turn it was expressed in
+    expect(intent.entities.emotional).toBeUndefined();
+  });
+
+  it('should keep a confident intent of the follow-up and fill in the entities it leaves out', () => {
+    const message = 'What about what skill I should learn?';
+
+    const [intent] = resolveIntentsInContext(message, recognizeIntents(message), contextAfter(careerClarity));
+
+    expect(intent.type).toBe('skill_guidance');
+    expect(intent.entities.careerFields).toEqual(['data science']);
+  });
+
+  it('should leave standalone messages and first messages alone', () => {
+    const standalone = 'I want to switch from teaching into product management';
+    const first = 'yes, that one';
+    const intents = recognizeIntents(standalone);
+
+    expect(resolveIntentsInContext(standalone, intents, contextAfter(careerClarity))).toBe(intents);
+    expect(resolveIntentsInContext(first, recognizeIntents(first), {
+      ...contextAfter(careerClarity),
+      conversationHistory: [],
+    })[0].entities.followUp).toBeUndefined();
+  });
+});
+
+describe('mergeActiveTopics', () => {
+  it('should put the newest topics first without duplicates and cap the list', () => {
+    const intent: Intent = {
+      type: 'transition_guidance',
+      confidence: 0.9,
+      entities: { selectedOption: 'Data Scientist', careerFields: ['data science'], skills: ['python'] },
+    };
+
+    expect(mergeActiveTopics(['python', 'sales'], [intent])).toEqual(['Data Scientist', 'data science', 'python', 'sales']);
+
+    const many = Array.from({ length: 20 }, (_, i) => `topic ${i}`);
+    expect(mergeActiveTopics(many, [intent])).toHaveLength(MAX_ACTIVE_TOPICS);
+  });
+});
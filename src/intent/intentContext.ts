@@ -0,0 +1,140 @@
+/**
+ * Conversation-aware intent resolution
+ * Short follow-ups such as "yes, that one" or "how long would it take?" carry little
+ * evidence of their own; they continue the intent and entities of the previous turn.
+ */
+
+import { Intent, SessionContext } from '../models/index.js';
+import { DEFAULT_INTENT_THRESHOLD } from './intentRecognizer.js';
+
+/**
+ * The parts of a session that intent resolution reads
+ */
+export type IntentContext = Pick<SessionContext, 'conversationHistory' | 'currentIntent' | 'activeTopics'>;
+
+/**
+ * Messages longer than this are treated as standing on their own
+ */
+const FOLLOW_UP_MAX_WORDS = 8;
+
+/**
+ * Topics kept per session, most recent first
+ */
+export const MAX_ACTIVE_TOPICS = 10;
+
+const FOLLOW_UP_PATTERNS: RegExp[] = [
+  /^(yes|yeah|yep|yup|sure|ok|okay|no|nope|right|exactly|sounds good|great)\b/,
+  /^(how long|how much|how many|how hard|how often|why|when|and|what about|what else|what if|tell me more|more)\b/,
+  /\b(that|this|the) one\b/,
+  /\b(first|second|third|fourth|fifth|last) (one|option)\b/,
+  /\b(it|that|those|them)\b/,
+];
+
+const ORDINALS: Record<string, number> = { first: 0, second: 1, third: 2, fourth: 3, fifth: 4 };
+
+/**
+ * Entities that describe the previous turn only and are never carried forward
+ */
+const TURN_ONLY_ENTITIES = ['emotional', 'followUp', 'mentions'];
+
+/**
+ * Whether a message reads as a continuation of the previous turn
+ */
+export function isFollowUp(message: string): boolean {
+  const messageLower = message.toLowerCase().trim();
+  const wordCount = messageLower.split(/\s+/).filter(Boolean).length;
+  return wordCount > 0 && wordCount <= FOLLOW_UP_MAX_WORDS && FOLLOW_UP_PATTERNS.some(pattern => pattern.test(messageLower));
+}
+
+/**
+ * Picks the option a follow-up refers to from those offered in the previous turn
+ * Matches an option by name, by ordinal ("the second one"), or "that one" when only one was offered
+ */
+export function resolveSelectedOption(message: string, options: string[]): string | undefined {
+  const messageLower = message.toLowerCase();
+
+  const named = options.find(option => messageLower.includes(option.toLowerCase()));
+  if (named) {
+    return named;
+  }
+
+  const ordinal = messageLower.match(/\b(first|second|third|fourth|fifth|last) (one|option)\b/);
+  if (ordinal) {
+    return ordinal[1] === 'last' ? options[options.length - 1] : options[ORDINALS[ordinal[1]]];
+  }
+
+  return options.length === 1 && /\b(yes|yeah|yep|sure|ok|okay|that one|this one)\b/.test(messageLower)
+    ? options[0]
+    : undefined;
+}
+
+/**
+ * Resolves the intents of a message against the conversation so far
+ *
+ * A follow-up with no confident intent of its own inherits the previous turn's intent
+ * type and confidence, ahead of its own guesses. Any follow-up keeps the previous
+ * entities it does not restate, plus the option it picked from those offered.
+ * @param message - User's message text
+ * @param intents - Intents recognized from the message alone, most likely first
+ * @param context - Session the message belongs to, before the message is added
+ * @returns Intents to act on for this turn, most likely first
+ */
+export function resolveIntentsInContext(
+  message: string,
+  intents: Intent[],
+  context: IntentContext,
+  threshold: number = DEFAULT_INTENT_THRESHOLD
+): Intent[] {
+  const hasPreviousTurn = context.conversationHistory.some(entry => entry.sender === 'user');
+  if (!hasPreviousTurn || !isFollowUp(message)) {
+    return intents;
+  }
+
+  const previous = context.currentIntent;
+  const carried = Object.fromEntries(
+    Object.entries(previous.entities).filter(([name]) => !TURN_ONLY_ENTITIES.includes(name))
+  );
+  const options = carried.options as string[] | undefined;
+  const selectedOption = options ? resolveSelectedOption(message, options) : undefined;
+
+  const withContext = (intent: Intent): Intent => ({
+    ...intent,
+    entities: {
+      ...carried,
+      ...intent.entities,
+      ...(selectedOption ? { selectedOption } : {}),
+      followUp: true,
+    },
+  });
+
+  if (intents.some(intent => intent.confidence >= threshold)) {
+    return intents.map(withContext);
+  }
+
+  const inherited = withContext({
+    ...previous,
+    entities: intents[0]?.entities ?? {},
+    language: intents[0]?.language ?? previous.language,
+  });
+  return [inherited, ...intents.filter(intent => intent.type !== previous.type).map(withContext)];
+}
+
+/**
+ * Topics an intent brings up: the option picked, career fields and skills
+ */
+export function getIntentTopics(intent: Intent): string[] {
+  const { selectedOption, careerFields = [], skills = [] } = intent.entities as {
+    selectedOption?: string;
+    careerFields?: string[];
+    skills?: string[];
+  };
+  return [...(selectedOption ? [selectedOption] : []), ...careerFields, ...skills];
+}
+
+/**
+ * Adds the topics of a turn to a session's active topics, most recent first
+ */
+export function mergeActiveTopics(activeTopics: string[], intents: Intent[]): string[] {
+  const recent = intents.flatMap(getIntentTopics);
+  return [...new Set([...recent, ...activeTopics])].slice(0, MAX_ACTIVE_TOPICS);
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for the intent corpus and classifier evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  appendToIntentCorpus,
+  evaluateIntentClassifier,
+  loadIntentCorpus,
+  parseIntentCorpus,
+  splitIntentCorpus
+} from './intentCorpus.js';
+import { IntentClassifier } from './intentClassifier.js';
+import { LabeledExample } from './naiveBayesClassifier.js';
+import { ValidationError } from '../utils/validation.js';
+
+describe('parseIntentCorpus', () => {
+  it('should read one example per line and skip blank lines', () => {
+    const examples = parseIntentCorpus([
+      '{"text": "What should I learn?", "intents": ["skill_guidance"]}',
+      '',
+      '{"text": "I feel stuck, what next?", "intents": ["mindset_support", "action_planning"]}',
+    ].join('\n'));
+
+    expect(examples).toEqual([
+      { text: 'What should I learn?', intents: ['skill_guidance'] },
+      { text: 'I feel stuck, what next?', intents: ['mindset_support', 'action_planning'] },
+    ]);
+  });
+
+  it('should name the line of an invalid example', () => {
+    const content = '{"text": "ok", "intents": ["skill_guidance"]}\n{"text": "hi", "intents": ["chit_chat"]}';
+
+    expect(() => parseIntentCorpus(content)).toThrow(ValidationError);
+    expect(() => parseIntentCorpus(content)).toThrow('line 2');
+    expect(() => parseIntentCorpus('not json')).toThrow('line 1 is not valid JSON');
+  });
+
+  it('should load the checked-in corpus', async () => {
+    const corpus = await loadIntentCorpus();
+
+    expect(corpus.length).toBeGreaterThan(100);
+    expect(new Set(corpus.map(example => example.intents[0])).size).toBe(8);
+  });
+});
+
+describe('appendToIntentCorpus', () => {
+  it('should add new examples in the corpus format and skip known texts', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-corpus-'));
+    const corpusPath = path.join(tempDir, 'corpus.jsonl');
+    try {
+      await fs.writeFile(corpusPath, '{"text": "What should I learn?", "intents": ["skill_guidance"]}');
+
+      const added = await appendToIntentCorpus([
+        { text: ' what should I learn? ', intents: ['growth_planning'] },
+        { text: 'I feel "stuck"', intents: ['mindset_support', 'action_planning'] },
+        { text: 'I feel "STUCK"', intents: ['mindset_support'] },
+      ], corpusPath);
+
+      expect(added.map(example => example.text)).toEqual(['I feel "stuck"']);
+      expect(await fs.readFile(corpusPath, 'utf8')).toBe([
+        '{"text": "What should I learn?", "intents": ["skill_guidance"]}',
+        '{"text": "I feel \\"stuck\\"", "intents": ["mindset_support", "action_planning"]}',
+        '',
+      ].join('\n'));
+      expect(await appendToIntentCorpus([{ text: 'New', intents: ['skill_guidance'] }], path.join(tempDir, 'new.jsonl')))
+        .toHaveLength(1);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('splitIntentCorpus', () => {
+  it('should hold out the same share of every main intent, the same way every time', () => {
+    const examples: LabeledExample[] = Array.from({ length: 20 }, (_, i) => ({
+      text: `message ${i}`,
+      intents: [i % 2 === 0 ? 'skill_guidance' : 'progress_check'],
+    }));
+
+    const { training, heldOut } = splitIntentCorpus(examples, 0.2);
+
+    expect(training).toHaveLength(16);
+    expect(heldOut.filter(example => example.intents[0] === 'skill_guidance')).toHaveLength(2);
+    expect(splitIntentCorpus(examples, 0.2).heldOut).toEqual(heldOut);
+    expect(() => splitIntentCorpus(examples, 1)).toThrow(ValidationError);
+  });
+});
+
+describe('evaluateIntentClassifier', () => {
+  it('should report per-type precision and recall and a confusion matrix', () => {
+    // Predicts skill guidance for everything that mentions learning, nothing otherwise
+    const classifier: IntentClassifier = {
+      classify: message => message.includes('learn') ? [{ type: 'skill_guidance', confidence: 0.9 }] : [],
+    };
+    const examples: LabeledExample[] = [
+      { text: 'I want to learn SQL', intents: ['skill_guidance'] },
+      { text: 'I learned a lot, finished the course', intents: ['progress_check'] },
+      { text: 'Any ideas?', intents: ['career_clarity'] },
+      { text: 'Which course?', intents: ['skill_guidance'] },
+    ];
+
+    const evaluation = evaluateIntentClassifier(classifier, examples);
+
+    expect(evaluation.examples).toBe(4);
+    expect(evaluation.accuracy).toBe(0.5);
+    expect(evaluation.metrics.skill_guidance).toEqual({ precision: 0.5, recall: 0.5, f1: 0.5, support: 2 });
+    expect(evaluation.metrics.career_clarity).toMatchObject({ precision: 0.5, recall: 1 });
+    expect(evaluation.metrics.progress_check).toEqual({ precision: 0, recall: 0, f1: 0, support: 1 });
+    expect(evaluation.confusion.progress_check.skill_guidance).toBe(1);
+    // No evidence falls back the way the recognizer does: questions become career clarity
+    expect(evaluation.confusion.skill_guidance.career_clarity).toBe(1);
+  });
+});
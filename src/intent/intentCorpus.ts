@@ -0,0 +1,189 @@
+/**
+ * Labeled intent corpus and classifier evaluation
+ *
+ * The corpus is JSONL, one message per line: {"text": "...", "intents": ["skill_guidance"]}.
+ * The first intent is the message's main one; evaluation checks the top prediction against it.
+ */
+
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { Intent } from '../models/index.js';
+import { ValidationError } from '../utils/validation.js';
+import { IntentClassifier, INTENT_TYPES, fallbackIntentType } from './intentClassifier.js';
+import { LabeledExample } from './naiveBayesClassifier.js';
+
+/**
+ * The corpus checked into the repository
+ */
+export const DEFAULT_CORPUS_PATH = fileURLToPath(new URL('./data/corpus.jsonl', import.meta.url));
+
+/**
+ * Parses a JSONL corpus; blank lines are skipped
+ * @throws ValidationError naming the line of the first invalid example
+ */
+export function parseIntentCorpus(content: string): LabeledExample[] {
+  const examples: LabeledExample[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const field = `line ${index + 1}`;
+
+    let example: any;
+    try {
+      example = JSON.parse(line);
+    } catch (error) {
+      throw new ValidationError(`Corpus ${field} is not valid JSON`, field, line);
+    }
+    if (!example || typeof example.text !== 'string' || example.text.trim() === '') {
+      throw new ValidationError(`Corpus ${field} must have a non-empty text`, field, example);
+    }
+    if (!Array.isArray(example.intents) || example.intents.length === 0 ||
+        !example.intents.every((type: unknown) => INTENT_TYPES.includes(type as Intent['type']))) {
+      throw new ValidationError(`Corpus ${field} must list known intent types`, field, example.intents);
+    }
+
+    examples.push({ text: example.text, intents: example.intents });
+  });
+
+  return examples;
+}
+
+/**
+ * Reads and parses a JSONL corpus file
+ */
+export async function loadIntentCorpus(filePath: string = DEFAULT_CORPUS_PATH): Promise<LabeledExample[]> {
+  return parseIntentCorpus(await fs.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Formats examples as JSONL corpus lines, spaced like the checked-in corpus
+ */
+export function formatIntentCorpus(examples: LabeledExample[]): string {
+  return examples
+    .map(({ text, intents }) =>
+      `{"text": ${JSON.stringify(text)}, "intents": [${intents.map(type => JSON.stringify(type)).join(', ')}]}\n`
+    )
+    .join('');
+}
+
+/**
+ * Adds examples to the end of a corpus file, creating it when missing
+ * Examples whose text is already in the corpus, ignoring case and surrounding
+ * whitespace, are skipped so the same message is never labeled twice
+ * @returns The examples that were added
+ */
+export async function appendToIntentCorpus(
+  examples: LabeledExample[],
+  filePath: string = DEFAULT_CORPUS_PATH
+): Promise<LabeledExample[]> {
+  let content = '';
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const key = (text: string) => text.trim().toLowerCase();
+  const seen = new Set(parseIntentCorpus(content).map(example => key(example.text)));
+  const added = examples.filter(example => {
+    if (seen.has(key(example.text))) {
+      return false;
+    }
+    seen.add(key(example.text));
+    return true;
+  });
+
+  if (added.length > 0) {
+    // Keep the file line-per-example even if its last line lacks a newline
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+    await fs.appendFile(filePath, separator + formatIntentCorpus(added));
+  }
+  return added;
+}
+
+/**
+ * Splits a corpus into training and held-out examples
+ * Holds out the same fraction of every main intent, spread evenly through the file,
+ * so the split is repeatable
+ */
+export function splitIntentCorpus(
+  examples: LabeledExample[],
+  holdoutFraction: number
+): { training: LabeledExample[]; heldOut: LabeledExample[] } {
+  if (!(holdoutFraction > 0 && holdoutFraction < 1)) {
+    throw new ValidationError('Holdout fraction must be between 0 and 1', 'holdoutFraction', holdoutFraction);
+  }
+
+  const training: LabeledExample[] = [];
+  const heldOut: LabeledExample[] = [];
+  const seen = new Map<Intent['type'], number>();
+
+  for (const example of examples) {
+    const position = seen.get(example.intents[0]) ?? 0;
+    seen.set(example.intents[0], position + 1);
+    const holdOut = Math.floor((position + 1) * holdoutFraction) > Math.floor(position * holdoutFraction);
+    (holdOut ? heldOut : training).push(example);
+  }
+
+  return { training, heldOut };
+}
+
+export interface IntentTypeMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Examples whose main intent is this type */
+  support: number;
+}
+
+/**
+ * How well a classifier's top prediction matches the main intent of each example
+ */
+export interface IntentEvaluation {
+  examples: number;
+  accuracy: number;
+  metrics: Record<Intent['type'], IntentTypeMetrics>;
+  /** Counts by actual main intent, then by predicted intent */
+  confusion: Record<Intent['type'], Record<Intent['type'], number>>;
+}
+
+/**
+ * Evaluates a classifier against labeled examples
+ * A message the classifier finds no evidence in is predicted as the recognizer's fallback
+ */
+export function evaluateIntentClassifier(classifier: IntentClassifier, examples: LabeledExample[]): IntentEvaluation {
+  const confusion = Object.fromEntries(
+    INTENT_TYPES.map(actual => [actual, Object.fromEntries(INTENT_TYPES.map(predicted => [predicted, 0]))])
+  ) as IntentEvaluation['confusion'];
+
+  let correct = 0;
+  for (const example of examples) {
+    const [top] = classifier.classify(example.text);
+    const predicted = top ? top.type : fallbackIntentType(example.text.toLowerCase());
+    confusion[example.intents[0]][predicted]++;
+    if (predicted === example.intents[0]) {
+      correct++;
+    }
+  }
+
+  const metrics = Object.fromEntries(INTENT_TYPES.map(type => {
+    const truePositives = confusion[type][type];
+    const predicted = INTENT_TYPES.reduce((total, actual) => total + confusion[actual][type], 0);
+    const support = INTENT_TYPES.reduce((total, other) => total + confusion[type][other], 0);
+    const precision = predicted > 0 ? truePositives / predicted : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return [type, { precision, recall, f1, support }];
+  })) as IntentEvaluation['metrics'];
+
+  return {
+    examples: examples.length,
+    accuracy: examples.length > 0 ? correct / examples.length : 0,
+    metrics,
+    confusion,
+  };
+}
@@ -2,10 +2,19 @@
  * Property-based tests for Intent Recognition System
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { recognizeIntent, detectEmotionalContent, shouldPrioritizeMindset } from './intentRecognizer.js';
+import {
+  recognizeIntent,
+  recognizeIntents,
+  selectIntents,
+  detectEmotionalContent,
+  shouldPrioritizeMindset,
+  DEFAULT_INTENT_THRESHOLD
+} from './intentRecognizer.js';
+import { IntentClassifier, KeywordIntentClassifier } from './intentClassifier.js';
 import { Intent } from '../models/index.js';
+import { Language } from '../i18n/languages.js';
 
 // Arbitraries for generating test data
 
@@ -194,3 +203,219 @@ describe('Intent Recognition System - Property Tests', () => {
     });
   });
 });
+
+describe('Multi-intent recognition', () => {
+  it('should keep every intent of a message that asks for several things', () => {
+    const intents = recognizeIntents('I\'m anxious and want to switch to data science, what should I learn?');
+    const selected = selectIntents(intents).map(intent => intent.type);
+
+    expect(selected).toEqual(expect.arrayContaining(['transition_guidance', 'skill_guidance', 'mindset_support']));
+    expect(intents[0].entities.careerFields).toEqual(['data science']);
+    expect(intents.every(intent => intent.entities.emotional?.hasEmotionalContent)).toBe(true);
+  });
+
+  it('should rank intents by confidence within 0 and 1', () => {
+    fc.assert(
+      fc.property(messageArb, (message) => {
+        const intents = recognizeIntents(message);
+
+        expect(intents.length).toBeGreaterThan(0);
+        for (let i = 0; i < intents.length; i++) {
+          expect(intents[i].confidence).toBeGreaterThan(0);
+          expect(intents[i].confidence).toBeLessThan(1);
+          if (i > 0) {
+            expect(intents[i].confidence).toBeLessThanOrEqual(intents[i - 1].confidence);
+          }
+        }
+        expect(new Set(intents.map(intent => intent.type)).size).toBe(intents.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should grow more confident with more evidence', () => {
+    const [weak] = recognizeIntents('maybe a course');
+    const [strong] = recognizeIntents('What skill should I learn, I need to improve and take a course');
+
+    expect(weak.type).toBe('skill_guidance');
+    expect(weak.confidence).toBeLessThan(DEFAULT_INTENT_THRESHOLD);
+    expect(strong.type).toBe('skill_guidance');
+    expect(strong.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should fall back to a single low-confidence guess and still act on it', () => {
+    const intents = recognizeIntents('Hello there');
+
+    expect(intents).toHaveLength(1);
+    expect(intents[0].type).toBe(recognizeIntent('Hello there').type);
+    expect(intents[0].confidence).toBeLessThan(DEFAULT_INTENT_THRESHOLD);
+    expect(selectIntents(intents)).toEqual(intents);
+  });
+});
+
+describe('Pluggable classifiers', () => {
+  it('should take intent types from the supplied classifier', () => {
+    const classifier: IntentClassifier = {
+      classify: () => [
+        { type: 'growth_planning', confidence: 0.8 },
+        { type: 'progress_check', confidence: 0.3 },
+      ],
+    };
+
+    const intents = recognizeIntents('What skill should I learn?', classifier);
+
+    expect(intents.map(intent => [intent.type, intent.confidence])).toEqual([
+      ['growth_planning', 0.8],
+      ['progress_check', 0.3],
+    ]);
+  });
+
+  it('should still add emotional evidence for mindset support', () => {
+    const classifier: IntentClassifier = {
+      classify: () => [
+        { type: 'skill_guidance', confidence: 0.6 },
+        { type: 'mindset_support', confidence: 0.2 },
+      ],
+    };
+    const message = 'I am so stressed and overwhelmed';
+
+    const intents = recognizeIntents(message, classifier);
+
+    expect(intents.map(intent => intent.type)).toEqual(['mindset_support', 'skill_guidance']);
+    expect(intents[0].confidence).toBeCloseTo(1 - 0.8 * Math.exp(-detectEmotionalContent(message).severity));
+  });
+
+  it('should fall back when the classifier finds no evidence', () => {
+    const [intent] = recognizeIntents('Any ideas?', { classify: () => [] });
+
+    expect(intent.type).toBe('career_clarity');
+    expect(intent.confidence).toBeLessThan(DEFAULT_INTENT_THRESHOLD);
+  });
+
+  it('should keep the keyword classifier ranking consistent with single-intent recognition', () => {
+    fc.assert(
+      fc.property(messageArb, (message) => {
+        const [top] = new KeywordIntentClassifier().classify(message);
+        if (top) {
+          expect(recognizeIntent(message).type).toBe(top.type);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * Tricky sentences whose negations, hedges and intensifiers a keyword match gets wrong
+ * expected: the top intent; notIntents: types that must not be recognized at all;
+ * emotional: whether emotional content is detected
+ */
+const REGRESSION_CORPUS: {
+  message: string;
+  expected?: Intent['type'];
+  notIntents?: Intent['type'][];
+  emotional?: boolean;
+}[] = [
+  { message: 'I\'m not stressed at all, just curious', notIntents: ['mindset_support'], emotional: false },
+  { message: 'I don\'t want to switch careers', notIntents: ['transition_guidance'] },
+  { message: 'I never said I wanted a career change, I want to learn SQL', expected: 'skill_guidance', notIntents: ['transition_guidance'] },
+  { message: 'I\'m not anxious, I just want to know what skills to learn', expected: 'skill_guidance', emotional: false },
+  { message: 'No longer stuck! I finished my course', expected: 'progress_check', notIntents: ['mindset_support'] },
+  { message: 'I don\'t feel overwhelmed, but what is my next step?', expected: 'action_planning', emotional: false },
+  { message: 'Not stressed, but I need to learn SQL', expected: 'skill_guidance', emotional: false },
+  { message: 'I\'m not confident at all', expected: 'mindset_support', emotional: true },
+  { message: 'I have no confidence in interviews', expected: 'mindset_support', emotional: true },
+  { message: 'I don\'t know what career to pick', expected: 'career_clarity' },
+  { message: 'I\'m not sure I want to switch careers', expected: 'transition_guidance' },
+  { message: 'I can\'t stop feeling anxious', expected: 'mindset_support', emotional: true },
+  { message: 'Not only am I stressed, I\'m overwhelmed', expected: 'mindset_support', emotional: true },
+  { message: 'I don\'t want to switch careers and I\'m stressed about it', expected: 'mindset_support', notIntents: ['transition_guidance'] },
+];
+
+describe('Negation, hedges and intensifiers', () => {
+  it.each(REGRESSION_CORPUS)('should read "$message" correctly', ({ message, expected, notIntents = [], emotional }) => {
+    const intents = recognizeIntents(message);
+    const types = intents.filter(intent => intent.confidence > 0.25).map(intent => intent.type);
+
+    if (expected) {
+      expect(intents[0].type).toBe(expected);
+    }
+    for (const type of notIntents) {
+      expect(types).not.toContain(type);
+    }
+    if (emotional !== undefined) {
+      expect(detectEmotionalContent(message).hasEmotionalContent).toBe(emotional);
+    }
+  });
+
+  it('should soften hedged emotions and strengthen intensified ones', () => {
+    const plain = detectEmotionalContent('I am anxious').severity;
+
+    expect(detectEmotionalContent('I am a bit anxious').severity).toBeLessThan(plain);
+    expect(detectEmotionalContent('I am really anxious').severity).toBeGreaterThan(plain);
+    expect(detectEmotionalContent('I am not anxious').severity).toBe(0);
+  });
+
+  it('should never detect more emotion once a message is negated', () => {
+    fc.assert(
+      fc.property(emotionalKeywordsArb, (keyword) => {
+        const plain = detectEmotionalContent(`I feel ${keyword} about work`).severity;
+        const negated = detectEmotionalContent(`I don't feel ${keyword} about work`).severity;
+
+        expect(negated).toBeLessThanOrEqual(plain);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+/**
+ * One message per supported language and the intent it asks for
+ */
+const MULTILINGUAL_CORPUS: { message: string; language: Language; expected: Intent['type']; emotional?: boolean }[] = [
+  { message: 'No sé qué carrera profesional seguir', language: 'es', expected: 'career_clarity' },
+  { message: 'Me siento muy estresado y agobiado en mi trabajo', language: 'es', expected: 'mindset_support', emotional: true },
+  { message: 'Je veux changer de carrière et devenir développeur', language: 'fr', expected: 'transition_guidance' },
+  { message: 'Welche Fähigkeiten soll ich lernen?', language: 'de', expected: 'skill_guidance' },
+  { message: 'Ich fühle mich total überfordert', language: 'de', expected: 'mindset_support', emotional: true },
+  { message: 'O que devo fazer esta semana?', language: 'pt', expected: 'action_planning' },
+  { message: '我不知道该选择什么职业方向', language: 'zh', expected: 'career_clarity' },
+  { message: '何から始めればいいですか？次のステップを教えてください', language: 'ja', expected: 'action_planning' },
+  { message: 'أشعر بالقلق والضغط في عملي', language: 'ar', expected: 'mindset_support', emotional: true },
+  { message: 'मुझे समझ नहीं आ रहा कौन सा करियर चुनूं', language: 'hi', expected: 'career_clarity' },
+  { message: 'Я закончил курс по SQL', language: 'ru', expected: 'progress_check' },
+];
+
+describe('Languages', () => {
+  it.each(MULTILINGUAL_CORPUS)('should read "$message" as $expected', ({ message, language, expected, emotional }) => {
+    const intents = recognizeIntents(message);
+
+    expect(intents[0].type).toBe(expected);
+    expect(intents[0].language).toBe(language);
+    if (emotional !== undefined) {
+      expect(detectEmotionalContent(message).hasEmotionalContent).toBe(emotional);
+    }
+  });
+
+  it('should respect negation in other languages', () => {
+    expect(detectEmotionalContent('No estoy estresado, solo curioso').hasEmotionalContent).toBe(false);
+    expect(recognizeIntents('Ich will nicht den Beruf wechseln').map(intent => intent.type)).not.toContain('transition_guidance');
+    expect(detectEmotionalContent('No sé qué hacer').emotionalIndicators).toContain('confusion');
+  });
+
+  it('should still match English terms in other languages', () => {
+    const [intent] = recognizeIntents('Quiero un roadmap y un growth plan para mi carrera');
+
+    expect(intent.type).toBe('growth_planning');
+    expect(intent.language).toBe('es');
+  });
+
+  it('should use the language it is given instead of detecting one', () => {
+    const classifier = { classify: vi.fn().mockReturnValue([]) };
+
+    const [intent] = recognizeIntents('Python?', classifier, 'de');
+
+    expect(classifier.classify).toHaveBeenCalledWith('Python?', 'de');
+    expect(intent.language).toBe('de');
+  });
+});
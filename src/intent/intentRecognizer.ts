@@ -4,6 +4,17 @@
  */
 
 import { Intent } from '../models/index.js';
+import {
+  IntentClassifier,
+  KeywordIntentClassifier,
+  INTENT_TYPES,
+  fallbackIntentType
+} from './intentClassifier.js';
+import { extractRichEntities } from './entityExtractor.js';
+import { analyzeModifiers, modifierWeight } from './textModifiers.js';
+import { getEmotionalIndicators, getIntentLanguagePack } from './languagePacks.js';
+import { detectLanguage } from './languageDetector.js';
+import { Language } from '../i18n/languages.js';
 
 /**
  * Emotional content indicators
@@ -21,12 +32,13 @@ interface EmotionalContent {
  */
 export function recognizeIntent(message: string): Intent {
   const messageLower = message.toLowerCase();
+  const language = detectLanguage(message);
   
   // Detect emotional content first
-  const emotional = detectEmotionalContent(message);
+  const emotional = detectEmotionalContent(message, language);
   
   // Classify intent type
-  const intentType = classifyIntentType(messageLower);
+  const intentType = classifyIntentType(messageLower, language);
   
   // Calculate confidence based on keyword matches
   const confidence = calculateConfidence(messageLower, intentType);
@@ -43,45 +55,102 @@ export function recognizeIntent(message: string): Intent {
     type: intentType,
     confidence,
     entities,
+    language,
   };
 }
 
+/**
+ * Intents at or above this confidence are acted on when a message has several
+ */
+export const DEFAULT_INTENT_THRESHOLD = 0.5;
+
+/**
+ * Confidence given to the fallback intent when the classifier found no evidence at all
+ */
+const FALLBACK_CONFIDENCE = 0.25;
+
+const keywordClassifier = new KeywordIntentClassifier();
+
+/**
+ * Recognizes every intent expressed in a user message, most likely first
+ *
+ * Each confidence is the probability that the message asks for that intent, judged
+ * on its own, so confidences do not sum to 1: one message can ask for several things
+ * at once. Emotional language raises the mindset support confidence whatever the
+ * classifier says, as independent evidence: 1 - (1 - confidence) * e^(-severity).
+ * @param message - User's message text
+ * @param classifier - Scores intent types; defaults to the keyword classifier
+ * @param language - Language of the message; detected from the message by default
+ * @returns Matched intents ranked by confidence, or a single low-confidence fallback
+ */
+export function recognizeIntents(
+  message: string,
+  classifier: IntentClassifier = keywordClassifier,
+  language: Language = detectLanguage(message)
+): Intent[] {
+  const emotional = detectEmotionalContent(message, language);
+  const scores = classifier.classify(message, language);
+
+  // Emotional language is evidence for mindset support even without its keywords
+  const ranked = scores.filter(score => score.type !== 'mindset_support');
+  const mindset = scores.find(score => score.type === 'mindset_support');
+  if (emotional.severity > 0) {
+    const confidence = 1 - (1 - (mindset?.confidence ?? 0)) * Math.exp(-emotional.severity);
+    ranked.push({ type: 'mindset_support', confidence });
+  } else if (mindset) {
+    ranked.push(mindset);
+  }
+
+  const intents = ranked
+    .filter(({ confidence }) => confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence || INTENT_TYPES.indexOf(a.type) - INTENT_TYPES.indexOf(b.type));
+
+  const createIntent = (type: Intent['type'], confidence: number): Intent => {
+    const entities = extractEntities(message, type);
+    if (emotional.hasEmotionalContent) {
+      entities.emotional = emotional;
+    }
+    return { type, confidence, entities, language };
+  };
+
+  if (intents.length === 0) {
+    return [createIntent(fallbackIntentType(message.toLowerCase()), FALLBACK_CONFIDENCE)];
+  }
+
+  return intents.map(({ type, confidence }) => createIntent(type, confidence));
+}
+
+/**
+ * Picks the intents to act on from a ranked list
+ * Keeps every intent at or above the threshold, or the top one if none reach it
+ */
+export function selectIntents(intents: Intent[], threshold: number = DEFAULT_INTENT_THRESHOLD): Intent[] {
+  const selected = intents.filter(intent => intent.confidence >= threshold);
+  return selected.length > 0 ? selected : intents.slice(0, 1);
+}
+
 /**
  * Detects emotional content in user message
  * @param message - User's message text
+ * @param language - Language of the message; detected from the message by default
  * @returns Emotional content analysis
  */
-export function detectEmotionalContent(message: string): EmotionalContent {
-  const messageLower = message.toLowerCase();
-  
-  // Emotional keywords and phrases
-  const emotionalIndicators: { pattern: RegExp; indicator: string; weight: number }[] = [
-    // Negative emotions
-    { pattern: /\b(anxious|anxiety|worried|worry|nervous)\b/gi, indicator: 'anxiety', weight: 0.8 },
-    { pattern: /\b(stressed|stress|overwhelmed|overwhelm)\b/gi, indicator: 'stress', weight: 0.9 },
-    { pattern: /\b(confused|confusing|lost|don't know|unsure)\b/gi, indicator: 'confusion', weight: 0.7 },
-    { pattern: /\b(scared|afraid|fear|terrified)\b/gi, indicator: 'fear', weight: 0.8 },
-    { pattern: /\b(frustrated|frustrating|frustration)\b/gi, indicator: 'frustration', weight: 0.7 },
-    { pattern: /\b(depressed|depression|sad|hopeless)\b/gi, indicator: 'sadness', weight: 0.9 },
-    { pattern: /\b(stuck|trapped|can't move forward)\b/gi, indicator: 'stagnation', weight: 0.7 },
-    { pattern: /\b(doubt|doubting|uncertain|unsure)\b/gi, indicator: 'doubt', weight: 0.6 },
-    { pattern: /\b(lack confidence|no confidence|not confident)\b/gi, indicator: 'low confidence', weight: 0.8 },
-    { pattern: /\b(failing|failure|failed)\b/gi, indicator: 'failure', weight: 0.7 },
-    
-    // Positive emotions (lower weight for mindset-first ordering)
-    { pattern: /\b(excited|exciting|enthusiastic)\b/gi, indicator: 'excitement', weight: 0.3 },
-    { pattern: /\b(motivated|motivation|inspired)\b/gi, indicator: 'motivation', weight: 0.3 },
-    { pattern: /\b(hopeful|optimistic|positive)\b/gi, indicator: 'hope', weight: 0.3 },
-  ];
+export function detectEmotionalContent(message: string, language: Language = detectLanguage(message)): EmotionalContent {
+  // Emotional keywords and phrases of the language, then the English ones
+  const emotionalIndicators = getEmotionalIndicators(language);
   
   const foundIndicators: string[] = [];
   let totalWeight = 0;
+  const modifiers = analyzeModifiers(message, getIntentLanguagePack(language).modifiers);
   
+  // Negated mentions don't count; hedged ones count less and intensified ones more
   for (const { pattern, indicator, weight } of emotionalIndicators) {
-    const matches = message.match(pattern);
-    if (matches) {
-      foundIndicators.push(indicator);
-      totalWeight += weight * matches.length;
+    const weights = [...message.matchAll(pattern)].map(match => modifierWeight(modifiers, match.index!));
+    if (weights.some(matchWeight => matchWeight > 0)) {
+      if (!foundIndicators.includes(indicator)) {
+        foundIndicators.push(indicator);
+      }
+      totalWeight += weight * weights.reduce((total, matchWeight) => total + matchWeight, 0);
     }
   }
   
@@ -103,100 +172,11 @@ export function detectEmotionalContent(message: string): EmotionalContent {
 /**
  * Classifies the intent type based on message content
  */
-function classifyIntentType(messageLower: string): Intent['type'] {
-  // Define intent patterns with keywords
-  const intentPatterns: { type: Intent['type']; keywords: string[]; phrases: RegExp[] }[] = [
-    {
-      type: 'profile_building',
-      keywords: ['background', 'experience', 'education', 'skills', 'current role', 'about me', 'my story'],
-      phrases: [/i (am|work|studied|have|graduated)/i, /my (background|experience|education|skills)/i],
-    },
-    {
-      type: 'career_clarity',
-      keywords: ['career path', 'direction', 'what should i do', 'career options', 'confused', 'lost', 'unclear'],
-      phrases: [/what (career|path|direction)/i, /should i (become|pursue|go into)/i, /don't know what/i],
-    },
-    {
-      type: 'skill_guidance',
-      keywords: ['learn', 'skill', 'training', 'course', 'what to learn', 'improve', 'develop'],
-      phrases: [/what (skill|should i learn)/i, /how (do i|can i) learn/i, /need to (learn|improve)/i],
-    },
-    {
-      type: 'action_planning',
-      keywords: ['next step', 'what should i do', 'action', 'plan', 'today', 'this week', 'start'],
-      phrases: [/what (should|can) i do/i, /next step/i, /how do i (start|begin)/i, /where do i start/i],
-    },
-    {
-      type: 'mindset_support',
-      keywords: ['confidence', 'motivation', 'doubt', 'fear', 'anxious', 'stressed', 'overwhelmed', 'stuck'],
-      phrases: [/feel (anxious|stressed|overwhelmed|stuck|lost)/i, /lack (confidence|motivation)/i, /not confident/i],
-    },
-    {
-      type: 'growth_planning',
-      keywords: ['growth plan', 'long term', 'future', 'roadmap', 'milestone', 'goal', 'plan'],
-      phrases: [/long[- ]term (plan|goal)/i, /growth plan/i, /where (will|should) i be/i, /in \d+ (months|years)/i],
-    },
-    {
-      type: 'transition_guidance',
-      keywords: ['career change', 'switch', 'transition', 'move to', 'change field', 'new career'],
-      phrases: [/(change|switch|transition) (career|field|to)/i, /move (to|into)/i, /from .* to/i],
-    },
-    {
-      type: 'progress_check',
-      keywords: ['progress', 'update', 'completed', 'finished', 'done', 'accomplished'],
-      phrases: [/i (completed|finished|did|accomplished)/i, /made progress/i, /update on/i],
-    },
-  ];
-  
-  // Score each intent type
-  const scores: Record<Intent['type'], number> = {
-    profile_building: 0,
-    career_clarity: 0,
-    skill_guidance: 0,
-    action_planning: 0,
-    mindset_support: 0,
-    growth_planning: 0,
-    transition_guidance: 0,
-    progress_check: 0,
-  };
-  
-  for (const { type, keywords, phrases } of intentPatterns) {
-    // Check keywords
-    for (const keyword of keywords) {
-      if (messageLower.includes(keyword)) {
-        scores[type] += 1;
-      }
-    }
-    
-    // Check phrases (higher weight)
-    for (const phrase of phrases) {
-      if (phrase.test(messageLower)) {
-        scores[type] += 2;
-      }
-    }
-  }
-  
-  // Find highest scoring intent
-  let maxScore = 0;
-  let bestIntent: Intent['type'] = 'profile_building'; // default
-  
-  for (const [type, score] of Object.entries(scores)) {
-    if (score > maxScore) {
-      maxScore = score;
-      bestIntent = type as Intent['type'];
-    }
-  }
-  
+function classifyIntentType(messageLower: string, language: Language): Intent['type'] {
+  const [best] = keywordClassifier.classify(messageLower, language);
+
   // If no clear intent, default based on message characteristics
-  if (maxScore === 0) {
-    if (messageLower.includes('?')) {
-      bestIntent = 'career_clarity';
-    } else {
-      bestIntent = 'profile_building';
-    }
-  }
-  
-  return bestIntent;
+  return best ? best.type : fallbackIntentType(messageLower);
 }
 
 /**
@@ -304,6 +284,12 @@ function extractEntities(message: string, intentType: Intent['type']): Record<st
   if (expMatch) {
     entities.yearsOfExperience = parseInt(expMatch[1]);
   }
+
+  // Profile details with their positions in the message
+  const mentions = extractRichEntities(message);
+  if (mentions.length > 0) {
+    entities.mentions = mentions;
+  }
   
   return entities;
 }
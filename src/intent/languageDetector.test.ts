@@ -0,0 +1,35 @@
+/**
+ * Tests for language detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from './languageDetector.js';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['I feel stuck in my job and want to change careers', 'en'],
+    ['No sé qué carrera profesional seguir', 'es'],
+    ['¿Qué debo aprender?', 'es'],
+    ['Je ne sais pas quelle carrière choisir', 'fr'],
+    ['Ich weiß nicht, was ich mit meiner Karriere machen soll', 'de'],
+    ['Não sei qual carreira seguir', 'pt'],
+    ['我不知道该选择什么职业方向', 'zh'],
+    ['転職したいのですが、何から始めればいいですか？', 'ja'],
+    ['أشعر بالقلق ولا أعرف ماذا أفعل', 'ar'],
+    ['मुझे समझ नहीं आ रहा कौन सा करियर चुनूं', 'hi'],
+    ['Я не знаю, какую профессию выбрать', 'ru'],
+  ])('should read "%s" as %s', (message, language) => {
+    expect(detectLanguage(message)).toBe(language);
+  });
+
+  it('should go by the script most letters use', () => {
+    expect(detectLanguage('Хочу стать data scientist, что учить?')).toBe('ru');
+    expect(detectLanguage('I work at 腾讯 as an engineer')).toBe('en');
+  });
+
+  it('should give the fallback when the message has no evidence', () => {
+    expect(detectLanguage('Python?')).toBe('en');
+    expect(detectLanguage('Python?', 'de')).toBe('de');
+    expect(detectLanguage('')).toBe('en');
+  });
+});
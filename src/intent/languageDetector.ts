@@ -0,0 +1,77 @@
+/**
+ * Language detection
+ * Guesses which of the supported languages a message is written in, so intents and
+ * emotions are matched against the right keyword pack. Scripts settle most
+ * languages; those written in Latin script are told apart by common words and letters.
+ */
+
+import { Language } from '../i18n/languages.js';
+
+const SCRIPTS: { language: Language; pattern: RegExp }[] = [
+  // Kana only occur in Japanese, which also uses Han characters
+  { language: 'ja', pattern: /[\u3040-\u30ff]/g },
+  { language: 'zh', pattern: /[\u4e00-\u9fff]/g },
+  { language: 'ar', pattern: /[\u0600-\u06ff]/g },
+  { language: 'hi', pattern: /[\u0900-\u097f]/g },
+  { language: 'ru', pattern: /[\u0400-\u04ff]/g },
+];
+
+type LatinLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+/**
+ * Frequent short words of each Latin-script language, avoiding ones they share
+ */
+const COMMON_WORDS: Record<LatinLanguage, string[]> = {
+  en: ['the', 'and', 'i', 'my', 'is', 'to', 'what', 'how', 'should', 'want', 'job', 'have', 'with', 'it', 'am', 'of', 'this', 'career'],
+  es: ['el', 'los', 'las', 'y', 'mi', 'qué', 'cómo', 'debo', 'quiero', 'trabajo', 'tengo', 'con', 'estoy', 'una', 'yo', 'pero', 'muy', 'del', 'lo', 'carrera'],
+  fr: ['le', 'les', 'et', 'je', 'mon', 'ma', 'est', 'quoi', 'dois', 'veux', 'travail', 'avec', 'suis', 'une', 'pour', 'pas', 'des', 'du', "j'ai", 'ne', 'mais', 'très'],
+  de: ['der', 'das', 'und', 'ich', 'mein', 'meine', 'ist', 'wie', 'soll', 'möchte', 'arbeit', 'habe', 'mit', 'bin', 'nicht', 'ein', 'eine', 'für', 'zu', 'aber', 'sehr', 'mich', 'karriere'],
+  pt: ['o', 'os', 'e', 'eu', 'meu', 'minha', 'é', 'devo', 'quero', 'trabalho', 'tenho', 'com', 'estou', 'uma', 'não', 'muito', 'do', 'da', 'você'],
+};
+
+/**
+ * Letters that only occur in one of the Latin-script languages
+ */
+const DISTINCT_LETTERS: Record<LatinLanguage, RegExp> = {
+  en: /(?!)/g,
+  es: /[ñ¿¡]/g,
+  fr: /[èêëîïûœù]/g,
+  de: /[äöüß]/g,
+  pt: /[ãõ]/g,
+};
+
+/**
+ * Guesses the language of a message
+ * A message in a non-Latin script is in the language of the script most of its
+ * letters use. Otherwise each Latin-script language scores a point per common word
+ * and two per distinctive letter; ties and messages without evidence give the fallback.
+ * @param fallback - Language assumed when the message gives no evidence
+ */
+export function detectLanguage(message: string, fallback: Language = 'en'): Language {
+  const messageLower = message.toLowerCase();
+
+  const scriptCounts = SCRIPTS.map(({ language, pattern }) => ({
+    language,
+    count: messageLower.match(pattern)?.length ?? 0,
+  }));
+  const japanese = scriptCounts.find(({ language }) => language === 'ja')!;
+  if (japanese.count > 0) {
+    return 'ja';
+  }
+  const script = scriptCounts.reduce((best, current) => (current.count > best.count ? current : best));
+  const latinLetters = messageLower.match(/[a-zà-ÿœß]/g)?.length ?? 0;
+  if (script.count > 0 && script.count >= latinLetters) {
+    return script.language;
+  }
+
+  const words = messageLower.match(/[a-zà-ÿœß']+/g) ?? [];
+  const scores = (Object.keys(COMMON_WORDS) as LatinLanguage[]).map(language => ({
+    language,
+    score: words.filter(word => COMMON_WORDS[language].includes(word)).length +
+      2 * (messageLower.match(DISTINCT_LETTERS[language])?.length ?? 0),
+  }));
+
+  const best = Math.max(...scores.map(({ score }) => score));
+  const leaders = scores.filter(({ score }) => score === best);
+  return best > 0 && leaders.length === 1 ? leaders[0].language : fallback;
+}
@@ -0,0 +1,689 @@
+/**
+ * Intent language packs
+ * Keywords, phrases and emotional indicators of every supported language. English
+ * terms are matched in every language as well, since users often mix them in
+ * ("quiero aprender python", "career path"), so the other packs only need their own words.
+ */
+
+import { Intent } from '../models/index.js';
+import { Language } from '../i18n/languages.js';
+import { ModifierCues, ENGLISH_MODIFIER_CUES } from './textModifiers.js';
+import { CrisisCategory } from './crisisDetector.js';
+
+/**
+ * Keyword (1 point) and phrase (2 points) evidence for one intent type
+ * Keywords are matched as lower-case substrings; phrases are regular expressions
+ */
+export interface IntentPattern {
+  type: Intent['type'];
+  keywords: string[];
+  phrases: RegExp[];
+}
+
+/**
+ * Words that show an emotion; weight is its contribution to severity per match
+ */
+export interface EmotionalIndicator {
+  pattern: RegExp;
+  indicator: string;
+  weight: number;
+  /** Positive emotions are no sign of struggle */
+  positive?: boolean;
+}
+
+/**
+ * Words of a crisis statement; the pattern must be global, since every match counts
+ */
+export interface CrisisPattern {
+  category: CrisisCategory;
+  pattern: RegExp;
+}
+
+export interface IntentLanguagePack {
+  language: Language;
+  intents: IntentPattern[];
+  emotions: EmotionalIndicator[];
+  /** Statements of suicidal thoughts or self-harm; every language needs its own */
+  crisis: CrisisPattern[];
+  modifiers: ModifierCues;
+}
+
+/**
+ * Matches any of the terms as whole words, in any script with spaces between words
+ */
+function words(...terms: string[]): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${terms.join('|')})(?!\\p{L})`, 'giu');
+}
+
+/**
+ * Matches a phrase that starts at a word boundary
+ */
+function phrase(source: string): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${source})`, 'iu');
+}
+
+const ENGLISH: IntentLanguagePack = {
+  language: 'en',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['background', 'experience', 'education', 'skills', 'current role', 'about me', 'my story'],
+      phrases: [/i (am|work|studied|have|graduated)/i, /my (background|experience|education|skills)/i],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['career path', 'direction', 'what should i do', 'career options', 'confused', 'lost', 'unclear'],
+      phrases: [/what (career|path|direction)/i, /should i (become|pursue|go into)/i, /don't know what/i],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['learn', 'skill', 'training', 'course', 'what to learn', 'improve', 'develop'],
+      phrases: [/what (skill|should i learn)/i, /how (do i|can i) learn/i, /need to (learn|improve)/i],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['next step', 'what should i do', 'action', 'plan', 'today', 'this week', 'start'],
+      phrases: [/what (should|can) i do/i, /next step/i, /how do i (start|begin)/i, /where do i start/i],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['confidence', 'motivation', 'doubt', 'fear', 'anxious', 'stressed', 'overwhelmed', 'stuck'],
+      phrases: [/feel (anxious|stressed|overwhelmed|stuck|lost)/i, /\b(lack|no) (confidence|motivation)/i, /not confident/i],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['growth plan', 'long term', 'future', 'roadmap', 'milestone', 'goal', 'plan'],
+      phrases: [/long[- ]term (plan|goal)/i, /growth plan/i, /where (will|should) i be/i, /in \d+ (months|years)/i],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['career change', 'switch', 'transition', 'move to', 'change field', 'new career'],
+      phrases: [/(change|switch|transition) (career|field|to)/i, /move (to|into)/i, /from .* to/i],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['progress', 'update', 'completed', 'finished', 'done', 'accomplished'],
+      phrases: [/i (completed|finished|did|accomplished)/i, /made progress/i, /update on/i],
+    },
+  ],
+  emotions: [
+    // Negative emotions
+    { pattern: /\b(anxious|anxiety|worried|worry|nervous)\b/gi, indicator: 'anxiety', weight: 0.8 },
+    { pattern: /\b(stressed|stress|overwhelmed|overwhelm)\b/gi, indicator: 'stress', weight: 0.9 },
+    { pattern: /\b(confused|confusing|lost|don't know|unsure)\b/gi, indicator: 'confusion', weight: 0.7 },
+    { pattern: /\b(scared|afraid|fear|terrified)\b/gi, indicator: 'fear', weight: 0.8 },
+    { pattern: /\b(frustrated|frustrating|frustration)\b/gi, indicator: 'frustration', weight: 0.7 },
+    { pattern: /\b(depressed|depression|sad|hopeless)\b/gi, indicator: 'sadness', weight: 0.9 },
+    { pattern: /\b(stuck|trapped|can't move forward)\b/gi, indicator: 'stagnation', weight: 0.7 },
+    { pattern: /\b(doubt|doubting|uncertain|unsure)\b/gi, indicator: 'doubt', weight: 0.6 },
+    { pattern: /\b(lack confidence|no confidence|not confident)\b/gi, indicator: 'low confidence', weight: 0.8 },
+    { pattern: /\b(failing|failure|failed)\b/gi, indicator: 'failure', weight: 0.7 },
+
+    // Positive emotions (lower weight for mindset-first ordering)
+    { pattern: /\b(excited|exciting|enthusiastic)\b/gi, indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: /\b(motivated|motivation|inspired)\b/gi, indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: /\b(hopeful|optimistic|positive)\b/gi, indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: /\b(?:kill|killing|killed) myself\b/gi },
+    { category: 'suicidal_ideation', pattern: /\b(?:end|ending|take|taking) my (?:own )?life\b/gi },
+    { category: 'suicidal_ideation', pattern: /\bend(?:ing)? it all\b/gi },
+    // "career suicide" and "professional suicide" are figures of speech
+    { category: 'suicidal_ideation', pattern: /(?<!\b(?:career|professional|political|social) )\bsuicid(?:e|al)\b/gi },
+    { category: 'suicidal_ideation', pattern: /\bwant(?:ed)? to die\b(?! (?:of|from|laughing)\b)/gi },
+    { category: 'suicidal_ideation', pattern: /\b(?:don['’]?t|do not|no longer) want to (?:live|be alive|exist|be here anymore)\b/gi },
+    { category: 'suicidal_ideation', pattern: /\bbetter off dead\b/gi },
+    { category: 'suicidal_ideation', pattern: /\b(?:no reason|nothing left) to live(?: for)?\b/gi },
+    { category: 'self_harm', pattern: /\b(?:hurt|hurting|harm|harming|cut|cutting) myself\b/gi },
+    { category: 'self_harm', pattern: /\bself[- ]harm(?:ing)?\b/gi },
+  ],
+  modifiers: ENGLISH_MODIFIER_CUES,
+};
+
+const SPANISH: IntentLanguagePack = {
+  language: 'es',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['experiencia', 'formación', 'estudios', 'habilidades', 'mi puesto', 'sobre mí', 'trayectoria'],
+      phrases: [phrase('(soy|trabajo (como|en)|estudié|me gradué|tengo \\d+ años)'), phrase('mi (experiencia|formación|trayectoria)')],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['carrera profesional', 'camino profesional', 'dirección', 'opciones', 'confundido', 'confundida', 'perdido', 'perdida'],
+      phrases: [phrase('qué (carrera|camino|dirección)'), phrase('debería (ser|estudiar|dedicarme)'), phrase('no sé (qué|a qué)')],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['aprender', 'habilidad', 'formación', 'curso', 'mejorar', 'desarrollar', 'capacitación'],
+      phrases: [phrase('qué (habilidad|debería aprender)'), phrase('cómo (puedo )?aprender'), phrase('necesito (aprender|mejorar)')],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['siguiente paso', 'próximo paso', 'qué debo hacer', 'acción', 'hoy', 'esta semana', 'empezar'],
+      phrases: [phrase('qué (debo|puedo|debería) hacer'), phrase('(siguiente|próximo) paso'), phrase('por dónde empiezo'), phrase('cómo (empiezo|empezar)')],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['confianza', 'motivación', 'duda', 'miedo', 'ansiedad', 'ansioso', 'ansiosa', 'estresado', 'estresada', 'agobiado', 'agobiada', 'estancado', 'estancada'],
+      phrases: [phrase('me siento (ansios|estresad|agobiad|estancad|perdid)'), phrase('(falta de|sin) (confianza|motivación)')],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['plan de crecimiento', 'largo plazo', 'futuro', 'hoja de ruta', 'meta', 'objetivo', 'plan'],
+      phrases: [phrase('a largo plazo'), phrase('dónde (estaré|debería estar)'), phrase('en \\d+ (meses|años)')],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['cambio de carrera', 'cambiar de carrera', 'transición', 'cambiar de sector', 'nueva carrera', 'reconvertirme'],
+      phrases: [phrase('cambiar(me)? (de|a) '), phrase('pasar(me)? a ')],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['progreso', 'avance', 'completé', 'terminé', 'logré', 'hecho'],
+      phrases: [phrase('(ya )?(completé|terminé|hice|logré)'), phrase('he (avanzado|terminado|completado)')],
+    },
+  ],
+  emotions: [
+    { pattern: words('ansios[oa]s?', 'ansiedad', 'preocupad[oa]s?', 'nervios[oa]s?'), indicator: 'anxiety', weight: 0.8 },
+    { pattern: words('estresad[oa]s?', 'estrés', 'agobiad[oa]s?', 'abrumad[oa]s?'), indicator: 'stress', weight: 0.9 },
+    { pattern: words('confundid[oa]s?', 'perdid[oa]s?', 'no sé'), indicator: 'confusion', weight: 0.7 },
+    { pattern: words('miedo', 'asustad[oa]s?', 'aterrad[oa]s?'), indicator: 'fear', weight: 0.8 },
+    { pattern: words('frustrad[oa]s?', 'frustración', 'frustrante'), indicator: 'frustration', weight: 0.7 },
+    { pattern: words('deprimid[oa]s?', 'depresión', 'triste', 'sin esperanza'), indicator: 'sadness', weight: 0.9 },
+    { pattern: words('estancad[oa]s?', 'atrapad[oa]s?'), indicator: 'stagnation', weight: 0.7 },
+    { pattern: words('dudas?', 'insegur[oa]s?'), indicator: 'doubt', weight: 0.6 },
+    { pattern: words('fracaso', 'fracasando', 'fracasé'), indicator: 'failure', weight: 0.7 },
+    { pattern: words('emocionad[oa]s?', 'entusiasmad[oa]s?'), indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: words('motivad[oa]s?', 'inspirad[oa]s?'), indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: words('optimista', 'esperanzad[oa]s?'), indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: words('(?:me )?quiero morir(?:me)?', 'matarme', 'me (?:quiero|voy a) matar', 'suicidarme', 'me (?:quiero|voy a) suicidar') },
+    { category: 'suicidal_ideation', pattern: words('quitarme la vida', 'acabar con mi vida', 'pensamientos suicidas', 'mejor muert[oa]') },
+    { category: 'suicidal_ideation', pattern: words('no quiero (?:seguir )?vivir', 'no tengo (?:ninguna )?razón para vivir') },
+    { category: 'self_harm', pattern: words('hacerme daño', 'me hago daño', 'lastimarme', 'cortarme', 'autolesi(?:ón|ones|onarme)') },
+  ],
+  modifiers: {
+    // "no sé" and "no estoy seguro" express doubt, not denial
+    negation: new RegExp('(?<!\\p{L})(?:no|nunca|jamás|ni|sin)(?!\\p{L})(?!\\s+(?:sé(?!\\p{L})|estoy segur|solo(?!\\p{L})))', 'giu'),
+    hedges: words('un poco', 'algo', 'quizás', 'tal vez', 'medio'),
+    intensifiers: words('muy', 'realmente', 'súper', 'totalmente', 'demasiado', 'tan'),
+    clauseBoundary: /[,.;:!?¿¡]|(?<!\p{L})(?:pero|aunque|sino|porque|sin embargo)(?!\p{L})/iu,
+  },
+};
+
+const FRENCH: IntentLanguagePack = {
+  language: 'fr',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['expérience', 'formation', 'études', 'compétences', 'mon poste', 'mon parcours'],
+      phrases: [phrase("(je suis|je travaille|j'ai étudié|je suis diplômé|j'ai \\d+ ans)"), phrase('mon (expérience|parcours)')],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['orientation', 'direction', 'quelle carrière', 'options', 'perdu', 'perdue', 'confus', 'confuse'],
+      phrases: [phrase('quelle (carrière|voie|direction)'), phrase('devrais-je (devenir|faire)'), phrase('je ne sais pas (quoi|quelle)')],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['apprendre', 'compétence', 'formation', 'cours', 'améliorer', 'développer'],
+      phrases: [phrase('quelles? compétences?'), phrase('comment (puis-je )?apprendre'), phrase("j'ai besoin d'(apprendre|améliorer)")],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['prochaine étape', 'que dois-je faire', 'action', "aujourd'hui", 'cette semaine', 'commencer'],
+      phrases: [phrase('que (dois|puis)-je faire'), phrase('prochaine étape'), phrase('par où commencer'), phrase('comment commencer')],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['confiance', 'motivation', 'doute', 'peur', 'anxieux', 'anxieuse', 'stressé', 'stressée', 'débordé', 'débordée', 'bloqué', 'bloquée'],
+      phrases: [phrase('je me sens (anxieu|stressé|débordé|bloqué|perdu)'), phrase('manque de (confiance|motivation)')],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['plan de développement', 'long terme', 'avenir', 'feuille de route', 'objectif', 'plan'],
+      phrases: [phrase('à long terme'), phrase('où (serai-je|devrais-je être)'), phrase('dans \\d+ (mois|ans)')],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['reconversion', 'changer de carrière', 'changer de métier', 'transition', 'nouvelle carrière'],
+      phrases: [phrase('changer de (carrière|métier|domaine)'), phrase('passer (à|au|dans) '), phrase('me reconvertir')],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['progrès', 'avancement', 'terminé', 'fini', 'accompli'],
+      phrases: [phrase("j'ai (terminé|fini|complété|accompli)"), phrase("j'ai (bien )?avancé")],
+    },
+  ],
+  emotions: [
+    { pattern: words('anxieu(?:x|se|ses)', 'anxiété', 'inquiète?s?', 'nerveu(?:x|se|ses)'), indicator: 'anxiety', weight: 0.8 },
+    { pattern: words('stressée?s?', 'stress', 'débordée?s?', 'submergée?s?'), indicator: 'stress', weight: 0.9 },
+    { pattern: words('confuse?s?', 'perdue?s?', 'je ne sais pas'), indicator: 'confusion', weight: 0.7 },
+    { pattern: words('peur', 'effrayée?s?', 'terrifiée?s?'), indicator: 'fear', weight: 0.8 },
+    { pattern: words('frustrée?s?', 'frustration', 'frustrant'), indicator: 'frustration', weight: 0.7 },
+    { pattern: words('déprimée?s?', 'dépression', 'triste', 'désespérée?s?'), indicator: 'sadness', weight: 0.9 },
+    { pattern: words('bloquée?s?', 'coincée?s?', 'piégée?s?'), indicator: 'stagnation', weight: 0.7 },
+    { pattern: words('doutes?', 'incertaine?s?'), indicator: 'doubt', weight: 0.6 },
+    { pattern: words('échec', 'échoué'), indicator: 'failure', weight: 0.7 },
+    { pattern: words('enthousiaste', 'impatiente?s?'), indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: words('motivée?s?', 'inspirée?s?'), indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: words('optimiste', 'pleine? d\'espoir'), indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: words('(?:je )?veux mourir', 'envie de mourir', 'me suicider', '(?:veux|vais|voudrais) me tuer') },
+    { category: 'suicidal_ideation', pattern: words('mettre fin à (?:mes jours|ma vie)', 'en finir avec la vie', 'pensées suicidaires', 'mieux mort(?:e)?') },
+    { category: 'suicidal_ideation', pattern: words('je ne veux plus vivre', "n['’]ai plus (?:envie|goût) de vivre") },
+    { category: 'self_harm', pattern: words('me faire du mal', 'me blesser', 'me mutiler', 'me scarifier', 'automutilation', 'scarification') },
+  ],
+  modifiers: {
+    // "je ne sais pas" expresses doubt, not denial
+    negation: new RegExp("(?:(?<!\\p{L})(?:ne|jamais|sans|aucune?)(?!\\p{L})|(?<!\\p{L})n['’])(?!\\s*sai[st](?!\\p{L}))", 'giu'),
+    hedges: words('un peu', 'plutôt', 'peut-être', 'légèrement'),
+    intensifiers: words('très', 'vraiment', 'tellement', 'complètement', 'trop', 'super'),
+    clauseBoundary: /[,.;:!?]|(?<!\p{L})(?:mais|pourtant|parce que|car|cependant)(?!\p{L})/iu,
+  },
+};
+
+const GERMAN: IntentLanguagePack = {
+  language: 'de',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['erfahrung', 'ausbildung', 'studium', 'fähigkeiten', 'meine stelle', 'über mich', 'werdegang'],
+      phrases: [phrase('ich (bin|arbeite|habe studiert|habe \\d+ jahre)'), phrase('mein(e)? (erfahrung|ausbildung|werdegang)')],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['berufsweg', 'karriereweg', 'richtung', 'optionen', 'orientierungslos', 'verwirrt', 'verloren'],
+      phrases: [phrase('welche(r|n)? (beruf|karriere|richtung|weg)'), phrase('soll ich (werden|studieren)'), phrase('weiß nicht, was')],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['lernen', 'fähigkeit', 'weiterbildung', 'kurs', 'verbessern', 'entwickeln', 'schulung'],
+      phrases: [phrase('welche (fähigkeiten|kenntnisse)'), phrase('wie (kann ich )?lernen'), phrase('muss (lernen|verbessern)')],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['nächster schritt', 'nächste schritt', 'was soll ich tun', 'heute', 'diese woche', 'anfangen'],
+      phrases: [phrase('was (soll|kann) ich (jetzt )?tun'), phrase('nächsten? schritte?'), phrase('wo fange ich an'), phrase('wie fange ich an')],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['selbstvertrauen', 'motivation', 'zweifel', 'angst', 'ängstlich', 'gestresst', 'überfordert', 'festgefahren'],
+      phrases: [phrase('ich fühle mich (gestresst|überfordert|festgefahren|verloren|ängstlich)'), phrase('kein(e)? (selbstvertrauen|motivation)')],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['entwicklungsplan', 'langfristig', 'zukunft', 'fahrplan', 'meilenstein', 'ziel', 'plan'],
+      phrases: [phrase('langfristige(s|n)? (plan|ziel)'), phrase('wo (werde|sollte) ich'), phrase('in \\d+ (monaten|jahren)')],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['berufswechsel', 'quereinstieg', 'umschulung', 'wechseln', 'neue karriere', 'umsteigen'],
+      phrases: [phrase('(beruf|branche|karriere) wechseln'), phrase('wechseln (zu|in)')],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['fortschritt', 'erledigt', 'abgeschlossen', 'geschafft', 'fertig'],
+      phrases: [phrase('ich habe .*(abgeschlossen|geschafft|erledigt|beendet)'), phrase('fortschritte gemacht')],
+    },
+  ],
+  emotions: [
+    { pattern: words('ängstlich', 'angst', 'besorgt', 'nervös'), indicator: 'anxiety', weight: 0.8 },
+    { pattern: words('gestresst', 'stress', 'überfordert'), indicator: 'stress', weight: 0.9 },
+    { pattern: words('verwirrt', 'verloren', 'orientierungslos', 'weiß nicht'), indicator: 'confusion', weight: 0.7 },
+    { pattern: words('fürchte', 'furcht', 'erschrocken'), indicator: 'fear', weight: 0.8 },
+    { pattern: words('frustriert', 'frustration', 'frustrierend'), indicator: 'frustration', weight: 0.7 },
+    { pattern: words('deprimiert', 'depression', 'traurig', 'hoffnungslos'), indicator: 'sadness', weight: 0.9 },
+    { pattern: words('festgefahren', 'gefangen', 'stecke fest'), indicator: 'stagnation', weight: 0.7 },
+    { pattern: words('zweifel', 'zweifle', 'unsicher'), indicator: 'doubt', weight: 0.6 },
+    { pattern: words('versagen', 'versagt', 'gescheitert'), indicator: 'failure', weight: 0.7 },
+    { pattern: words('begeistert', 'aufgeregt'), indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: words('motiviert', 'inspiriert'), indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: words('hoffnungsvoll', 'optimistisch', 'zuversichtlich'), indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: words('(?:will|möchte) sterben', 'mich umbringen', 'bringe mich um', 'mir das leben nehmen') },
+    // "beruflicher Selbstmord" is a figure of speech
+    { category: 'suicidal_ideation', pattern: words('(?<!beruflicher )selbstmord', 'suizid', 'suizidal', 'suizidgedanken', 'selbstmordgedanken') },
+    { category: 'suicidal_ideation', pattern: words('(?:will|möchte) nicht mehr leben', 'keinen grund (?:mehr )?zu leben', 'lieber tot') },
+    { category: 'self_harm', pattern: words('mich (?:selbst )?verletzen', 'verletze mich', 'mich ritzen', 'ritze mich', 'selbstverletzung', 'selbstverletzend') },
+  ],
+  modifiers: {
+    negation: new RegExp('(?<!\\p{L})(?:nicht|kein|keine|keinen|keiner|nie|niemals|ohne)(?!\\p{L})(?!\\s+(?:sicher|nur)(?!\\p{L}))', 'giu'),
+    hedges: words('etwas', 'ein bisschen', 'ein wenig', 'vielleicht', 'ziemlich'),
+    intensifiers: words('sehr', 'wirklich', 'total', 'extrem', 'völlig', 'so'),
+    clauseBoundary: /[,.;:!?]|(?<!\p{L})(?:aber|sondern|obwohl|weil|jedoch)(?!\p{L})/iu,
+  },
+};
+
+const PORTUGUESE: IntentLanguagePack = {
+  language: 'pt',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['experiência', 'formação', 'estudos', 'habilidades', 'meu cargo', 'sobre mim', 'trajetória'],
+      phrases: [phrase('(eu sou|trabalho (como|em)|estudei|me formei|tenho \\d+ anos)'), phrase('minha (experiência|formação|trajetória)')],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['carreira', 'caminho profissional', 'direção', 'opções', 'confuso', 'confusa', 'perdido', 'perdida'],
+      phrases: [phrase('qual (carreira|caminho|direção)'), phrase('devo (ser|seguir|estudar)'), phrase('não sei (o que|qual)')],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['aprender', 'habilidade', 'treinamento', 'curso', 'melhorar', 'desenvolver', 'capacitação'],
+      phrases: [phrase('quais? habilidades?'), phrase('como (posso )?aprender'), phrase('preciso (aprender|melhorar)')],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['próximo passo', 'o que devo fazer', 'ação', 'hoje', 'esta semana', 'começar'],
+      phrases: [phrase('o que (devo|posso) fazer'), phrase('próximos? passos?'), phrase('por onde começo'), phrase('como começar')],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['confiança', 'motivação', 'dúvida', 'medo', 'ansiedade', 'ansioso', 'ansiosa', 'estressado', 'estressada', 'sobrecarregado', 'sobrecarregada', 'estagnado', 'estagnada'],
+      phrases: [phrase('me sinto (ansios|estressad|sobrecarregad|estagnad|perdid)'), phrase('falta de (confiança|motivação)')],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['plano de crescimento', 'longo prazo', 'futuro', 'roteiro', 'meta', 'objetivo', 'plano'],
+      phrases: [phrase('a longo prazo'), phrase('onde (estarei|devo estar)'), phrase('em \\d+ (meses|anos)')],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['mudança de carreira', 'mudar de carreira', 'transição', 'mudar de área', 'nova carreira'],
+      phrases: [phrase('mudar (de|para) '), phrase('migrar (de|para) ')],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['progresso', 'avanço', 'concluí', 'terminei', 'consegui', 'feito'],
+      phrases: [phrase('(já )?(concluí|terminei|fiz|consegui)'), phrase('fiz progresso')],
+    },
+  ],
+  emotions: [
+    { pattern: words('ansios[oa]s?', 'ansiedade', 'preocupad[oa]s?', 'nervos[oa]s?'), indicator: 'anxiety', weight: 0.8 },
+    { pattern: words('estressad[oa]s?', 'estresse', 'sobrecarregad[oa]s?'), indicator: 'stress', weight: 0.9 },
+    { pattern: words('confus[oa]s?', 'perdid[oa]s?', 'não sei'), indicator: 'confusion', weight: 0.7 },
+    { pattern: words('medo', 'assustad[oa]s?', 'apavorad[oa]s?'), indicator: 'fear', weight: 0.8 },
+    { pattern: words('frustrad[oa]s?', 'frustração', 'frustrante'), indicator: 'frustration', weight: 0.7 },
+    { pattern: words('deprimid[oa]s?', 'depressão', 'triste', 'sem esperança'), indicator: 'sadness', weight: 0.9 },
+    { pattern: words('estagnad[oa]s?', 'pres[oa]s?', 'travad[oa]s?'), indicator: 'stagnation', weight: 0.7 },
+    { pattern: words('dúvidas?', 'insegur[oa]s?'), indicator: 'doubt', weight: 0.6 },
+    { pattern: words('fracasso', 'fracassei', 'falhei'), indicator: 'failure', weight: 0.7 },
+    { pattern: words('animad[oa]s?', 'empolgad[oa]s?'), indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: words('motivad[oa]s?', 'inspirad[oa]s?'), indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: words('otimista', 'esperanços[oa]s?'), indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: words('quero morrer', 'me matar', 'matar-me', 'me suicidar', 'suicidar-me') },
+    { category: 'suicidal_ideation', pattern: words('tirar (?:a )?minha (?:própria )?vida', 'acabar com (?:a )?minha vida', 'pensamentos suicidas', 'melhor mort[oa]') },
+    { category: 'suicidal_ideation', pattern: words('não quero (?:mais )?viver', 'nenhuma razão para viver') },
+    { category: 'self_harm', pattern: words('me machucar', 'me cortar', 'me ferir', 'automutilação', 'autolesão') },
+  ],
+  modifiers: {
+    // "não sei" and "não tenho certeza" express doubt, not denial
+    negation: new RegExp('(?<!\\p{L})(?:não|nunca|jamais|nem)(?!\\p{L})(?!\\s+(?:sei|tenho certeza|só)(?!\\p{L}))', 'giu'),
+    hedges: words('um pouco', 'meio', 'talvez', 'um tanto'),
+    intensifiers: words('muito', 'realmente', 'super', 'totalmente', 'demais', 'tão'),
+    clauseBoundary: /[,.;:!?]|(?<!\p{L})(?:mas|porém|embora|porque|contudo)(?!\p{L})/iu,
+  },
+};
+
+// Chinese and Japanese are written without spaces, so their terms are matched anywhere
+const CHINESE: IntentLanguagePack = {
+  language: 'zh',
+  intents: [
+    { type: 'profile_building', keywords: ['经验', '学历', '背景', '技能', '我的工作', '关于我'], phrases: [/我(是|在.*工作|毕业于|学的是)/] },
+    { type: 'career_clarity', keywords: ['职业方向', '职业道路', '方向', '迷茫', '困惑', '选择'], phrases: [/(什么|哪个)(职业|方向)/, /不知道(该|做什么)/] },
+    { type: 'skill_guidance', keywords: ['学习', '技能', '培训', '课程', '提升', '提高'], phrases: [/(学|学习)什么/, /怎么(学|学习)/, /需要(学|提高)/] },
+    { type: 'action_planning', keywords: ['下一步', '该做什么', '行动', '今天', '这周', '开始'], phrases: [/(我)?(应该|可以)做什么/, /从哪里开始/] },
+    { type: 'mindset_support', keywords: ['自信', '动力', '怀疑', '害怕', '焦虑', '压力', '不知所措', '停滞'], phrases: [/(感觉|觉得)(焦虑|压力|迷茫|停滞)/, /(缺乏|没有)(自信|动力)/] },
+    { type: 'growth_planning', keywords: ['成长计划', '长期', '未来', '路线图', '目标', '计划'], phrases: [/长期(计划|目标)/, /\d+(个月|年)(内|后)/] },
+    { type: 'transition_guidance', keywords: ['转行', '换工作', '转型', '跳槽', '新职业'], phrases: [/(转|换)到/, /从.*(转|换)到/] },
+    { type: 'progress_check', keywords: ['进展', '进度', '完成了', '做完了', '已经完成'], phrases: [/我(已经)?(完成|做完)了/] },
+  ],
+  emotions: [
+    { pattern: /焦虑|担心|紧张/g, indicator: 'anxiety', weight: 0.8 },
+    { pattern: /压力|不知所措|喘不过气/g, indicator: 'stress', weight: 0.9 },
+    { pattern: /迷茫|困惑|不知道/g, indicator: 'confusion', weight: 0.7 },
+    { pattern: /害怕|恐惧/g, indicator: 'fear', weight: 0.8 },
+    { pattern: /沮丧|烦躁/g, indicator: 'frustration', weight: 0.7 },
+    { pattern: /抑郁|难过|绝望/g, indicator: 'sadness', weight: 0.9 },
+    { pattern: /停滞|卡住|困住/g, indicator: 'stagnation', weight: 0.7 },
+    { pattern: /怀疑|不确定/g, indicator: 'doubt', weight: 0.6 },
+    { pattern: /失败/g, indicator: 'failure', weight: 0.7 },
+    { pattern: /兴奋|期待/g, indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: /有动力|受到启发/g, indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: /乐观|有希望/g, indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    // "不想死" denies it
+    { category: 'suicidal_ideation', pattern: /(?<!不)想死|(?<!职业)自杀|自殺|不想活|轻生|结束(?:自己的)?生命/g },
+    { category: 'self_harm', pattern: /自残|自殘|伤害自己|割腕/g },
+  ],
+  modifiers: {},
+};
+
+const JAPANESE: IntentLanguagePack = {
+  language: 'ja',
+  intents: [
+    { type: 'profile_building', keywords: ['経験', '学歴', '経歴', 'スキル', '現在の仕事', '自己紹介'], phrases: [/(私|わたし)は.*(です|として働いて)/, /卒業しました/] },
+    { type: 'career_clarity', keywords: ['キャリアパス', '進路', '方向性', '迷って', '分からない', 'わからない'], phrases: [/(どの|どんな)(キャリア|仕事|方向)/, /何を(すれば|したら)いい/] },
+    { type: 'skill_guidance', keywords: ['学ぶ', '勉強', 'スキル', '研修', '講座', '向上'], phrases: [/何を(学|勉強)/, /どうやって(学|勉強)/, /(学ぶ|勉強する)必要/] },
+    { type: 'action_planning', keywords: ['次のステップ', '何をすべき', '行動', '今日', '今週', '始め'], phrases: [/何から始め/, /次に何を/] },
+    { type: 'mindset_support', keywords: ['自信', 'やる気', '不安', '怖い', 'ストレス', '行き詰ま', '圧倒'], phrases: [/(自信|やる気)が(ない|ありません)/, /不安を感じ/] },
+    { type: 'growth_planning', keywords: ['成長計画', '長期', '将来', 'ロードマップ', '目標', '計画'], phrases: [/長期的な(計画|目標)/, /\d+(ヶ月|か月|年)後/] },
+    { type: 'transition_guidance', keywords: ['転職', 'キャリアチェンジ', '異業種', '新しいキャリア', '移りたい'], phrases: [/から.*(に|へ)(転職|移)/] },
+    { type: 'progress_check', keywords: ['進捗', '完了', '終わりました', '達成', '終えました'], phrases: [/(完了|達成)しました/] },
+  ],
+  emotions: [
+    { pattern: /不安|心配|緊張/g, indicator: 'anxiety', weight: 0.8 },
+    { pattern: /ストレス|圧倒|いっぱいいっぱい/g, indicator: 'stress', weight: 0.9 },
+    { pattern: /迷って|混乱|分からない|わからない/g, indicator: 'confusion', weight: 0.7 },
+    { pattern: /怖い|恐怖/g, indicator: 'fear', weight: 0.8 },
+    { pattern: /イライラ|もどかしい/g, indicator: 'frustration', weight: 0.7 },
+    { pattern: /落ち込|悲しい|絶望/g, indicator: 'sadness', weight: 0.9 },
+    { pattern: /行き詰ま|停滞/g, indicator: 'stagnation', weight: 0.7 },
+    { pattern: /疑問|自信がない/g, indicator: 'doubt', weight: 0.6 },
+    { pattern: /失敗/g, indicator: 'failure', weight: 0.7 },
+    { pattern: /ワクワク|楽しみ/g, indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: /やる気がある|刺激を受け/g, indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: /前向き|希望/g, indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: /死にたい|自殺|消えたい|生きていたくない|命を絶ちたい/g },
+    { category: 'self_harm', pattern: /自傷|リストカット|自分を傷つけ/g },
+  ],
+  modifiers: {},
+};
+
+const ARABIC: IntentLanguagePack = {
+  language: 'ar',
+  intents: [
+    { type: 'profile_building', keywords: ['خبرة', 'تعليم', 'دراسة', 'مهارات', 'وظيفتي', 'عن نفسي'], phrases: [/أنا (أعمل|درست|تخرجت)/] },
+    { type: 'career_clarity', keywords: ['مسار مهني', 'المسار المهني', 'اتجاه', 'خيارات', 'ضائع', 'محتار'], phrases: [/(أي|ما) (مهنة|مسار|اتجاه)/, /لا أعرف ماذا/] },
+    { type: 'skill_guidance', keywords: ['أتعلم', 'تعلم', 'مهارة', 'تدريب', 'دورة', 'تطوير', 'تحسين'], phrases: [/ما (المهارات|الذي يجب أن أتعلمه)/, /كيف أتعلم/] },
+    { type: 'action_planning', keywords: ['الخطوة التالية', 'ماذا أفعل', 'اليوم', 'هذا الأسبوع', 'أبدأ'], phrases: [/ماذا (يجب أن )?أفعل/, /من أين أبدأ/] },
+    { type: 'mindset_support', keywords: ['ثقة', 'حافز', 'شك', 'خوف', 'قلق', 'ضغط', 'متوتر', 'عالق'], phrases: [/أشعر ب(القلق|الضغط|التوتر|الضياع)/, /(قلة|عدم|ليس لدي) (ثقة|حافز)/] },
+    { type: 'growth_planning', keywords: ['خطة نمو', 'المدى الطويل', 'المستقبل', 'خارطة طريق', 'هدف', 'خطة'], phrases: [/على المدى الطويل/, /خلال \d+ (أشهر|سنوات)/] },
+    { type: 'transition_guidance', keywords: ['تغيير المهنة', 'تغيير مهنتي', 'الانتقال', 'مهنة جديدة', 'تحول'], phrases: [/(أغير|تغيير) (مهنتي|مجالي|المجال)/, /الانتقال (إلى|الى)/] },
+    { type: 'progress_check', keywords: ['تقدم', 'أكملت', 'أنهيت', 'أنجزت'], phrases: [/(أكملت|أنهيت|أنجزت)/] },
+  ],
+  emotions: [
+    { pattern: /قلق|متوتر|عصبي/g, indicator: 'anxiety', weight: 0.8 },
+    { pattern: /ضغط|مرهق|منهك/g, indicator: 'stress', weight: 0.9 },
+    { pattern: /محتار|ضائع|لا أعرف/g, indicator: 'confusion', weight: 0.7 },
+    { pattern: /خائف|خوف/g, indicator: 'fear', weight: 0.8 },
+    { pattern: /محبط|إحباط/g, indicator: 'frustration', weight: 0.7 },
+    { pattern: /مكتئب|اكتئاب|حزين|يائس/g, indicator: 'sadness', weight: 0.9 },
+    { pattern: /عالق|محاصر/g, indicator: 'stagnation', weight: 0.7 },
+    { pattern: /شك|متردد/g, indicator: 'doubt', weight: 0.6 },
+    { pattern: /فشل|فاشل/g, indicator: 'failure', weight: 0.7 },
+    { pattern: /متحمس|حماس/g, indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: /متحفز|ملهم/g, indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: /متفائل|أمل/g, indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: /أريد أن أموت|أقتل نفسي|الانتحار|أنتحر|أنهي حياتي|لا أريد أن أعيش/g },
+    { category: 'self_harm', pattern: /أؤذي نفسي|إيذاء النفس|أجرح نفسي/g },
+  ],
+  modifiers: {},
+};
+
+const HINDI: IntentLanguagePack = {
+  language: 'hi',
+  intents: [
+    { type: 'profile_building', keywords: ['अनुभव', 'शिक्षा', 'पढ़ाई', 'कौशल', 'मेरी नौकरी', 'मेरे बारे में'], phrases: [/मैं .*(हूँ|हूं|काम करता|काम करती)/] },
+    { type: 'career_clarity', keywords: ['करियर पथ', 'दिशा', 'विकल्प', 'उलझन', 'भ्रमित', 'खोया'], phrases: [/(कौन सा|कौनसा) (करियर|रास्ता)/, /समझ नहीं आ रहा/] },
+    { type: 'skill_guidance', keywords: ['सीखना', 'सीखूं', 'कौशल', 'स्किल', 'प्रशिक्षण', 'कोर्स', 'सुधार'], phrases: [/क्या सीख/, /कैसे सीख/] },
+    { type: 'action_planning', keywords: ['अगला कदम', 'क्या करना चाहिए', 'आज', 'इस हफ्ते', 'शुरू'], phrases: [/मुझे क्या करना चाहिए/, /कहाँ से शुरू/] },
+    { type: 'mindset_support', keywords: ['आत्मविश्वास', 'प्रेरणा', 'संदेह', 'डर', 'चिंता', 'तनाव', 'फंसा', 'फंसी'], phrases: [/(आत्मविश्वास|प्रेरणा) (की कमी|नहीं है)/] },
+    { type: 'growth_planning', keywords: ['विकास योजना', 'लंबी अवधि', 'भविष्य', 'लक्ष्य', 'योजना'], phrases: [/\d+ (महीने|साल) में/] },
+    { type: 'transition_guidance', keywords: ['करियर बदल', 'क्षेत्र बदल', 'नया करियर', 'बदलाव'], phrases: [/(करियर|क्षेत्र|नौकरी) बदलना/, /से .* में जाना/] },
+    { type: 'progress_check', keywords: ['प्रगति', 'पूरा कर लिया', 'पूरा किया', 'खत्म कर'], phrases: [/मैंने .*(पूरा|खत्म)/] },
+  ],
+  emotions: [
+    { pattern: /चिंता|चिंतित|घबराहट/g, indicator: 'anxiety', weight: 0.8 },
+    { pattern: /तनाव|दबाव/g, indicator: 'stress', weight: 0.9 },
+    { pattern: /उलझन|भ्रमित|खोया/g, indicator: 'confusion', weight: 0.7 },
+    { pattern: /डर|डरा|डरी/g, indicator: 'fear', weight: 0.8 },
+    { pattern: /निराश|परेशान/g, indicator: 'frustration', weight: 0.7 },
+    { pattern: /उदास|अवसाद|दुखी/g, indicator: 'sadness', weight: 0.9 },
+    { pattern: /फंसा|फंसी|अटका|अटकी/g, indicator: 'stagnation', weight: 0.7 },
+    { pattern: /संदेह|शक/g, indicator: 'doubt', weight: 0.6 },
+    { pattern: /असफल|नाकाम/g, indicator: 'failure', weight: 0.7 },
+    { pattern: /उत्साहित/g, indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: /प्रेरित/g, indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: /आशावादी|उम्मीद/g, indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: /मरना चाहत[ाी]|आत्महत्या|खुद को मार|जीना नहीं चाहत[ाी]|अपनी जान ले/g },
+    { category: 'self_harm', pattern: /खुद को (?:नुकसान|चोट)|अपने आप को (?:नुकसान|चोट)/g },
+  ],
+  modifiers: {},
+};
+
+const RUSSIAN: IntentLanguagePack = {
+  language: 'ru',
+  intents: [
+    {
+      type: 'profile_building',
+      keywords: ['опыт', 'образование', 'навыки', 'моя должность', 'обо мне'],
+      phrases: [phrase('я (работаю|учился|училась|окончил|окончила)'), phrase('мой (опыт|путь)')],
+    },
+    {
+      type: 'career_clarity',
+      keywords: ['карьерный путь', 'направление', 'варианты', 'запутался', 'запуталась', 'потерян'],
+      phrases: [phrase('какую (карьеру|профессию)'), phrase('кем (мне )?стать'), phrase('не знаю, (что|кем)')],
+    },
+    {
+      type: 'skill_guidance',
+      keywords: ['учиться', 'изучить', 'навык', 'обучение', 'курс', 'улучшить', 'развивать'],
+      phrases: [phrase('какие навыки'), phrase('как (мне )?(научиться|изучить)'), phrase('нужно (изучить|улучшить)')],
+    },
+    {
+      type: 'action_planning',
+      keywords: ['следующий шаг', 'что мне делать', 'сегодня', 'на этой неделе', 'начать'],
+      phrases: [phrase('что (мне )?(делать|сделать)'), phrase('с чего начать')],
+    },
+    {
+      type: 'mindset_support',
+      keywords: ['уверенность', 'мотивация', 'сомнения', 'страх', 'тревога', 'стресс', 'застрял', 'застряла'],
+      phrases: [phrase('чувствую (тревогу|стресс|себя потерянн)'), phrase('нет (уверенности|мотивации)')],
+    },
+    {
+      type: 'growth_planning',
+      keywords: ['план развития', 'долгосрочн', 'будущее', 'дорожная карта', 'цель', 'план'],
+      phrases: [phrase('в долгосрочной перспективе'), phrase('через \\d+ (месяц|лет|год)')],
+    },
+    {
+      type: 'transition_guidance',
+      keywords: ['смена карьеры', 'сменить профессию', 'переход', 'новая карьера', 'перейти'],
+      phrases: [phrase('сменить (профессию|сферу|карьеру)'), phrase('перейти в ')],
+    },
+    {
+      type: 'progress_check',
+      keywords: ['прогресс', 'закончил', 'закончила', 'завершил', 'завершила', 'сделал', 'сделала'],
+      phrases: [phrase('я (закончил|закончила|завершил|завершила|сделал|сделала)')],
+    },
+  ],
+  emotions: [
+    { pattern: words('тревог[аиу]', 'тревожно', 'волнуюсь', 'нервничаю'), indicator: 'anxiety', weight: 0.8 },
+    { pattern: words('стресс', 'перегружен[аы]?', 'выгорел[аи]?'), indicator: 'stress', weight: 0.9 },
+    { pattern: words('запутал(?:ся|ась)', 'потерян[аы]?', 'не знаю'), indicator: 'confusion', weight: 0.7 },
+    { pattern: words('боюсь', 'страшно', 'страх'), indicator: 'fear', weight: 0.8 },
+    { pattern: words('раздражен[аы]?', 'разочарован[аы]?'), indicator: 'frustration', weight: 0.7 },
+    { pattern: words('депресси[яи]', 'грустно', 'безнадежно', 'безнадёжно'), indicator: 'sadness', weight: 0.9 },
+    { pattern: words('застрял[аи]?', 'топчусь на месте'), indicator: 'stagnation', weight: 0.7 },
+    { pattern: words('сомнева(?:юсь|ния)', 'сомнения', 'неуверен[аы]?'), indicator: 'doubt', weight: 0.6 },
+    { pattern: words('провал', 'неудача', 'провалил(?:ся|ась)'), indicator: 'failure', weight: 0.7 },
+    { pattern: words('вдохновлен[аы]?', 'в восторге'), indicator: 'excitement', weight: 0.3, positive: true },
+    { pattern: words('мотивирован[аы]?'), indicator: 'motivation', weight: 0.3, positive: true },
+    { pattern: words('оптимистично', 'надеюсь'), indicator: 'hope', weight: 0.3, positive: true },
+  ],
+  crisis: [
+    { category: 'suicidal_ideation', pattern: words('хочу умереть', 'покончить с собой', 'покончу с собой', 'убить себя', 'убью себя') },
+    // "карьерное самоубийство" is a figure of speech
+    { category: 'suicidal_ideation', pattern: words('суицид', 'суицидальные мысли', '(?<!карьерное )самоубийство', 'не хочу жить', 'лучше бы я умер(?:ла)?') },
+    { category: 'self_harm', pattern: words('причин(?:ить|яю) себе (?:вред|боль)', 'режу себя', 'порезать себя', 'самоповреждение', 'самоповреждения') },
+  ],
+  modifiers: {
+    // "не знаю" and "не уверен" express doubt, not denial
+    negation: new RegExp('(?<!\\p{L})(?:не|нет|никогда|ни)(?!\\p{L})(?!\\s+(?:знаю|уверен|уверена|только)(?!\\p{L}))', 'giu'),
+    hedges: words('немного', 'слегка', 'может быть', 'чуть'),
+    intensifiers: words('очень', 'совсем', 'крайне', 'реально', 'так'),
+    clauseBoundary: /[,.;:!?]|(?<!\p{L})(?:но|хотя|потому что|однако)(?!\p{L})/iu,
+  },
+};
+
+export const INTENT_LANGUAGE_PACKS: Record<Language, IntentLanguagePack> = {
+  en: ENGLISH,
+  es: SPANISH,
+  fr: FRENCH,
+  de: GERMAN,
+  pt: PORTUGUESE,
+  zh: CHINESE,
+  ja: JAPANESE,
+  ar: ARABIC,
+  hi: HINDI,
+  ru: RUSSIAN,
+};
+
+/**
+ * The pack of a language, English for unknown languages
+ */
+export function getIntentLanguagePack(language: Language): IntentLanguagePack {
+  return INTENT_LANGUAGE_PACKS[language] || ENGLISH;
+}
+
+/**
+ * Intent patterns to match in a message of a language: its own merged with the English ones
+ */
+export function getIntentPatterns(language: Language): IntentPattern[] {
+  const pack = getIntentLanguagePack(language);
+  if (pack === ENGLISH) {
+    return ENGLISH.intents;
+  }
+
+  return ENGLISH.intents.map(english => {
+    const own = pack.intents.find(pattern => pattern.type === english.type);
+    return own
+      ? {
+        type: english.type,
+        keywords: [...new Set([...own.keywords, ...english.keywords])],
+        phrases: [...own.phrases, ...english.phrases],
+      }
+      : english;
+  });
+}
+
+/**
+ * Emotional indicators to match in a message of a language: its own, then the English ones
+ */
+export function getEmotionalIndicators(language: Language): EmotionalIndicator[] {
+  const pack = getIntentLanguagePack(language);
+  return pack === ENGLISH ? ENGLISH.emotions : [...pack.emotions, ...ENGLISH.emotions];
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for the naive Bayes intent classifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NaiveBayesIntentClassifier, LabeledExample, extractFeatures } from './naiveBayesClassifier.js';
+import { loadIntentCorpus } from './intentCorpus.js';
+import { DataIntegrityError } from '../utils/errorHandling.js';
+
+const EXAMPLES: LabeledExample[] = [
+  { text: 'What should I learn to get better at Python', intents: ['skill_guidance'] },
+  { text: 'Which course will help me learn SQL', intents: ['skill_guidance'] },
+  { text: 'I feel anxious and stressed about work', intents: ['mindset_support'] },
+  { text: 'I am so anxious about interviews', intents: ['mindset_support'] },
+  { text: 'I finished the course and completed my portfolio', intents: ['progress_check'] },
+  { text: 'I feel anxious but want to learn Python', intents: ['mindset_support', 'skill_guidance'] },
+];
+
+describe('extractFeatures', () => {
+  it('should produce lowercase unigrams and bigrams', () => {
+    expect(extractFeatures('Learn SQL, fast!')).toEqual(['learn', 'sql', 'fast', 'learn sql', 'sql fast']);
+    expect(extractFeatures('')).toEqual([]);
+  });
+});
+
+describe('NaiveBayesIntentClassifier', () => {
+  it('should rank the type whose examples share the most features first', () => {
+    const classifier = NaiveBayesIntentClassifier.train(EXAMPLES);
+
+    expect(classifier.classify('how do I learn python')[0].type).toBe('skill_guidance');
+    expect(classifier.classify('anxious about everything')[0].type).toBe('mindset_support');
+  });
+
+  it('should give several types a high confidence for a message that mixes them', () => {
+    const classifier = NaiveBayesIntentClassifier.train(EXAMPLES);
+
+    const scores = classifier.classify('I feel anxious and want to learn Python');
+    const confident = scores.filter(score => score.confidence >= 0.5).map(score => score.type);
+
+    expect(confident).toEqual(expect.arrayContaining(['mindset_support', 'skill_guidance']));
+    expect(confident).not.toContain('progress_check');
+  });
+
+  it('should only score trained types and fall back to priors for unknown words', () => {
+    const classifier = NaiveBayesIntentClassifier.train(EXAMPLES);
+
+    const scores = classifier.classify('zebra constructor');
+
+    expect(scores.map(score => score.type).sort()).toEqual(['mindset_support', 'progress_check', 'skill_guidance']);
+    expect(scores[scores.length - 1].type).toBe('progress_check');
+  });
+
+  it('should round-trip through its serialized model', () => {
+    const classifier = NaiveBayesIntentClassifier.train(EXAMPLES);
+
+    const restored = NaiveBayesIntentClassifier.fromJSON(JSON.parse(JSON.stringify(classifier)));
+
+    expect(restored.classify('learn SQL')).toEqual(classifier.classify('learn SQL'));
+  });
+
+  it('should reject models it cannot read', () => {
+    const model = NaiveBayesIntentClassifier.train(EXAMPLES).toJSON();
+
+    expect(() => NaiveBayesIntentClassifier.fromJSON({ format: 'other' })).toThrow(DataIntegrityError);
+    expect(() => NaiveBayesIntentClassifier.fromJSON({ ...model, version: 99 })).toThrow(DataIntegrityError);
+    expect(() => NaiveBayesIntentClassifier.fromJSON({ ...model, classes: { chit_chat: {} } })).toThrow(DataIntegrityError);
+  });
+
+  it('should drop rare features when pruned', () => {
+    const classifier = NaiveBayesIntentClassifier.train(EXAMPLES);
+
+    const pruned = classifier.prune(2);
+
+    expect(pruned.vocabularySize).toBeLessThan(classifier.vocabularySize);
+    expect(Object.values(pruned.toJSON().featureTotals).every(count => count >= 2)).toBe(true);
+    expect(pruned.classify('anxious')[0].type).toBe('mindset_support');
+  });
+
+  it('should classify most of the checked-in corpus correctly after training on it', async () => {
+    const corpus = await loadIntentCorpus();
+    const classifier = NaiveBayesIntentClassifier.train(corpus);
+
+    const correct = corpus.filter(example => classifier.classify(example.text)[0].type === example.intents[0]);
+
+    expect(correct.length / corpus.length).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Naive Bayes intent classifier
+ * Trained locally from a labeled corpus over word unigrams and bigrams. Every intent
+ * type is its own yes/no model, so a message can score high for several types at once.
+ */
+
+import { Intent } from '../models/index.js';
+import { DataIntegrityError } from '../utils/errorHandling.js';
+import { IntentClassifier, IntentScore, INTENT_TYPES } from './intentClassifier.js';
+
+export const INTENT_MODEL_FORMAT = 'worklife-intent-model';
+export const INTENT_MODEL_VERSION = 1;
+
+/**
+ * A message labeled with every intent type it expresses
+ */
+export interface LabeledExample {
+  text: string;
+  intents: Intent['type'][];
+}
+
+/**
+ * Feature counts over the training messages labeled with one intent type
+ */
+interface ClassCounts {
+  documentCount: number;
+  featureCounts: Record<string, number>;
+}
+
+/**
+ * Serialized form of a trained classifier
+ */
+export interface NaiveBayesModel {
+  format: typeof INTENT_MODEL_FORMAT;
+  version: number;
+  kind: 'naive-bayes';
+  /** Additive smoothing for feature counts */
+  alpha: number;
+  documentCount: number;
+  /** Feature counts over every training message */
+  featureTotals: Record<string, number>;
+  classes: Partial<Record<Intent['type'], ClassCounts>>;
+}
+
+export interface NaiveBayesConfig {
+  alpha: number;
+}
+
+const DEFAULT_NAIVE_BAYES_CONFIG: NaiveBayesConfig = {
+  alpha: 1,
+};
+
+/**
+ * Splits a message into lowercase word unigrams and bigrams
+ */
+export function extractFeatures(message: string): string[] {
+  const words = message.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+  const bigrams = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+/**
+ * Multinomial naive Bayes, one-vs-rest per intent type
+ *
+ * Counts for "not this type" are the totals minus the type's own counts, which
+ * stays exact for messages labeled with several types. Features never seen in
+ * training are ignored.
+ */
+export class NaiveBayesIntentClassifier implements IntentClassifier {
+  private featureTotal: number;
+  private classTotals: Map<Intent['type'], number>;
+
+  private constructor(private model: NaiveBayesModel) {
+    this.featureTotal = sum(Object.values(model.featureTotals));
+    this.classTotals = new Map(
+      Object.entries(model.classes).map(([type, counts]) => [type as Intent['type'], sum(Object.values(counts!.featureCounts))])
+    );
+  }
+
+  /**
+   * Trains a classifier from labeled examples
+   */
+  static train(examples: LabeledExample[], config: Partial<NaiveBayesConfig> = {}): NaiveBayesIntentClassifier {
+    const { alpha } = { ...DEFAULT_NAIVE_BAYES_CONFIG, ...config };
+    const model: NaiveBayesModel = {
+      format: INTENT_MODEL_FORMAT,
+      version: INTENT_MODEL_VERSION,
+      kind: 'naive-bayes',
+      alpha,
+      documentCount: 0,
+      featureTotals: {},
+      classes: {},
+    };
+
+    for (const example of examples) {
+      const features = extractFeatures(example.text);
+      model.documentCount++;
+      addCounts(model.featureTotals, features);
+
+      for (const type of new Set(example.intents)) {
+        const counts = model.classes[type] ??= { documentCount: 0, featureCounts: {} };
+        counts.documentCount++;
+        addCounts(counts.featureCounts, features);
+      }
+    }
+
+    return new NaiveBayesIntentClassifier(model);
+  }
+
+  /**
+   * Restores a classifier from its serialized model
+   * @throws DataIntegrityError when the model is not a supported intent model
+   */
+  static fromJSON(model: unknown): NaiveBayesIntentClassifier {
+    const candidate = model as NaiveBayesModel;
+    if (!candidate || candidate.format !== INTENT_MODEL_FORMAT || candidate.kind !== 'naive-bayes') {
+      throw new DataIntegrityError('Not a naive Bayes intent model');
+    }
+    if (candidate.version !== INTENT_MODEL_VERSION) {
+      throw new DataIntegrityError(`Unsupported intent model version ${candidate.version}`, { version: candidate.version });
+    }
+    if (typeof candidate.featureTotals !== 'object' || typeof candidate.classes !== 'object') {
+      throw new DataIntegrityError('Intent model has no feature counts');
+    }
+    const unknownType = Object.keys(candidate.classes).find(type => !INTENT_TYPES.includes(type as Intent['type']));
+    if (unknownType) {
+      throw new DataIntegrityError(`Intent model has unknown intent type ${unknownType}`, { type: unknownType });
+    }
+    return new NaiveBayesIntentClassifier(candidate);
+  }
+
+  toJSON(): NaiveBayesModel {
+    return this.model;
+  }
+
+  /**
+   * Number of distinct features the classifier knows
+   */
+  get vocabularySize(): number {
+    return Object.keys(this.model.featureTotals).length;
+  }
+
+  /**
+   * Copy without the features seen fewer than minCount times, for a smaller model
+   */
+  prune(minCount: number): NaiveBayesIntentClassifier {
+    const keep = (counts: Record<string, number>, totals: Record<string, number>) =>
+      Object.fromEntries(Object.entries(counts).filter(([feature]) => countOf(totals, feature) >= minCount));
+
+    const { featureTotals, classes } = this.model;
+    return new NaiveBayesIntentClassifier({
+      ...this.model,
+      featureTotals: keep(featureTotals, featureTotals),
+      classes: Object.fromEntries(
+        Object.entries(classes).map(([type, counts]) => [
+          type,
+          { documentCount: counts!.documentCount, featureCounts: keep(counts!.featureCounts, featureTotals) },
+        ])
+      ),
+    });
+  }
+
+  classify(message: string): IntentScore[] {
+    const { alpha, documentCount, featureTotals, classes } = this.model;
+    const features = extractFeatures(message).filter(feature => Object.hasOwn(featureTotals, feature));
+    const smoothing = alpha * this.vocabularySize;
+    const scores: IntentScore[] = [];
+
+    for (const type of INTENT_TYPES) {
+      const counts = classes[type];
+      if (!counts) {
+        continue;
+      }
+      const classTotal = this.classTotals.get(type)!;
+
+      // Log odds of the type against every other message, starting from the smoothed prior
+      let logOdds = Math.log(counts.documentCount + 1) - Math.log(documentCount - counts.documentCount + 1);
+      for (const feature of features) {
+        const inClass = countOf(counts.featureCounts, feature);
+        logOdds += Math.log((inClass + alpha) / (classTotal + smoothing));
+        logOdds -= Math.log((featureTotals[feature] - inClass + alpha) / (this.featureTotal - classTotal + smoothing));
+      }
+
+      scores.push({ type, confidence: 1 / (1 + Math.exp(-logOdds)) });
+    }
+
+    return scores.sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+function addCounts(counts: Record<string, number>, features: string[]): void {
+  for (const feature of features) {
+    counts[feature] = countOf(counts, feature) + 1;
+  }
+}
+
+// Own properties only, so words like "constructor" count like any other
+function countOf(counts: Record<string, number>, feature: string): number {
+  return Object.hasOwn(counts, feature) ? counts[feature] : 0;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,46 @@
+/**
+ * Tests for negation, hedge and intensifier scopes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeModifiers, modifierWeight, HEDGE_WEIGHT, INTENSIFIER_WEIGHT } from './textModifiers.js';
+
+function scopedText(message: string, kind: 'negated' | 'hedged' | 'intensified'): string[] {
+  return analyzeModifiers(message)[kind].map(scope => message.slice(scope.start, scope.end));
+}
+
+describe('analyzeModifiers', () => {
+  it('should end a negation at the end of its clause', () => {
+    expect(scopedText('I\'m not stressed at all, just curious', 'negated')).toEqual([' stressed at all']);
+    expect(scopedText('I don\'t want to switch careers but I am bored', 'negated')).toEqual([' want to switch careers']);
+    expect(scopedText('I don’t want this', 'negated')).toEqual([' want this']);
+  });
+
+  it('should limit a negation to a few words without a clause boundary', () => {
+    expect(scopedText('I never said anything about wanting to leave my team for another job', 'negated'))
+      .toEqual([' said anything about wanting to leave']);
+  });
+
+  it('should not treat doubt or emphasis as negation', () => {
+    expect(scopedText('I\'m not sure what to do', 'negated')).toEqual([]);
+    expect(scopedText('I can\'t stop worrying', 'negated')).toEqual([]);
+    expect(scopedText('Not only that', 'negated')).toEqual([]);
+  });
+
+  it('should find hedged and intensified words', () => {
+    expect(scopedText('I feel a bit lost', 'hedged')).toEqual([' lost']);
+    expect(scopedText('I am really really tired', 'intensified')).toEqual([' really tired', ' tired']);
+  });
+});
+
+describe('modifierWeight', () => {
+  it('should weigh negated words at zero and scale hedged and intensified ones', () => {
+    const message = 'not stressed; a bit anxious; very worried';
+    const modifiers = analyzeModifiers(message);
+
+    expect(modifierWeight(modifiers, message.indexOf('stressed'))).toBe(0);
+    expect(modifierWeight(modifiers, message.indexOf('anxious'))).toBe(HEDGE_WEIGHT);
+    expect(modifierWeight(modifiers, message.indexOf('worried'))).toBe(INTENSIFIER_WEIGHT);
+    expect(modifierWeight(modifiers, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Negation, hedges and intensifiers
+ * Finds the parts of a message whose words are denied ("I'm not stressed"), softened
+ * ("a bit anxious") or strengthened ("really overwhelmed"), so keyword matches there
+ * can be discounted or weighted.
+ */
+
+/**
+ * A stretch of the message affected by a modifier; end is exclusive
+ */
+export interface ModifierScope {
+  start: number;
+  end: number;
+}
+
+export interface MessageModifiers {
+  negated: ModifierScope[];
+  hedged: ModifierScope[];
+  intensified: ModifierScope[];
+}
+
+/**
+ * Words a negation reaches at most, when no clause boundary comes first
+ */
+const NEGATION_MAX_WORDS = 6;
+
+/**
+ * Words a hedge or intensifier reaches, e.g. "a bit stressed", "really, really anxious"
+ */
+const DEGREE_MAX_WORDS = 2;
+
+export const HEDGE_WEIGHT = 0.5;
+export const INTENSIFIER_WEIGHT = 1.5;
+
+/**
+ * Words that open each kind of scope in one language; a kind without cues has no scopes
+ */
+export interface ModifierCues {
+  negation?: RegExp;
+  hedges?: RegExp;
+  intensifiers?: RegExp;
+  /** Where a clause ends; punctuation when not given */
+  clauseBoundary?: RegExp;
+}
+
+export const ENGLISH_MODIFIER_CUES: ModifierCues = {
+  // "not sure", "can't stop worrying" and "not only" express doubt or emphasis, not denial
+  negation: /\b(?:not|no|never|nor|hardly|without|no longer|[a-z]+n['’]t|dont|doesnt|didnt|cant|wont|isnt)\b(?!\s+(?:only|just|sure|know|understand|decide|stop|help|wait|doubt)\b)/gi,
+  hedges: /\b(?:a (?:little )?bit|a little|slightly|kind of|kinda|sort of|somewhat|mildly|maybe|perhaps|a tad)\b/gi,
+  intensifiers: /\b(?:very|really|so|extremely|incredibly|super|totally|completely|absolutely|deeply|seriously|terribly)\b/gi,
+  // Clauses end at punctuation or at words that turn to a new thought
+  clauseBoundary: /[,.;:!?]|\b(?:but|just|although|though|however|yet|instead|rather|because|and i|so i)\b/i,
+};
+
+const PUNCTUATION_BOUNDARY = /[,.;:!?，。；：！？、،؛؟]/;
+
+/**
+ * Finds the negated, hedged and intensified parts of a message
+ * Each scope starts after its cue and runs to the end of the clause or a few words on
+ * @param cues - Cues of the message's language; English by default
+ */
+export function analyzeModifiers(message: string, cues: ModifierCues = ENGLISH_MODIFIER_CUES): MessageModifiers {
+  const boundary = cues.clauseBoundary ?? PUNCTUATION_BOUNDARY;
+  return {
+    negated: scopesAfter(message, cues.negation, boundary, NEGATION_MAX_WORDS),
+    hedged: scopesAfter(message, cues.hedges, boundary, DEGREE_MAX_WORDS),
+    intensified: scopesAfter(message, cues.intensifiers, boundary, DEGREE_MAX_WORDS),
+  };
+}
+
+/**
+ * Whether a position in the message falls in any of the scopes
+ */
+export function isWithin(scopes: ModifierScope[], index: number): boolean {
+  return scopes.some(scope => scope.start <= index && index < scope.end);
+}
+
+/**
+ * How much a word at a position counts: 0 when negated, less when hedged, more when intensified
+ */
+export function modifierWeight(modifiers: MessageModifiers, index: number): number {
+  if (isWithin(modifiers.negated, index)) {
+    return 0;
+  }
+  let weight = 1;
+  if (isWithin(modifiers.hedged, index)) {
+    weight *= HEDGE_WEIGHT;
+  }
+  if (isWithin(modifiers.intensified, index)) {
+    weight *= INTENSIFIER_WEIGHT;
+  }
+  return weight;
+}
+
+function scopesAfter(message: string, cues: RegExp | undefined, boundary: RegExp, maxWords: number): ModifierScope[] {
+  const scopes: ModifierScope[] = [];
+  if (!cues) {
+    return scopes;
+  }
+  const pattern = new RegExp(cues.source, cues.flags);
+
+  for (let match; (match = pattern.exec(message));) {
+    const start = match.index + match[0].length;
+    const rest = message.slice(start);
+    const clauseEnd = rest.search(boundary);
+    const clause = clauseEnd === -1 ? rest : rest.slice(0, clauseEnd);
+
+    // Stop after the last of the first maxWords words
+    let end = 0;
+    const words = /\S+/g;
+    for (let count = 0, word; count < maxWords && (word = words.exec(clause)); count++) {
+      end = word.index + word[0].length;
+    }
+
+    if (end > 0) {
+      scopes.push({ start, end: start + end });
+    }
+  }
+
+  return scopes;
+}
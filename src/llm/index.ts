@@ -0,0 +1,11 @@
+/**
+ * Language model provider exports
+ */
+
+export * from './llmProvider.js';
+export * from './openAIProvider.js';
+export * from './ollamaProvider.js';
+export * from './mockProvider.js';
+export * from './llmConfig.js';
+export * from './providerHealth.js';
+export * from './llmStandIn.js';
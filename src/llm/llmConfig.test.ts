@@ -0,0 +1,40 @@
+/**
+ * Tests for language model providers configured from the environment
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadLLMProviders } from './llmConfig.js';
+import { ValidationError } from '../utils/validation.js';
+
+describe('loadLLMProviders', () => {
+  it('should only try OpenAI unless Ollama is asked for, leaving OpenAI out without a key', () => {
+    expect(loadLLMProviders({ OPENAI_API_KEY: 'sk-test' }).map(p => [p.name, p.config.model])).toEqual([
+      ['openai', 'gpt-3.5-turbo'],
+    ]);
+    expect(loadLLMProviders({ OPENAI_API_KEY: 'your-api-key-here' })).toEqual([]);
+    expect(loadLLMProviders({ OPENAI_API_KEY: 'sk-test', WORKLIFE_LLM_PROVIDERS: 'openai,ollama' }).map(p => p.name))
+      .toEqual(['openai', 'ollama']);
+    expect(loadLLMProviders({ OPENAI_API_KEY: 'sk-test', USE_GPT4: 'true' })[0].config.model).toBe('gpt-4');
+  });
+
+  it('should configure each provider separately', () => {
+    const [ollama, mock] = loadLLMProviders({
+      WORKLIFE_LLM_PROVIDERS: 'Ollama, mock',
+      OLLAMA_MODEL: 'llama3:8b',
+      OLLAMA_TEMPERATURE: '0.3',
+      OLLAMA_MAX_TOKENS: '800',
+      OLLAMA_TIMEOUT_MS: '60000',
+    });
+
+    expect(ollama.config).toMatchObject({ model: 'llama3:8b', temperature: 0.3, maxTokens: 800, timeoutMs: 60000 });
+    expect(mock.config).toMatchObject({ model: 'mock', temperature: 0.7, maxTokens: 500, timeoutMs: 30000 });
+  });
+
+  it('should reject unknown providers and invalid settings', () => {
+    expect(() => loadLLMProviders({ WORKLIFE_LLM_PROVIDERS: 'openai,claude' })).toThrow(ValidationError);
+    expect(() => loadLLMProviders({ WORKLIFE_LLM_PROVIDERS: 'ollama', OLLAMA_TEMPERATURE: 'warm' }))
+      .toThrow('OLLAMA_TEMPERATURE must be a number from 0 to 2');
+    expect(() => loadLLMProviders({ WORKLIFE_LLM_PROVIDERS: 'ollama', OLLAMA_MAX_TOKENS: '1.5' }))
+      .toThrow('OLLAMA_MAX_TOKENS must be a positive whole number');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Language model providers configured from the environment
+ */
+
+import { ValidationError } from '../utils/validation.js';
+import { LLMProvider, LLMProviderConfig } from './llmProvider.js';
+import { DEFAULT_OLLAMA_BASE_URL, OllamaProvider } from './ollamaProvider.js';
+import { DEFAULT_OPENAI_BASE_URL, OpenAIProvider } from './openAIProvider.js';
+import { MockLLMProvider } from './mockProvider.js';
+
+export const LLM_PROVIDER_NAMES = ['openai', 'ollama', 'mock'];
+
+const DEFAULT_PROVIDERS = 'openai';
+
+/**
+ * Reads the providers to try, in order, from the environment
+ * WORKLIFE_LLM_PROVIDERS lists them ("openai" by default, so a local Ollama is opt-in);
+ * OpenAI is left out without OPENAI_API_KEY. Each provider reads <NAME>_MODEL, <NAME>_TEMPERATURE,
+ * <NAME>_MAX_TOKENS, <NAME>_TIMEOUT_MS and <NAME>_BASE_URL, e.g. OLLAMA_MODEL.
+ * USE_GPT4=true picks gpt-4 when OPENAI_MODEL is not set.
+ */
+export function loadLLMProviders(env: NodeJS.ProcessEnv = process.env): LLMProvider[] {
+  const names = (env.WORKLIFE_LLM_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  const providers: LLMProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'openai': {
+        const apiKey = env.OPENAI_API_KEY;
+        if (!apiKey || apiKey === 'your-api-key-here') {
+          break;
+        }
+        const config = readProviderConfig(env, 'OPENAI');
+        if (!config.model && env.USE_GPT4 === 'true') {
+          config.model = 'gpt-4';
+        }
+        providers.push(new OpenAIProvider(apiKey, config, env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL));
+        break;
+      }
+      case 'ollama':
+        providers.push(new OllamaProvider(readProviderConfig(env, 'OLLAMA'), env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL));
+        break;
+      case 'mock':
+        providers.push(new MockLLMProvider([], readProviderConfig(env, 'MOCK')));
+        break;
+      default:
+        throw new ValidationError(
+          `WORKLIFE_LLM_PROVIDERS must list providers among ${LLM_PROVIDER_NAMES.join(', ')}`,
+          'WORKLIFE_LLM_PROVIDERS',
+          env.WORKLIFE_LLM_PROVIDERS
+        );
+    }
+  }
+
+  return providers;
+}
+
+function readProviderConfig(env: NodeJS.ProcessEnv, prefix: string): Partial<LLMProviderConfig> {
+  const config: Partial<LLMProviderConfig> = {};
+  if (env[`${prefix}_MODEL`]) {
+    config.model = env[`${prefix}_MODEL`];
+  }
+  const temperature = readNumber(env, `${prefix}_TEMPERATURE`, value => value >= 0 && value <= 2, 'a number from 0 to 2');
+  if (temperature !== undefined) {
+    config.temperature = temperature;
+  }
+  const maxTokens = readNumber(env, `${prefix}_MAX_TOKENS`, value => Number.isInteger(value) && value > 0, 'a positive whole number');
+  if (maxTokens !== undefined) {
+    config.maxTokens = maxTokens;
+  }
+  const timeoutMs = readNumber(env, `${prefix}_TIMEOUT_MS`, value => value > 0, 'a positive number of milliseconds');
+  if (timeoutMs !== undefined) {
+    config.timeoutMs = timeoutMs;
+  }
+  return config;
+}
+
+function readNumber(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  isValid: (value: number) => boolean,
+  expected: string
+): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || !isValid(number)) {
+    throw new ValidationError(`${name} must be ${expected}`, name, value);
+  }
+  return number;
+}
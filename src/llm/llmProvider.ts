@@ -0,0 +1,169 @@
+/**
+ * Language model providers
+ *
+ * The coach can hand chat replies to a hosted or local language model. Every provider
+ * answers the same requests, is configured the same way and reports whether it is
+ * reachable, so callers can try them in turn.
+ */
+
+import { LLMProviderError, RetryConfig, withRetry } from '../utils/errorHandling.js';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  /** The conversation so far, system prompt first and the message to answer last */
+  messages: LLMMessage[];
+  /** Cancels the request, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProviderConfig {
+  model: string;
+  temperature: number;
+  /** Longest reply, in tokens */
+  maxTokens: number;
+  /** Time one attempt may take, reading a streamed reply included */
+  timeoutMs: number;
+  /** Retries of timeouts, network failures, rate limits and server errors */
+  retry: Partial<RetryConfig>;
+}
+
+export const DEFAULT_LLM_PROVIDER_CONFIG: Omit<LLMProviderConfig, 'model'> = {
+  temperature: 0.7,
+  maxTokens: 500,
+  timeoutMs: 30000,
+  retry: { maxAttempts: 2, delayMs: 250 },
+};
+
+/**
+ * Whether a provider answered a health check, and how fast
+ */
+export interface ProviderHealth {
+  provider: string;
+  model: string;
+  status: 'ok' | 'unavailable';
+  latencyMs: number;
+  /** Why the provider is unavailable */
+  error?: string;
+}
+
+export interface LLMProvider {
+  /** Reported as the source of its replies, e.g. "openai" */
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  /**
+   * Like complete, handing over the reply piece by piece as it is generated
+   * A reply that fails after its first piece is not retried.
+   */
+  stream(request: LLMRequest, onChunk: (text: string) => void): Promise<LLMCompletion>;
+  /** Never throws: an unreachable provider is reported as unavailable */
+  checkHealth(): Promise<ProviderHealth>;
+}
+
+/**
+ * Runs one provider call with the provider's timeout and retries
+ * Failures surface as LLMProviderError; cancellations and failures after part of a
+ * streamed reply was handed over are not retried.
+ * @param hasOutput - Whether part of the reply was already handed over
+ */
+export async function callProvider<T>(
+  provider: LLMProvider,
+  signal: AbortSignal | undefined,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  hasOutput: () => boolean = () => false
+): Promise<T> {
+  return withRetry(async () => {
+    const timeout = AbortSignal.timeout(provider.config.timeoutMs);
+    try {
+      return await attempt(signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (error) {
+      const providerError = toProviderError(provider, error, signal, timeout);
+      if (hasOutput()) {
+        // Another attempt would repeat what the caller already has
+        providerError.recoverable = false;
+      }
+      throw providerError;
+    }
+  }, provider.config.retry);
+}
+
+/**
+ * Checks that a provider answered with success
+ * @throws LLMProviderError with the status and the start of the answer otherwise
+ */
+export async function ensureOk(provider: LLMProvider, response: Response): Promise<Response> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new LLMProviderError(provider.name, `HTTP ${response.status} ${body.slice(0, 200)}`.trim(), response.status);
+  }
+  return response;
+}
+
+/**
+ * Lines of a response body as they arrive, for streamed replies
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffered += decoder.decode(bytes, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop()!;
+    yield* lines.filter(line => line.trim() !== '');
+  }
+  if (buffered.trim() !== '') {
+    yield buffered;
+  }
+}
+
+/**
+ * Times a health check of a provider
+ * @param check - Throws when the provider cannot serve its model
+ */
+export async function probeProvider(provider: LLMProvider, check: (signal: AbortSignal) => Promise<void>): Promise<ProviderHealth> {
+  const started = Date.now();
+  const timeout = AbortSignal.timeout(provider.config.timeoutMs);
+  const health = { provider: provider.name, model: provider.config.model };
+  try {
+    await check(timeout);
+    return { ...health, status: 'ok', latencyMs: Date.now() - started };
+  } catch (error) {
+    const { message } = toProviderError(provider, error, undefined, timeout);
+    return { ...health, status: 'unavailable', latencyMs: Date.now() - started, error: message };
+  }
+}
+
+function toProviderError(
+  provider: LLMProvider,
+  error: unknown,
+  signal: AbortSignal | undefined,
+  timeout: AbortSignal
+): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error;
+  }
+  if (signal?.aborted) {
+    return new LLMProviderError(provider.name, 'request cancelled', undefined, false);
+  }
+  if (timeout.aborted) {
+    return new LLMProviderError(provider.name, `no reply within ${provider.config.timeoutMs} ms`);
+  }
+  // fetch only says "fetch failed"; its cause tells why, such as ECONNREFUSED
+  const { cause } = error as { cause?: { code?: string; message?: string } };
+  const reason = cause?.code ?? cause?.message;
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMProviderError(provider.name, reason ? `${message} (${reason})` : message);
+}
@@ -0,0 +1,127 @@
+/**
+ * Local HTTP stand-in for OpenAI and Ollama
+ *
+ * Serves the chat completions API under /v1 and the Ollama API under /api, answering
+ * with another provider, the mock by default. Tests point the real providers at it to
+ * exercise their HTTP handling, streaming, retries and health checks without a network.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LLMMessage, LLMProvider } from './llmProvider.js';
+import { MockLLMProvider } from './mockProvider.js';
+
+export interface LLMStandInOptions {
+  /** Writes the replies; a MockLLMProvider by default */
+  provider: LLMProvider;
+  /** Model names the Ollama API lists as pulled */
+  ollamaModels: string[];
+  /** Wait before answering, e.g. to trigger timeouts */
+  delayMs: number;
+}
+
+export interface LLMStandInRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body?: any;
+}
+
+export interface LLMStandIn {
+  /** Root URL, e.g. http://127.0.0.1:54321; OpenAI clients use `${url}/v1` */
+  url: string;
+  /** Every request received, oldest first */
+  requests: LLMStandInRequest[];
+  /** Answer the next requests with an error status instead */
+  failNext(count: number, status?: number): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a stand-in on a free local port
+ */
+export async function startLLMStandIn(options: Partial<LLMStandInOptions> = {}): Promise<LLMStandIn> {
+  const { provider = new MockLLMProvider(), ollamaModels = ['llama2:latest'], delayMs = 0 } = options;
+  const requests: LLMStandInRequest[] = [];
+  const failures: number[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    const path = (req.url ?? '/').split('?')[0];
+    const body = raw ? JSON.parse(raw) : undefined;
+    requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+    const failure = failures.shift();
+    if (failure !== undefined) {
+      res.writeHead(failure, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `stand-in failure ${failure}` }));
+      return;
+    }
+
+    try {
+      await route(req.method ?? 'GET', path, body, res);
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  async function route(method: string, path: string, body: any, res: http.ServerResponse): Promise<void> {
+    const messages: LLMMessage[] = body?.messages ?? [];
+
+    if (method === 'GET' && path.startsWith('/v1/models/')) {
+      sendJson(res, { id: decodeURIComponent(path.slice('/v1/models/'.length)), object: 'model' });
+    } else if (method === 'GET' && path === '/api/tags') {
+      sendJson(res, { models: ollamaModels.map(name => ({ name })) });
+    } else if (method === 'POST' && path === '/v1/chat/completions') {
+      if (!body.stream) {
+        const { content } = await provider.complete({ messages });
+        sendJson(res, { choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      await provider.stream({ messages }, text => {
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: text } }] })}\n\n`);
+      });
+      res.end('data: [DONE]\n\n');
+    } else if (method === 'POST' && path === '/api/chat') {
+      if (!body.stream) {
+        const { content } = await provider.complete({ messages });
+        sendJson(res, { model: body.model, message: { role: 'assistant', content }, done: true });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      await provider.stream({ messages }, text => {
+        res.write(`${JSON.stringify({ model: body.model, message: { role: 'assistant', content: text }, done: false })}\n`);
+      });
+      res.end(`${JSON.stringify({ model: body.model, message: { role: 'assistant', content: '' }, done: true })}\n`);
+    } else {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `no route for ${method} ${path}` }));
+    }
+  }
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    failNext: (count, status = 503) => failures.push(...Array(count).fill(status)),
+    close: () => new Promise((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    }),
+  };
+}
+
+function sendJson(res: http.ServerResponse, data: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
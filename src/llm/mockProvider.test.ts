@@ -0,0 +1,40 @@
+/**
+ * Tests for the deterministic mock provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { MockLLMProvider } from './mockProvider.js';
+
+describe('MockLLMProvider', () => {
+  const provider = new MockLLMProvider([{ keyword: 'Salary', reply: 'Know your market rate.' }]);
+
+  it('should pick replies by keyword and echo other messages', async () => {
+    const ask = async (content: string) => (await provider.complete({ messages: [{ role: 'user', content }] })).content;
+
+    expect(await ask('How do I negotiate my salary?')).toBe('Know your market rate.');
+    expect(await ask('Hello')).toBe('You said: Hello');
+    expect((await provider.checkHealth()).status).toBe('ok');
+  });
+
+  it('should stream the same reply it completes', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.string(), async content => {
+        const request = { messages: [{ role: 'user' as const, content }] };
+        const chunks: string[] = [];
+
+        const streamed = await provider.stream(request, text => chunks.push(text));
+
+        expect(streamed).toEqual(await provider.complete(request));
+        expect(chunks.join('')).toBe(streamed.content.trimEnd());
+      })
+    );
+  });
+
+  it('should stop when the request is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(provider.complete({ messages: [], signal: controller.signal })).rejects.toThrow('mock: request cancelled');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Deterministic provider for tests and demos: the same messages always get the same reply
+ */
+
+import { LLMProviderError } from '../utils/errorHandling.js';
+import {
+  DEFAULT_LLM_PROVIDER_CONFIG,
+  LLMCompletion,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  ProviderHealth
+} from './llmProvider.js';
+
+export interface MockReply {
+  /** Picks the reply when the last user message contains it, ignoring case */
+  keyword: string;
+  reply: string;
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly config: LLMProviderConfig;
+  private replies: MockReply[];
+
+  /**
+   * @param replies - Tried in order; other messages are echoed back
+   */
+  constructor(replies: MockReply[] = [], config: Partial<LLMProviderConfig> = {}) {
+    this.replies = replies;
+    this.config = { ...DEFAULT_LLM_PROVIDER_CONFIG, model: 'mock', ...config };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    if (request.signal?.aborted) {
+      throw new LLMProviderError(this.name, 'request cancelled', undefined, false);
+    }
+    return { content: this.replyTo(request), provider: this.name, model: this.config.model };
+  }
+
+  /**
+   * Hands the reply over word by word
+   */
+  async stream(request: LLMRequest, onChunk: (text: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    for (const word of completion.content.match(/\s*\S+/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new LLMProviderError(this.name, 'request cancelled', undefined, false);
+      }
+      onChunk(word);
+    }
+    return completion;
+  }
+
+  async checkHealth(): Promise<ProviderHealth> {
+    return { provider: this.name, model: this.config.model, status: 'ok', latencyMs: 0 };
+  }
+
+  private replyTo(request: LLMRequest): string {
+    const message = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const lower = message.toLowerCase();
+    const match = this.replies.find(reply => lower.includes(reply.keyword.toLowerCase()));
+    return match ? match.reply : `You said: ${message}`;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Tests for the Ollama provider, against the local stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OllamaProvider } from './ollamaProvider.js';
+import { LLMStandIn, startLLMStandIn } from './llmStandIn.js';
+
+const messages = [{ role: 'user' as const, content: 'I feel stuck' }];
+
+describe('OllamaProvider', () => {
+  let standIn: LLMStandIn;
+  let provider: OllamaProvider;
+
+  beforeEach(async () => {
+    standIn = await startLLMStandIn({ ollamaModels: ['llama3:8b', 'llama2:latest'] });
+    provider = new OllamaProvider({ temperature: 0.2, maxTokens: 300, retry: { delayMs: 1 } }, standIn.url);
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should send the conversation with the configured options', async () => {
+    expect(await provider.complete({ messages })).toEqual({ content: 'You said: I feel stuck', provider: 'ollama', model: 'llama2' });
+    expect(standIn.requests[0].path).toBe('/api/chat');
+    expect(standIn.requests[0].body).toEqual({
+      model: 'llama2',
+      messages,
+      stream: false,
+      options: { temperature: 0.2, num_predict: 300 },
+    });
+  });
+
+  it('should stream a reply line by line and retry before it starts', async () => {
+    standIn.failNext(1, 500);
+    const chunks: string[] = [];
+
+    const completion = await provider.stream({ messages }, text => chunks.push(text));
+
+    expect(chunks.join('')).toBe('You said: I feel stuck');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(completion.content).toBe('You said: I feel stuck');
+    expect(standIn.requests).toHaveLength(2);
+  });
+
+  it('should only be healthy once its model is pulled', async () => {
+    expect((await provider.checkHealth()).status).toBe('ok');
+    expect((await new OllamaProvider({ model: 'llama3:8b' }, standIn.url).checkHealth()).status).toBe('ok');
+
+    const missing = await new OllamaProvider({ model: 'mistral' }, standIn.url).checkHealth();
+    expect(missing).toMatchObject({
+      provider: 'ollama',
+      model: 'mistral',
+      status: 'unavailable',
+      error: 'ollama: model mistral is not pulled; run "ollama pull mistral"',
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Ollama provider, for models running on the user's own machine
+ */
+
+import { LLMProviderError } from '../utils/errorHandling.js';
+import {
+  DEFAULT_LLM_PROVIDER_CONFIG,
+  LLMCompletion,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  ProviderHealth,
+  callProvider,
+  ensureOk,
+  probeProvider,
+  readLines
+} from './llmProvider.js';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = 'llama2';
+
+interface OllamaChatReply {
+  message?: { content: string };
+  done: boolean;
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly config: LLMProviderConfig;
+  private baseUrl: string;
+
+  constructor(config: Partial<LLMProviderConfig> = {}, baseUrl: string = DEFAULT_OLLAMA_BASE_URL) {
+    this.config = { ...DEFAULT_LLM_PROVIDER_CONFIG, model: DEFAULT_OLLAMA_MODEL, ...config };
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    return callProvider(this, request.signal, async signal => {
+      const response = await ensureOk(this, await this.post(request, false, signal));
+      const data = await response.json() as OllamaChatReply;
+      return this.completion(data.message?.content ?? '');
+    });
+  }
+
+  async stream(request: LLMRequest, onChunk: (text: string) => void): Promise<LLMCompletion> {
+    let content = '';
+    return callProvider(this, request.signal, async signal => {
+      const response = await ensureOk(this, await this.post(request, true, signal));
+      // One JSON object per line, the last one marked done
+      for await (const line of readLines(response)) {
+        const data = JSON.parse(line) as OllamaChatReply;
+        if (data.message?.content) {
+          content += data.message.content;
+          onChunk(data.message.content);
+        }
+        if (data.done) {
+          break;
+        }
+      }
+      return this.completion(content);
+    }, () => content !== '');
+  }
+
+  /**
+   * Ollama is only healthy when the model has been pulled
+   */
+  async checkHealth(): Promise<ProviderHealth> {
+    return probeProvider(this, async signal => {
+      const response = await ensureOk(this, await fetch(`${this.baseUrl}/api/tags`, { signal }));
+      const { models = [] } = await response.json() as { models?: { name: string }[] };
+      const wanted = this.config.model.includes(':') ? this.config.model : `${this.config.model}:latest`;
+      if (!models.some(model => model.name === wanted)) {
+        throw new LLMProviderError(this.name, `model ${this.config.model} is not pulled; run "ollama pull ${this.config.model}"`);
+      }
+    });
+  }
+
+  private post(request: LLMRequest, stream: boolean, signal: AbortSignal) {
+    return fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        stream,
+        options: { temperature: this.config.temperature, num_predict: this.config.maxTokens }
+      }),
+      signal
+    });
+  }
+
+  private completion(content: string): LLMCompletion {
+    return { content, provider: this.name, model: this.config.model };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the OpenAI provider, against the local stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OpenAIProvider } from './openAIProvider.js';
+import { MockLLMProvider } from './mockProvider.js';
+import { LLMStandIn, startLLMStandIn } from './llmStandIn.js';
+import { LLMProviderError } from '../utils/errorHandling.js';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a coach.' },
+  { role: 'user' as const, content: 'How do I ask for a raise?' },
+];
+
+describe('OpenAIProvider', () => {
+  let standIn: LLMStandIn;
+  let provider: OpenAIProvider;
+
+  beforeEach(async () => {
+    standIn = await startLLMStandIn({
+      provider: new MockLLMProvider([{ keyword: 'raise', reply: 'List your wins first.' }]),
+    });
+    provider = new OpenAIProvider('sk-test', { model: 'gpt-4', maxTokens: 200, retry: { delayMs: 1 } }, `${standIn.url}/v1/`);
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should send the configured model, temperature and max tokens', async () => {
+    const completion = await provider.complete({ messages });
+
+    expect(completion).toEqual({ content: 'List your wins first.', provider: 'openai', model: 'gpt-4' });
+    expect(standIn.requests[0].path).toBe('/v1/chat/completions');
+    expect(standIn.requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(standIn.requests[0].body).toEqual({ model: 'gpt-4', messages, temperature: 0.7, max_tokens: 200, stream: false });
+  });
+
+  it('should stream a reply piece by piece', async () => {
+    const chunks: string[] = [];
+
+    const completion = await provider.stream({ messages }, text => chunks.push(text));
+
+    expect(chunks).toEqual(['List', ' your', ' wins', ' first.']);
+    expect(completion.content).toBe('List your wins first.');
+    expect(standIn.requests[0].body.stream).toBe(true);
+  });
+
+  it('should retry server errors but not refusals', async () => {
+    standIn.failNext(1, 503);
+    expect((await provider.complete({ messages })).content).toBe('List your wins first.');
+    expect(standIn.requests).toHaveLength(2);
+
+    standIn.failNext(1, 401);
+    const error = await provider.complete({ messages }).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.message).toMatch(/^openai: HTTP 401/);
+    expect(error.context).toEqual({ provider: 'openai', status: 401 });
+    expect(standIn.requests).toHaveLength(3);
+  });
+
+  it('should give up on replies that take too long, and on cancelled requests', async () => {
+    const slow = await startLLMStandIn({ delayMs: 200 });
+    try {
+      const impatient = new OpenAIProvider('sk-test', { timeoutMs: 50, retry: { maxAttempts: 1 } }, `${slow.url}/v1`);
+      await expect(impatient.complete({ messages })).rejects.toThrow('openai: no reply within 50 ms');
+
+      const controller = new AbortController();
+      const cancelled = impatient.complete({ messages, signal: controller.signal });
+      controller.abort();
+      await expect(cancelled).rejects.toMatchObject({ message: 'openai: request cancelled', recoverable: false });
+    } finally {
+      await slow.close();
+    }
+  });
+
+  it('should report its health', async () => {
+    expect(await provider.checkHealth()).toMatchObject({ provider: 'openai', model: 'gpt-4', status: 'ok' });
+    expect(standIn.requests[0].path).toBe('/v1/models/gpt-4');
+
+    standIn.failNext(1, 401);
+    expect(await provider.checkHealth()).toMatchObject({ status: 'unavailable', error: expect.stringMatching(/HTTP 401/) });
+
+    const closed = await startLLMStandIn();
+    await closed.close();
+    const unreachable = new OpenAIProvider('sk-test', {}, `${closed.url}/v1`);
+    expect(await unreachable.checkHealth()).toMatchObject({ status: 'unavailable', error: expect.stringContaining('ECONNREFUSED') });
+  });
+});
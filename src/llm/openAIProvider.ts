@@ -0,0 +1,95 @@
+/**
+ * OpenAI chat completions provider
+ * Speaks the chat completions API over HTTP, so any compatible server can stand in for it.
+ */
+
+import {
+  DEFAULT_LLM_PROVIDER_CONFIG,
+  LLMCompletion,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  ProviderHealth,
+  callProvider,
+  ensureOk,
+  probeProvider,
+  readLines
+} from './llmProvider.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-3.5-turbo';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly config: LLMProviderConfig;
+  private apiKey: string;
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl - Root of the API, up to and including /v1
+   */
+  constructor(apiKey: string, config: Partial<LLMProviderConfig> = {}, baseUrl: string = DEFAULT_OPENAI_BASE_URL) {
+    this.apiKey = apiKey;
+    this.config = { ...DEFAULT_LLM_PROVIDER_CONFIG, model: DEFAULT_OPENAI_MODEL, ...config };
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    return callProvider(this, request.signal, async signal => {
+      const response = await ensureOk(this, await this.post(request, false, signal));
+      const data = await response.json() as { choices: { message: { content: string | null } }[] };
+      return this.completion(data.choices[0]?.message.content ?? '');
+    });
+  }
+
+  async stream(request: LLMRequest, onChunk: (text: string) => void): Promise<LLMCompletion> {
+    let content = '';
+    return callProvider(this, request.signal, async signal => {
+      const response = await ensureOk(this, await this.post(request, true, signal));
+      // Server-sent events: "data: {...}" lines, then "data: [DONE]"
+      for await (const line of readLines(response)) {
+        const data = line.replace(/^data:\s*/, '');
+        if (data === '[DONE]') {
+          break;
+        }
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const text = (JSON.parse(data) as { choices: { delta: { content?: string } }[] }).choices[0]?.delta.content;
+        if (text) {
+          content += text;
+          onChunk(text);
+        }
+      }
+      return this.completion(content);
+    }, () => content !== '');
+  }
+
+  async checkHealth(): Promise<ProviderHealth> {
+    return probeProvider(this, async signal => {
+      await ensureOk(this, await fetch(`${this.baseUrl}/models/${encodeURIComponent(this.config.model)}`, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        signal
+      }));
+    });
+  }
+
+  private post(request: LLMRequest, stream: boolean, signal: AbortSignal) {
+    return fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.apiKey}` },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens,
+        stream
+      }),
+      signal
+    });
+  }
+
+  private completion(content: string): LLMCompletion {
+    return { content, provider: this.name, model: this.config.model };
+  }
+}
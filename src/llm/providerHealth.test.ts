@@ -0,0 +1,72 @@
+/**
+ * Tests for cached provider health
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MockLLMProvider } from './mockProvider.js';
+import { ProviderHealthMonitor } from './providerHealth.js';
+
+function createProvider(name: string, status: 'ok' | 'unavailable'): MockLLMProvider {
+  const provider = new MockLLMProvider([], { model: name });
+  vi.spyOn(provider, 'checkHealth').mockImplementation(async () => ({
+    provider: name,
+    model: name,
+    status,
+    latencyMs: 1,
+    ...(status === 'unavailable' ? { error: 'connection refused' } : {}),
+  }));
+  return provider;
+}
+
+describe('ProviderHealthMonitor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should skip providers that failed their last check and keep unchecked ones', async () => {
+    const openai = createProvider('openai', 'ok');
+    const ollama = createProvider('ollama', 'unavailable');
+    const monitor = new ProviderHealthMonitor([openai, ollama]);
+
+    expect(monitor.getHealth()).toEqual([]);
+    expect(monitor.getCheckedAt()).toBeNull();
+    expect(monitor.getAvailableProviders()).toEqual([openai, ollama]);
+
+    await monitor.refresh();
+
+    expect(monitor.getHealth().map(h => [h.provider, h.status])).toEqual([['openai', 'ok'], ['ollama', 'unavailable']]);
+    expect(monitor.getCheckedAt()).toBeInstanceOf(Date);
+    expect(monitor.getAvailableProviders()).toEqual([openai]);
+  });
+
+  it('should check at start and on its interval, not when health is read', async () => {
+    vi.useFakeTimers();
+    const provider = createProvider('openai', 'ok');
+    const onCheck = vi.fn();
+    const monitor = new ProviderHealthMonitor([provider], { intervalMs: 1000, onCheck });
+
+    monitor.start();
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    for (let i = 0; i < 10; i++) {
+      monitor.getHealth();
+    }
+    await vi.advanceTimersByTimeAsync(2000);
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(provider.checkHealth).toHaveBeenCalledTimes(3);
+    expect(onCheck).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share a check that is already in progress', async () => {
+    const provider = createProvider('openai', 'ok');
+    const monitor = new ProviderHealthMonitor([provider]);
+
+    const [first, second] = await Promise.all([monitor.refresh(), monitor.refresh()]);
+
+    expect(first).toBe(second);
+    expect(provider.checkHealth).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Cached health of language model providers
+ * A health check can cost a paid request, so checks run on an interval and
+ * health probes read the last results.
+ */
+
+import { LLMProvider, ProviderHealth } from './llmProvider.js';
+
+export interface ProviderHealthMonitorOptions {
+  intervalMs: number;
+  /** Called with the results of every check */
+  onCheck?: (health: ProviderHealth[]) => void;
+}
+
+const DEFAULT_PROVIDER_HEALTH_MONITOR_OPTIONS: ProviderHealthMonitorOptions = {
+  intervalMs: 5 * 60 * 1000,
+};
+
+/**
+ * Checks providers at start and on a fixed interval, and keeps the last results
+ * Checks never overlap; asking for one while one is going returns that check
+ */
+export class ProviderHealthMonitor {
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<ProviderHealth[]> | null = null;
+  private latest: Map<LLMProvider, ProviderHealth> = new Map();
+  private checkedAt: Date | null = null;
+  private options: ProviderHealthMonitorOptions;
+
+  constructor(
+    private providers: LLMProvider[],
+    options: Partial<ProviderHealthMonitorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_PROVIDER_HEALTH_MONITOR_OPTIONS, ...options };
+  }
+
+  /**
+   * Checks every provider right away and then on the configured interval
+   * The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.checkScheduled(), this.options.intervalMs);
+    this.timer.unref();
+    this.checkScheduled();
+  }
+
+  /**
+   * Stops scheduling checks; a check already in progress finishes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Checks every provider immediately, or joins the check in progress
+   */
+  refresh(): Promise<ProviderHealth[]> {
+    if (!this.checking) {
+      this.checking = Promise.all(this.providers.map(async provider => {
+        const health = await provider.checkHealth();
+        this.latest.set(provider, health);
+        return health;
+      }))
+        .then(health => {
+          this.checkedAt = new Date();
+          return health;
+        })
+        .finally(() => {
+          this.checking = null;
+        });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Results of the last check, in provider order; providers not checked yet are left out
+   */
+  getHealth(): ProviderHealth[] {
+    return this.providers
+      .map(provider => this.latest.get(provider))
+      .filter((health): health is ProviderHealth => health !== undefined);
+  }
+
+  /**
+   * When the last check finished, or null before the first one
+   */
+  getCheckedAt(): Date | null {
+    return this.checkedAt;
+  }
+
+  /**
+   * Providers worth sending requests to, in order: those that passed their last check
+   * or have not been checked yet
+   */
+  getAvailableProviders(): LLMProvider[] {
+    return this.providers.filter(provider => this.latest.get(provider)?.status !== 'unavailable');
+  }
+
+  private checkScheduled(): void {
+    this.refresh().then(health => this.options.onCheck?.(health));
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Tests for conversation memory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationMemory } from './conversationMemory.js';
+import { InMemoryDataStore } from '../persistence/dataStore.js';
+import { Message } from '../models/index.js';
+
+function createMessages(...contents: string[]): Message[] {
+  return contents.map((content, index) => ({
+    id: `msg_${index}`,
+    sender: index % 2 === 0 ? 'user' : 'system',
+    content,
+    timestamp: new Date(),
+  }));
+}
+
+describe('ConversationMemory', () => {
+  it('should summarize a session only once enough new messages came in', async () => {
+    const dataStore = new InMemoryDataStore();
+    const memory = new ConversationMemory(dataStore, { summarizeEvery: 4 });
+    const messages = createMessages("I'm a designer at an agency", 'Tell me more', 'I will build a portfolio site');
+
+    expect(await memory.summarizeIfDue('user-1', 's1', messages)).toBeNull();
+
+    messages.push(...createMessages('Sounds good'));
+    const note = await memory.summarizeIfDue('user-1', 's1', messages);
+    expect(note).toMatchObject({
+      id: 'memory_s1',
+      messageCount: 4,
+      keyFacts: ["I'm a designer at an agency"],
+      commitments: ['I will build a portfolio site'],
+    });
+    expect(await memory.summarizeIfDue('user-1', 's1', messages)).toBeNull();
+    expect(await dataStore.getMemoryNotes('user-1')).toHaveLength(1);
+  });
+
+  it('should keep what was noted before when summarizing in parts', async () => {
+    const dataStore = new InMemoryDataStore();
+    const memory = new ConversationMemory(dataStore);
+
+    await memory.summarizeSession('user-1', 's1', createMessages("I've decided to leave retail"));
+    const note = await memory.summarizeSession('user-1', 's1', createMessages('Should I learn SQL first?'));
+
+    expect(note?.decisions).toEqual(["I've decided to leave retail"]);
+    expect(note?.openQuestions).toEqual(['Should I learn SQL first?']);
+    expect(await memory.summarizeSession('user-1', 's2', createMessages('ok'))).toBeNull();
+  });
+
+  it('should recall notes of other sessions for recaps and prompts', async () => {
+    const dataStore = new InMemoryDataStore();
+    const memory = new ConversationMemory(dataStore);
+    await memory.summarizeSession('user-1', 's1', createMessages("I'll apply to three jobs this week"));
+
+    expect(await memory.recap('user-1', 'Hi again', { excludeSessionId: 's1' })).toBe('');
+    expect(await memory.recap('user-1', 'Hi again', { excludeSessionId: 's2' }))
+      .toBe('Last time, you told me "I\'ll apply to three jobs this week".');
+    expect(await memory.promptContext('user-1', 'Hi again')).toContain("- Commitments: I'll apply to three jobs this week");
+    expect(await memory.promptContext('user-2', 'Hi again')).toBe('');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Conversation memory
+ * Keeps durable per-user notes of earlier sessions in the data store and recalls
+ * the ones that bear on a new message.
+ */
+
+import { MemoryNote, Message } from '../models/index.js';
+import { DataStore } from '../persistence/dataStore.js';
+import {
+  DEFAULT_MAX_NOTE_ITEMS,
+  MemoryNoteContent,
+  emptyNoteContent,
+  formatMemoryForPrompt,
+  hasNoteContent,
+  mergeNoteContent,
+  recapMemory,
+  selectRelevantNotes,
+  summarizeConversation
+} from './conversationSummarizer.js';
+
+export interface MemoryConfig {
+  /** New messages a session needs before it is summarized again */
+  summarizeEvery: number;
+  /** Notes recalled for a response or a prompt */
+  recallLimit: number;
+  /** Items kept per section of a note */
+  maxNoteItems: number;
+}
+
+export const DEFAULT_MEMORY_CONFIG: MemoryConfig = {
+  summarizeEvery: 10,
+  recallLimit: 3,
+  maxNoteItems: DEFAULT_MAX_NOTE_ITEMS,
+};
+
+export interface RecallOptions {
+  /** Leave out the note of this session, e.g. the one being continued */
+  excludeSessionId?: string;
+}
+
+/**
+ * ConversationMemory summarizes sessions into one note each and recalls them
+ * in later sessions, for coach responses and language model prompts.
+ */
+export class ConversationMemory {
+  private dataStore: DataStore;
+  private config: MemoryConfig;
+
+  constructor(dataStore: DataStore, config: Partial<MemoryConfig> = {}) {
+    this.dataStore = dataStore;
+    this.config = { ...DEFAULT_MEMORY_CONFIG, ...config };
+  }
+
+  /**
+   * Summarize messages of a session into its note
+   * What was noted before is kept, so messages can also be summarized in parts,
+   * e.g. before they are dropped from a prompt.
+   * @returns The saved note, or null when there is nothing worth remembering yet
+   */
+  async summarizeSession(userId: string, sessionId: string, messages: Message[]): Promise<MemoryNote | null> {
+    const existing = await this.findSessionNote(userId, sessionId);
+    const earlier: MemoryNoteContent = existing ?? emptyNoteContent();
+    const content = mergeNoteContent(earlier, summarizeConversation(messages, this.config.maxNoteItems), this.config.maxNoteItems);
+    if (!hasNoteContent(content)) {
+      return null;
+    }
+
+    const note: MemoryNote = {
+      id: `memory_${sessionId}`,
+      userId,
+      sessionId,
+      summarizedAt: new Date(),
+      messageCount: Math.max(messages.length, existing?.messageCount ?? 0),
+      ...content,
+    };
+    await this.dataStore.saveMemoryNote(note);
+    return note;
+  }
+
+  /**
+   * Summarize a session when enough messages came in since it was last summarized
+   * @param messages - Every message of the session so far
+   * @returns The saved note, or null when no summary was due or there was nothing to note
+   */
+  async summarizeIfDue(userId: string, sessionId: string, messages: Message[]): Promise<MemoryNote | null> {
+    const existing = await this.findSessionNote(userId, sessionId);
+    if (messages.length - (existing?.messageCount ?? 0) < this.config.summarizeEvery) {
+      return null;
+    }
+    return this.summarizeSession(userId, sessionId, messages);
+  }
+
+  /**
+   * Notes of earlier sessions that bear on a message, most relevant first
+   */
+  async recall(userId: string, message: string, options: RecallOptions = {}): Promise<MemoryNote[]> {
+    const notes = (await this.dataStore.getMemoryNotes(userId))
+      .filter(note => note.sessionId !== options.excludeSessionId);
+    return selectRelevantNotes(notes, message, this.config.recallLimit);
+  }
+
+  /**
+   * A reminder of earlier sessions to open a response with, or an empty string
+   */
+  async recap(userId: string, message: string, options: RecallOptions = {}): Promise<string> {
+    return recapMemory(await this.recall(userId, message, options));
+  }
+
+  /**
+   * Relevant notes as a section of a language model's system prompt, or an empty string
+   */
+  async promptContext(userId: string, message: string): Promise<string> {
+    return formatMemoryForPrompt(await this.recall(userId, message));
+  }
+
+  private async findSessionNote(userId: string, sessionId: string): Promise<MemoryNote | null> {
+    const notes = await this.dataStore.getMemoryNotes(userId);
+    return notes.find(note => note.sessionId === sessionId) ?? null;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for conversation summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatMemoryForPrompt,
+  mergeNoteContent,
+  recapMemory,
+  selectRelevantNotes,
+  summarizeConversation
+} from './conversationSummarizer.js';
+import { MemoryNote, Message } from '../models/index.js';
+
+function userMessage(content: string, sender: Message['sender'] = 'user'): Message {
+  return { id: `msg_${content.length}`, sender, content, timestamp: new Date('2026-01-01T10:00:00Z') };
+}
+
+function createNote(overrides: Partial<MemoryNote> = {}): MemoryNote {
+  return {
+    id: 'memory_s1',
+    userId: 'user-1',
+    sessionId: 's1',
+    summarizedAt: new Date('2026-01-01T10:00:00Z'),
+    messageCount: 4,
+    keyFacts: [],
+    decisions: [],
+    commitments: [],
+    openQuestions: [],
+    topics: [],
+    ...overrides,
+  };
+}
+
+describe('summarizeConversation', () => {
+  it('should sort the user\'s sentences into facts, decisions, commitments and questions', () => {
+    const content = summarizeConversation([
+      userMessage("I'm a nurse with seven years on the ward. I've decided to move into health informatics."),
+      userMessage('What kind of work would you suggest?', 'system'),
+      userMessage("I'll take an SQL course this month. How long does the switch usually take?"),
+      userMessage('Thanks so much'),
+    ]);
+
+    expect(content.keyFacts).toEqual(["I'm a nurse with seven years on the ward"]);
+    expect(content.decisions).toEqual(["I've decided to move into health informatics"]);
+    expect(content.commitments).toEqual(["I'll take an SQL course this month"]);
+    expect(content.openQuestions).toEqual(['How long does the switch usually take?']);
+  });
+
+  it('should never keep sentences about suicide or self-harm', () => {
+    const content = summarizeConversation([
+      userMessage("I'm a teacher. I want to kill myself. I will apply to two schools"),
+    ]);
+
+    expect(content.keyFacts).toEqual(["I'm a teacher"]);
+    expect(content.commitments).toEqual(['I will apply to two schools']);
+    expect(JSON.stringify(content)).not.toContain('kill');
+  });
+});
+
+describe('mergeNoteContent', () => {
+  it('should keep repeats once and the most recent items of each section', () => {
+    const earlier = { ...summarizeConversation([]), commitments: ['I will update my CV', 'I will call Sam'] };
+    const later = { ...summarizeConversation([]), commitments: ['i will update my CV', 'I will read a book'] };
+
+    expect(mergeNoteContent(earlier, later, 2).commitments).toEqual(['i will update my CV', 'I will read a book']);
+  });
+});
+
+describe('selectRelevantNotes', () => {
+  it('should rank notes by shared topics, then by recency, and skip empty ones', () => {
+    const older = createNote({ id: 'a', sessionId: 'a', topics: ['transition_guidance'], decisions: ['I decided to switch'] });
+    const newer = createNote({ id: 'b', sessionId: 'b', summarizedAt: new Date('2026-02-01'), keyFacts: ['I am a nurse'] });
+    const empty = createNote({ id: 'c', sessionId: 'c', topics: ['transition_guidance'] });
+
+    const selected = selectRelevantNotes([older, newer, empty], 'I want to change careers', 3);
+    expect(selected.map(note => note.id)).toEqual(['a', 'b']);
+    expect(selectRelevantNotes([older, newer], 'Hello', 1).map(note => note.id)).toEqual(['b']);
+  });
+});
+
+describe('recapMemory', () => {
+  it('should remind users of what they said and asked', () => {
+    const note = createNote({
+      decisions: ["I've decided to move into informatics"],
+      commitments: ["I'll take an SQL course"],
+      openQuestions: ['How long does the switch take?'],
+    });
+
+    expect(recapMemory([note])).toBe(
+      'Last time, you told me "I\'ve decided to move into informatics" and "I\'ll take an SQL course". ' +
+      'You also asked "How long does the switch take"; we can come back to that.'
+    );
+    expect(recapMemory([createNote({ keyFacts: ['I am a nurse'] })])).toBe('');
+  });
+});
+
+describe('formatMemoryForPrompt', () => {
+  it('should write out the non-empty sections of each note', () => {
+    const prompt = formatMemoryForPrompt([
+      createNote({ keyFacts: ['I am a nurse', 'I live in Leeds'], commitments: ['I will apply'] }),
+    ]);
+
+    expect(prompt).toBe([
+      'What you remember about this user from earlier conversations (their own words):',
+      '',
+      'Conversation of 2026-01-01:',
+      '- Key facts: I am a nurse | I live in Leeds',
+      '- Commitments: I will apply',
+    ].join('\n'));
+    expect(formatMemoryForPrompt([createNote()])).toBe('');
+  });
+});
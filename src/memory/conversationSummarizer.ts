@@ -0,0 +1,186 @@
+/**
+ * Conversation summaries
+ * Picks out what is worth remembering from a conversation: what users say about
+ * themselves, what they decide and commit to, and the questions they raise.
+ */
+
+import { Intent, MemoryNote, Message } from '../models/index.js';
+import { DEFAULT_INTENT_THRESHOLD, recognizeIntents } from '../intent/intentRecognizer.js';
+import { getIntentTopics } from '../intent/intentContext.js';
+import { detectCrisis } from '../intent/crisisDetector.js';
+
+/**
+ * The remembered parts of a memory note
+ */
+export type MemoryNoteContent = Pick<MemoryNote, 'keyFacts' | 'decisions' | 'commitments' | 'openQuestions' | 'topics'>;
+
+/**
+ * Items kept per section of a note by default
+ */
+export const DEFAULT_MAX_NOTE_ITEMS = 5;
+
+/**
+ * Longest sentence kept word for word; longer ones are cut
+ */
+const MAX_ITEM_LENGTH = 200;
+
+/**
+ * Sentences shorter than this say too little to remember
+ */
+const MIN_ITEM_WORDS = 3;
+
+const DECISION_PATTERN = /\b(?:i(?:'ve| have)? decided|i(?:'ll| will) go with|i'?m going with|i(?:'ve)? chosen|i chose|let'?s go with|my decision is)\b/i;
+const COMMITMENT_PATTERN = /\b(?:i(?:'ll| will)|i'?m going to|i am going to|i plan to|i'?m planning to|i promise to|i commit to)\b/i;
+const FACT_PATTERN = /^(?:i'?m|i am|i work|i'?ve been|i have been|i have|i'?ve got|i studied|i graduated|i live|my)\b/i;
+
+/**
+ * Summarizes a conversation into the parts worth remembering
+ * Only the user's own sentences are kept, word for word; those that speak of suicide or
+ * self-harm never are.
+ * @param maxItems - Items kept per section, the most recent ones
+ */
+export function summarizeConversation(messages: Message[], maxItems: number = DEFAULT_MAX_NOTE_ITEMS): MemoryNoteContent {
+  const content = emptyNoteContent();
+
+  for (const message of messages.filter(m => m.sender === 'user')) {
+    for (const sentence of splitSentences(message.content)) {
+      if (sentence.split(/\s+/).length < MIN_ITEM_WORDS || detectCrisis(sentence)) {
+        continue;
+      }
+      if (sentence.endsWith('?')) {
+        content.openQuestions.push(sentence);
+      } else if (DECISION_PATTERN.test(sentence)) {
+        content.decisions.push(sentence);
+      } else if (COMMITMENT_PATTERN.test(sentence)) {
+        content.commitments.push(sentence);
+      } else if (FACT_PATTERN.test(sentence)) {
+        content.keyFacts.push(sentence);
+      }
+    }
+    content.topics.push(...topicsOf(message.content));
+  }
+
+  // Merging into nothing drops repeats and keeps the most recent items
+  return mergeNoteContent(emptyNoteContent(), content, maxItems);
+}
+
+export function emptyNoteContent(): MemoryNoteContent {
+  return { keyFacts: [], decisions: [], commitments: [], openQuestions: [], topics: [] };
+}
+
+/**
+ * Adds newer findings to those of an earlier summary
+ * Repeats are kept once, at their latest position; each section keeps its most recent items
+ */
+export function mergeNoteContent(
+  earlier: MemoryNoteContent,
+  later: MemoryNoteContent,
+  maxItems: number = DEFAULT_MAX_NOTE_ITEMS
+): MemoryNoteContent {
+  const merge = (a: string[], b: string[]) => latestUnique([...a, ...b]).slice(-maxItems);
+  return {
+    keyFacts: merge(earlier.keyFacts, later.keyFacts),
+    decisions: merge(earlier.decisions, later.decisions),
+    commitments: merge(earlier.commitments, later.commitments),
+    openQuestions: merge(earlier.openQuestions, later.openQuestions),
+    topics: latestUnique([...earlier.topics, ...later.topics]),
+  };
+}
+
+/**
+ * Whether a note holds anything beyond its topics
+ */
+export function hasNoteContent(content: MemoryNoteContent): boolean {
+  return content.keyFacts.length + content.decisions.length + content.commitments.length + content.openQuestions.length > 0;
+}
+
+/**
+ * Topics of a message: the intent types it is confidently about, their career fields and skills
+ */
+export function topicsOf(message: string): string[] {
+  const intents: Intent[] = recognizeIntents(message).filter(intent => intent.confidence >= DEFAULT_INTENT_THRESHOLD);
+  return latestUnique(intents.flatMap(intent => [intent.type, ...getIntentTopics(intent)]));
+}
+
+/**
+ * Picks the notes that bear on a message
+ * Notes sharing more topics with the message come first, then the most recent
+ */
+export function selectRelevantNotes(notes: MemoryNote[], message: string, limit: number): MemoryNote[] {
+  const topics = new Set(topicsOf(message).map(topic => topic.toLowerCase()));
+  const overlap = (note: MemoryNote) => note.topics.filter(topic => topics.has(topic.toLowerCase())).length;
+
+  return notes
+    .filter(hasNoteContent)
+    .map(note => ({ note, score: overlap(note) }))
+    .sort((a, b) => b.score - a.score || b.note.summarizedAt.getTime() - a.note.summarizedAt.getTime())
+    .slice(0, limit)
+    .map(({ note }) => note);
+}
+
+/**
+ * A short reminder of earlier conversations to open a response with
+ * @returns The reminder, or an empty string when the notes hold no decisions, commitments or questions
+ */
+export function recapMemory(notes: MemoryNote[]): string {
+  const said = [...notes.flatMap(note => note.decisions), ...notes.flatMap(note => note.commitments)].slice(0, 2);
+  const [question] = notes.flatMap(note => note.openQuestions);
+
+  const parts: string[] = [];
+  if (said.length > 0) {
+    parts.push(`Last time, you told me ${said.map(quote).join(' and ')}.`);
+  }
+  if (question) {
+    parts.push(`You also asked ${quote(question)}; we can come back to that.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Notes written out for the system prompt of a language model
+ * @returns The notes as a prompt section, or an empty string when there are none
+ */
+export function formatMemoryForPrompt(notes: MemoryNote[]): string {
+  const sections: [string, keyof MemoryNoteContent][] = [
+    ['Key facts', 'keyFacts'],
+    ['Decisions', 'decisions'],
+    ['Commitments', 'commitments'],
+    ['Open questions', 'openQuestions'],
+  ];
+
+  const blocks = notes.filter(hasNoteContent).map(note => {
+    const lines = sections
+      .filter(([, key]) => note[key].length > 0)
+      .map(([label, key]) => `- ${label}: ${note[key].join(' | ')}`);
+    return [`Conversation of ${note.summarizedAt.toISOString().slice(0, 10)}:`, ...lines].join('\n');
+  });
+
+  return blocks.length > 0
+    ? `What you remember about this user from earlier conversations (their own words):\n\n${blocks.join('\n\n')}`
+    : '';
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim().replace(/[.!]+$/, ''))
+    .filter(sentence => sentence.length > 0)
+    .map(sentence => sentence.length > MAX_ITEM_LENGTH ? `${sentence.slice(0, MAX_ITEM_LENGTH - 1)}…` : sentence);
+}
+
+function latestUnique(items: string[]): string[] {
+  const seen = new Set<string>();
+  const kept: string[] = [];
+  for (const item of [...items].reverse()) {
+    const key = item.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      kept.unshift(item);
+    }
+  }
+  return kept;
+}
+
+function quote(sentence: string): string {
+  return `"${sentence.replace(/[.!?]+$/, '')}"`;
+}
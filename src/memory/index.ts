@@ -0,0 +1,6 @@
+/**
+ * Export conversation memory components
+ */
+
+export * from './conversationSummarizer.js';
+export * from './conversationMemory.js';
@@ -2,6 +2,8 @@
  * Core data models for WorkLife AI Coach
  */
 
+import { Language } from '../i18n/languages.js';
+
 export interface UserProfile {
   userId: string;
   personalInfo: {
@@ -32,6 +34,8 @@ export interface UserProfile {
     milestones: Milestone[];
     lastUpdated: Date;
   };
+  /** Stored revision, set by the data store; saving an older revision fails */
+  version?: number;
 }
 
 export interface Goal {
@@ -60,6 +64,27 @@ export interface Session {
   startTime: Date;
   lastActivity: Date;
   context: SessionContext;
+  /** Reasons a person should look at this session, oldest first */
+  reviewFlags?: SessionReviewFlag[];
+}
+
+/**
+ * A message that needs a person's attention, such as a statement of self-harm
+ */
+export interface SessionReviewFlag {
+  reason: 'crisis';
+  messageId: string;
+  /** What was detected, e.g. the crisis categories */
+  details: string[];
+  flaggedAt: Date;
+}
+
+/**
+ * A review flag as kept by the data store, with the session it was raised in
+ */
+export interface ReviewFlagRecord extends SessionReviewFlag {
+  userId: string;
+  sessionId: string;
 }
 
 export interface SessionContext {
@@ -67,6 +92,27 @@ export interface SessionContext {
   currentIntent: Intent;
   activeTopics: string[];
   pendingActions: ActionStep[];
+  /** Coaching flow the session is going through, if any */
+  flow?: FlowProgress;
+}
+
+/**
+ * Answer given in a coaching flow: text, a choice's value, "yes" or "no", or a number on a scale
+ */
+export type FlowAnswer = string | number;
+
+/**
+ * Where a session stands in a coaching flow
+ */
+export interface FlowProgress {
+  flowId: string;
+  /** State whose prompt the user is answering */
+  state: string;
+  /** Answers saved so far, by the name the flow saves them as */
+  answers: Record<string, FlowAnswer>;
+  /** Answers to the current prompt that could not be understood */
+  attempts: number;
+  startedAt: Date;
 }
 
 export interface Message {
@@ -76,12 +122,36 @@ export interface Message {
   timestamp: Date;
 }
 
+/**
+ * What the coach keeps of a conversation once it has been summarized
+ * One note per session, replaced as the session is summarized again
+ */
+export interface MemoryNote {
+  id: string;
+  userId: string;
+  sessionId: string;
+  summarizedAt: Date;
+  /** Messages of the session the note covers, counted from its start */
+  messageCount: number;
+  /** What the user said about themselves */
+  keyFacts: string[];
+  decisions: string[];
+  /** What the user said they would do */
+  commitments: string[];
+  /** Questions still to be answered */
+  openQuestions: string[];
+  /** Intent types and topics the conversation was about */
+  topics: string[];
+}
+
 export interface Intent {
   type: 'profile_building' | 'career_clarity' | 'skill_guidance' | 
         'action_planning' | 'mindset_support' | 'growth_planning' | 
         'transition_guidance' | 'progress_check';
   confidence: number;
   entities: Record<string, any>;
+  /** Language the message was written in */
+  language?: Language;
 }
 
 export interface Milestone {
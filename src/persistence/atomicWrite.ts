@@ -0,0 +1,50 @@
+/**
+ * Crash-safe file writes for disk-backed data stores
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Writes data to a file atomically
+ * The content goes to a temporary sibling file which is flushed to disk and
+ * then renamed over the target, so readers only ever see the old or the new
+ * version even if the process dies mid-write.
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  const dir = path.dirname(filePath);
+  await fs.mkdir(dir, { recursive: true });
+
+  const tempPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).substr(2, 9)}.tmp`
+  );
+
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  // Flush the directory entry so the rename itself survives a crash.
+  // Not every platform allows opening a directory, so this is best effort.
+  try {
+    const dirHandle = await fs.open(dir, 'r');
+    try {
+      await dirHandle.sync();
+    } finally {
+      await dirHandle.close();
+    }
+  } catch {
+    // Ignore - the data file itself is already durable
+  }
+}
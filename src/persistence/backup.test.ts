@@ -0,0 +1,191 @@
+/**
+ * Tests for data store backup and restore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { InMemoryDataStore } from './dataStore.js';
+import { FileDataStore } from './fileDataStore.js';
+import { SqliteDataStore } from './sqliteDataStore.js';
+import {
+  createBackup,
+  restoreBackup,
+  writeBackupFile,
+  readBackupFile,
+  openDataStore,
+  closeDataStore,
+  BACKUP_FORMAT
+} from './backup.js';
+import { ConversationEncryption } from './encryption.js';
+import { DataIntegrityError, EncryptionError } from '../utils/errorHandling.js';
+import { UserProfile, Message } from '../models/core.js';
+
+function createProfile(userId: string): UserProfile {
+  return {
+    userId,
+    personalInfo: { age: 31, currentRole: 'Teacher', yearsOfExperience: 8, education: 'MEd' },
+    careerInfo: {
+      goals: [{ id: 'goal-1', description: 'Move into instructional design', type: 'long_term', priority: 1 }],
+      interests: ['learning design'],
+      struggles: [],
+    },
+    skills: { current: [{ name: 'curriculum design', level: 7, category: 'education' }], learning: [], target: [] },
+    mindset: { confidenceLevel: 0.5, motivationLevel: 0.8, primaryConcerns: ['pay cut'] },
+    progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+  };
+}
+
+function createMessages(prefix: string): Message[] {
+  return [
+    { id: `${prefix}-1`, sender: 'user', content: 'Is it too late to switch?', timestamp: new Date('2026-10-02T09:00:00.000Z') },
+    { id: `${prefix}-2`, sender: 'system', content: 'Not at all', timestamp: new Date('2026-10-02T09:01:00.000Z') },
+  ];
+}
+
+async function seed(store: InMemoryDataStore): Promise<void> {
+  for (const userId of ['user-1', 'user-2']) {
+    await store.saveUserProfile(createProfile(userId));
+    store.associateSessionWithUser(`session-${userId}`, userId);
+    await store.saveConversation(`session-${userId}`, createMessages(userId));
+    await store.trackActionCompletion(userId, 'action-1');
+    await store.saveMemoryNote({
+      id: `memory_session-${userId}`,
+      userId,
+      sessionId: `session-${userId}`,
+      summarizedAt: new Date('2026-10-02T09:05:00.000Z'),
+      messageCount: 2,
+      keyFacts: [],
+      decisions: [],
+      commitments: [],
+      openQuestions: ['Is it too late to switch?'],
+      topics: ['transition_guidance'],
+    });
+    await store.saveReviewFlag({
+      reason: 'crisis',
+      messageId: `${userId}-1`,
+      details: ['suicidal_ideation'],
+      flaggedAt: new Date('2026-10-02T09:00:00.000Z'),
+      userId,
+      sessionId: `session-${userId}`,
+    });
+  }
+}
+
+describe('Data Store Backup', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-backup-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should carry every user from memory to a file store to SQLite unchanged', async () => {
+    const memory = new InMemoryDataStore();
+    await seed(memory);
+    const backupPath = path.join(tempDir, 'memory.json.gz');
+    await writeBackupFile(backupPath, await createBackup(memory));
+
+    const file = new FileDataStore(path.join(tempDir, 'data.json'));
+    const toFile = await restoreBackup(await readBackupFile(backupPath), file);
+    expect(toFile.restoredUsers).toEqual(['user-1', 'user-2']);
+    expect(toFile.skipped).toEqual([]);
+
+    const sqlite = await SqliteDataStore.open(path.join(tempDir, 'data.sqlite'));
+    await restoreBackup(await createBackup(file), sqlite);
+
+    for (const userId of ['user-1', 'user-2']) {
+      const { exportedAt: _original, ...expected } = await memory.exportUserData(userId);
+      const { exportedAt: _restored, ...actual } = await sqlite.exportUserData(userId);
+      expect(actual).toEqual(expected);
+    }
+    expect(await sqlite.getUserProfileAsOf('user-1', new Date('2026-09-01T00:00:00.000Z'))).toBeNull();
+    await sqlite.close();
+  });
+
+  it('should encrypt backups with the master key and read them with any key of the keyring', async () => {
+    const memory = new InMemoryDataStore();
+    await seed(memory);
+    const oldKey = { id: 'key-1', key: randomBytes(32) };
+    const backupPath = path.join(tempDir, 'sealed.json.gz');
+    await writeBackupFile(backupPath, await createBackup(memory), new ConversationEncryption({ activeKeyId: 'key-1', keys: [oldKey] }));
+
+    const stored = gunzipSync(await fs.readFile(backupPath)).toString('utf8');
+    expect(stored).not.toContain('Is it too late to switch?');
+    expect(stored).not.toContain('Teacher');
+    await expect(readBackupFile(backupPath)).rejects.toThrow(EncryptionError);
+    await expect(readBackupFile(backupPath, new ConversationEncryption({
+      activeKeyId: 'key-2',
+      keys: [{ id: 'key-2', key: randomBytes(32) }],
+    }))).rejects.toThrow('Master key key-1 is not available');
+
+    const rotated = new ConversationEncryption({ activeKeyId: 'key-2', keys: [{ id: 'key-2', key: randomBytes(32) }, oldKey] });
+    const backup = await readBackupFile(backupPath, rotated);
+    expect(backup.users.map(user => user.userId)).toEqual(['user-1', 'user-2']);
+    expect(backup.users[0].conversations[0].messages[0].content).toBe('Is it too late to switch?');
+  });
+
+  it('should skip invalid records and report them', async () => {
+    const memory = new InMemoryDataStore();
+    await seed(memory);
+    const backup = JSON.parse(JSON.stringify(await createBackup(memory)));
+
+    backup.users[0].profile.personalInfo.yearsOfExperience = -3;
+    backup.users[1].conversations[0].messages[1].sender = 'robot';
+    backup.users[1].progressEvents.push({ type: 'skill_level_changed', skill: 'design', level: 42, sequence: 2, occurredAt: new Date() });
+    backup.users[1].profileSnapshots.push({ sequence: 0, savedAt: new Date(), profile: { userId: 'someone-else' } });
+    backup.users[1].memoryNotes.push({ id: 'memory_broken', sessionId: 'session-x', keyFacts: 'not a list' });
+
+    const target = new InMemoryDataStore();
+    const report = await restoreBackup(backup, target);
+
+    expect(report.restoredUsers).toEqual(['user-2']);
+    expect(report.skipped.map(r => [r.userId, r.kind])).toEqual([
+      ['user-1', 'user'],
+      ['user-2', 'profile_snapshot'],
+      ['user-2', 'message'],
+      ['user-2', 'progress_event'],
+      ['user-2', 'memory_note'],
+    ]);
+    expect(await target.getUserProfile('user-1')).toBeNull();
+    expect(await target.getConversationHistory('user-2')).toHaveLength(1);
+    expect(await target.getProgressEvents('user-2')).toHaveLength(1);
+    expect(await target.getMemoryNotes('user-2')).toHaveLength(1);
+  });
+
+  it('should only validate on a dry run', async () => {
+    const memory = new InMemoryDataStore();
+    await seed(memory);
+    const target = new InMemoryDataStore();
+
+    const report = await restoreBackup(await createBackup(memory), target, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.restoredUsers).toHaveLength(2);
+    expect(await target.listUserIds()).toEqual([]);
+  });
+
+  it('should reject files that are not a supported backup', async () => {
+    const notGzip = path.join(tempDir, 'plain.json');
+    await fs.writeFile(notGzip, '{}');
+    await expect(readBackupFile(notGzip)).rejects.toThrow(DataIntegrityError);
+
+    const future = path.join(tempDir, 'future.json.gz');
+    await fs.writeFile(future, gzipSync(JSON.stringify({ format: BACKUP_FORMAT, version: 99, users: [] })));
+    await expect(readBackupFile(future)).rejects.toThrow('Unsupported backup version 99');
+  });
+
+  it('should open stores from a spec', async () => {
+    expect(await openDataStore('memory')).toBeInstanceOf(InMemoryDataStore);
+    const sqlite = await openDataStore(`sqlite:${path.join(tempDir, 'spec.sqlite')}`);
+    expect(sqlite).toBeInstanceOf(SqliteDataStore);
+    await closeDataStore(sqlite);
+    await expect(openDataStore('postgres:db')).rejects.toThrow('Unknown data store');
+  });
+});
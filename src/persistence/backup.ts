@@ -0,0 +1,440 @@
+/**
+ * Backup and restore of whole data stores
+ * A backup holds the export of every user and is written as gzip-compressed
+ * JSON, so it can be restored into any DataStore implementation. With a master
+ * key configured the compressed backup is encrypted before it is written.
+ */
+
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { Message, UserProfile } from '../models/core.js';
+import { DataIntegrityError, EncryptionError, validateDataIntegrity } from '../utils/errorHandling.js';
+import { validateUserProfile } from '../utils/validation.js';
+import { DataStore, InMemoryDataStore, AnalysisKind } from './dataStore.js';
+import { FileDataStore } from './fileDataStore.js';
+import { SqliteDataStore } from './sqliteDataStore.js';
+import { ConversationEncryption, DataStoreOptions } from './encryption.js';
+import { UserDataArchive, UserConversation, USER_DATA_ARCHIVE_FORMAT, USER_DATA_ARCHIVE_VERSION } from './userData.js';
+import { ProgressEvent, ProfileSnapshot, validateProgressEvent } from './progressEvents.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import {
+  reviveUserProfile,
+  reviveMessages,
+  reviveProgressEvents,
+  reviveProfileSnapshots,
+  reviveGrowthPlanVersions,
+  reviveAnalysisRecord,
+  reviveMemoryNotes,
+  reviveReviewFlags
+} from './serialization.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const BACKUP_FORMAT = 'worklife-backup';
+export const BACKUP_VERSION = 1;
+
+const ANALYSIS_KINDS: AnalysisKind[] = ['transition_plan', 'in_role_growth'];
+
+/**
+ * What an encrypted backup is bound to
+ */
+const SEALED_BACKUP_CONTEXT = BACKUP_FORMAT;
+
+/**
+ * Everything held in a data store, as one document
+ */
+export interface DataStoreBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: Date;
+  users: UserDataArchive[];
+}
+
+export type BackupRecordKind =
+  | 'user'
+  | 'profile_snapshot'
+  | 'conversation'
+  | 'message'
+  | 'progress_event'
+  | 'growth_plan'
+  | 'analysis'
+  | 'memory_note'
+  | 'review_flag';
+
+/**
+ * A record left out of a restore, and why
+ */
+export interface SkippedRecord {
+  userId: string;
+  kind: BackupRecordKind;
+  id?: string;
+  reason: string;
+}
+
+/**
+ * Outcome of restoring (or checking) a backup
+ */
+export interface RestoreReport {
+  dryRun: boolean;
+  restoredUsers: string[];
+  restoredRecords: number;
+  skipped: SkippedRecord[];
+}
+
+/**
+ * Opens a data store from a spec such as `file:./data.json` or `sqlite:./data.sqlite`
+ * `memory` opens an empty in-memory store
+ */
+export async function openDataStore(spec: string, options: DataStoreOptions = {}): Promise<DataStore> {
+  const separator = spec.indexOf(':');
+  const kind = separator === -1 ? spec : spec.slice(0, separator);
+  const location = separator === -1 ? '' : spec.slice(separator + 1);
+
+  if (kind === 'memory') {
+    return new InMemoryDataStore(options);
+  }
+  if (!location) {
+    throw new Error(`Data store spec "${spec}" needs a path, e.g. ${kind}:./data/worklife`);
+  }
+  if (kind === 'file') {
+    return new FileDataStore(location, options);
+  }
+  if (kind === 'sqlite') {
+    return SqliteDataStore.open(location, options);
+  }
+
+  throw new Error(`Unknown data store "${kind}"; use memory, file:<path> or sqlite:<path>`);
+}
+
+/**
+ * Waits for a disk-backed store to finish writing and releases it
+ */
+export async function closeDataStore(dataStore: DataStore): Promise<void> {
+  if (dataStore instanceof SqliteDataStore) {
+    await dataStore.close();
+  } else if (dataStore instanceof FileDataStore) {
+    await dataStore.flush();
+  }
+}
+
+/**
+ * Exports every user of a data store into a backup
+ */
+export async function createBackup(dataStore: DataStore): Promise<DataStoreBackup> {
+  const users: UserDataArchive[] = [];
+  for (const userId of await dataStore.listUserIds()) {
+    users.push(await dataStore.exportUserData(userId));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date(),
+    users,
+  };
+}
+
+/**
+ * Writes a backup as gzip-compressed JSON, atomically
+ * @param encryption - When given, the backup is encrypted and only its format and version stay readable
+ */
+export async function writeBackupFile(
+  filePath: string,
+  backup: DataStoreBackup,
+  encryption?: ConversationEncryption
+): Promise<void> {
+  const compressed = await gzipAsync(JSON.stringify(backup));
+  if (!encryption) {
+    await writeFileAtomic(filePath, compressed);
+    return;
+  }
+
+  const sealed = encryption.encryptDocument(compressed, SEALED_BACKUP_CONTEXT);
+  await writeFileAtomic(filePath, await gzipAsync(JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    sealed,
+  })));
+}
+
+/**
+ * Reads a backup file and checks its format and version
+ * User records are validated later, when they are restored
+ * @param encryption - Decrypts backups written with a master key
+ */
+export async function readBackupFile(filePath: string, encryption?: ConversationEncryption): Promise<DataStoreBackup> {
+  let backup = await readCompressedJson(filePath, await fs.readFile(filePath));
+
+  if (backup && backup.format === BACKUP_FORMAT && backup.sealed) {
+    if (!encryption) {
+      throw new EncryptionError(`Backup file ${filePath} is encrypted; set WORKLIFE_MASTER_KEY to read it`, { filePath });
+    }
+    backup = await readCompressedJson(filePath, encryption.decryptDocument(backup.sealed, SEALED_BACKUP_CONTEXT));
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new DataIntegrityError(`File ${filePath} is not a WorkLife backup`, { filePath });
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    throw new DataIntegrityError(`Unsupported backup version ${backup.version} in ${filePath}`, {
+      filePath,
+      version: backup.version
+    });
+  }
+  if (!Array.isArray(backup.users)) {
+    throw new DataIntegrityError(`Backup file ${filePath} has no user list`, { filePath });
+  }
+
+  return { ...backup, createdAt: new Date(backup.createdAt) };
+}
+
+async function readCompressedJson(filePath: string, compressed: Buffer): Promise<any> {
+  try {
+    return JSON.parse((await gunzipAsync(compressed)).toString('utf8'));
+  } catch (error) {
+    throw new DataIntegrityError(`Backup file ${filePath} is not a compressed JSON backup`, { filePath });
+  }
+}
+
+/**
+ * Restores every valid user of a backup into a data store
+ * Invalid records are skipped and reported; a user whose profile is invalid
+ * is skipped entirely. Existing data of a restored user is replaced.
+ * @param options.dryRun - Only validate, without writing anything
+ */
+export async function restoreBackup(
+  backup: DataStoreBackup,
+  dataStore: DataStore,
+  options: { dryRun?: boolean } = {}
+): Promise<RestoreReport> {
+  const report: RestoreReport = {
+    dryRun: options.dryRun === true,
+    restoredUsers: [],
+    restoredRecords: 0,
+    skipped: [],
+  };
+
+  for (const raw of backup.users) {
+    const { archive, skipped } = validateUserArchive(raw);
+    report.skipped.push(...skipped);
+    if (!archive) {
+      continue;
+    }
+
+    if (!report.dryRun) {
+      try {
+        await dataStore.importUserData(archive);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        report.skipped.push({ userId: archive.userId, kind: 'user', reason });
+        continue;
+      }
+    }
+
+    report.restoredUsers.push(archive.userId);
+    report.restoredRecords += countRecords(archive);
+  }
+
+  return report;
+}
+
+/**
+ * Validates one user's archive as read from a backup
+ * Works on parsed JSON as well as on archives straight from exportUserData
+ * @returns The archive with only its valid records, or null when the user must be skipped
+ */
+export function validateUserArchive(raw: any): { archive: UserDataArchive | null; skipped: SkippedRecord[] } {
+  const skipped: SkippedRecord[] = [];
+  const userId = raw && typeof raw.userId === 'string' ? raw.userId : '';
+
+  if (!userId.trim()) {
+    return { archive: null, skipped: [{ userId, kind: 'user', reason: 'User ID must be a non-empty string' }] };
+  }
+
+  const skip = (kind: BackupRecordKind, id: string | undefined, reason: string) => {
+    skipped.push({ userId, kind, id, reason });
+  };
+
+  let profile: UserProfile | null = null;
+  if (raw.profile) {
+    const problem = checkProfile(raw.profile, userId);
+    if (problem) {
+      skip('user', userId, `Profile is invalid: ${problem}`);
+      return { archive: null, skipped };
+    }
+    profile = reviveUserProfile(JSON.parse(JSON.stringify(raw.profile)));
+  }
+
+  const profileSnapshots: ProfileSnapshot[] = [];
+  for (const [index, snapshot] of listOf(raw.profileSnapshots).entries()) {
+    const problem = !snapshot || !isCount(snapshot.sequence) || !isDate(snapshot.savedAt)
+      ? 'Snapshot needs a sequence and a save date'
+      : checkProfile(snapshot.profile, userId);
+    if (problem) {
+      skip('profile_snapshot', String(index), problem);
+      continue;
+    }
+    profileSnapshots.push(reviveProfileSnapshots(JSON.parse(JSON.stringify([snapshot])))[0]);
+  }
+
+  const conversations: UserConversation[] = [];
+  for (const conversation of listOf(raw.conversations)) {
+    if (!conversation || typeof conversation.sessionId !== 'string' || !conversation.sessionId.trim()) {
+      skip('conversation', undefined, 'Conversation needs a session ID');
+      continue;
+    }
+
+    const messages: Message[] = [];
+    for (const message of listOf(conversation.messages)) {
+      if (!message || typeof message.id !== 'string' || !['user', 'system'].includes(message.sender) ||
+          typeof message.content !== 'string' || !isDate(message.timestamp)) {
+        skip('message', message && typeof message.id === 'string' ? message.id : undefined,
+          'Message needs an id, a sender of user or system, text content and a timestamp');
+        continue;
+      }
+      messages.push(reviveMessages([message])[0]);
+    }
+    conversations.push({ sessionId: conversation.sessionId, messages });
+  }
+
+  const progressEvents: ProgressEvent[] = [];
+  const sequences = new Set<number>();
+  for (const event of listOf(raw.progressEvents)) {
+    const id = event && event.sequence !== undefined ? String(event.sequence) : undefined;
+    const errors = event ? validateProgressEvent(event) : [];
+    if (!event || !isCount(event.sequence) || event.sequence === 0 || !isDate(event.occurredAt)) {
+      skip('progress_event', id, 'Event needs a positive sequence and a date');
+    } else if (errors.length > 0) {
+      skip('progress_event', id, errors[0].message);
+    } else if (sequences.has(event.sequence)) {
+      skip('progress_event', id, `Sequence ${event.sequence} appears more than once`);
+    } else {
+      sequences.add(event.sequence);
+      progressEvents.push({ ...reviveProgressEvents([event])[0], userId });
+    }
+  }
+
+  const growthPlans = [];
+  for (const version of listOf(raw.growthPlans)) {
+    if (!version || !isCount(version.version) || !isDate(version.savedAt) || !version.plan || typeof version.plan.id !== 'string') {
+      skip('growth_plan', version && version.version !== undefined ? String(version.version) : undefined,
+        'Growth plan version needs a version number, a save date and a plan with an id');
+      continue;
+    }
+    growthPlans.push(reviveGrowthPlanVersions(JSON.parse(JSON.stringify([version])))[0]);
+  }
+
+  const analyses = [];
+  for (const record of listOf(raw.analyses)) {
+    const id = record && typeof record.id === 'string' ? record.id : undefined;
+    const problem = !record || !id || !ANALYSIS_KINDS.includes(record.kind) || !isDate(record.createdAt) || !record.result
+      ? `Analysis needs an id, a kind of ${ANALYSIS_KINDS.join(' or ')}, a date and a result`
+      : checkProfile(record.profileSnapshot, userId);
+    if (problem) {
+      skip('analysis', id, problem);
+      continue;
+    }
+    analyses.push(reviveAnalysisRecord({ ...JSON.parse(JSON.stringify(record)), userId }));
+  }
+
+  const memoryNotes = [];
+  for (const note of listOf(raw.memoryNotes)) {
+    const id = note && typeof note.id === 'string' ? note.id : undefined;
+    const lists = note ? [note.keyFacts, note.decisions, note.commitments, note.openQuestions, note.topics] : [];
+    if (!note || !id || typeof note.sessionId !== 'string' || !isDate(note.summarizedAt) || !isCount(note.messageCount) ||
+        !lists.every(list => Array.isArray(list) && list.every((item: unknown) => typeof item === 'string'))) {
+      skip('memory_note', id, 'Memory note needs an id, a session ID, a date, a message count and lists of text');
+      continue;
+    }
+    memoryNotes.push({ ...reviveMemoryNotes(JSON.parse(JSON.stringify([note])))[0], userId });
+  }
+
+  const reviewFlags = [];
+  for (const flag of listOf(raw.reviewFlags)) {
+    const id = flag && typeof flag.messageId === 'string' ? flag.messageId : undefined;
+    if (!flag || !id || flag.reason !== 'crisis' || typeof flag.sessionId !== 'string' || !isDate(flag.flaggedAt) ||
+        !Array.isArray(flag.details) || !flag.details.every((item: unknown) => typeof item === 'string')) {
+      skip('review_flag', id, 'Review flag needs a message ID, a reason, a session ID, a date and a list of details');
+      continue;
+    }
+    reviewFlags.push({ ...reviveReviewFlags(JSON.parse(JSON.stringify([flag])))[0], userId });
+  }
+
+  return {
+    archive: {
+      format: USER_DATA_ARCHIVE_FORMAT,
+      version: USER_DATA_ARCHIVE_VERSION,
+      exportedAt: isDate(raw.exportedAt) ? new Date(raw.exportedAt) : new Date(),
+      userId,
+      profile,
+      profileSnapshots,
+      conversations,
+      progressEvents,
+      growthPlans,
+      analyses,
+      memoryNotes,
+      reviewFlags,
+    },
+    skipped,
+  };
+}
+
+/**
+ * Runs the same checks saveUserProfile does
+ * @returns The first problem found, or null for a valid profile
+ */
+function checkProfile(raw: any, userId: string): string | null {
+  if (!raw || typeof raw !== 'object') {
+    return 'Profile is missing';
+  }
+
+  let profile: UserProfile;
+  try {
+    profile = reviveUserProfile(JSON.parse(JSON.stringify(raw)));
+  } catch (error) {
+    return 'Profile is malformed';
+  }
+
+  if (profile.userId !== userId) {
+    return `Profile belongs to ${profile.userId}, not ${userId}`;
+  }
+
+  const errors = validateUserProfile(profile);
+  if (errors.length > 0) {
+    return errors[0].message;
+  }
+
+  try {
+    validateDataIntegrity(profile);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  return null;
+}
+
+function countRecords(archive: UserDataArchive): number {
+  return (archive.profile ? 1 : 0) +
+    archive.profileSnapshots.length +
+    archive.conversations.reduce((total, c) => total + c.messages.length, 0) +
+    archive.progressEvents.length +
+    archive.growthPlans.length +
+    archive.analyses.length +
+    archive.memoryNotes.length +
+    archive.reviewFlags.length;
+}
+
+function listOf(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isDate(value: unknown): boolean {
+  return (typeof value === 'string' || typeof value === 'number' || value instanceof Date) &&
+    !isNaN(new Date(value).getTime());
+}
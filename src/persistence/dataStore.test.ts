@@ -2,17 +2,36 @@
  * Property-based tests for data persistence
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { InMemoryDataStore } from './dataStore.js';
-import { UserProfile, Goal, Challenge, Skill, Milestone } from '../models/core.js';
-import { CareerPath } from '../models/recommendations.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataStore, InMemoryDataStore } from './dataStore.js';
+import { FileDataStore } from './fileDataStore.js';
+import { SqliteDataStore } from './sqliteDataStore.js';
+import { UserProfile, Goal, Challenge, Skill, Milestone, MemoryNote } from '../models/core.js';
+import { ConcurrentModificationError } from '../utils/errorHandling.js';
+import { CareerPath, GrowthPlan, TransitionPlan } from '../models/recommendations.js';
 
-describe('Data Persistence', () => {
-  let dataStore: InMemoryDataStore;
+const implementations: [string, (dir: string) => Promise<DataStore>][] = [
+  ['InMemoryDataStore', async () => new InMemoryDataStore()],
+  ['FileDataStore', async (dir) => new FileDataStore(path.join(dir, 'data.json'))],
+  ['SqliteDataStore', (dir) => SqliteDataStore.open(path.join(dir, 'data.sqlite'))],
+];
 
-  beforeEach(() => {
-    dataStore = new InMemoryDataStore();
+describe.each(implementations)('Data Persistence (%s)', (_name, createStore) => {
+  let dataStore: DataStore;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-store-'));
+    dataStore = await createStore(tempDir);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(tempDir, { recursive: true, force: true });
   });
 
   // Feature: worklife-ai-coach, Property 3: Profile data persistence
@@ -140,4 +159,360 @@ describe('Data Persistence', () => {
       { numRuns: 100, timeout: 30000 }
     );
   }, 30000);
+
+  it('should keep every saved growth plan version and return the latest as active', async () => {
+    const plan: GrowthPlan = {
+      id: 'plan-1',
+      userId: 'user-1',
+      careerPath: {
+        id: 'path-1',
+        title: 'Data Analyst',
+        description: 'Analyze data',
+        reasoning: 'Likes numbers',
+        fitScore: 0.8,
+        requiredSkills: ['sql'],
+        timeToTransition: '6 months',
+        growthPotential: 0.7,
+      },
+      timeline: '6 months',
+      phases: [{
+        name: 'Foundation',
+        duration: '0-3 months',
+        objectives: ['Learn SQL'],
+        skills: ['sql'],
+        actions: [{
+          id: 'a-1',
+          description: 'Learn SQL',
+          timeframe: 'this_month',
+          category: 'learning',
+          completed: false,
+          dueDate: new Date('2026-11-01T00:00:00.000Z'),
+        }],
+      }],
+      milestones: [{
+        id: 'm-1',
+        title: 'SQL basics',
+        description: 'Finish SQL basics',
+        targetDate: new Date('2026-12-01T00:00:00.000Z'),
+        completed: false,
+      }],
+      createdAt: new Date('2026-10-01T00:00:00.000Z'),
+      lastUpdated: new Date('2026-10-01T00:00:00.000Z'),
+    };
+
+    expect(await dataStore.getActiveGrowthPlan('user-1')).toBeNull();
+
+    const first = await dataStore.saveGrowthPlan(plan);
+    const second = await dataStore.saveGrowthPlan({
+      ...plan,
+      milestones: [{ ...plan.milestones[0], completed: true, completedDate: new Date('2026-11-20T00:00:00.000Z') }],
+      lastUpdated: new Date('2026-11-20T00:00:00.000Z'),
+    });
+
+    expect(first.version).toBe(1);
+    expect(second.version).toBe(2);
+
+    const active = await dataStore.getActiveGrowthPlan('user-1');
+    expect(active!.milestones[0].completed).toBe(true);
+    expect(active!.milestones[0].completedDate).toBeInstanceOf(Date);
+    expect(active!.phases[0].actions[0].dueDate).toBeInstanceOf(Date);
+    expect(active!.createdAt.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+
+    const versions = await dataStore.getGrowthPlanVersions('user-1');
+    expect(versions.map(v => v.version)).toEqual([1, 2]);
+    expect(versions[0].plan.milestones[0].completed).toBe(false);
+    expect(versions[0].savedAt).toBeInstanceOf(Date);
+    expect(await dataStore.getGrowthPlanVersions('user-2')).toEqual([]);
+  });
+
+  it('should project progress from the event log and travel back in time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const profile: UserProfile = {
+      userId: 'user-1',
+      personalInfo: { age: 29, currentRole: 'Analyst', yearsOfExperience: 3, education: 'BSc' },
+      careerInfo: { goals: [], interests: ['data'], struggles: [] },
+      skills: { current: [{ name: 'SQL', level: 5, category: 'technical' }], learning: [], target: [] },
+      mindset: { confidenceLevel: 0.6, motivationLevel: 0.7, primaryConcerns: [] },
+      progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+    };
+
+    vi.setSystemTime(new Date('2026-10-01T09:00:00.000Z'));
+    await dataStore.saveUserProfile(profile);
+    vi.setSystemTime(new Date('2026-10-02T09:00:00.000Z'));
+    await dataStore.trackActionCompletion('user-1', 'action-1');
+    vi.setSystemTime(new Date('2026-10-03T09:00:00.000Z'));
+    await dataStore.appendProgressEvent('user-1', { type: 'skill_level_changed', skill: 'SQL', level: 8 });
+    vi.setSystemTime(new Date('2026-10-04T09:00:00.000Z'));
+    await dataStore.appendProgressEvent('user-1', { type: 'action_reopened', actionId: 'action-1' });
+
+    const current = await dataStore.getUserProfile('user-1');
+    expect(current!.progress.completedActions).toEqual([]);
+    expect(current!.skills.current[0].level).toBe(8);
+
+    const events = await dataStore.getProgressEvents('user-1');
+    expect(events.map(e => e.type)).toEqual(['action_completed', 'skill_level_changed', 'action_reopened']);
+    expect(events.map(e => e.sequence)).toEqual([1, 2, 3]);
+    expect(events[0].occurredAt).toEqual(new Date('2026-10-02T09:00:00.000Z'));
+
+    const asOfSecond = await dataStore.getUserProfileAsOf('user-1', new Date('2026-10-02T12:00:00.000Z'));
+    expect(asOfSecond!.progress.completedActions).toEqual(['action-1']);
+    expect(asOfSecond!.skills.current[0].level).toBe(5);
+    expect(await dataStore.getUserProfileAsOf('user-1', new Date('2026-09-30T00:00:00.000Z'))).toBeNull();
+
+    // Completions stay in the audit trail even after they are reopened
+    const history = await dataStore.getProgressHistory('user-1');
+    expect(history.map(e => e.actionId)).toEqual(['action-1']);
+
+    const replayed = await dataStore.replayUserProfile('user-1');
+    expect(replayed).toEqual(current);
+  });
+
+  it('should reject unknown progress events', async () => {
+    await expect(dataStore.appendProgressEvent('user-1', { type: 'action_deleted' } as any)).rejects.toThrow();
+    expect(await dataStore.getProgressEvents('user-1')).toEqual([]);
+  });
+
+  it('should reject profile saves based on a stale read', async () => {
+    const profile: UserProfile = {
+      userId: 'user-1',
+      personalInfo: { age: 33, currentRole: 'Nurse', yearsOfExperience: 9, education: 'BSN' },
+      careerInfo: { goals: [], interests: ['health tech'], struggles: [] },
+      skills: { current: [], learning: [], target: [] },
+      mindset: { confidenceLevel: 0.5, motivationLevel: 0.6, primaryConcerns: [] },
+      progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+    };
+
+    await dataStore.saveUserProfile(profile);
+    expect(profile.version).toBe(1);
+
+    // Two readers hold the same version; the second save must not overwrite the first
+    const formTab = (await dataStore.getUserProfile('user-1'))!;
+    const chatTab = (await dataStore.getUserProfile('user-1'))!;
+    formTab.personalInfo.currentRole = 'Clinical Informatics Nurse';
+    await dataStore.saveUserProfile(formTab);
+    expect(formTab.version).toBe(2);
+
+    chatTab.careerInfo.interests.push('data');
+    await expect(dataStore.saveUserProfile(chatTab)).rejects.toThrow(ConcurrentModificationError);
+    expect((await dataStore.getUserProfile('user-1'))!.personalInfo.currentRole).toBe('Clinical Informatics Nurse');
+
+    // Progress events move the version on, so a save read before a completion cannot drop it
+    await dataStore.trackActionCompletion('user-1', 'action-1');
+    await expect(dataStore.saveUserProfile(formTab)).rejects.toMatchObject({
+      code: 'CONCURRENT_MODIFICATION',
+      context: { entity: 'UserProfile', id: 'user-1', expectedVersion: 2, actualVersion: 3 },
+    });
+
+    // Saves without a version can only create a profile, not replace one
+    const { version: _version, ...unversioned } = formTab;
+    await expect(dataStore.saveUserProfile(unversioned)).rejects.toMatchObject({
+      context: { expectedVersion: 0, actualVersion: 3 },
+    });
+    expect((await dataStore.getUserProfile('user-1'))!.version).toBe(3);
+  });
+
+  it('should keep analysis records per user and kind with their profile snapshot', async () => {
+    const snapshot: UserProfile = {
+      userId: 'user-1',
+      personalInfo: { age: 33, currentRole: 'Marketing Manager', yearsOfExperience: 6 },
+      careerInfo: { goals: [], interests: ['analytics'], struggles: [] },
+      skills: { current: [], learning: [], target: [] },
+      mindset: { confidenceLevel: 0.6, motivationLevel: 0.8, primaryConcerns: [] },
+      progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-06T00:00:00.000Z') },
+    };
+    const plan: TransitionPlan = {
+      sourceField: 'marketing',
+      targetField: 'data science',
+      transferableSkills: ['communication'],
+      skillsToAcquire: [{ skill: 'python', priority: 1, reasoning: 'Core tool', learningResources: [], estimatedTime: '3 months', dependencies: [] }],
+      phases: [{
+        name: 'Foundation',
+        duration: '0-3 months',
+        focus: 'Learn the basics',
+        actions: [{
+          id: 'action-1',
+          description: 'Take a Python course',
+          timeframe: 'this_month',
+          category: 'learning',
+          completed: false,
+          dueDate: new Date('2026-11-01T00:00:00.000Z'),
+        }],
+        successCriteria: ['Finish one project'],
+      }],
+      estimatedDuration: '9-12 months',
+      difficultyLevel: 'moderate',
+      risks: [],
+      successFactors: [],
+    };
+
+    await dataStore.saveAnalysisRecord({
+      id: 'transition-1',
+      userId: 'user-1',
+      kind: 'transition_plan',
+      createdAt: new Date('2026-10-06T09:00:00.000Z'),
+      profileSnapshot: snapshot,
+      result: plan,
+    });
+    await dataStore.saveAnalysisRecord({
+      id: 'transition-2',
+      userId: 'user-1',
+      kind: 'transition_plan',
+      createdAt: new Date('2026-10-13T09:00:00.000Z'),
+      profileSnapshot: snapshot,
+      result: { ...plan, difficultyLevel: 'challenging' },
+    });
+    await dataStore.saveAnalysisRecord({
+      id: 'growth-1',
+      userId: 'user-1',
+      kind: 'in_role_growth',
+      createdAt: new Date('2026-10-07T09:00:00.000Z'),
+      profileSnapshot: snapshot,
+      result: {
+        scope: 'current_role_only',
+        opportunities: [],
+        skillRecommendations: [],
+        stagnationAssessment: null,
+        alternativePaths: [],
+      },
+    });
+
+    const transitions = await dataStore.getAnalysisRecords('user-1', 'transition_plan');
+    expect(transitions.map(r => r.id)).toEqual(['transition-1', 'transition-2']);
+    expect(transitions[1].result.difficultyLevel).toBe('challenging');
+    expect(transitions[0].createdAt).toBeInstanceOf(Date);
+    expect(transitions[0].profileSnapshot.progress.lastUpdated).toBeInstanceOf(Date);
+    expect(transitions[0].profileSnapshot.personalInfo.currentRole).toBe('Marketing Manager');
+    expect(transitions[0].result.phases[0].actions[0].dueDate).toBeInstanceOf(Date);
+    expect(transitions[0].result.phases[0].successCriteria).toEqual(['Finish one project']);
+
+    const growth = await dataStore.getAnalysisRecords('user-1', 'in_role_growth');
+    expect(growth.map(r => r.id)).toEqual(['growth-1']);
+    expect(await dataStore.getAnalysisRecords('user-2', 'transition_plan')).toEqual([]);
+  });
+
+  it('should keep one memory note per session, oldest first, and export and erase them with the user', async () => {
+    const note = (sessionId: string, summarizedAt: string, commitments: string[]): MemoryNote => ({
+      id: `memory_${sessionId}`,
+      userId: 'user-1',
+      sessionId,
+      summarizedAt: new Date(summarizedAt),
+      messageCount: 4,
+      keyFacts: ["I'm a nurse"],
+      decisions: [],
+      commitments,
+      openQuestions: [],
+      topics: ['transition_guidance'],
+    });
+
+    await dataStore.saveMemoryNote(note('session-2', '2026-10-09T09:00:00.000Z', ['I will apply']));
+    await dataStore.saveMemoryNote(note('session-1', '2026-10-02T09:00:00.000Z', ['I will read']));
+    await dataStore.saveMemoryNote(note('session-1', '2026-10-03T09:00:00.000Z', ['I will read', 'I will call Sam']));
+    await dataStore.saveMemoryNote({ ...note('session-3', '2026-10-04T09:00:00.000Z', []), id: 'memory_session-3', userId: 'user-2' });
+
+    const notes = await dataStore.getMemoryNotes('user-1');
+    expect(notes.map(n => n.sessionId)).toEqual(['session-1', 'session-2']);
+    expect(notes[0].commitments).toEqual(['I will read', 'I will call Sam']);
+    expect(notes[0].summarizedAt).toBeInstanceOf(Date);
+    expect((await dataStore.exportUserData('user-1')).memoryNotes).toEqual(notes);
+
+    await dataStore.deleteUserData('user-1');
+    expect(await dataStore.getMemoryNotes('user-1')).toEqual([]);
+    expect(await dataStore.getMemoryNotes('user-2')).toHaveLength(1);
+  });
+
+  it('should keep review flags of every user, oldest first, and export and erase them with the user', async () => {
+    const flag = (userId: string, sessionId: string, flaggedAt: string) => ({
+      reason: 'crisis' as const,
+      messageId: `msg-${sessionId}`,
+      details: ['self_harm'],
+      flaggedAt: new Date(flaggedAt),
+      userId,
+      sessionId,
+    });
+
+    await dataStore.saveReviewFlag(flag('user-1', 'session-2', '2026-10-09T09:00:00.000Z'));
+    await dataStore.saveReviewFlag(flag('user-2', 'session-3', '2026-10-05T09:00:00.000Z'));
+    await dataStore.saveReviewFlag(flag('user-1', 'session-1', '2026-10-02T09:00:00.000Z'));
+
+    const flags = await dataStore.getReviewFlags();
+    expect(flags.map(f => f.sessionId)).toEqual(['session-1', 'session-3', 'session-2']);
+    expect(flags[0].flaggedAt).toBeInstanceOf(Date);
+    expect((await dataStore.exportUserData('user-1')).reviewFlags.map(f => f.sessionId)).toEqual(['session-1', 'session-2']);
+    await expect(dataStore.saveReviewFlag({ ...flag('user-1', '', '2026-10-10T09:00:00.000Z') }))
+      .rejects.toThrow('Review flag must belong to a session');
+
+    await dataStore.deleteUserData('user-1');
+    expect((await dataStore.getReviewFlags()).map(f => f.userId)).toEqual(['user-2']);
+  });
+
+  it('should export everything about a user and erase it without touching other users', async () => {
+    const createUser = (userId: string): UserProfile => ({
+      userId,
+      personalInfo: { age: 29, currentRole: 'Analyst', yearsOfExperience: 3, education: 'BSc' },
+      careerInfo: { goals: [], interests: ['data'], struggles: [] },
+      skills: { current: [{ name: 'SQL', level: 5, category: 'technical' }], learning: [], target: [] },
+      mindset: { confidenceLevel: 0.6, motivationLevel: 0.7, primaryConcerns: [] },
+      progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+    });
+    const message = (id: string) => ({
+      id,
+      sender: 'user' as const,
+      content: `Message ${id}`,
+      timestamp: new Date('2026-10-02T09:00:00.000Z'),
+    });
+
+    for (const userId of ['user-1', 'user-2']) {
+      await dataStore.saveUserProfile(createUser(userId));
+      (dataStore as any).associateSessionWithUser(`session-${userId}`, userId);
+      await dataStore.saveConversation(`session-${userId}`, [message(`${userId}-m1`), message(`${userId}-m2`)]);
+      await dataStore.trackActionCompletion(userId, 'action-1');
+    }
+
+    const archive = await dataStore.exportUserData('user-1');
+    expect(archive.format).toBe('worklife-user-data');
+    expect(archive.userId).toBe('user-1');
+    expect(archive.profile!.progress.completedActions).toEqual(['action-1']);
+    expect(archive.profileSnapshots).toHaveLength(1);
+    expect(archive.conversations).toEqual([
+      { sessionId: 'session-user-1', messages: [message('user-1-m1'), message('user-1-m2')] },
+    ]);
+    expect(archive.progressEvents.map(e => e.type)).toEqual(['action_completed']);
+    expect(archive.growthPlans).toEqual([]);
+    expect(archive.analyses).toEqual([]);
+    // The archive survives a JSON round trip
+    expect(JSON.parse(JSON.stringify(archive)).conversations[0].messages).toHaveLength(2);
+
+    await dataStore.deleteUserData('user-1');
+
+    expect(await dataStore.getUserProfile('user-1')).toBeNull();
+    expect(await dataStore.getConversationHistory('user-1')).toEqual([]);
+    expect(await dataStore.getProgressEvents('user-1')).toEqual([]);
+    expect(await dataStore.getUserProfileAsOf('user-1', new Date())).toBeNull();
+    const erased = await dataStore.exportUserData('user-1');
+    expect(erased.profile).toBeNull();
+    expect(erased.conversations).toEqual([]);
+
+    expect(await dataStore.getUserProfile('user-2')).not.toBeNull();
+    expect(await dataStore.getConversationHistory('user-2')).toHaveLength(2);
+    expect(await dataStore.getProgressEvents('user-2')).toHaveLength(1);
+  });
+
+  it('should purge only the user\'s messages older than the cutoff', async () => {
+    const message = (id: string, timestamp: string) => ({ id, sender: 'user' as const, content: id, timestamp: new Date(timestamp) });
+    (dataStore as any).associateSessionWithUser('session-1', 'user-1');
+    (dataStore as any).associateSessionWithUser('session-2', 'user-2');
+    await dataStore.saveConversation('session-1', [
+      message('old', '2025-01-01T00:00:00.000Z'),
+      message('new', '2026-10-01T00:00:00.000Z'),
+    ]);
+    await dataStore.saveConversation('session-2', [message('other', '2025-01-01T00:00:00.000Z')]);
+    await dataStore.trackActionCompletion('user-1', 'action-1');
+
+    expect(await dataStore.purgeMessagesBefore('user-1', new Date('2026-01-01T00:00:00.000Z'))).toBe(1);
+    expect(await dataStore.purgeMessagesBefore('user-1', new Date('2026-01-01T00:00:00.000Z'))).toBe(0);
+
+    expect((await dataStore.getConversationHistory('user-1')).map(m => m.id)).toEqual(['new']);
+    expect(await dataStore.getConversationHistory('user-2')).toHaveLength(1);
+    expect(await dataStore.getProgressHistory('user-1')).toHaveLength(1);
+  });
 });
@@ -2,9 +2,44 @@
  * Data persistence layer for WorkLife AI Coach
  */
 
-import { UserProfile, Message, ActionStep } from '../models/core.js';
-import { withRetry, validateDataIntegrity, DatabaseUnavailableError } from '../utils/errorHandling.js';
+import { UserProfile, Message, ActionStep, MemoryNote, ReviewFlagRecord } from '../models/core.js';
+import { GrowthPlan, TransitionPlan } from '../models/recommendations.js';
+import { InRoleGrowthAnalysis } from '../recommendations/inRoleGrowthAdvisor.js';
+import {
+  withRetry,
+  validateDataIntegrity,
+  DatabaseUnavailableError,
+  EncryptionError,
+  ConcurrentModificationError
+} from '../utils/errorHandling.js';
 import { ValidationError, validateUserProfile } from '../utils/validation.js';
+import {
+  cloneUserProfile,
+  cloneMessages,
+  cloneGrowthPlan,
+  cloneAnalysisRecord,
+  cloneProgressEvents,
+  cloneMemoryNotes,
+  cloneReviewFlags
+} from './serialization.js';
+import {
+  ProgressEvent,
+  ProgressEventPayload,
+  ProfileSnapshot,
+  validateProgressEvent,
+  applyProgressEvent,
+  projectUserProfile,
+  toProgressEntries
+} from './progressEvents.js';
+import { UserDataArchive, createUserDataArchive } from './userData.js';
+import {
+  ConversationEncryption,
+  DataStoreOptions,
+  KeyRotationReport,
+  RotatedConversations,
+  WrappedDataKey,
+  rotateUserConversations
+} from './encryption.js';
 
 export interface ProgressEntry {
   userId: string;
@@ -13,12 +48,84 @@ export interface ProgressEntry {
   milestone?: string;
 }
 
+/**
+ * A saved revision of a user's growth plan
+ * Versions start at 1 and increase with every save; the highest is active
+ */
+export interface GrowthPlanVersion {
+  version: number;
+  savedAt: Date;
+  plan: GrowthPlan;
+}
+
+/**
+ * Advisor results that are kept per user, keyed by analysis kind
+ */
+export interface AnalysisResults {
+  transition_plan: TransitionPlan;
+  in_role_growth: InRoleGrowthAnalysis;
+}
+
+export type AnalysisKind = keyof AnalysisResults;
+
+/**
+ * A saved advisor result together with the profile it was computed from
+ */
+export interface AnalysisRecord<K extends AnalysisKind = AnalysisKind> {
+  id: string;
+  userId: string;
+  kind: K;
+  createdAt: Date;
+  profileSnapshot: UserProfile;
+  result: AnalysisResults[K];
+}
+
+/**
+ * Works out the version a profile save will be stored under
+ * A profile without a version can only be a user's first; others must match the stored version
+ * @param storedVersion - Version currently stored, or 0 when the user has no profile yet
+ * @throws ConcurrentModificationError when the profile was read before another save
+ */
+export function nextProfileVersion(profile: UserProfile, storedVersion: number): number {
+  const expectedVersion = profile.version ?? 0;
+  if (expectedVersion !== storedVersion) {
+    throw new ConcurrentModificationError('UserProfile', profile.userId, expectedVersion, storedVersion);
+  }
+  return storedVersion + 1;
+}
+
+/**
+ * Orders memory notes oldest first by when they were summarized
+ */
+export function sortMemoryNotes(notes: MemoryNote[]): MemoryNote[] {
+  return [...notes].sort((a, b) => a.summarizedAt.getTime() - b.summarizedAt.getTime());
+}
+
+/**
+ * Orders review flags oldest first by when they were raised
+ */
+export function sortReviewFlags(flags: ReviewFlagRecord[]): ReviewFlagRecord[] {
+  return [...flags].sort((a, b) => a.flaggedAt.getTime() - b.flaggedAt.getTime());
+}
+
+/**
+ * Checks that a review flag says which user and session it was raised in
+ */
+export function validateReviewFlag(flag: ReviewFlagRecord): void {
+  if (!flag || !flag.userId || typeof flag.userId !== 'string' || flag.userId.trim() === '') {
+    throw new ValidationError('Review flag must belong to a user', 'userId', flag ? flag.userId : flag);
+  }
+  if (!flag.sessionId || typeof flag.sessionId !== 'string' || flag.sessionId.trim() === '') {
+    throw new ValidationError('Review flag must belong to a session', 'sessionId', flag.sessionId);
+  }
+}
+
 /**
  * DataStore interface defining methods for saving/retrieving profiles,
  * conversations, and progress tracking
  */
 export interface DataStore {
-  // Profile operations
+  // Profile operations (saves are conditional on profile.version, which is updated on success)
   saveUserProfile(profile: UserProfile): Promise<void>;
   getUserProfile(userId: string): Promise<UserProfile | null>;
   
@@ -29,6 +136,43 @@ export interface DataStore {
   // Progress tracking operations
   trackActionCompletion(userId: string, actionId: string): Promise<void>;
   getProgressHistory(userId: string): Promise<ProgressEntry[]>;
+
+  // Progress event log operations
+  appendProgressEvent(userId: string, event: ProgressEventPayload): Promise<ProgressEvent>;
+  getProgressEvents(userId: string): Promise<ProgressEvent[]>;
+  getUserProfileAsOf(userId: string, asOf: Date): Promise<UserProfile | null>;
+  replayUserProfile(userId: string): Promise<UserProfile | null>;
+
+  // Growth plan operations
+  saveGrowthPlan(plan: GrowthPlan): Promise<GrowthPlanVersion>;
+  getActiveGrowthPlan(userId: string): Promise<GrowthPlan | null>;
+  getGrowthPlanVersions(userId: string): Promise<GrowthPlanVersion[]>;
+
+  // Analysis history operations (records are returned oldest first)
+  saveAnalysisRecord(record: AnalysisRecord): Promise<void>;
+  getAnalysisRecords<K extends AnalysisKind>(userId: string, kind: K): Promise<AnalysisRecord<K>[]>;
+
+  // Memory operations (a note replaces the one with the same id; notes are returned oldest first)
+  saveMemoryNote(note: MemoryNote): Promise<void>;
+  getMemoryNotes(userId: string): Promise<MemoryNote[]>;
+
+  // Review operations (flags of every user are returned oldest first)
+  saveReviewFlag(flag: ReviewFlagRecord): Promise<void>;
+  getReviewFlags(): Promise<ReviewFlagRecord[]>;
+
+  // User data rights operations
+  exportUserData(userId: string): Promise<UserDataArchive>;
+  deleteUserData(userId: string): Promise<void>;
+
+  // Retention operations (returns how many messages were deleted)
+  purgeMessagesBefore(userId: string, before: Date): Promise<number>;
+
+  // Backup operations (importing replaces everything held about the user)
+  listUserIds(): Promise<string[]>;
+  importUserData(archive: UserDataArchive): Promise<void>;
+
+  // Encryption at rest (only available when the store was given encryption)
+  rotateEncryptionKeys(): Promise<KeyRotationReport>;
 }
 
 /**
@@ -39,7 +183,18 @@ export class InMemoryDataStore implements DataStore {
   private profiles: Map<string, UserProfile> = new Map();
   private conversations: Map<string, Message[]> = new Map();
   private sessionToUser: Map<string, string> = new Map();
-  private progressHistory: Map<string, ProgressEntry[]> = new Map();
+  private progressEvents: Map<string, ProgressEvent[]> = new Map();
+  private profileSnapshots: Map<string, ProfileSnapshot[]> = new Map();
+  private growthPlans: Map<string, GrowthPlanVersion[]> = new Map();
+  private analysisRecords: Map<string, AnalysisRecord[]> = new Map();
+  private memoryNotes: Map<string, MemoryNote[]> = new Map();
+  private reviewFlags: Map<string, ReviewFlagRecord[]> = new Map();
+  private dataKeys: Map<string, WrappedDataKey[]> = new Map();
+  private readonly encryption?: ConversationEncryption;
+
+  constructor(options: DataStoreOptions = {}) {
+    this.encryption = options.encryption;
+  }
 
   async saveUserProfile(profile: UserProfile): Promise<void> {
     return withRetry(async () => {
@@ -52,18 +207,21 @@ export class InMemoryDataStore implements DataStore {
       // Validate data integrity
       validateDataIntegrity(profile);
 
+      // Reject saves based on a stale read
+      profile.version = nextProfileVersion(profile, this.profiles.get(profile.userId)?.version ?? 0);
+
       // Deep clone to avoid reference issues
-      const cloned = JSON.parse(JSON.stringify(profile));
-      // Restore Date objects
-      cloned.progress.lastUpdated = new Date(cloned.progress.lastUpdated);
-      if (cloned.progress.milestones) {
-        cloned.progress.milestones = cloned.progress.milestones.map((m: any) => ({
-          ...m,
-          targetDate: new Date(m.targetDate),
-          completedDate: m.completedDate ? new Date(m.completedDate) : undefined
-        }));
-      }
-      this.profiles.set(profile.userId, cloned);
+      this.profiles.set(profile.userId, cloneUserProfile(profile));
+
+      // Record a snapshot so earlier states can still be replayed
+      const events = this.progressEvents.get(profile.userId) || [];
+      const snapshots = this.profileSnapshots.get(profile.userId) || [];
+      snapshots.push({
+        sequence: events.length > 0 ? events[events.length - 1].sequence : 0,
+        savedAt: new Date(),
+        profile: cloneUserProfile(profile),
+      });
+      this.profileSnapshots.set(profile.userId, snapshots);
     });
   }
 
@@ -89,17 +247,7 @@ export class InMemoryDataStore implements DataStore {
       }
 
       // Deep clone to avoid reference issues
-      const cloned = JSON.parse(JSON.stringify(profile));
-      // Restore Date objects
-      cloned.progress.lastUpdated = new Date(cloned.progress.lastUpdated);
-      if (cloned.progress.milestones) {
-        cloned.progress.milestones = cloned.progress.milestones.map((m: any) => ({
-          ...m,
-          targetDate: new Date(m.targetDate),
-          completedDate: m.completedDate ? new Date(m.completedDate) : undefined
-        }));
-      }
-      return cloned;
+      return cloneUserProfile(profile);
     });
   }
 
@@ -115,12 +263,7 @@ export class InMemoryDataStore implements DataStore {
       }
 
       // Deep clone messages and restore Date objects
-      const cloned = JSON.parse(JSON.stringify(messages));
-      const restored = cloned.map((m: any) => ({
-        ...m,
-        timestamp: new Date(m.timestamp)
-      }));
-      this.conversations.set(sessionId, restored);
+      this.conversations.set(sessionId, this.sealMessages(sessionId, messages));
     });
   }
 
@@ -137,7 +280,7 @@ export class InMemoryDataStore implements DataStore {
       for (const [sessionId, messages] of this.conversations.entries()) {
         const sessionUserId = this.sessionToUser.get(sessionId);
         if (sessionUserId === userId) {
-          userMessages.push(...messages);
+          userMessages.push(...this.openMessages(userId, messages));
         }
       }
       
@@ -154,46 +297,330 @@ export class InMemoryDataStore implements DataStore {
   }
 
   async trackActionCompletion(userId: string, actionId: string): Promise<void> {
+    await this.appendProgressEvent(userId, { type: 'action_completed', actionId });
+  }
+
+  async getProgressHistory(userId: string): Promise<ProgressEntry[]> {
+    return toProgressEntries(await this.getProgressEvents(userId));
+  }
+
+  async appendProgressEvent(userId: string, event: ProgressEventPayload): Promise<ProgressEvent> {
     return withRetry(async () => {
       // Validate inputs
       if (!userId || typeof userId !== 'string' || userId.trim() === '') {
         throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
       }
 
-      if (!actionId || typeof actionId !== 'string' || actionId.trim() === '') {
-        throw new ValidationError('Action ID must be a non-empty string', 'actionId', actionId);
+      const validationErrors = validateProgressEvent(event);
+      if (validationErrors.length > 0) {
+        throw validationErrors[0]; // Throw first validation error
       }
 
-      const entry: ProgressEntry = {
+      const events = this.progressEvents.get(userId) || [];
+      const stored: ProgressEvent = {
+        ...event,
+        sequence: events.length > 0 ? events[events.length - 1].sequence + 1 : 1,
         userId,
-        actionId,
-        completedAt: new Date(),
+        occurredAt: new Date(),
       };
-      
-      const history = this.progressHistory.get(userId) || [];
-      history.push(entry);
-      this.progressHistory.set(userId, history);
-      
-      // Also update the user profile's completed actions
-      const profile = await this.getUserProfile(userId);
+      events.push(cloneProgressEvents([stored])[0]);
+      this.progressEvents.set(userId, events);
+
+      // Keep the current profile in step with the log
+      const profile = this.profiles.get(userId);
       if (profile) {
-        if (!profile.progress.completedActions.includes(actionId)) {
-          profile.progress.completedActions.push(actionId);
-          profile.progress.lastUpdated = new Date();
-          await this.saveUserProfile(profile);
+        applyProgressEvent(profile, stored);
+        profile.version = (profile.version ?? 0) + 1;
+      }
+
+      return stored;
+    });
+  }
+
+  async getProgressEvents(userId: string): Promise<ProgressEvent[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return cloneProgressEvents(this.progressEvents.get(userId) || []);
+    });
+  }
+
+  async getUserProfileAsOf(userId: string, asOf: Date): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return projectUserProfile(
+        this.profileSnapshots.get(userId) || [],
+        this.progressEvents.get(userId) || [],
+        asOf
+      );
+    });
+  }
+
+  async replayUserProfile(userId: string): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const profile = projectUserProfile(
+        this.profileSnapshots.get(userId) || [],
+        this.progressEvents.get(userId) || []
+      );
+      if (profile) {
+        // Replaying rebuilds the same revision, so readers holding it can still save
+        profile.version = this.profiles.get(userId)?.version ?? 1;
+        this.profiles.set(userId, cloneUserProfile(profile));
+      }
+
+      return profile;
+    });
+  }
+
+  async saveGrowthPlan(plan: GrowthPlan): Promise<GrowthPlanVersion> {
+    return withRetry(async () => {
+      // Validate plan ownership
+      if (!plan || !plan.userId || typeof plan.userId !== 'string' || plan.userId.trim() === '') {
+        throw new ValidationError('Growth plan must belong to a user', 'userId', plan ? plan.userId : plan);
+      }
+
+      const versions = this.growthPlans.get(plan.userId) || [];
+      const saved: GrowthPlanVersion = {
+        version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+        savedAt: new Date(),
+        plan: cloneGrowthPlan(plan),
+      };
+      versions.push(saved);
+      this.growthPlans.set(plan.userId, versions);
+
+      return { ...saved, plan: cloneGrowthPlan(saved.plan) };
+    });
+  }
+
+  async getActiveGrowthPlan(userId: string): Promise<GrowthPlan | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const versions = this.growthPlans.get(userId);
+      if (!versions || versions.length === 0) {
+        return null;
+      }
+
+      return cloneGrowthPlan(versions[versions.length - 1].plan);
+    });
+  }
+
+  async getGrowthPlanVersions(userId: string): Promise<GrowthPlanVersion[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return (this.growthPlans.get(userId) || []).map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) }));
+    });
+  }
+
+  async saveAnalysisRecord(record: AnalysisRecord): Promise<void> {
+    return withRetry(async () => {
+      // Validate record ownership
+      if (!record || !record.userId || typeof record.userId !== 'string' || record.userId.trim() === '') {
+        throw new ValidationError('Analysis record must belong to a user', 'userId', record ? record.userId : record);
+      }
+
+      const records = this.analysisRecords.get(record.userId) || [];
+      records.push(cloneAnalysisRecord(record));
+      this.analysisRecords.set(record.userId, records);
+    });
+  }
+
+  async getAnalysisRecords<K extends AnalysisKind>(userId: string, kind: K): Promise<AnalysisRecord<K>[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return (this.analysisRecords.get(userId) || [])
+        .filter((r): r is AnalysisRecord<K> => r.kind === kind)
+        .map(r => cloneAnalysisRecord(r));
+    });
+  }
+
+  async saveMemoryNote(note: MemoryNote): Promise<void> {
+    return withRetry(async () => {
+      // Validate note ownership
+      if (!note || !note.userId || typeof note.userId !== 'string' || note.userId.trim() === '') {
+        throw new ValidationError('Memory note must belong to a user', 'userId', note ? note.userId : note);
+      }
+
+      const notes = (this.memoryNotes.get(note.userId) || []).filter(n => n.id !== note.id);
+      this.memoryNotes.set(note.userId, sortMemoryNotes([...notes, this.sealMemoryNote(note)]));
+    });
+  }
+
+  async getMemoryNotes(userId: string): Promise<MemoryNote[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return this.openMemoryNotes(userId, this.memoryNotes.get(userId) || []);
+    });
+  }
+
+  async saveReviewFlag(flag: ReviewFlagRecord): Promise<void> {
+    return withRetry(async () => {
+      validateReviewFlag(flag);
+
+      const flags = this.reviewFlags.get(flag.userId) || [];
+      this.reviewFlags.set(flag.userId, sortReviewFlags([...flags, ...cloneReviewFlags([flag])]));
+    });
+  }
+
+  async getReviewFlags(): Promise<ReviewFlagRecord[]> {
+    return sortReviewFlags(cloneReviewFlags([...this.reviewFlags.values()].flat()));
+  }
+
+  async exportUserData(userId: string): Promise<UserDataArchive> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const profile = this.profiles.get(userId);
+
+      return createUserDataArchive(userId, {
+        profile: profile ? cloneUserProfile(profile) : null,
+        profileSnapshots: (this.profileSnapshots.get(userId) || []).map(s => ({ ...s, profile: cloneUserProfile(s.profile) })),
+        conversations: this.getUserSessionIds(userId).map(sessionId => ({
+          sessionId,
+          messages: this.openMessages(userId, this.conversations.get(sessionId) || []),
+        })),
+        progressEvents: cloneProgressEvents(this.progressEvents.get(userId) || []),
+        growthPlans: (this.growthPlans.get(userId) || []).map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) })),
+        analyses: (this.analysisRecords.get(userId) || []).map(r => cloneAnalysisRecord(r)),
+        memoryNotes: this.openMemoryNotes(userId, this.memoryNotes.get(userId) || []),
+        reviewFlags: cloneReviewFlags(this.reviewFlags.get(userId) || []),
+      });
+    });
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      this.eraseUser(userId);
+    });
+  }
+
+  async purgeMessagesBefore(userId: string, before: Date): Promise<number> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      let purged = 0;
+      for (const [sessionId, messages] of this.conversations.entries()) {
+        if (this.sessionToUser.get(sessionId) !== userId) {
+          continue;
         }
+        // Timestamps stay in the clear, so sealed messages can be filtered without decrypting
+        const kept = messages.filter(message => new Date(message.timestamp).getTime() >= before.getTime());
+        purged += messages.length - kept.length;
+        this.conversations.set(sessionId, kept);
       }
+
+      return purged;
     });
   }
 
-  async getProgressHistory(userId: string): Promise<ProgressEntry[]> {
+  async listUserIds(): Promise<string[]> {
+    const userIds = new Set([
+      ...this.profiles.keys(),
+      ...this.sessionToUser.values(),
+      ...this.progressEvents.keys(),
+      ...this.profileSnapshots.keys(),
+      ...this.growthPlans.keys(),
+      ...this.analysisRecords.keys(),
+      ...this.memoryNotes.keys(),
+      ...this.reviewFlags.keys(),
+    ]);
+    return [...userIds].sort();
+  }
+
+  async importUserData(archive: UserDataArchive): Promise<void> {
     return withRetry(async () => {
+      const { userId } = archive;
       // Validate userId
       if (!userId || typeof userId !== 'string' || userId.trim() === '') {
         throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
       }
 
-      return this.progressHistory.get(userId) || [];
+      if (archive.profile) {
+        const validationErrors = validateUserProfile(archive.profile);
+        if (validationErrors.length > 0) {
+          throw validationErrors[0]; // Throw first validation error
+        }
+        validateDataIntegrity(archive.profile);
+      }
+
+      this.eraseUser(userId);
+
+      if (archive.profile) {
+        this.profiles.set(userId, { ...cloneUserProfile(archive.profile), version: archive.profile.version ?? 1 });
+      }
+      this.profileSnapshots.set(userId, archive.profileSnapshots.map(s => ({ ...s, profile: cloneUserProfile(s.profile) })));
+      for (const { sessionId, messages } of archive.conversations) {
+        this.sessionToUser.set(sessionId, userId);
+        this.conversations.set(sessionId, this.sealMessages(sessionId, messages));
+      }
+      this.progressEvents.set(userId, cloneProgressEvents(archive.progressEvents).map(e => ({ ...e, userId })));
+      this.growthPlans.set(userId, archive.growthPlans.map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) })));
+      this.analysisRecords.set(userId, archive.analyses.map(r => cloneAnalysisRecord({ ...r, userId })));
+      this.memoryNotes.set(userId, sortMemoryNotes((archive.memoryNotes || []).map(n => this.sealMemoryNote({ ...n, userId }))));
+      this.reviewFlags.set(userId, sortReviewFlags(cloneReviewFlags(archive.reviewFlags || []).map(f => ({ ...f, userId }))));
+    });
+  }
+
+  async rotateEncryptionKeys(): Promise<KeyRotationReport> {
+    return withRetry(async () => {
+      const encryption = this.requireEncryption();
+
+      // Re-encrypt everything first so a failure leaves the old keys in place
+      const rotated = this.rotatedConversations(encryption);
+      for (const { userId, dataKey, conversations, memoryNotes } of rotated) {
+        for (const [sessionId, messages] of conversations) {
+          this.conversations.set(sessionId, messages);
+        }
+        if (memoryNotes.length > 0) {
+          this.memoryNotes.set(userId, memoryNotes);
+        }
+        this.dataKeys.set(userId, [dataKey]);
+      }
+
+      return {
+        rotatedAt: new Date(),
+        masterKeyId: encryption.masterKeyId,
+        usersRotated: rotated.length,
+        messagesReencrypted: rotated.reduce((total, r) => total + r.messageCount, 0),
+      };
     });
   }
 
@@ -212,6 +639,113 @@ export class InMemoryDataStore implements DataStore {
     this.profiles.clear();
     this.conversations.clear();
     this.sessionToUser.clear();
-    this.progressHistory.clear();
+    this.progressEvents.clear();
+    this.profileSnapshots.clear();
+    this.growthPlans.clear();
+    this.analysisRecords.clear();
+    this.memoryNotes.clear();
+    this.reviewFlags.clear();
+    this.dataKeys.clear();
+  }
+
+  private getUserSessionIds(userId: string): string[] {
+    return [...this.sessionToUser.entries()]
+      .filter(([, owner]) => owner === userId)
+      .map(([sessionId]) => sessionId);
+  }
+
+  private eraseUser(userId: string): void {
+    for (const sessionId of this.getUserSessionIds(userId)) {
+      this.conversations.delete(sessionId);
+      this.sessionToUser.delete(sessionId);
+    }
+    this.profiles.delete(userId);
+    this.profileSnapshots.delete(userId);
+    this.progressEvents.delete(userId);
+    this.growthPlans.delete(userId);
+    this.analysisRecords.delete(userId);
+    this.memoryNotes.delete(userId);
+    this.reviewFlags.delete(userId);
+    // Without the data key any copy of the ciphertext left elsewhere is unreadable
+    this.dataKeys.delete(userId);
+  }
+
+  private requireEncryption(): ConversationEncryption {
+    if (!this.encryption) {
+      throw new EncryptionError('Encryption is not configured for this store');
+    }
+    return this.encryption;
+  }
+
+  /**
+   * Copies messages for storage, encrypting them under the session owner's data key
+   */
+  private sealMessages(sessionId: string, messages: Message[]): Message[] {
+    if (!this.encryption) {
+      return cloneMessages(messages);
+    }
+
+    const userId = this.sessionToUser.get(sessionId);
+    if (!userId) {
+      throw new EncryptionError(`Session ${sessionId} has no user, so its messages cannot be encrypted`, { sessionId });
+    }
+
+    return this.encryption.encryptMessages(messages, this.currentDataKey(this.encryption, userId));
+  }
+
+  private openMessages(userId: string, messages: Message[]): Message[] {
+    return this.encryption
+      ? this.encryption.decryptMessages(messages, this.dataKeys.get(userId) || [])
+      : cloneMessages(messages);
+  }
+
+  /**
+   * Copies a memory note for storage, encrypting it under its user's data key
+   */
+  private sealMemoryNote(note: MemoryNote): MemoryNote {
+    return this.encryption
+      ? this.encryption.encryptMemoryNote(note, this.currentDataKey(this.encryption, note.userId))
+      : cloneMemoryNotes([note])[0];
+  }
+
+  private openMemoryNotes(userId: string, notes: MemoryNote[]): MemoryNote[] {
+    return this.encryption
+      ? this.encryption.decryptMemoryNotes(notes, this.dataKeys.get(userId) || [])
+      : cloneMemoryNotes(notes);
+  }
+
+  /**
+   * The user's newest data key, created on first use
+   */
+  private currentDataKey(encryption: ConversationEncryption, userId: string): WrappedDataKey {
+    let keys = this.dataKeys.get(userId);
+    if (!keys || keys.length === 0) {
+      keys = [encryption.createDataKey(userId, 1)];
+      this.dataKeys.set(userId, keys);
+    }
+    return keys[keys.length - 1];
+  }
+
+  /**
+   * Re-encrypts every user's conversations under a new data key without storing anything
+   */
+  private rotatedConversations(encryption: ConversationEncryption): RotatedConversations[] {
+    const userIds = new Set([...this.dataKeys.keys(), ...this.memoryNotes.keys()]);
+    for (const sessionId of this.conversations.keys()) {
+      const owner = this.sessionToUser.get(sessionId);
+      if (owner) {
+        userIds.add(owner);
+      }
+    }
+
+    return [...userIds].map(userId => rotateUserConversations(
+      encryption,
+      userId,
+      this.dataKeys.get(userId) || [],
+      new Map(this.getUserSessionIds(userId)
+        .filter(sessionId => this.conversations.has(sessionId))
+        .map(sessionId => [sessionId, this.conversations.get(sessionId)!])),
+      this.memoryNotes.get(userId) || []
+    ));
   }
 }
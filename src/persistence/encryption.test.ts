@@ -0,0 +1,203 @@
+/**
+ * Tests for encryption at rest of conversation content
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { DataStore, InMemoryDataStore } from './dataStore.js';
+import { FileDataStore } from './fileDataStore.js';
+import { SqliteDataStore } from './sqliteDataStore.js';
+import { ConversationEncryption, MasterKeyring, isEncryptedContent, loadMasterKeyring } from './encryption.js';
+import { Message, MemoryNote } from '../models/core.js';
+import { EncryptionError } from '../utils/errorHandling.js';
+
+const SECRET = 'I am burnt out and scared to ask for a raise';
+
+function createKeyring(activeKeyId = 'key-1', retired: MasterKeyring['keys'] = []): MasterKeyring {
+  return { activeKeyId, keys: [{ id: activeKeyId, key: randomBytes(32) }, ...retired] };
+}
+
+function createMessages(): Message[] {
+  return [
+    { id: 'msg-1', sender: 'user', content: SECRET, timestamp: new Date('2026-10-02T09:00:00.000Z') },
+    { id: 'msg-2', sender: 'system', content: 'Let us look at that together', timestamp: new Date('2026-10-02T09:01:00.000Z') },
+  ];
+}
+
+function createNote(userId: string): MemoryNote {
+  return {
+    id: 'memory_session-1',
+    userId,
+    sessionId: 'session-1',
+    summarizedAt: new Date('2026-10-02T09:05:00.000Z'),
+    messageCount: 2,
+    keyFacts: [SECRET],
+    decisions: ['Ask for the raise in November'],
+    commitments: ['Write down three wins this week'],
+    openQuestions: ['How much should I ask for?'],
+    topics: ['mindset_support'],
+  };
+}
+
+describe('ConversationEncryption', () => {
+  it('should round-trip any content through a user data key', () => {
+    const encryption = new ConversationEncryption(createKeyring());
+    const dataKey = encryption.createDataKey('user-1', 1);
+
+    fc.assert(
+      fc.property(fc.string(), content => {
+        const sealed = encryption.encryptContent(content, dataKey);
+        expect(isEncryptedContent(sealed)).toBe(true);
+        expect(encryption.decryptContent(sealed, [dataKey])).toBe(content);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should refuse content sealed for another user or altered afterwards', () => {
+    const encryption = new ConversationEncryption(createKeyring());
+    const own = encryption.createDataKey('user-1', 1);
+    const other = encryption.createDataKey('user-2', 1);
+    const sealed = encryption.encryptContent(SECRET, own);
+
+    expect(() => encryption.decryptContent(sealed, [other])).toThrow(EncryptionError);
+    expect(() => encryption.decryptContent(`${sealed.slice(0, -2)}AA`, [own])).toThrow(EncryptionError);
+    expect(() => encryption.decryptContent(sealed, [])).toThrow(EncryptionError);
+  });
+
+  it('should pass through content stored before encryption was enabled', () => {
+    const encryption = new ConversationEncryption(createKeyring());
+
+    expect(encryption.decryptContent('plain text', [])).toBe('plain text');
+  });
+
+  it('should unwrap data keys with a retired master key but not without it', () => {
+    const first = createKeyring('key-1');
+    const dataKey = new ConversationEncryption(first).createDataKey('user-1', 1);
+    const sealed = new ConversationEncryption(first).encryptContent(SECRET, dataKey);
+
+    const rotated = new ConversationEncryption(createKeyring('key-2', first.keys));
+    expect(rotated.decryptContent(sealed, [dataKey])).toBe(SECRET);
+
+    const withoutOldKey = new ConversationEncryption(createKeyring('key-2'));
+    expect(() => withoutOldKey.decryptContent(sealed, [dataKey])).toThrow(EncryptionError);
+  });
+
+  it('should read the master keyring from the environment', () => {
+    const active = randomBytes(32).toString('base64');
+    const retired = randomBytes(32).toString('base64');
+
+    const keyring = loadMasterKeyring({
+      WORKLIFE_MASTER_KEY: active,
+      WORKLIFE_MASTER_KEY_ID: '2026-10',
+      WORKLIFE_RETIRED_MASTER_KEYS: `2026-04:${retired}`,
+    });
+
+    expect(keyring!.activeKeyId).toBe('2026-10');
+    expect(keyring!.keys.map(k => k.id)).toEqual(['2026-10', '2026-04']);
+    expect(loadMasterKeyring({})).toBeNull();
+    expect(() => ConversationEncryption.fromEnv({ WORKLIFE_MASTER_KEY: 'too-short' })).toThrow(EncryptionError);
+  });
+});
+
+const implementations: [string, (dir: string, encryption: ConversationEncryption) => Promise<DataStore>, string | null][] = [
+  ['InMemoryDataStore', async (_dir, encryption) => new InMemoryDataStore({ encryption }), null],
+  ['FileDataStore', async (dir, encryption) => new FileDataStore(path.join(dir, 'data.json'), { encryption }), 'data.json'],
+  ['SqliteDataStore', (dir, encryption) => SqliteDataStore.open(path.join(dir, 'data.sqlite'), { encryption }), 'data.sqlite'],
+];
+
+describe.each(implementations)('Encrypted conversations (%s)', (_name, createStore, fileName) => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-encryption-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store conversation content encrypted and decrypt it on read', async () => {
+    const store = await createStore(tempDir, new ConversationEncryption(createKeyring()));
+    (store as any).associateSessionWithUser('session-1', 'user-1');
+    await store.saveConversation('session-1', createMessages());
+    await (store as any).flush?.();
+
+    expect(await store.getConversationHistory('user-1')).toEqual(createMessages());
+    expect((await store.exportUserData('user-1')).conversations[0].messages[0].content).toBe(SECRET);
+
+    if (fileName) {
+      const raw = await fs.readFile(path.join(tempDir, fileName));
+      expect(raw.includes(Buffer.from('burnt out'))).toBe(false);
+    }
+  });
+
+  it('should store what memory notes say encrypted and decrypt it on read', async () => {
+    const store = await createStore(tempDir, new ConversationEncryption(createKeyring()));
+    await store.saveMemoryNote(createNote('user-1'));
+    await (store as any).flush?.();
+
+    expect(await store.getMemoryNotes('user-1')).toEqual([createNote('user-1')]);
+    expect((await store.exportUserData('user-1')).memoryNotes).toEqual([createNote('user-1')]);
+
+    if (fileName) {
+      const raw = await fs.readFile(path.join(tempDir, fileName));
+      for (const said of ['burnt out', 'November', 'three wins', 'How much']) {
+        expect(raw.includes(Buffer.from(said))).toBe(false);
+      }
+      expect(raw.includes(Buffer.from('mindset_support'))).toBe(true);
+    }
+  });
+
+  it('should refuse to encrypt a session that has no user', async () => {
+    const store = await createStore(tempDir, new ConversationEncryption(createKeyring()));
+
+    await expect(store.saveConversation('orphan', createMessages())).rejects.toThrow(EncryptionError);
+  });
+
+  it('should give every user a new data key when rotating', async () => {
+    const store = await createStore(tempDir, new ConversationEncryption(createKeyring()));
+    (store as any).associateSessionWithUser('session-1', 'user-1');
+    (store as any).associateSessionWithUser('session-2', 'user-2');
+    await store.saveConversation('session-1', createMessages());
+    await store.saveConversation('session-2', createMessages().slice(0, 1));
+    await store.saveMemoryNote(createNote('user-1'));
+
+    const report = await store.rotateEncryptionKeys();
+
+    expect(report).toMatchObject({ masterKeyId: 'key-1', usersRotated: 2, messagesReencrypted: 3 });
+    expect(await store.getConversationHistory('user-1')).toEqual(createMessages());
+    expect(await store.getConversationHistory('user-2')).toHaveLength(1);
+    expect(await store.getMemoryNotes('user-1')).toEqual([createNote('user-1')]);
+  });
+
+  it.skipIf(!fileName)('should move the data file to a new master key', async () => {
+    const first = createKeyring('key-1');
+    const store = await createStore(tempDir, new ConversationEncryption(first));
+    (store as any).associateSessionWithUser('session-1', 'user-1');
+    await store.saveConversation('session-1', createMessages());
+    await (store as any).flush();
+
+    // Reopen with a new master key while the old one is retired
+    const second = createKeyring('key-2', first.keys);
+    const rotating = await createStore(tempDir, new ConversationEncryption(second));
+    expect((await rotating.rotateEncryptionKeys()).masterKeyId).toBe('key-2');
+    await (rotating as any).flush();
+
+    // The old master key is no longer needed
+    const reopened = await createStore(tempDir, new ConversationEncryption({ activeKeyId: 'key-2', keys: [second.keys[0]] }));
+    expect(await reopened.getConversationHistory('user-1')).toEqual(createMessages());
+  });
+
+  it('should only rotate when encryption is configured', async () => {
+    const store = fileName === 'data.sqlite'
+      ? await SqliteDataStore.open()
+      : fileName ? new FileDataStore(path.join(tempDir, 'plain.json')) : new InMemoryDataStore();
+
+    await expect(store.rotateEncryptionKeys()).rejects.toThrow(EncryptionError);
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Encryption at rest for conversation content and the memory notes drawn from it
+ * Every user gets their own data key. Data keys are stored wrapped by a
+ * master key that never leaves the environment, so a leaked data file alone
+ * does not reveal any conversation.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Message, MemoryNote } from '../models/core.js';
+import { EncryptionError } from '../utils/errorHandling.js';
+import { cloneMemoryNotes, cloneMessages } from './serialization.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const ENVELOPE_PREFIX = 'enc:v1:';
+
+/**
+ * What a memory note says the user told the coach; ids, times and topics stay in the clear
+ */
+const SEALED_NOTE_FIELDS = ['keyFacts', 'decisions', 'commitments', 'openQuestions'] as const;
+
+/**
+ * A master key and the id it is referenced by in wrapped data keys
+ */
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Master keys available to the process
+ * New data keys are wrapped with the active key; the others can still unwrap
+ * older data keys until they are rotated
+ */
+export interface MasterKeyring {
+  activeKeyId: string;
+  keys: MasterKey[];
+}
+
+/**
+ * A user's data key as stored, wrapped by a master key
+ * Versions start at 1 per user and increase with every rotation
+ */
+export interface WrappedDataKey {
+  userId: string;
+  version: number;
+  masterKeyId: string;
+  wrappedKey: string;
+  createdAt: Date;
+}
+
+/**
+ * A whole document encrypted under its own key, which is wrapped by a master key
+ */
+export interface SealedDocument {
+  masterKeyId: string;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+/**
+ * Outcome of rotating the data keys of a store
+ */
+export interface KeyRotationReport {
+  rotatedAt: Date;
+  masterKeyId: string;
+  usersRotated: number;
+  messagesReencrypted: number;
+}
+
+/**
+ * A user's conversations and memory notes re-encrypted under a new data key, ready to be stored
+ */
+export interface RotatedConversations {
+  userId: string;
+  dataKey: WrappedDataKey;
+  conversations: Map<string, Message[]>;
+  messageCount: number;
+  memoryNotes: MemoryNote[];
+}
+
+/**
+ * Options shared by the DataStore implementations
+ */
+export interface DataStoreOptions {
+  encryption?: ConversationEncryption;
+}
+
+/**
+ * Checks whether stored content is an encrypted envelope
+ */
+export function isEncryptedContent(content: string): boolean {
+  return typeof content === 'string' && content.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Reads the master keyring from the environment
+ * WORKLIFE_MASTER_KEY holds the active key (32 bytes, base64) and
+ * WORKLIFE_MASTER_KEY_ID its id. Keys being rotated out are listed in
+ * WORKLIFE_RETIRED_MASTER_KEYS as comma-separated `id:base64` pairs.
+ * @returns The keyring, or null when no master key is configured
+ */
+export function loadMasterKeyring(env: NodeJS.ProcessEnv = process.env): MasterKeyring | null {
+  if (!env.WORKLIFE_MASTER_KEY) {
+    return null;
+  }
+
+  const activeKeyId = env.WORKLIFE_MASTER_KEY_ID || 'primary';
+  const keys: MasterKey[] = [{ id: activeKeyId, key: Buffer.from(env.WORKLIFE_MASTER_KEY, 'base64') }];
+
+  for (const entry of (env.WORKLIFE_RETIRED_MASTER_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+    keys.push({ id: entry.slice(0, separator).trim(), key: Buffer.from(entry.slice(separator + 1).trim(), 'base64') });
+  }
+
+  return { activeKeyId, keys };
+}
+
+/**
+ * Encrypts and decrypts message content with per-user data keys
+ * Holds no user data itself; stores keep the wrapped keys next to the data
+ */
+export class ConversationEncryption {
+  private readonly masterKeys: Map<string, Buffer> = new Map();
+  private readonly unwrappedKeys: Map<string, Buffer> = new Map();
+  private readonly activeKeyId: string;
+
+  constructor(keyring: MasterKeyring) {
+    for (const { id, key } of keyring.keys) {
+      if (!id || key.length !== KEY_LENGTH) {
+        throw new EncryptionError(`Master key ${id || '(unnamed)'} must be ${KEY_LENGTH} bytes`, { masterKeyId: id });
+      }
+      this.masterKeys.set(id, key);
+    }
+
+    if (!this.masterKeys.has(keyring.activeKeyId)) {
+      throw new EncryptionError(`Active master key ${keyring.activeKeyId} is not in the keyring`, {
+        masterKeyId: keyring.activeKeyId
+      });
+    }
+    this.activeKeyId = keyring.activeKeyId;
+  }
+
+  /**
+   * Creates encryption from the environment, or null when no master key is set
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ConversationEncryption | null {
+    const keyring = loadMasterKeyring(env);
+    return keyring ? new ConversationEncryption(keyring) : null;
+  }
+
+  get masterKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  /**
+   * Generates a fresh data key for a user, wrapped by the active master key
+   */
+  createDataKey(userId: string, version: number): WrappedDataKey {
+    const key = randomBytes(KEY_LENGTH);
+    const dataKey: WrappedDataKey = {
+      userId,
+      version,
+      masterKeyId: this.activeKeyId,
+      wrappedKey: seal(this.masterKeys.get(this.activeKeyId)!, key, `${userId}:${version}`),
+      createdAt: new Date(),
+    };
+    this.unwrappedKeys.set(cacheKey(dataKey), key);
+    return dataKey;
+  }
+
+  /**
+   * Encrypts one piece of content under a data key
+   */
+  encryptContent(content: string, dataKey: WrappedDataKey): string {
+    const sealed = seal(this.unwrap(dataKey), Buffer.from(content, 'utf8'), `${dataKey.userId}:${dataKey.version}`);
+    return `${ENVELOPE_PREFIX}${dataKey.version}:${sealed}`;
+  }
+
+  /**
+   * Decrypts content with whichever of the user's data keys sealed it
+   * Content written before encryption was enabled is returned as is
+   */
+  decryptContent(content: string, dataKeys: WrappedDataKey[]): string {
+    if (!isEncryptedContent(content)) {
+      return content;
+    }
+
+    const body = content.slice(ENVELOPE_PREFIX.length);
+    const separator = body.indexOf(':');
+    const version = Number(body.slice(0, separator));
+    const dataKey = dataKeys.find(k => k.version === version);
+    if (!dataKey) {
+      throw new EncryptionError(`No data key version ${version} is available to decrypt this content`, { version });
+    }
+
+    return open(this.unwrap(dataKey), body.slice(separator + 1), `${dataKey.userId}:${dataKey.version}`).toString('utf8');
+  }
+
+  /**
+   * Returns copies of the messages with their content encrypted
+   */
+  encryptMessages(messages: Message[], dataKey: WrappedDataKey): Message[] {
+    return cloneMessages(messages).map(message => ({
+      ...message,
+      content: this.encryptContent(message.content, dataKey),
+    }));
+  }
+
+  /**
+   * Returns copies of the messages with their content decrypted
+   */
+  decryptMessages(messages: Message[], dataKeys: WrappedDataKey[]): Message[] {
+    return cloneMessages(messages).map(message => ({
+      ...message,
+      content: this.decryptContent(message.content, dataKeys),
+    }));
+  }
+
+  /**
+   * Returns a copy of the note with what the user said encrypted
+   */
+  encryptMemoryNote(note: MemoryNote, dataKey: WrappedDataKey): MemoryNote {
+    const [sealed] = cloneMemoryNotes([note]);
+    for (const field of SEALED_NOTE_FIELDS) {
+      sealed[field] = sealed[field].map(item => this.encryptContent(item, dataKey));
+    }
+    return sealed;
+  }
+
+  /**
+   * Returns copies of the notes with what the user said decrypted
+   */
+  decryptMemoryNotes(notes: MemoryNote[], dataKeys: WrappedDataKey[]): MemoryNote[] {
+    return cloneMemoryNotes(notes).map(note => {
+      for (const field of SEALED_NOTE_FIELDS) {
+        note[field] = note[field].map(item => this.decryptContent(item, dataKeys));
+      }
+      return note;
+    });
+  }
+
+  /**
+   * Encrypts a whole document, such as a backup, under a fresh key wrapped by the active master key
+   * @param context - What the document is; decrypting needs the same context
+   */
+  encryptDocument(payload: Buffer, context: string): SealedDocument {
+    const key = randomBytes(KEY_LENGTH);
+    return {
+      masterKeyId: this.activeKeyId,
+      wrappedKey: seal(this.masterKeys.get(this.activeKeyId)!, key, context),
+      ciphertext: seal(key, payload, context),
+    };
+  }
+
+  /**
+   * Decrypts a document sealed by encryptDocument with any master key in the keyring
+   */
+  decryptDocument(document: SealedDocument, context: string): Buffer {
+    const masterKey = this.masterKeys.get(document.masterKeyId);
+    if (!masterKey) {
+      throw new EncryptionError(`Master key ${document.masterKeyId} is not available`, {
+        masterKeyId: document.masterKeyId
+      });
+    }
+
+    return open(open(masterKey, document.wrappedKey, context), document.ciphertext, context);
+  }
+
+  private unwrap(dataKey: WrappedDataKey): Buffer {
+    const cached = this.unwrappedKeys.get(cacheKey(dataKey));
+    if (cached) {
+      return cached;
+    }
+
+    const masterKey = this.masterKeys.get(dataKey.masterKeyId);
+    if (!masterKey) {
+      throw new EncryptionError(`Master key ${dataKey.masterKeyId} is not available`, {
+        masterKeyId: dataKey.masterKeyId,
+        userId: dataKey.userId
+      });
+    }
+
+    const key = open(masterKey, dataKey.wrappedKey, `${dataKey.userId}:${dataKey.version}`);
+    this.unwrappedKeys.set(cacheKey(dataKey), key);
+    return key;
+  }
+}
+
+/**
+ * Re-encrypts a user's conversations and memory notes under a new data key
+ * Nothing is stored; the caller replaces the old keys, messages and notes together
+ * @param previousKeys - The user's current data keys, oldest first
+ * @param conversations - Stored messages per session id
+ * @param memoryNotes - Stored memory notes of the user
+ */
+export function rotateUserConversations(
+  encryption: ConversationEncryption,
+  userId: string,
+  previousKeys: WrappedDataKey[],
+  conversations: Map<string, Message[]>,
+  memoryNotes: MemoryNote[] = []
+): RotatedConversations {
+  const version = previousKeys.length > 0 ? previousKeys[previousKeys.length - 1].version + 1 : 1;
+  const dataKey = encryption.createDataKey(userId, version);
+  const rotated = new Map<string, Message[]>();
+  let messageCount = 0;
+
+  for (const [sessionId, messages] of conversations) {
+    rotated.set(sessionId, encryption.encryptMessages(encryption.decryptMessages(messages, previousKeys), dataKey));
+    messageCount += messages.length;
+  }
+
+  const notes = encryption.decryptMemoryNotes(memoryNotes, previousKeys)
+    .map(note => encryption.encryptMemoryNote(note, dataKey));
+
+  return { userId, dataKey, conversations: rotated, messageCount, memoryNotes: notes };
+}
+
+function cacheKey(dataKey: WrappedDataKey): string {
+  return `${dataKey.masterKeyId}:${dataKey.wrappedKey}`;
+}
+
+/**
+ * AES-GCM encrypts a payload, bound to the given context
+ * @returns iv, auth tag and ciphertext as base64url, joined by dots
+ */
+function seal(key: Buffer, payload: Buffer, context: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function open(key: Buffer, sealed: string, context: string): Buffer {
+  try {
+    const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(Buffer.from(context, 'utf8'));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch (error) {
+    throw new EncryptionError('Encrypted content could not be decrypted; the key is wrong or the data was altered', {
+      context
+    });
+  }
+}
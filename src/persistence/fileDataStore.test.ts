@@ -0,0 +1,225 @@
+/**
+ * Tests for the file-backed data store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDataStore } from './fileDataStore.js';
+import { DataIntegrityError } from '../utils/errorHandling.js';
+import { UserProfile, Message } from '../models/core.js';
+
+function createTestProfile(userId: string): UserProfile {
+  return {
+    userId,
+    personalInfo: {
+      age: 29,
+      currentRole: 'Nurse',
+      yearsOfExperience: 7,
+      education: 'BSN',
+      industry: 'healthcare'
+    },
+    careerInfo: {
+      goals: [
+        {
+          id: 'goal-1',
+          description: 'Move into health informatics',
+          type: 'long_term',
+          priority: 1,
+          targetDate: new Date('2027-06-01T00:00:00.000Z')
+        }
+      ],
+      interests: ['data'],
+      struggles: []
+    },
+    skills: {
+      current: [{ name: 'patient care', level: 8, category: 'clinical' }],
+      learning: [],
+      target: []
+    },
+    mindset: {
+      confidenceLevel: 0.6,
+      motivationLevel: 0.8,
+      primaryConcerns: []
+    },
+    progress: {
+      completedActions: [],
+      milestones: [
+        {
+          id: 'm-1',
+          title: 'Finish SQL course',
+          description: 'Complete an intro SQL course',
+          targetDate: new Date('2026-12-01T00:00:00.000Z'),
+          completed: true,
+          completedDate: new Date('2026-11-20T00:00:00.000Z')
+        }
+      ],
+      lastUpdated: new Date('2026-10-01T00:00:00.000Z')
+    }
+  };
+}
+
+describe('FileDataStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-file-store-'));
+    filePath = path.join(tempDir, 'data.json');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reload profiles with Date fields after a restart', async () => {
+    const store = new FileDataStore(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+
+    const reopened = new FileDataStore(filePath);
+    const profile = await reopened.getUserProfile('user-1');
+
+    expect(profile).not.toBeNull();
+    expect(profile!.progress.lastUpdated).toBeInstanceOf(Date);
+    expect(profile!.progress.lastUpdated.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+    expect(profile!.progress.milestones[0].targetDate).toBeInstanceOf(Date);
+    expect(profile!.progress.milestones[0].completedDate).toBeInstanceOf(Date);
+    expect(profile!.careerInfo.goals[0].targetDate).toBeInstanceOf(Date);
+  });
+
+  it('should reload conversations and session ownership after a restart', async () => {
+    const store = new FileDataStore(filePath);
+    store.associateSessionWithUser('session-1', 'user-1');
+    const messages: Message[] = [
+      { id: 'msg-1', sender: 'user', content: 'Hello', timestamp: new Date('2026-10-01T10:00:00.000Z') },
+      { id: 'msg-2', sender: 'system', content: 'Hi there', timestamp: new Date('2026-10-01T10:00:01.000Z') }
+    ];
+    await store.saveConversation('session-1', messages);
+    await store.flush();
+
+    const reopened = new FileDataStore(filePath);
+    const history = await reopened.getConversationHistory('user-1');
+
+    expect(history).toHaveLength(2);
+    expect(history[0].timestamp).toBeInstanceOf(Date);
+    expect(history.map(m => m.content)).toEqual(['Hello', 'Hi there']);
+  });
+
+  it('should reload progress history after a restart', async () => {
+    const store = new FileDataStore(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+    await store.trackActionCompletion('user-1', 'action-1');
+
+    const reopened = new FileDataStore(filePath);
+    const history = await reopened.getProgressHistory('user-1');
+    const profile = await reopened.getUserProfile('user-1');
+
+    expect(history).toHaveLength(1);
+    expect(history[0].completedAt).toBeInstanceOf(Date);
+    expect(profile!.progress.completedActions).toEqual(['action-1']);
+  });
+
+  it('should upgrade progress history written before the event log existed', async () => {
+    const profile = createTestProfile('user-1');
+    profile.progress.completedActions = ['action-1'];
+    await fs.writeFile(filePath, JSON.stringify({
+      version: 1,
+      profiles: { 'user-1': profile },
+      conversations: {},
+      sessionToUser: {},
+      progressHistory: {
+        'user-1': [{ userId: 'user-1', actionId: 'action-1', completedAt: '2026-09-15T00:00:00.000Z' }],
+      },
+    }));
+
+    const store = new FileDataStore(filePath);
+    const events = await store.getProgressEvents('user-1');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'action_completed', actionId: 'action-1', sequence: 1 });
+    expect(await store.getUserProfileAsOf('user-1', new Date('2026-09-30T00:00:00.000Z'))).toBeNull();
+    const replayed = await store.replayUserProfile('user-1');
+    expect(replayed!.progress.completedActions).toEqual(['action-1']);
+  });
+
+  it('should ignore temporary files left behind by an interrupted write', async () => {
+    const store = new FileDataStore(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+
+    // Simulate a crash after the temp file was written but before the rename
+    await fs.writeFile(path.join(tempDir, '.data.json.1234.abc.tmp'), '{"version":1,"profi');
+
+    const reopened = new FileDataStore(filePath);
+    const profile = await reopened.getUserProfile('user-1');
+
+    expect(profile).not.toBeNull();
+    expect(profile!.userId).toBe('user-1');
+  });
+
+  it('should not leave temporary files after successful writes', async () => {
+    const store = new FileDataStore(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+    await store.saveUserProfile(createTestProfile('user-2'));
+
+    const files = await fs.readdir(tempDir);
+    expect(files).toEqual(['data.json']);
+  });
+
+  it('should refuse to load a corrupted data file', async () => {
+    await fs.writeFile(filePath, 'not json');
+    const store = new FileDataStore(filePath);
+
+    await expect(store.getUserProfile('user-1')).rejects.toBeInstanceOf(DataIntegrityError);
+  });
+
+  it('should keep the last write when saves overlap', async () => {
+    const store = new FileDataStore(filePath);
+    const first = createTestProfile('user-1');
+    const second = createTestProfile('user-1');
+    second.personalInfo.currentRole = 'Clinical Data Analyst';
+    second.version = 1;
+
+    await Promise.all([store.saveUserProfile(first), store.saveUserProfile(second)]);
+
+    const reopened = new FileDataStore(filePath);
+    const profile = await reopened.getUserProfile('user-1');
+    expect(profile!.personalInfo.currentRole).toBe('Clinical Data Analyst');
+  });
+
+  it('should record an event once when a write has to be retried', async () => {
+    const store = new FileDataStore(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('disk busy'), { code: 'EBUSY' }));
+
+    await store.trackActionCompletion('user-1', 'action-1');
+
+    const events = await store.getProgressEvents('user-1');
+    expect(events.map(e => `${e.sequence}:${e.type}`)).toEqual(['1:action_completed']);
+    const reopened = new FileDataStore(filePath);
+    expect((await reopened.getUserProfile('user-1'))!.progress.completedActions).toEqual(['action-1']);
+  });
+
+  it('should undo a change whose write keeps failing', async () => {
+    const store = new FileDataStore(filePath);
+    const profile = createTestProfile('user-1');
+    await store.saveUserProfile(profile);
+    vi.spyOn(fs, 'rename').mockRejectedValue(new Error('disk full'));
+
+    await expect(store.trackActionCompletion('user-1', 'action-1')).rejects.toThrow('disk full');
+    await expect(store.saveUserProfile({ ...profile, personalInfo: { ...profile.personalInfo, currentRole: 'Analyst' } }))
+      .rejects.toThrow('disk full');
+    expect(profile.version).toBe(1);
+
+    vi.restoreAllMocks();
+    await store.trackActionCompletion('user-1', 'action-2');
+
+    const reopened = new FileDataStore(filePath);
+    expect((await reopened.getProgressEvents('user-1')).map(e => `${e.sequence}:${e.actionId}`)).toEqual(['1:action-2']);
+    const saved = await reopened.getUserProfile('user-1');
+    expect(saved!.personalInfo.currentRole).toBe('Nurse');
+    expect(saved!.progress.completedActions).toEqual(['action-2']);
+    expect(saved!.version).toBe(2);
+  });
+});
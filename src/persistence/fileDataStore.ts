@@ -0,0 +1,905 @@
+/**
+ * File-backed DataStore implementation
+ * Keeps a JSON snapshot of all data on local disk so it survives restarts
+ */
+
+import { promises as fs } from 'fs';
+import { UserProfile, Message, MemoryNote, ReviewFlagRecord } from '../models/core.js';
+import { GrowthPlan } from '../models/recommendations.js';
+import { withRetry, validateDataIntegrity, DataIntegrityError, EncryptionError } from '../utils/errorHandling.js';
+import { ValidationError, validateUserProfile } from '../utils/validation.js';
+import {
+  DataStore,
+  ProgressEntry,
+  GrowthPlanVersion,
+  AnalysisKind,
+  AnalysisRecord,
+  nextProfileVersion,
+  sortMemoryNotes,
+  sortReviewFlags,
+  validateReviewFlag
+} from './dataStore.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import {
+  cloneUserProfile,
+  cloneMessages,
+  cloneGrowthPlan,
+  cloneAnalysisRecord,
+  cloneProgressEvents,
+  cloneMemoryNotes,
+  cloneReviewFlags,
+  reviveUserProfile,
+  reviveMessages,
+  reviveProgressEntries,
+  reviveProgressEvents,
+  reviveProfileSnapshots,
+  reviveGrowthPlanVersions,
+  reviveAnalysisRecord,
+  reviveMemoryNotes,
+  reviveReviewFlags,
+  reviveDataKeys
+} from './serialization.js';
+import {
+  ProgressEvent,
+  ProgressEventPayload,
+  ProfileSnapshot,
+  validateProgressEvent,
+  applyProgressEvent,
+  projectUserProfile,
+  toProgressEntries
+} from './progressEvents.js';
+import { UserDataArchive, createUserDataArchive } from './userData.js';
+import {
+  ConversationEncryption,
+  DataStoreOptions,
+  KeyRotationReport,
+  RotatedConversations,
+  WrappedDataKey,
+  rotateUserConversations
+} from './encryption.js';
+
+/**
+ * On-disk layout of the data file
+ */
+interface FileSnapshot {
+  version: number;
+  profiles: Record<string, UserProfile>;
+  conversations: Record<string, Message[]>;
+  sessionToUser: Record<string, string>;
+  progressHistory?: Record<string, ProgressEntry[]>;
+  progressEvents?: Record<string, ProgressEvent[]>;
+  profileSnapshots?: Record<string, ProfileSnapshot[]>;
+  growthPlans?: Record<string, GrowthPlanVersion[]>;
+  analysisRecords?: Record<string, AnalysisRecord[]>;
+  memoryNotes?: Record<string, MemoryNote[]>;
+  reviewFlags?: Record<string, ReviewFlagRecord[]>;
+  dataKeys?: Record<string, WrappedDataKey[]>;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Everything the store holds, as captured before a change
+ */
+interface StoreState {
+  profiles: Map<string, UserProfile>;
+  conversations: Map<string, Message[]>;
+  sessionToUser: Map<string, string>;
+  progressEvents: Map<string, ProgressEvent[]>;
+  profileSnapshots: Map<string, ProfileSnapshot[]>;
+  growthPlans: Map<string, GrowthPlanVersion[]>;
+  analysisRecords: Map<string, AnalysisRecord[]>;
+  memoryNotes: Map<string, MemoryNote[]>;
+  reviewFlags: Map<string, ReviewFlagRecord[]>;
+  dataKeys: Map<string, WrappedDataKey[]>;
+}
+
+/**
+ * Durable implementation of DataStore backed by a single JSON file
+ * Data is held in memory and the whole snapshot is rewritten atomically
+ * after every change, so a crash never leaves a half-written file behind.
+ */
+export class FileDataStore implements DataStore {
+  private profiles: Map<string, UserProfile> = new Map();
+  private conversations: Map<string, Message[]> = new Map();
+  private sessionToUser: Map<string, string> = new Map();
+  private progressEvents: Map<string, ProgressEvent[]> = new Map();
+  private profileSnapshots: Map<string, ProfileSnapshot[]> = new Map();
+  private growthPlans: Map<string, GrowthPlanVersion[]> = new Map();
+  private analysisRecords: Map<string, AnalysisRecord[]> = new Map();
+  private memoryNotes: Map<string, MemoryNote[]> = new Map();
+  private reviewFlags: Map<string, ReviewFlagRecord[]> = new Map();
+  private dataKeys: Map<string, WrappedDataKey[]> = new Map();
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly encryption?: ConversationEncryption;
+
+  constructor(private readonly filePath: string, options: DataStoreOptions = {}) {
+    this.encryption = options.encryption;
+  }
+
+  async saveUserProfile(profile: UserProfile): Promise<void> {
+    // Validate profile data
+    const validationErrors = validateUserProfile(profile);
+    if (validationErrors.length > 0) {
+      throw validationErrors[0]; // Throw first validation error
+    }
+
+    // Validate data integrity
+    validateDataIntegrity(profile);
+
+    profile.version = await this.commit(() => {
+      // Reject saves based on a stale read
+      const version = nextProfileVersion(profile, this.profiles.get(profile.userId)?.version ?? 0);
+      const saved = { ...cloneUserProfile(profile), version };
+
+      this.profiles.set(profile.userId, saved);
+
+      // Record a snapshot so earlier states can still be replayed
+      const events = this.progressEvents.get(profile.userId) || [];
+      this.profileSnapshots.set(profile.userId, [...(this.profileSnapshots.get(profile.userId) || []), {
+        sequence: events.length > 0 ? events[events.length - 1].sequence : 0,
+        savedAt: new Date(),
+        profile: cloneUserProfile(saved),
+      }]);
+      return version;
+    });
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      const profile = this.profiles.get(userId);
+      if (!profile) {
+        return null;
+      }
+
+      // Validate data integrity before returning
+      try {
+        validateDataIntegrity(profile);
+      } catch (error) {
+        // If data is corrupted, return null and log error
+        console.error(`Data integrity error for user ${userId}:`, error);
+        return null;
+      }
+
+      return cloneUserProfile(profile);
+    });
+  }
+
+  async saveConversation(sessionId: string, messages: Message[]): Promise<void> {
+    // Validate inputs
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
+      throw new ValidationError('Session ID must be a non-empty string', 'sessionId', sessionId);
+    }
+
+    if (!Array.isArray(messages)) {
+      throw new ValidationError('Messages must be an array', 'messages', messages);
+    }
+
+    await this.commit(() => {
+      this.conversations.set(sessionId, this.sealMessages(sessionId, messages));
+    });
+  }
+
+  async getConversationHistory(userId: string, limit?: number): Promise<Message[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      // Find all sessions for this user
+      const userMessages: Message[] = [];
+
+      for (const [sessionId, messages] of this.conversations.entries()) {
+        if (this.sessionToUser.get(sessionId) === userId) {
+          userMessages.push(...this.openMessages(userId, messages));
+        }
+      }
+
+      // Sort by timestamp
+      userMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+      // Apply limit if specified
+      if (limit !== undefined && limit > 0) {
+        return userMessages.slice(-limit);
+      }
+
+      return userMessages;
+    });
+  }
+
+  async trackActionCompletion(userId: string, actionId: string): Promise<void> {
+    await this.appendProgressEvent(userId, { type: 'action_completed', actionId });
+  }
+
+  async getProgressHistory(userId: string): Promise<ProgressEntry[]> {
+    return toProgressEntries(await this.getProgressEvents(userId));
+  }
+
+  async appendProgressEvent(userId: string, event: ProgressEventPayload): Promise<ProgressEvent> {
+    // Validate inputs
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    const validationErrors = validateProgressEvent(event);
+    if (validationErrors.length > 0) {
+      throw validationErrors[0]; // Throw first validation error
+    }
+
+    return this.commit(() => {
+      const events = this.progressEvents.get(userId) || [];
+      const stored: ProgressEvent = {
+        ...event,
+        sequence: events.length > 0 ? events[events.length - 1].sequence + 1 : 1,
+        userId,
+        occurredAt: new Date(),
+      };
+      this.progressEvents.set(userId, [...events, cloneProgressEvents([stored])[0]]);
+
+      // Keep the current profile in step with the log
+      const profile = this.profiles.get(userId);
+      if (profile) {
+        const updated = applyProgressEvent(cloneUserProfile(profile), stored);
+        this.profiles.set(userId, { ...updated, version: (profile.version ?? 0) + 1 });
+      }
+
+      return stored;
+    });
+  }
+
+  async getProgressEvents(userId: string): Promise<ProgressEvent[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      return cloneProgressEvents(this.progressEvents.get(userId) || []);
+    });
+  }
+
+  async getUserProfileAsOf(userId: string, asOf: Date): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      return projectUserProfile(
+        this.profileSnapshots.get(userId) || [],
+        this.progressEvents.get(userId) || [],
+        asOf
+      );
+    });
+  }
+
+  async replayUserProfile(userId: string): Promise<UserProfile | null> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    return this.commit(() => {
+      const profile = projectUserProfile(
+        this.profileSnapshots.get(userId) || [],
+        this.progressEvents.get(userId) || []
+      );
+      if (profile) {
+        // Replaying rebuilds the same revision, so readers holding it can still save
+        profile.version = this.profiles.get(userId)?.version ?? 1;
+        this.profiles.set(userId, cloneUserProfile(profile));
+      }
+
+      return profile;
+    });
+  }
+
+  async saveGrowthPlan(plan: GrowthPlan): Promise<GrowthPlanVersion> {
+    // Validate plan ownership
+    if (!plan || !plan.userId || typeof plan.userId !== 'string' || plan.userId.trim() === '') {
+      throw new ValidationError('Growth plan must belong to a user', 'userId', plan ? plan.userId : plan);
+    }
+
+    return this.commit(() => {
+      const versions = this.growthPlans.get(plan.userId) || [];
+      const saved: GrowthPlanVersion = {
+        version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+        savedAt: new Date(),
+        plan: cloneGrowthPlan(plan),
+      };
+      this.growthPlans.set(plan.userId, [...versions, saved]);
+
+      return { ...saved, plan: cloneGrowthPlan(saved.plan) };
+    });
+  }
+
+  async getActiveGrowthPlan(userId: string): Promise<GrowthPlan | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      const versions = this.growthPlans.get(userId);
+      if (!versions || versions.length === 0) {
+        return null;
+      }
+
+      return cloneGrowthPlan(versions[versions.length - 1].plan);
+    });
+  }
+
+  async getGrowthPlanVersions(userId: string): Promise<GrowthPlanVersion[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      return (this.growthPlans.get(userId) || []).map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) }));
+    });
+  }
+
+  async saveAnalysisRecord(record: AnalysisRecord): Promise<void> {
+    // Validate record ownership
+    if (!record || !record.userId || typeof record.userId !== 'string' || record.userId.trim() === '') {
+      throw new ValidationError('Analysis record must belong to a user', 'userId', record ? record.userId : record);
+    }
+
+    await this.commit(() => {
+      const records = this.analysisRecords.get(record.userId) || [];
+      this.analysisRecords.set(record.userId, [...records, cloneAnalysisRecord(record)]);
+    });
+  }
+
+  async getAnalysisRecords<K extends AnalysisKind>(userId: string, kind: K): Promise<AnalysisRecord<K>[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      return (this.analysisRecords.get(userId) || [])
+        .filter((r): r is AnalysisRecord<K> => r.kind === kind)
+        .map(r => cloneAnalysisRecord(r));
+    });
+  }
+
+  async saveMemoryNote(note: MemoryNote): Promise<void> {
+    // Validate note ownership
+    if (!note || !note.userId || typeof note.userId !== 'string' || note.userId.trim() === '') {
+      throw new ValidationError('Memory note must belong to a user', 'userId', note ? note.userId : note);
+    }
+
+    await this.commit(() => {
+      const notes = (this.memoryNotes.get(note.userId) || []).filter(n => n.id !== note.id);
+      this.memoryNotes.set(note.userId, sortMemoryNotes([...notes, this.sealMemoryNote(note)]));
+    });
+  }
+
+  async getMemoryNotes(userId: string): Promise<MemoryNote[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      return this.openMemoryNotes(userId, this.memoryNotes.get(userId) || []);
+    });
+  }
+
+  async saveReviewFlag(flag: ReviewFlagRecord): Promise<void> {
+    validateReviewFlag(flag);
+
+    await this.commit(() => {
+      const flags = this.reviewFlags.get(flag.userId) || [];
+      this.reviewFlags.set(flag.userId, sortReviewFlags([...flags, ...cloneReviewFlags([flag])]));
+    });
+  }
+
+  async getReviewFlags(): Promise<ReviewFlagRecord[]> {
+    await withRetry(() => this.ensureLoaded());
+
+    return sortReviewFlags(cloneReviewFlags([...this.reviewFlags.values()].flat()));
+  }
+
+  async exportUserData(userId: string): Promise<UserDataArchive> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      await this.ensureLoaded();
+
+      const profile = this.profiles.get(userId);
+
+      return createUserDataArchive(userId, {
+        profile: profile ? cloneUserProfile(profile) : null,
+        profileSnapshots: (this.profileSnapshots.get(userId) || []).map(s => ({ ...s, profile: cloneUserProfile(s.profile) })),
+        conversations: this.getUserSessionIds(userId).map(sessionId => ({
+          sessionId,
+          messages: this.openMessages(userId, this.conversations.get(sessionId) || []),
+        })),
+        progressEvents: cloneProgressEvents(this.progressEvents.get(userId) || []),
+        growthPlans: (this.growthPlans.get(userId) || []).map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) })),
+        analyses: (this.analysisRecords.get(userId) || []).map(r => cloneAnalysisRecord(r)),
+        memoryNotes: this.openMemoryNotes(userId, this.memoryNotes.get(userId) || []),
+        reviewFlags: cloneReviewFlags(this.reviewFlags.get(userId) || []),
+      });
+    });
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    // The atomic rewrite replaces the old file, so nothing erased remains on disk
+    await this.commit(() => this.eraseUser(userId));
+  }
+
+  async purgeMessagesBefore(userId: string, before: Date): Promise<number> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    const isExpired = (message: Message) => new Date(message.timestamp).getTime() < before.getTime();
+
+    // Nothing to purge means nothing to write
+    await withRetry(() => this.ensureLoaded());
+    const sessionIds = this.getUserSessionIds(userId);
+    if (!sessionIds.some(sessionId => (this.conversations.get(sessionId) || []).some(isExpired))) {
+      return 0;
+    }
+
+    return this.commit(() => {
+      let purged = 0;
+      for (const sessionId of this.getUserSessionIds(userId)) {
+        const messages = this.conversations.get(sessionId);
+        if (!messages) {
+          continue;
+        }
+        const kept = messages.filter(message => !isExpired(message));
+        purged += messages.length - kept.length;
+        this.conversations.set(sessionId, kept);
+      }
+      return purged;
+    });
+  }
+
+  async listUserIds(): Promise<string[]> {
+    await this.ensureLoaded();
+
+    const userIds = new Set([
+      ...this.profiles.keys(),
+      ...this.sessionToUser.values(),
+      ...this.progressEvents.keys(),
+      ...this.profileSnapshots.keys(),
+      ...this.growthPlans.keys(),
+      ...this.analysisRecords.keys(),
+      ...this.memoryNotes.keys(),
+      ...this.reviewFlags.keys(),
+    ]);
+    return [...userIds].sort();
+  }
+
+  async importUserData(archive: UserDataArchive): Promise<void> {
+    const { userId } = archive;
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    if (archive.profile) {
+      const validationErrors = validateUserProfile(archive.profile);
+      if (validationErrors.length > 0) {
+        throw validationErrors[0]; // Throw first validation error
+      }
+      validateDataIntegrity(archive.profile);
+    }
+
+    await this.commit(() => {
+      this.eraseUser(userId);
+
+      if (archive.profile) {
+        this.profiles.set(userId, { ...cloneUserProfile(archive.profile), version: archive.profile.version ?? 1 });
+      }
+      this.profileSnapshots.set(userId, archive.profileSnapshots.map(s => ({ ...s, profile: cloneUserProfile(s.profile) })));
+      for (const { sessionId, messages } of archive.conversations) {
+        this.sessionToUser.set(sessionId, userId);
+        this.conversations.set(sessionId, this.sealMessages(sessionId, messages));
+      }
+      this.progressEvents.set(userId, cloneProgressEvents(archive.progressEvents).map(e => ({ ...e, userId })));
+      this.growthPlans.set(userId, archive.growthPlans.map(v => ({ ...v, plan: cloneGrowthPlan(v.plan) })));
+      this.analysisRecords.set(userId, archive.analyses.map(r => cloneAnalysisRecord({ ...r, userId })));
+      this.memoryNotes.set(userId, sortMemoryNotes((archive.memoryNotes || []).map(n => this.sealMemoryNote({ ...n, userId }))));
+      this.reviewFlags.set(userId, sortReviewFlags(cloneReviewFlags(archive.reviewFlags || []).map(f => ({ ...f, userId }))));
+    });
+  }
+
+  async rotateEncryptionKeys(): Promise<KeyRotationReport> {
+    const encryption = this.requireEncryption();
+
+    return this.commit(() => {
+      // Re-encrypt everything first so a failure leaves the old keys in place
+      const rotated = this.rotatedConversations(encryption);
+      for (const { userId, dataKey, conversations, memoryNotes } of rotated) {
+        for (const [sessionId, messages] of conversations) {
+          this.conversations.set(sessionId, messages);
+        }
+        if (memoryNotes.length > 0) {
+          this.memoryNotes.set(userId, memoryNotes);
+        }
+        this.dataKeys.set(userId, [dataKey]);
+      }
+
+      return {
+        rotatedAt: new Date(),
+        masterKeyId: encryption.masterKeyId,
+        usersRotated: rotated.length,
+        messagesReencrypted: rotated.reduce((total, r) => total + r.messageCount, 0),
+      };
+    });
+  }
+
+  /**
+   * Helper method to associate a session with a user
+   * This is needed for conversation history retrieval
+   */
+  associateSessionWithUser(sessionId: string, userId: string): void {
+    this.sessionToUser.set(sessionId, userId);
+    this.ensureLoaded()
+      .then(() => this.persist())
+      .catch(error => console.error(`Failed to persist session ${sessionId}:`, error));
+  }
+
+  /**
+   * Waits until every pending write has reached the disk
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /**
+   * Helper method to clear all data (useful for testing)
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+    this.profiles.clear();
+    this.conversations.clear();
+    this.sessionToUser.clear();
+    this.progressEvents.clear();
+    this.profileSnapshots.clear();
+    this.growthPlans.clear();
+    this.analysisRecords.clear();
+    this.memoryNotes.clear();
+    this.reviewFlags.clear();
+    this.dataKeys.clear();
+    await this.persist();
+  }
+
+  // Private helper methods
+
+  private getUserSessionIds(userId: string): string[] {
+    return [...this.sessionToUser.entries()]
+      .filter(([, owner]) => owner === userId)
+      .map(([sessionId]) => sessionId);
+  }
+
+  private eraseUser(userId: string): void {
+    for (const sessionId of this.getUserSessionIds(userId)) {
+      this.conversations.delete(sessionId);
+      this.sessionToUser.delete(sessionId);
+    }
+    this.profiles.delete(userId);
+    this.profileSnapshots.delete(userId);
+    this.progressEvents.delete(userId);
+    this.growthPlans.delete(userId);
+    this.analysisRecords.delete(userId);
+    this.memoryNotes.delete(userId);
+    this.reviewFlags.delete(userId);
+    // Without the data key any copy of the ciphertext left elsewhere is unreadable
+    this.dataKeys.delete(userId);
+  }
+
+  private requireEncryption(): ConversationEncryption {
+    if (!this.encryption) {
+      throw new EncryptionError('Encryption is not configured for this store');
+    }
+    return this.encryption;
+  }
+
+  /**
+   * Copies messages for storage, encrypting them under the session owner's data key
+   */
+  private sealMessages(sessionId: string, messages: Message[]): Message[] {
+    if (!this.encryption) {
+      return cloneMessages(messages);
+    }
+
+    const userId = this.sessionToUser.get(sessionId);
+    if (!userId) {
+      throw new EncryptionError(`Session ${sessionId} has no user, so its messages cannot be encrypted`, { sessionId });
+    }
+
+    return this.encryption.encryptMessages(messages, this.currentDataKey(this.encryption, userId));
+  }
+
+  private openMessages(userId: string, messages: Message[]): Message[] {
+    return this.encryption
+      ? this.encryption.decryptMessages(messages, this.dataKeys.get(userId) || [])
+      : cloneMessages(messages);
+  }
+
+  /**
+   * Copies a memory note for storage, encrypting it under its user's data key
+   */
+  private sealMemoryNote(note: MemoryNote): MemoryNote {
+    return this.encryption
+      ? this.encryption.encryptMemoryNote(note, this.currentDataKey(this.encryption, note.userId))
+      : cloneMemoryNotes([note])[0];
+  }
+
+  private openMemoryNotes(userId: string, notes: MemoryNote[]): MemoryNote[] {
+    return this.encryption
+      ? this.encryption.decryptMemoryNotes(notes, this.dataKeys.get(userId) || [])
+      : cloneMemoryNotes(notes);
+  }
+
+  /**
+   * The user's newest data key, created on first use
+   */
+  private currentDataKey(encryption: ConversationEncryption, userId: string): WrappedDataKey {
+    let keys = this.dataKeys.get(userId);
+    if (!keys || keys.length === 0) {
+      keys = [encryption.createDataKey(userId, 1)];
+      this.dataKeys.set(userId, keys);
+    }
+    return keys[keys.length - 1];
+  }
+
+  /**
+   * Re-encrypts every user's conversations under a new data key without storing anything
+   */
+  private rotatedConversations(encryption: ConversationEncryption): RotatedConversations[] {
+    const userIds = new Set([...this.dataKeys.keys(), ...this.memoryNotes.keys()]);
+    for (const sessionId of this.conversations.keys()) {
+      const owner = this.sessionToUser.get(sessionId);
+      if (owner) {
+        userIds.add(owner);
+      }
+    }
+
+    return [...userIds].map(userId => rotateUserConversations(
+      encryption,
+      userId,
+      this.dataKeys.get(userId) || [],
+      new Map(this.getUserSessionIds(userId)
+        .filter(sessionId => this.conversations.has(sessionId))
+        .map(sessionId => [sessionId, this.conversations.get(sessionId)!])),
+      this.memoryNotes.get(userId) || []
+    ));
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        // Allow a later call to retry loading
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return; // Fresh store
+      }
+      throw error;
+    }
+
+    let snapshot: FileSnapshot;
+    try {
+      snapshot = JSON.parse(raw);
+    } catch (error) {
+      throw new DataIntegrityError(`Data file ${this.filePath} is not valid JSON`, { filePath: this.filePath });
+    }
+
+    if (!snapshot || snapshot.version !== SNAPSHOT_VERSION) {
+      throw new DataIntegrityError(`Unsupported data file version in ${this.filePath}`, {
+        filePath: this.filePath,
+        version: snapshot ? snapshot.version : undefined
+      });
+    }
+
+    // Sessions associated before the load finished must not be lost
+    const pendingSessions = new Map(this.sessionToUser);
+
+    // Profiles saved before versioning start at version 1
+    this.profiles = new Map(
+      Object.entries(snapshot.profiles || {}).map(([userId, profile]) => [
+        userId,
+        { ...reviveUserProfile(profile), version: profile.version ?? 1 }
+      ])
+    );
+    this.conversations = new Map(
+      Object.entries(snapshot.conversations || {}).map(([sessionId, messages]) => [sessionId, reviveMessages(messages)])
+    );
+    this.sessionToUser = new Map(Object.entries(snapshot.sessionToUser || {}));
+    this.progressEvents = new Map(
+      Object.entries(snapshot.progressEvents || {}).map(([userId, events]) => [userId, reviveProgressEvents(events)])
+    );
+    this.profileSnapshots = new Map(
+      Object.entries(snapshot.profileSnapshots || {}).map(([userId, snapshots]) => [userId, reviveProfileSnapshots(snapshots)])
+    );
+    this.upgradeLegacyProgress(snapshot);
+    this.growthPlans = new Map(
+      Object.entries(snapshot.growthPlans || {}).map(([userId, versions]) => [userId, reviveGrowthPlanVersions(versions)])
+    );
+    this.analysisRecords = new Map(
+      Object.entries(snapshot.analysisRecords || {}).map(([userId, records]) => [userId, records.map(r => reviveAnalysisRecord(r))])
+    );
+    this.memoryNotes = new Map(
+      Object.entries(snapshot.memoryNotes || {}).map(([userId, notes]) => [userId, reviveMemoryNotes(notes)])
+    );
+    this.reviewFlags = new Map(
+      Object.entries(snapshot.reviewFlags || {}).map(([userId, flags]) => [userId, reviveReviewFlags(flags)])
+    );
+    this.dataKeys = new Map(
+      Object.entries(snapshot.dataKeys || {}).map(([userId, keys]) => [userId, reviveDataKeys(keys)])
+    );
+
+    for (const [sessionId, userId] of pendingSessions) {
+      this.sessionToUser.set(sessionId, userId);
+    }
+  }
+
+  /**
+   * Brings data files written before the event log existed up to date
+   * Old progress entries become completion events and each stored profile
+   * becomes the first snapshot, timed at its last update
+   */
+  private upgradeLegacyProgress(snapshot: FileSnapshot): void {
+    for (const [userId, entries] of Object.entries(snapshot.progressHistory || {})) {
+      if (this.progressEvents.has(userId)) {
+        continue;
+      }
+      this.progressEvents.set(userId, reviveProgressEntries(entries).map((entry, index) => {
+        const event: ProgressEvent = {
+          type: 'action_completed',
+          actionId: entry.actionId,
+          sequence: index + 1,
+          userId,
+          occurredAt: entry.completedAt,
+        };
+        if (entry.milestone) {
+          event.milestone = entry.milestone;
+        }
+        return event;
+      }));
+    }
+
+    for (const [userId, profile] of this.profiles) {
+      if (!this.profileSnapshots.has(userId)) {
+        this.profileSnapshots.set(userId, [{
+          sequence: 0,
+          savedAt: new Date(profile.progress.lastUpdated),
+          profile: cloneUserProfile(profile),
+        }]);
+      }
+    }
+  }
+
+  /**
+   * Applies a change and writes it to the data file
+   * Changes run one at a time and only the write is retried. A change whose write
+   * keeps failing is undone, so none of it lingers for the next write to pick up.
+   * Changes must replace stored values rather than modify them in place.
+   */
+  private async commit<T>(change: () => T): Promise<T> {
+    await withRetry(() => this.ensureLoaded());
+
+    const run = this.writeChain.then(async () => {
+      const before = this.captureState();
+      try {
+        const result = change();
+        await withRetry(() => writeFileAtomic(this.filePath, this.serialize()));
+        return result;
+      } catch (error) {
+        this.restoreState(before);
+        throw error;
+      }
+    });
+    // Keep the chain alive even if this change fails
+    this.writeChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private captureState(): StoreState {
+    return {
+      profiles: new Map(this.profiles),
+      conversations: new Map(this.conversations),
+      sessionToUser: new Map(this.sessionToUser),
+      progressEvents: new Map(this.progressEvents),
+      profileSnapshots: new Map(this.profileSnapshots),
+      growthPlans: new Map(this.growthPlans),
+      analysisRecords: new Map(this.analysisRecords),
+      memoryNotes: new Map(this.memoryNotes),
+      reviewFlags: new Map(this.reviewFlags),
+      dataKeys: new Map(this.dataKeys),
+    };
+  }
+
+  private restoreState(state: StoreState): void {
+    this.profiles = state.profiles;
+    this.conversations = state.conversations;
+    // Sessions associated meanwhile are not part of the change
+    this.sessionToUser = new Map([...state.sessionToUser, ...this.sessionToUser]);
+    this.progressEvents = state.progressEvents;
+    this.profileSnapshots = state.profileSnapshots;
+    this.growthPlans = state.growthPlans;
+    this.analysisRecords = state.analysisRecords;
+    this.memoryNotes = state.memoryNotes;
+    this.reviewFlags = state.reviewFlags;
+    this.dataKeys = state.dataKeys;
+  }
+
+  /**
+   * Queues an atomic rewrite of the data file
+   * Writes are serialized so an older snapshot never lands after a newer one
+   */
+  private persist(): Promise<void> {
+    const write = this.writeChain.then(() => writeFileAtomic(this.filePath, this.serialize()));
+    // Keep the chain alive even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  private serialize(): string {
+    const snapshot: FileSnapshot = {
+      version: SNAPSHOT_VERSION,
+      profiles: Object.fromEntries(this.profiles),
+      conversations: Object.fromEntries(this.conversations),
+      sessionToUser: Object.fromEntries(this.sessionToUser),
+      progressEvents: Object.fromEntries(this.progressEvents),
+      profileSnapshots: Object.fromEntries(this.profileSnapshots),
+      growthPlans: Object.fromEntries(this.growthPlans),
+      analysisRecords: Object.fromEntries(this.analysisRecords),
+      memoryNotes: Object.fromEntries(this.memoryNotes),
+      reviewFlags: Object.fromEntries(this.reviewFlags),
+      dataKeys: Object.fromEntries(this.dataKeys),
+    };
+    return JSON.stringify(snapshot);
+  }
+}
@@ -3,3 +3,14 @@
  */
 
 export * from './dataStore.js';
+export * from './fileDataStore.js';
+export * from './serialization.js';
+export * from './atomicWrite.js';
+export * from './sqliteDataStore.js';
+export * from './migrations.js';
+export * from './progressEvents.js';
+export * from './userData.js';
+export * from './encryption.js';
+export * from './backup.js';
+export * from './profileUpdates.js';
+export * from './retention.js';
@@ -0,0 +1,285 @@
+/**
+ * Versioned schema migrations for the SQLite data store
+ * Append a new migration whenever the models in src/models change shape;
+ * never edit a migration that has already shipped.
+ */
+
+import { Database } from 'sql.js';
+import { WorkLifeError } from '../utils/errorHandling.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_profile_tables',
+    statements: [
+      `CREATE TABLE users (
+        user_id TEXT PRIMARY KEY,
+        age INTEGER,
+        current_role TEXT,
+        years_of_experience INTEGER,
+        education TEXT,
+        industry TEXT,
+        current_path TEXT,
+        confidence_level REAL,
+        motivation_level REAL,
+        last_updated INTEGER NOT NULL
+      )`,
+      `CREATE TABLE goals (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        description TEXT NOT NULL,
+        type TEXT NOT NULL,
+        priority INTEGER NOT NULL,
+        target_date INTEGER,
+        PRIMARY KEY (user_id, position)
+      )`,
+      `CREATE TABLE challenges (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        severity REAL NOT NULL,
+        PRIMARY KEY (user_id, position)
+      )`,
+      `CREATE TABLE interests (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        interest TEXT NOT NULL,
+        PRIMARY KEY (user_id, position)
+      )`,
+      `CREATE TABLE primary_concerns (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        concern TEXT NOT NULL,
+        PRIMARY KEY (user_id, position)
+      )`,
+      `CREATE TABLE skills (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        kind TEXT NOT NULL CHECK (kind IN ('current', 'learning', 'target')),
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        level REAL NOT NULL,
+        category TEXT NOT NULL,
+        PRIMARY KEY (user_id, kind, position)
+      )`,
+      `CREATE TABLE milestones (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        target_date INTEGER,
+        completed INTEGER NOT NULL,
+        completed_date INTEGER,
+        PRIMARY KEY (user_id, position)
+      )`,
+      `CREATE TABLE completed_actions (
+        user_id TEXT NOT NULL REFERENCES users(user_id),
+        position INTEGER NOT NULL,
+        action_id TEXT NOT NULL,
+        PRIMARY KEY (user_id, position)
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'create_conversation_and_progress_tables',
+    statements: [
+      `CREATE TABLE sessions (
+        session_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_sessions_user ON sessions(user_id)`,
+      `CREATE TABLE messages (
+        session_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (session_id, position)
+      )`,
+      `CREATE INDEX idx_messages_session_time ON messages(session_id, timestamp)`,
+      `CREATE TABLE progress_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        action_id TEXT NOT NULL,
+        completed_at INTEGER NOT NULL,
+        milestone TEXT
+      )`,
+      `CREATE INDEX idx_progress_user_time ON progress_entries(user_id, completed_at)`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'create_growth_plan_versions',
+    statements: [
+      `CREATE TABLE growth_plan_versions (
+        user_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        plan_id TEXT NOT NULL,
+        saved_at INTEGER NOT NULL,
+        plan TEXT NOT NULL,
+        PRIMARY KEY (user_id, version)
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'create_analysis_records',
+    statements: [
+      `CREATE TABLE analysis_records (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        profile_snapshot TEXT NOT NULL,
+        result TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_analysis_records_user_kind ON analysis_records (user_id, kind, created_at)',
+    ],
+  },
+  {
+    version: 5,
+    name: 'create_progress_event_log',
+    statements: [
+      `CREATE TABLE progress_events (
+        user_id TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        occurred_at INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        PRIMARY KEY (user_id, sequence)
+      )`,
+      `CREATE TABLE profile_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        saved_at INTEGER NOT NULL,
+        profile TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_profile_snapshots_user_time ON profile_snapshots (user_id, saved_at)',
+      // Earlier completions become the first events of each user's log
+      `INSERT INTO progress_events (user_id, sequence, type, occurred_at, payload)
+       SELECT user_id,
+              ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY completed_at, id),
+              'action_completed',
+              completed_at,
+              CASE WHEN milestone IS NULL
+                THEN json_object('actionId', action_id)
+                ELSE json_object('actionId', action_id, 'milestone', milestone)
+              END
+       FROM progress_entries`,
+      'DROP TABLE progress_entries',
+    ],
+  },
+  {
+    version: 6,
+    name: 'create_user_data_keys',
+    statements: [
+      `CREATE TABLE user_data_keys (
+        user_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        master_key_id TEXT NOT NULL,
+        wrapped_key TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, version)
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    name: 'add_profile_versions',
+    statements: [
+      'ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1',
+    ],
+  },
+  {
+    version: 8,
+    name: 'create_memory_notes',
+    statements: [
+      `CREATE TABLE memory_notes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        summarized_at INTEGER NOT NULL,
+        note TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_memory_notes_user_time ON memory_notes (user_id, summarized_at)',
+    ],
+  },
+  {
+    version: 9,
+    name: 'create_review_flags',
+    statements: [
+      `CREATE TABLE review_flags (
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        flagged_at INTEGER NOT NULL,
+        flag TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_review_flags_time ON review_flags (flagged_at)',
+    ],
+  },
+];
+
+/**
+ * Returns the highest migration version applied to the database
+ */
+export function getSchemaVersion(db: Database): number {
+  db.run(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`);
+  const result = db.exec('SELECT MAX(version) FROM schema_migrations');
+  const value = result.length > 0 ? result[0].values[0][0] : null;
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Applies every migration newer than the database's current version
+ * Each migration runs in its own transaction and is recorded in
+ * schema_migrations, so a failed migration leaves the schema untouched.
+ * @returns The versions that were applied
+ */
+export function runMigrations(db: Database, migrations: Migration[] = MIGRATIONS): number[] {
+  const currentVersion = getSchemaVersion(db);
+  const pending = [...migrations]
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const applied: number[] = [];
+
+  for (const migration of pending) {
+    db.run('BEGIN');
+    try {
+      for (const statement of migration.statements) {
+        db.run(statement);
+      }
+      db.run(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, Date.now()]
+      );
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new WorkLifeError(
+        `Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`,
+        'MIGRATION_FAILED',
+        false,
+        { version: migration.version }
+      );
+    }
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
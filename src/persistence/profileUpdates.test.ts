@@ -0,0 +1,122 @@
+/**
+ * Tests for conflict-safe profile updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemoryDataStore } from './dataStore.js';
+import { updateUserProfile } from './profileUpdates.js';
+import { UserProfile } from '../models/core.js';
+import { ConcurrentModificationError } from '../utils/errorHandling.js';
+
+function createProfile(): UserProfile {
+  return {
+    userId: 'user-1',
+    personalInfo: { age: 27, currentRole: 'Support Engineer', yearsOfExperience: 4, education: 'BA' },
+    careerInfo: { goals: [], interests: ['product'], struggles: [] },
+    skills: { current: [], learning: [], target: [] },
+    mindset: { confidenceLevel: 0.4, motivationLevel: 0.7, primaryConcerns: [] },
+    progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+  };
+}
+
+/**
+ * Store where another writer completes an action right after each of the first reads
+ */
+async function createContestedStore(contestedReads: number): Promise<{ store: InMemoryDataStore; reads: () => number }> {
+  const store = new InMemoryDataStore();
+  await store.saveUserProfile(createProfile());
+
+  const read = store.getUserProfile.bind(store);
+  let reads = 0;
+  store.getUserProfile = async (userId: string) => {
+    const profile = await read(userId);
+    if (++reads <= contestedReads) {
+      await store.trackActionCompletion(userId, `action-${reads}`);
+    }
+    return profile;
+  };
+
+  return { store, reads: () => reads };
+}
+
+describe('updateUserProfile', () => {
+  it('should re-apply the update on top of a concurrent change', async () => {
+    const { store, reads } = await createContestedStore(1);
+
+    const updated = await updateUserProfile(store, 'user-1', profile => {
+      profile.careerInfo.interests.push('analytics');
+    });
+
+    expect(reads()).toBe(2);
+    const stored = (await store.getUserProfile('user-1'))!;
+    expect(stored.progress.completedActions).toEqual(['action-1']);
+    expect(stored.careerInfo.interests).toEqual(['product', 'analytics']);
+    expect(updated!.version).toBe(stored.version);
+  });
+
+  it('should keep the version that was read even when the update returns a replacement', async () => {
+    const { store } = await createContestedStore(1);
+
+    await updateUserProfile(store, 'user-1', ({ version: _version, ...profile }) => ({
+      ...profile,
+      mindset: { ...profile.mindset, confidenceLevel: 0.6 },
+    }));
+
+    // Dropping the version must not turn the save into an overwrite of the completion
+    const stored = (await store.getUserProfile('user-1'))!;
+    expect(stored.mindset.confidenceLevel).toBe(0.6);
+    expect(stored.progress.completedActions).toEqual(['action-1']);
+  });
+
+  it('should give up after repeated conflicts', async () => {
+    const { store, reads } = await createContestedStore(Infinity);
+
+    await expect(updateUserProfile(store, 'user-1', () => undefined, { maxAttempts: 2 }))
+      .rejects.toThrow(ConcurrentModificationError);
+    expect(reads()).toBe(2);
+  });
+
+  it('should return null for users without a profile', async () => {
+    expect(await updateUserProfile(new InMemoryDataStore(), 'nobody', () => undefined)).toBeNull();
+  });
+
+  it('should start from the initial profile only while the user has none', async () => {
+    const store = new InMemoryDataStore();
+    const addInterest = (profile: UserProfile) => {
+      profile.careerInfo.interests.push('analytics');
+    };
+
+    const created = await updateUserProfile(store, 'user-1', addInterest, { initial: createProfile() });
+    expect(created!.version).toBe(1);
+
+    const initial = createProfile();
+    initial.personalInfo.currentRole = 'Data Analyst';
+    await updateUserProfile(store, 'user-1', addInterest, { initial });
+
+    const stored = (await store.getUserProfile('user-1'))!;
+    expect(stored.personalInfo.currentRole).toBe('Support Engineer');
+    expect(stored.careerInfo.interests).toEqual(['product', 'analytics', 'analytics']);
+    expect(stored.version).toBe(2);
+  });
+
+  it('should not change the profile it read', async () => {
+    const store = new InMemoryDataStore();
+    await store.saveUserProfile(createProfile());
+    const held = (await store.getUserProfile('user-1'))!;
+    // A store handing out the object it holds, while another writer keeps saving
+    store.getUserProfile = async () => held;
+    await store.trackActionCompletion('user-1', 'action-1');
+
+    await expect(updateUserProfile(store, 'user-1', profile => {
+      profile.progress.milestones.push({
+        id: 'm-1',
+        title: 'Ship a side project',
+        description: 'Publish a small analytics project',
+        targetDate: new Date('2026-12-01T00:00:00.000Z'),
+        completed: false,
+      });
+    }, { maxAttempts: 2 })).rejects.toThrow(ConcurrentModificationError);
+
+    expect(held.progress.milestones).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Conflict-safe profile updates
+ *
+ * Profile saves only succeed against the version the profile was read at. An update
+ * written as a function of the current profile can be applied again to a fresh read,
+ * so a conflicting save is retried instead of overwriting the other writer's changes.
+ */
+
+import { UserProfile } from '../models/core.js';
+import { withRetry, RetryConfig } from '../utils/errorHandling.js';
+import { DataStore } from './dataStore.js';
+
+/**
+ * A change to apply to the latest stored profile
+ * Changes the profile in place or returns a replacement; it may run more than once
+ */
+export type ProfileUpdate = (profile: UserProfile) => UserProfile | void;
+
+export interface ProfileUpdateOptions extends Partial<RetryConfig> {
+  /** Profile to apply the update to when the user has none yet; it becomes their first version */
+  initial?: UserProfile;
+}
+
+/**
+ * Reads a profile, applies an update and saves it, re-reading and re-applying
+ * the update whenever another save got there first
+ * @returns The saved profile, or null when the user has no profile and no initial one was given
+ * @throws ConcurrentModificationError when every attempt conflicted
+ */
+export async function updateUserProfile(
+  dataStore: DataStore,
+  userId: string,
+  update: ProfileUpdate,
+  options: ProfileUpdateOptions = {}
+): Promise<UserProfile | null> {
+  const { initial, ...config } = options;
+  return withRetry(async () => {
+    const current = await dataStore.getUserProfile(userId) ?? (initial ? { ...initial, version: 0 } : null);
+    if (!current) {
+      return null;
+    }
+
+    // Work on a copy: a store may hand out the profile it holds, and a conflicting
+    // attempt must leave nothing behind for the next one to apply the update on top of
+    const draft = structuredClone(current);
+
+    // The save stays conditional on the version that was read, whatever the update returns
+    const updated = update(draft) ?? draft;
+    updated.version = current.version;
+
+    await dataStore.saveUserProfile(updated);
+    return updated;
+  }, { delayMs: 10, ...config, retryOnConflict: true });
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for progress event projection and replay
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ProgressEvent,
+  ProgressEventPayload,
+  ProfileSnapshot,
+  applyProgressEvent,
+  projectPendingActions,
+  projectUserProfile,
+  toProgressEntries,
+  validateProgressEvent
+} from './progressEvents.js';
+import { cloneUserProfile } from './serialization.js';
+import { ActionStep, UserProfile } from '../models/core.js';
+
+function createProfile(): UserProfile {
+  return {
+    userId: 'user-1',
+    personalInfo: { age: 29, currentRole: 'Analyst', yearsOfExperience: 3, education: 'BSc' },
+    careerInfo: {
+      goals: [{ id: 'goal-1', description: 'Lead a project', type: 'short_term', priority: 1 }],
+      interests: ['data'],
+      struggles: [],
+    },
+    skills: {
+      current: [{ name: 'SQL', level: 5, category: 'technical' }],
+      learning: [],
+      target: [],
+    },
+    mindset: { confidenceLevel: 0.6, motivationLevel: 0.7, primaryConcerns: [] },
+    progress: {
+      completedActions: [],
+      milestones: [{
+        id: 'm-1',
+        title: 'Certification',
+        description: 'Pass the exam',
+        targetDate: new Date('2026-12-01T00:00:00.000Z'),
+        completed: false,
+      }],
+      lastUpdated: new Date('2026-10-01T00:00:00.000Z'),
+    },
+  };
+}
+
+function toEvents(payloads: ProgressEventPayload[], start = Date.UTC(2026, 9, 2)): ProgressEvent[] {
+  return payloads.map((payload, index) => ({
+    ...payload,
+    sequence: index + 1,
+    userId: 'user-1',
+    occurredAt: new Date(start + index * 24 * 60 * 60 * 1000),
+  }));
+}
+
+const payloadArb: fc.Arbitrary<ProgressEventPayload> = fc.oneof(
+  fc.record({ type: fc.constant('action_completed' as const), actionId: fc.constantFrom('a-1', 'a-2', 'a-3') }),
+  fc.record({ type: fc.constant('action_reopened' as const), actionId: fc.constantFrom('a-1', 'a-2', 'a-3') }),
+  fc.record({ type: fc.constant('milestone_completed' as const), milestoneId: fc.constantFrom('m-1', 'm-2') }),
+  fc.record({
+    type: fc.constant('skill_level_changed' as const),
+    skill: fc.constantFrom('SQL', 'python'),
+    level: fc.integer({ min: 0, max: 10 }),
+  }),
+  fc.record({ type: fc.constant('goal_removed' as const), goalId: fc.constantFrom('goal-1', 'goal-2') }),
+  fc.record({
+    type: fc.constant('goal_added' as const),
+    goal: fc.record({
+      id: fc.constantFrom('goal-1', 'goal-2'),
+      description: fc.constant('New goal'),
+      type: fc.constant('long_term' as const),
+      priority: fc.integer({ min: 1, max: 5 }),
+    }),
+  })
+);
+
+describe('Progress Events', () => {
+  it('should project progress, skills and goals from events', () => {
+    const snapshot: ProfileSnapshot = { sequence: 0, savedAt: new Date('2026-10-01T00:00:00.000Z'), profile: createProfile() };
+    const events = toEvents([
+      { type: 'action_completed', actionId: 'a-1' },
+      { type: 'action_completed', actionId: 'a-2' },
+      { type: 'action_reopened', actionId: 'a-1' },
+      { type: 'milestone_completed', milestoneId: 'm-1' },
+      { type: 'skill_level_changed', skill: 'sql', level: 7 },
+      { type: 'skill_level_changed', skill: 'Python', level: 3, category: 'technical', list: 'learning' },
+      { type: 'goal_added', goal: { id: 'goal-2', description: 'Mentor someone', type: 'long_term', priority: 2 } },
+      { type: 'goal_removed', goalId: 'goal-1' },
+    ]);
+
+    const profile = projectUserProfile([snapshot], events)!;
+
+    expect(profile.progress.completedActions).toEqual(['a-2']);
+    expect(profile.progress.milestones[0].completed).toBe(true);
+    expect(profile.progress.milestones[0].completedDate).toEqual(events[3].occurredAt);
+    expect(profile.skills.current).toEqual([{ name: 'SQL', level: 7, category: 'technical' }]);
+    expect(profile.skills.learning).toEqual([{ name: 'Python', level: 3, category: 'technical' }]);
+    expect(profile.careerInfo.goals.map(g => g.id)).toEqual(['goal-2']);
+    expect(profile.progress.lastUpdated).toEqual(events[events.length - 1].occurredAt);
+    // The snapshot itself is never modified
+    expect(snapshot.profile.progress.completedActions).toEqual([]);
+  });
+
+  it('should travel back to the state at a given date', () => {
+    const snapshot: ProfileSnapshot = { sequence: 0, savedAt: new Date('2026-10-01T00:00:00.000Z'), profile: createProfile() };
+    const events = toEvents([
+      { type: 'action_completed', actionId: 'a-1' },
+      { type: 'action_completed', actionId: 'a-2' },
+      { type: 'action_reopened', actionId: 'a-1' },
+    ]);
+
+    expect(projectUserProfile([snapshot], events, new Date('2026-09-30T00:00:00.000Z'))).toBeNull();
+    expect(projectUserProfile([snapshot], events, events[0].occurredAt)!.progress.completedActions).toEqual(['a-1']);
+    expect(projectUserProfile([snapshot], events, events[1].occurredAt)!.progress.completedActions).toEqual(['a-1', 'a-2']);
+    expect(projectUserProfile([snapshot], events, events[2].occurredAt)!.progress.completedActions).toEqual(['a-2']);
+  });
+
+  it('should start from the latest snapshot and skip events it already includes', () => {
+    const first: ProfileSnapshot = { sequence: 0, savedAt: new Date('2026-10-01T00:00:00.000Z'), profile: createProfile() };
+    const events = toEvents([
+      { type: 'action_completed', actionId: 'a-1' },
+      { type: 'action_completed', actionId: 'a-2' },
+    ]);
+    const saved = createProfile();
+    saved.personalInfo.currentRole = 'Senior Analyst';
+    saved.progress.completedActions = ['a-1'];
+    const second: ProfileSnapshot = { sequence: 1, savedAt: events[0].occurredAt, profile: saved };
+
+    const profile = projectUserProfile([first, second], events)!;
+
+    expect(profile.personalInfo.currentRole).toBe('Senior Analyst');
+    expect(profile.progress.completedActions).toEqual(['a-1', 'a-2']);
+  });
+
+  it('should reach the same state from any intermediate snapshot', () => {
+    fc.assert(
+      fc.property(fc.array(payloadArb, { maxLength: 30 }), fc.nat(), (payloads, splitSeed) => {
+        const events = toEvents(payloads);
+        const first: ProfileSnapshot = { sequence: 0, savedAt: new Date('2026-10-01T00:00:00.000Z'), profile: createProfile() };
+        const split = events.length > 0 ? splitSeed % events.length : 0;
+
+        // Snapshot taken after the first `split` events
+        const partial = cloneUserProfile(first.profile);
+        events.slice(0, split).forEach(event => applyProgressEvent(partial, event));
+        const middle: ProfileSnapshot = {
+          sequence: split,
+          savedAt: split > 0 ? events[split - 1].occurredAt : first.savedAt,
+          profile: partial,
+        };
+
+        expect(projectUserProfile([first, middle], events)).toEqual(projectUserProfile([first], events));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should list completions as progress entries', () => {
+    const events = toEvents([
+      { type: 'action_completed', actionId: 'a-1', milestone: 'm-1' },
+      { type: 'action_reopened', actionId: 'a-1' },
+      { type: 'action_completed', actionId: 'a-1' },
+    ]);
+
+    expect(toProgressEntries(events)).toEqual([
+      { userId: 'user-1', actionId: 'a-1', completedAt: events[0].occurredAt, milestone: 'm-1' },
+      { userId: 'user-1', actionId: 'a-1', completedAt: events[2].occurredAt },
+    ]);
+  });
+
+  it('should list committed actions until they are completed, with their latest due date', () => {
+    const action = (id: string): ActionStep => ({
+      id,
+      description: `Action ${id}`,
+      timeframe: 'this_week',
+      category: 'learning',
+      completed: false,
+      dueDate: new Date('2026-10-09T23:59:59.000Z'),
+    });
+    const events = toEvents([
+      { type: 'action_committed', action: action('a-1') },
+      { type: 'action_committed', action: action('a-2') },
+      { type: 'action_rescheduled', actionId: 'a-2', dueDate: new Date('2026-10-16T23:59:59.000Z') },
+      { type: 'action_completed', actionId: 'a-1' },
+      { type: 'action_rescheduled', actionId: 'a-3', dueDate: new Date('2026-10-16T23:59:59.000Z') },
+    ]);
+
+    expect(projectPendingActions(events)).toEqual([{ ...action('a-2'), dueDate: new Date('2026-10-16T23:59:59.000Z') }]);
+    expect(projectPendingActions([...events, ...toEvents([{ type: 'action_reopened', actionId: 'a-1' }])]).map(a => a.id))
+      .toEqual(['a-1', 'a-2']);
+    // Commitments leave the profile as it is
+    expect(projectUserProfile([{ sequence: 0, savedAt: new Date(0), profile: createProfile() }], events.slice(0, 3))!.progress.completedActions)
+      .toEqual([]);
+  });
+
+  it('should reject malformed events', () => {
+    expect(validateProgressEvent({ type: 'action_completed', actionId: '' })).toHaveLength(1);
+    expect(validateProgressEvent({ type: 'action_committed', action: { id: 'a-1', description: 'Apply' } as ActionStep })).toHaveLength(1);
+    expect(validateProgressEvent({ type: 'action_rescheduled', actionId: 'a-1', dueDate: '2026-10-16T00:00:00.000Z' as any })).toEqual([]);
+    expect(validateProgressEvent({ type: 'skill_level_changed', skill: 'SQL', level: 11 })).toHaveLength(1);
+    expect(validateProgressEvent({ type: 'unknown' } as any)).toHaveLength(1);
+    expect(validateProgressEvent({ type: 'goal_removed', goalId: 'goal-1' })).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Progress event log
+ * Progress and skills are projected from an append-only list of events
+ * recorded on top of the profile snapshots taken whenever a profile is saved
+ */
+
+import { UserProfile, Goal, Skill, ActionStep } from '../models/core.js';
+import { ValidationError } from '../utils/validation.js';
+import { ProgressEntry } from './dataStore.js';
+import { cloneUserProfile } from './serialization.js';
+
+/**
+ * Change recorded against a user's progress, before it is stored
+ */
+export type ProgressEventPayload =
+  | { type: 'action_completed'; actionId: string; milestone?: string }
+  | { type: 'action_reopened'; actionId: string }
+  | { type: 'action_committed'; action: ActionStep }
+  | { type: 'action_rescheduled'; actionId: string; dueDate: Date }
+  | { type: 'milestone_completed'; milestoneId: string }
+  | { type: 'skill_level_changed'; skill: string; level: number; category?: string; list?: keyof UserProfile['skills'] }
+  | { type: 'goal_added'; goal: Goal }
+  | { type: 'goal_removed'; goalId: string };
+
+export type ProgressEventType = ProgressEventPayload['type'];
+
+/**
+ * A stored progress event
+ * Sequence numbers start at 1 per user and never repeat
+ */
+export type ProgressEvent = ProgressEventPayload & {
+  sequence: number;
+  userId: string;
+  occurredAt: Date;
+};
+
+/**
+ * Profile as it was saved, with the last event sequence it already includes
+ */
+export interface ProfileSnapshot {
+  sequence: number;
+  savedAt: Date;
+  profile: UserProfile;
+}
+
+const EVENT_TYPES: ProgressEventType[] = [
+  'action_completed',
+  'action_reopened',
+  'action_committed',
+  'action_rescheduled',
+  'milestone_completed',
+  'skill_level_changed',
+  'goal_added',
+  'goal_removed',
+];
+
+/**
+ * Validates a progress event before it is appended to the log
+ */
+export function validateProgressEvent(event: ProgressEventPayload): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!event || !EVENT_TYPES.includes(event.type)) {
+    errors.push(new ValidationError(`Progress event type must be one of: ${EVENT_TYPES.join(', ')}`, 'type', event ? event.type : event));
+    return errors;
+  }
+
+  const requireString = (field: string, value: unknown) => {
+    if (!value || typeof value !== 'string' || value.trim() === '') {
+      errors.push(new ValidationError(`${field} must be a non-empty string`, field, value));
+    }
+  };
+
+  // Dates may also be in their JSON form, as in backups
+  const requireDate = (field: string, value: unknown) => {
+    const valid = (value instanceof Date || typeof value === 'string') && !isNaN(new Date(value).getTime());
+    if (!valid) {
+      errors.push(new ValidationError(`${field} must be a valid date`, field, value));
+    }
+  };
+
+  switch (event.type) {
+    case 'action_completed':
+    case 'action_reopened':
+      requireString('actionId', event.actionId);
+      break;
+    case 'action_committed':
+      requireString('action.id', event.action ? event.action.id : undefined);
+      requireString('action.description', event.action ? event.action.description : undefined);
+      requireDate('action.dueDate', event.action ? event.action.dueDate : undefined);
+      break;
+    case 'action_rescheduled':
+      requireString('actionId', event.actionId);
+      requireDate('dueDate', event.dueDate);
+      break;
+    case 'milestone_completed':
+      requireString('milestoneId', event.milestoneId);
+      break;
+    case 'skill_level_changed':
+      requireString('skill', event.skill);
+      if (typeof event.level !== 'number' || event.level < 0 || event.level > 10) {
+        errors.push(new ValidationError('Skill level must be a number between 0 and 10', 'level', event.level));
+      }
+      break;
+    case 'goal_added':
+      requireString('goal.id', event.goal ? event.goal.id : undefined);
+      break;
+    case 'goal_removed':
+      requireString('goalId', event.goalId);
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Applies a single event to a profile in place
+ * Every event is idempotent, so replaying one that is already reflected is harmless
+ */
+export function applyProgressEvent(profile: UserProfile, event: ProgressEvent): UserProfile {
+  switch (event.type) {
+    case 'action_completed':
+      if (!profile.progress.completedActions.includes(event.actionId)) {
+        profile.progress.completedActions.push(event.actionId);
+      }
+      break;
+
+    case 'action_reopened':
+      profile.progress.completedActions = profile.progress.completedActions.filter(id => id !== event.actionId);
+      break;
+
+    // Commitments are tracked by the log alone; see projectPendingActions
+    case 'action_committed':
+    case 'action_rescheduled':
+      break;
+
+    case 'milestone_completed': {
+      const milestone = profile.progress.milestones.find(m => m.id === event.milestoneId);
+      if (milestone && !milestone.completed) {
+        milestone.completed = true;
+        milestone.completedDate = new Date(event.occurredAt);
+      }
+      break;
+    }
+
+    case 'skill_level_changed': {
+      const list = profile.skills[event.list || 'current'];
+      const existing = list.find(s => s.name.toLowerCase() === event.skill.toLowerCase());
+      if (existing) {
+        existing.level = event.level;
+      } else {
+        const skill: Skill = { name: event.skill, level: event.level, category: event.category || 'general' };
+        list.push(skill);
+      }
+      break;
+    }
+
+    case 'goal_added':
+      if (!profile.careerInfo.goals.some(g => g.id === event.goal.id)) {
+        profile.careerInfo.goals.push({ ...event.goal });
+      }
+      break;
+
+    case 'goal_removed':
+      profile.careerInfo.goals = profile.careerInfo.goals.filter(g => g.id !== event.goalId);
+      break;
+  }
+
+  profile.progress.lastUpdated = new Date(event.occurredAt);
+  return profile;
+}
+
+/**
+ * Rebuilds a profile from its snapshots and event log
+ * @param snapshots - Saved profile snapshots, oldest first
+ * @param events - The user's events, in sequence order
+ * @param asOf - Only use snapshots and events up to this moment (defaults to everything)
+ * @returns The projected profile, or null when no profile existed at that time
+ */
+export function projectUserProfile(
+  snapshots: ProfileSnapshot[],
+  events: ProgressEvent[],
+  asOf?: Date
+): UserProfile | null {
+  const cutoff = asOf ? asOf.getTime() : Infinity;
+
+  let base: ProfileSnapshot | undefined;
+  for (const snapshot of snapshots) {
+    if (snapshot.savedAt.getTime() <= cutoff) {
+      base = snapshot;
+    }
+  }
+
+  if (!base) {
+    return null;
+  }
+
+  const profile = cloneUserProfile(base.profile);
+  for (const event of events) {
+    if (event.sequence > base.sequence && event.occurredAt.getTime() <= cutoff) {
+      applyProgressEvent(profile, event);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Lists action completions from the event log as progress entries
+ */
+export function toProgressEntries(events: ProgressEvent[]): ProgressEntry[] {
+  const entries: ProgressEntry[] = [];
+
+  for (const event of events) {
+    if (event.type === 'action_completed') {
+      const entry: ProgressEntry = {
+        userId: event.userId,
+        actionId: event.actionId,
+        completedAt: new Date(event.occurredAt),
+      };
+      if (event.milestone) {
+        entry.milestone = event.milestone;
+      }
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Lists the actions a user committed to and has not completed, in the order they were committed
+ * Completing an action settles its commitment; reopening it makes the commitment pending again.
+ */
+export function projectPendingActions(events: ProgressEvent[]): ActionStep[] {
+  const committed = new Map<string, ActionStep>();
+  const completed = new Set<string>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'action_committed':
+        committed.set(event.action.id, { ...event.action, completed: false });
+        completed.delete(event.action.id);
+        break;
+      case 'action_rescheduled': {
+        const action = committed.get(event.actionId);
+        if (action) {
+          action.dueDate = new Date(event.dueDate);
+        }
+        break;
+      }
+      case 'action_completed':
+        completed.add(event.actionId);
+        break;
+      case 'action_reopened':
+        completed.delete(event.actionId);
+        break;
+    }
+  }
+
+  return [...committed.values()].filter(action => !completed.has(action.id));
+}
@@ -0,0 +1,216 @@
+/**
+ * Tests for data retention policies and the purge job
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InMemoryDataStore } from './dataStore.js';
+import { RetentionJob, getLastActivity, loadRetentionPolicy, runRetentionPurge } from './retention.js';
+import { Message, UserProfile } from '../models/core.js';
+import { ValidationError } from '../utils/validation.js';
+
+const NOW = new Date('2026-10-18T00:00:00.000Z');
+
+function createProfile(userId: string): UserProfile {
+  return {
+    userId,
+    personalInfo: { age: 35, currentRole: 'Designer', yearsOfExperience: 10, education: 'BFA' },
+    careerInfo: { goals: [], interests: ['research'], struggles: [] },
+    skills: { current: [], learning: [], target: [] },
+    mindset: { confidenceLevel: 0.6, motivationLevel: 0.6, primaryConcerns: [] },
+    progress: { completedActions: [], milestones: [], lastUpdated: new Date('2025-01-01T00:00:00.000Z') },
+  };
+}
+
+function message(id: string, timestamp: string): Message {
+  return { id, sender: 'user', content: `Message ${id}`, timestamp: new Date(timestamp) };
+}
+
+async function seed(): Promise<InMemoryDataStore> {
+  const store = new InMemoryDataStore();
+
+  // A registered user with a long history
+  await store.saveUserProfile(createProfile('user-1'));
+  store.associateSessionWithUser('session-1', 'user-1');
+  await store.saveConversation('session-1', [
+    message('ancient', '2024-06-01T00:00:00.000Z'),
+    message('recent', '2026-10-10T00:00:00.000Z'),
+  ]);
+
+  // Anonymous visitors, one gone quiet and one still chatting
+  store.associateSessionWithUser('session-2', 'user_1700000000000');
+  await store.saveConversation('session-2', [message('stale', '2026-08-01T00:00:00.000Z')]);
+  store.associateSessionWithUser('session-3', 'user_1760000000000');
+  await store.saveConversation('session-3', [message('fresh', '2026-10-15T00:00:00.000Z')]);
+
+  return store;
+}
+
+describe('runRetentionPurge', () => {
+  it('should delete old messages and erase inactive anonymous users', async () => {
+    const store = await seed();
+    await store.trackActionCompletion('user-1', 'action-1');
+    const liveSessions = { removeUserSessions: vi.fn().mockReturnValue(1) };
+
+    const report = await runRetentionPurge(
+      store,
+      { messageRetentionDays: 365, anonymousUserInactivityDays: 30 },
+      { now: NOW, registries: [liveSessions] }
+    );
+
+    expect(report).toMatchObject({
+      dryRun: false,
+      usersScanned: 3,
+      erasedUsers: ['user_1700000000000'],
+      purgedMessages: [{ userId: 'user-1', count: 1 }],
+      messagesPurged: 1,
+      failures: [],
+    });
+    expect(report.messageCutoff).toEqual(new Date('2025-10-18T00:00:00.000Z'));
+    expect(liveSessions.removeUserSessions).toHaveBeenCalledWith('user_1700000000000');
+
+    expect((await store.getConversationHistory('user-1')).map(m => m.id)).toEqual(['recent']);
+    expect(await store.getProgressHistory('user-1')).toHaveLength(1);
+    expect(await store.listUserIds()).toEqual(['user-1', 'user_1760000000000']);
+  });
+
+  it('should erase inactive guests of sessions the server did not start', async () => {
+    const store = new InMemoryDataStore();
+    store.associateSessionWithUser('session-4', 'guest_session-4');
+    await store.saveConversation('session-4', [message('guest', '2026-08-01T00:00:00.000Z')]);
+    store.associateSessionWithUser('session-5', 'guests-team');
+    await store.saveConversation('session-5', [message('team', '2026-08-01T00:00:00.000Z')]);
+
+    const report = await runRetentionPurge(store, {}, { now: NOW });
+
+    expect(report.erasedUsers).toEqual(['guest_session-4']);
+    expect(await store.listUserIds()).toEqual(['guests-team']);
+  });
+
+  it('should erase and purge records kept outside the store', async () => {
+    const store = await seed();
+    const intentLog = {
+      eraseUserRecords: vi.fn().mockResolvedValue(2),
+      purgeRecordsBefore: vi.fn().mockResolvedValue(5),
+    };
+
+    const report = await runRetentionPurge(store, {}, { now: NOW, holders: [intentLog] });
+
+    expect(intentLog.eraseUserRecords).toHaveBeenCalledWith('user_1700000000000');
+    expect(intentLog.purgeRecordsBefore).toHaveBeenCalledWith(new Date('2025-10-18T00:00:00.000Z'), false);
+    expect(report.recordsPurged).toBe(5);
+  });
+
+  it('should only report on a dry run', async () => {
+    const store = await seed();
+    const intentLog = {
+      eraseUserRecords: vi.fn().mockResolvedValue(0),
+      purgeRecordsBefore: vi.fn().mockResolvedValue(3),
+    };
+
+    const report = await runRetentionPurge(store, {}, { now: NOW, dryRun: true, holders: [intentLog] });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.erasedUsers).toEqual(['user_1700000000000']);
+    expect(report.messagesPurged).toBe(1);
+    expect(report.recordsPurged).toBe(3);
+    expect(intentLog.eraseUserRecords).not.toHaveBeenCalled();
+    expect(intentLog.purgeRecordsBefore).toHaveBeenCalledWith(expect.any(Date), true);
+    expect(await store.listUserIds()).toHaveLength(3);
+    expect(await store.getConversationHistory('user-1')).toHaveLength(2);
+  });
+
+  it('should keep data whose rule is switched off and carry on past failing users', async () => {
+    const store = await seed();
+    const exportUserData = store.exportUserData.bind(store);
+    store.exportUserData = async (userId: string) => {
+      if (userId === 'user_1760000000000') {
+        throw new Error('disk on fire');
+      }
+      return exportUserData(userId);
+    };
+
+    const report = await runRetentionPurge(
+      store,
+      { messageRetentionDays: null, anonymousUserInactivityDays: 30 },
+      { now: NOW }
+    );
+
+    expect(report.messageCutoff).toBeNull();
+    expect(report.purgedMessages).toEqual([]);
+    expect(report.erasedUsers).toEqual(['user_1700000000000']);
+    expect(report.failures).toEqual([{ userId: 'user_1760000000000', reason: 'disk on fire' }]);
+  });
+});
+
+describe('getLastActivity', () => {
+  it('should use the latest record of any kind', async () => {
+    const store = await seed();
+
+    expect(getLastActivity(await store.exportUserData('user_1760000000000'))).toEqual(new Date('2026-10-15T00:00:00.000Z'));
+
+    // Recording progress counts as activity, not just chatting
+    await store.appendProgressEvent('user_1760000000000', { type: 'action_completed', actionId: 'action-1' });
+    expect(getLastActivity(await store.exportUserData('user_1760000000000'))!.getTime())
+      .toBeGreaterThan(new Date('2026-10-15T00:00:00.000Z').getTime());
+    expect(getLastActivity(await store.exportUserData('nobody'))).toBeNull();
+  });
+});
+
+describe('loadRetentionPolicy', () => {
+  it('should read periods from the environment and allow switching rules off', () => {
+    const policy = loadRetentionPolicy({
+      WORKLIFE_RETENTION_MESSAGE_DAYS: '90',
+      WORKLIFE_RETENTION_ANONYMOUS_DAYS: 'off',
+    });
+
+    expect(policy.messageRetentionDays).toBe(90);
+    expect(policy.anonymousUserInactivityDays).toBeNull();
+    expect(loadRetentionPolicy({}).anonymousUserInactivityDays).toBe(30);
+    expect(() => loadRetentionPolicy({ WORKLIFE_RETENTION_MESSAGE_DAYS: '-1' })).toThrow(ValidationError);
+  });
+});
+
+describe('RetentionJob', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run at start and on its interval and report each run', async () => {
+    vi.useFakeTimers();
+    const store = await seed();
+    const onReport = vi.fn();
+    const job = new RetentionJob(store, {}, { intervalMs: 1000, dryRun: true, onReport });
+
+    job.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    job.stop();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(onReport).toHaveBeenCalledTimes(3);
+    expect(onReport.mock.calls[0][0].dryRun).toBe(true);
+  });
+
+  it('should report a failing first run without waiting for the interval', async () => {
+    const store = await seed();
+    store.listUserIds = async () => {
+      throw new Error('store offline');
+    };
+    const onError = vi.fn();
+    const job = new RetentionJob(store, {}, { onError });
+
+    job.start();
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'store offline' })));
+    job.stop();
+  });
+
+  it('should share a run that is already in progress', async () => {
+    const job = new RetentionJob(await seed());
+
+    const first = job.runNow();
+    expect(job.runNow()).toBe(first);
+    await first;
+    const second = job.runNow();
+    expect(second).not.toBe(first);
+    await second;
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Data retention
+ * Limits how long raw conversation messages and anonymous users are kept.
+ * Progress events, profiles, growth plans, analyses, memory notes and review flags are never purged here,
+ * so what was learned from a conversation outlives the messages themselves.
+ * Records of messages kept outside the store, such as the intent log, follow the same rules.
+ */
+
+import { DataStore } from './dataStore.js';
+import { UserDataArchive, ActiveSessionRegistry, UserRecordHolder, eraseUserData } from './userData.js';
+import { ValidationError } from '../utils/validation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * User IDs the server hands out to visitors who never identified themselves,
+ * and to guests of sessions it did not start (`guest_<sessionId>`)
+ */
+export const ANONYMOUS_USER_PATTERN = /^(?:user_\d+|guest_.+)$/;
+
+export interface RetentionPolicy {
+  /** Messages older than this many days are deleted; null keeps them forever */
+  messageRetentionDays: number | null;
+  /** Anonymous users with no activity for this many days are erased; null keeps them */
+  anonymousUserInactivityDays: number | null;
+  anonymousUserPattern: RegExp;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  messageRetentionDays: 365,
+  anonymousUserInactivityDays: 30,
+  anonymousUserPattern: ANONYMOUS_USER_PATTERN,
+};
+
+export interface PurgeOptions {
+  /** Report what would be purged without deleting anything */
+  dryRun?: boolean;
+  /** Reference time for the cutoffs, mainly for tests */
+  now?: Date;
+  /** Live session holders to close when an anonymous user is erased */
+  registries?: ActiveSessionRegistry[];
+  /** Other records of messages, erased with their user and purged with old messages */
+  holders?: UserRecordHolder[];
+}
+
+/**
+ * Messages purged for one user
+ */
+export interface MessagePurge {
+  userId: string;
+  count: number;
+}
+
+/**
+ * A user the purge could not process; the rest of the run carries on
+ */
+export interface PurgeFailure {
+  userId: string;
+  reason: string;
+}
+
+/**
+ * Outcome of one retention run
+ */
+export interface PurgeReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  messageCutoff: Date | null;
+  inactivityCutoff: Date | null;
+  usersScanned: number;
+  erasedUsers: string[];
+  purgedMessages: MessagePurge[];
+  messagesPurged: number;
+  /** Records purged from holders outside the store for being older than the message cutoff */
+  recordsPurged: number;
+  failures: PurgeFailure[];
+}
+
+/**
+ * Reads a retention policy from the environment
+ * WORKLIFE_RETENTION_MESSAGE_DAYS and WORKLIFE_RETENTION_ANONYMOUS_DAYS take a
+ * number of days, or "off" to keep that data forever
+ */
+export function loadRetentionPolicy(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  return {
+    ...DEFAULT_RETENTION_POLICY,
+    messageRetentionDays: parseDays(env, 'WORKLIFE_RETENTION_MESSAGE_DAYS', DEFAULT_RETENTION_POLICY.messageRetentionDays),
+    anonymousUserInactivityDays: parseDays(
+      env,
+      'WORKLIFE_RETENTION_ANONYMOUS_DAYS',
+      DEFAULT_RETENTION_POLICY.anonymousUserInactivityDays
+    ),
+  };
+}
+
+/**
+ * Parses a retention period in days; "off" disables the rule
+ */
+export function parseRetentionDays(value: string, field: string): number | null {
+  if (value.trim().toLowerCase() === 'off') {
+    return null;
+  }
+  const days = Number(value);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new ValidationError(`${field} must be a positive number of days or "off"`, field, value);
+  }
+  return days;
+}
+
+function parseDays(env: NodeJS.ProcessEnv, name: string, fallback: number | null): number | null {
+  const value = env[name];
+  return value === undefined || value === '' ? fallback : parseRetentionDays(value, name);
+}
+
+/**
+ * Latest moment anything was recorded for the user, or null if nothing was
+ */
+export function getLastActivity(archive: UserDataArchive): Date | null {
+  const times = [
+    ...archive.conversations.flatMap(c => c.messages.map(m => m.timestamp)),
+    ...archive.progressEvents.map(e => e.occurredAt),
+    ...archive.profileSnapshots.map(s => s.savedAt),
+    ...archive.growthPlans.map(v => v.savedAt),
+    ...archive.analyses.map(r => r.createdAt),
+    ...archive.memoryNotes.map(n => n.summarizedAt),
+    ...archive.reviewFlags.map(f => f.flaggedAt),
+  ].map(time => new Date(time).getTime());
+
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+/**
+ * Applies a retention policy to every user in the store
+ * Inactive anonymous users are erased outright; everyone else only loses old messages
+ */
+export async function runRetentionPurge(
+  dataStore: DataStore,
+  policy: Partial<RetentionPolicy> = {},
+  options: PurgeOptions = {}
+): Promise<PurgeReport> {
+  const finalPolicy = { ...DEFAULT_RETENTION_POLICY, ...policy };
+  const dryRun = options.dryRun === true;
+  const startedAt = new Date();
+  const now = options.now ?? startedAt;
+  const messageCutoff = daysBefore(now, finalPolicy.messageRetentionDays);
+  const inactivityCutoff = daysBefore(now, finalPolicy.anonymousUserInactivityDays);
+
+  const userIds = await dataStore.listUserIds();
+  const erasedUsers: string[] = [];
+  const purgedMessages: MessagePurge[] = [];
+  const failures: PurgeFailure[] = [];
+  const holders = options.holders ?? [];
+
+  for (const userId of userIds) {
+    try {
+      const archive = await dataStore.exportUserData(userId);
+
+      if (inactivityCutoff && finalPolicy.anonymousUserPattern.test(userId)) {
+        const lastActivity = getLastActivity(archive);
+        if (!lastActivity || lastActivity < inactivityCutoff) {
+          if (!dryRun) {
+            await eraseUserData(userId, dataStore, options.registries, holders);
+          }
+          erasedUsers.push(userId);
+          continue;
+        }
+      }
+
+      if (messageCutoff) {
+        const count = dryRun
+          ? archive.conversations.flatMap(c => c.messages).filter(m => new Date(m.timestamp) < messageCutoff).length
+          : await dataStore.purgeMessagesBefore(userId, messageCutoff);
+        if (count > 0) {
+          purgedMessages.push({ userId, count });
+        }
+      }
+    } catch (error) {
+      failures.push({ userId, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  let recordsPurged = 0;
+  if (messageCutoff) {
+    for (const holder of holders) {
+      recordsPurged += await holder.purgeRecordsBefore(messageCutoff, dryRun);
+    }
+  }
+
+  return {
+    dryRun,
+    startedAt,
+    finishedAt: new Date(),
+    messageCutoff,
+    inactivityCutoff,
+    usersScanned: userIds.length,
+    erasedUsers,
+    purgedMessages,
+    messagesPurged: purgedMessages.reduce((total, purge) => total + purge.count, 0),
+    recordsPurged,
+    failures,
+  };
+}
+
+function daysBefore(now: Date, days: number | null): Date | null {
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+}
+
+export interface RetentionJobOptions extends Omit<PurgeOptions, 'now'> {
+  intervalMs: number;
+  /** Called with the report of every scheduled run */
+  onReport?: (report: PurgeReport) => void;
+  /** Called when a scheduled run fails as a whole */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_RETENTION_JOB_OPTIONS: RetentionJobOptions = {
+  intervalMs: 24 * 60 * 60 * 1000, // daily
+};
+
+/**
+ * Runs the retention purge in the background on a fixed interval
+ * Runs never overlap; asking for a run while one is going returns that run
+ */
+export class RetentionJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<PurgeReport> | null = null;
+  private options: RetentionJobOptions;
+
+  constructor(
+    private dataStore: DataStore,
+    private policy: Partial<RetentionPolicy> = {},
+    options: Partial<RetentionJobOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_RETENTION_JOB_OPTIONS, ...options };
+  }
+
+  /**
+   * Runs the purge right away and then on the configured interval
+   * Purging at start keeps a process restarted more often than the interval from
+   * never purging. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.runScheduled(), this.options.intervalMs);
+    this.timer.unref();
+    this.runScheduled();
+  }
+
+  /**
+   * Stops scheduling runs; a run already in progress finishes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs the purge immediately, or joins the run in progress
+   */
+  runNow(): Promise<PurgeReport> {
+    if (!this.running) {
+      const { dryRun, registries, holders } = this.options;
+      this.running = runRetentionPurge(this.dataStore, this.policy, { dryRun, registries, holders })
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+
+  private runScheduled(): void {
+    this.runNow().then(
+      report => this.options.onReport?.(report),
+      error => this.options.onError?.(error)
+    );
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Serialization helpers shared by DataStore implementations
+ * Deep-clones records through JSON and restores Date fields afterwards
+ */
+
+import { UserProfile, Message, ActionStep, MemoryNote, ReviewFlagRecord } from '../models/core.js';
+import { GrowthPlan } from '../models/recommendations.js';
+import { ProgressEntry, GrowthPlanVersion, AnalysisKind, AnalysisRecord } from './dataStore.js';
+import { ProgressEvent, ProfileSnapshot } from './progressEvents.js';
+import { WrappedDataKey } from './encryption.js';
+
+/**
+ * Restores Date objects on a user profile that went through JSON
+ */
+export function reviveUserProfile(raw: any): UserProfile {
+  raw.progress.lastUpdated = new Date(raw.progress.lastUpdated);
+  if (raw.progress.milestones) {
+    raw.progress.milestones = raw.progress.milestones.map((m: any) => ({
+      ...m,
+      targetDate: new Date(m.targetDate),
+      completedDate: m.completedDate ? new Date(m.completedDate) : undefined
+    }));
+  }
+  if (raw.careerInfo && Array.isArray(raw.careerInfo.goals)) {
+    raw.careerInfo.goals = raw.careerInfo.goals.map((g: any) => ({
+      ...g,
+      targetDate: g.targetDate ? new Date(g.targetDate) : undefined
+    }));
+  }
+  return raw;
+}
+
+/**
+ * Restores Date objects on messages that went through JSON
+ */
+export function reviveMessages(raw: any[]): Message[] {
+  return raw.map((m: any) => ({
+    ...m,
+    timestamp: new Date(m.timestamp)
+  }));
+}
+
+/**
+ * Restores Date objects on progress entries that went through JSON
+ */
+export function reviveProgressEntries(raw: any[]): ProgressEntry[] {
+  return raw.map((e: any) => ({
+    ...e,
+    completedAt: new Date(e.completedAt)
+  }));
+}
+
+/**
+ * Restores Date objects on progress events that went through JSON
+ */
+export function reviveProgressEvents(raw: any[]): ProgressEvent[] {
+  return raw.map((e: any) => {
+    const event = { ...e, occurredAt: new Date(e.occurredAt) };
+    if (event.type === 'goal_added') {
+      event.goal = { ...e.goal, targetDate: e.goal.targetDate ? new Date(e.goal.targetDate) : undefined };
+    }
+    if (event.type === 'action_committed') {
+      event.action = { ...e.action, dueDate: e.action.dueDate ? new Date(e.action.dueDate) : undefined };
+    }
+    if (event.type === 'action_rescheduled') {
+      event.dueDate = new Date(e.dueDate);
+    }
+    return event;
+  });
+}
+
+/**
+ * Restores Date objects on profile snapshots that went through JSON
+ */
+export function reviveProfileSnapshots(raw: any[]): ProfileSnapshot[] {
+  return raw.map((s: any) => ({
+    sequence: s.sequence,
+    savedAt: new Date(s.savedAt),
+    profile: reviveUserProfile(s.profile)
+  }));
+}
+
+/**
+ * Restores Date objects on wrapped data keys that went through JSON
+ */
+export function reviveDataKeys(raw: any[]): WrappedDataKey[] {
+  return raw.map((k: any) => ({
+    ...k,
+    createdAt: new Date(k.createdAt)
+  }));
+}
+
+/**
+ * Restores Date objects on action steps that went through JSON
+ */
+export function reviveActionSteps(raw: any[]): ActionStep[] {
+  return raw.map((a: any) => ({
+    ...a,
+    dueDate: a.dueDate ? new Date(a.dueDate) : undefined
+  }));
+}
+
+/**
+ * Restores Date objects on a growth plan that went through JSON
+ */
+export function reviveGrowthPlan(raw: any): GrowthPlan {
+  raw.createdAt = new Date(raw.createdAt);
+  raw.lastUpdated = new Date(raw.lastUpdated);
+  raw.milestones = (raw.milestones || []).map((m: any) => ({
+    ...m,
+    targetDate: new Date(m.targetDate),
+    completedDate: m.completedDate ? new Date(m.completedDate) : undefined
+  }));
+  raw.phases = (raw.phases || []).map((p: any) => ({
+    ...p,
+    actions: reviveActionSteps(p.actions || [])
+  }));
+  return raw;
+}
+
+/**
+ * Restores Date objects on stored growth plan versions that went through JSON
+ */
+export function reviveGrowthPlanVersions(raw: any[]): GrowthPlanVersion[] {
+  return raw.map((v: any) => ({
+    version: v.version,
+    savedAt: new Date(v.savedAt),
+    plan: reviveGrowthPlan(v.plan)
+  }));
+}
+
+/**
+ * Restores Date objects on a stored analysis record that went through JSON
+ */
+export function reviveAnalysisRecord<K extends AnalysisKind>(raw: any): AnalysisRecord<K> {
+  raw.createdAt = new Date(raw.createdAt);
+  raw.profileSnapshot = reviveUserProfile(raw.profileSnapshot);
+  if (raw.kind === 'transition_plan') {
+    raw.result.phases = (raw.result.phases || []).map((p: any) => ({
+      ...p,
+      actions: reviveActionSteps(p.actions || [])
+    }));
+  }
+  return raw;
+}
+
+/**
+ * Restores Date objects on memory notes that went through JSON
+ */
+export function reviveMemoryNotes(raw: any[]): MemoryNote[] {
+  return raw.map((n: any) => ({
+    ...n,
+    summarizedAt: new Date(n.summarizedAt)
+  }));
+}
+
+/**
+ * Restores Date objects on review flags that went through JSON
+ */
+export function reviveReviewFlags(raw: any[]): ReviewFlagRecord[] {
+  return raw.map((f: any) => ({
+    ...f,
+    flaggedAt: new Date(f.flaggedAt)
+  }));
+}
+
+/**
+ * Deep clones a user profile, keeping Date fields intact
+ */
+export function cloneUserProfile(profile: UserProfile): UserProfile {
+  return reviveUserProfile(JSON.parse(JSON.stringify(profile)));
+}
+
+/**
+ * Deep clones a list of messages, keeping Date fields intact
+ */
+export function cloneMessages(messages: Message[]): Message[] {
+  return reviveMessages(JSON.parse(JSON.stringify(messages)));
+}
+
+/**
+ * Deep clones a list of progress events, keeping Date fields intact
+ */
+export function cloneProgressEvents(events: ProgressEvent[]): ProgressEvent[] {
+  return reviveProgressEvents(JSON.parse(JSON.stringify(events)));
+}
+
+/**
+ * Deep clones a growth plan, keeping Date fields intact
+ */
+export function cloneGrowthPlan(plan: GrowthPlan): GrowthPlan {
+  return reviveGrowthPlan(JSON.parse(JSON.stringify(plan)));
+}
+
+/**
+ * Deep clones an analysis record, keeping Date fields intact
+ */
+export function cloneAnalysisRecord<K extends AnalysisKind>(record: AnalysisRecord<K>): AnalysisRecord<K> {
+  return reviveAnalysisRecord<K>(JSON.parse(JSON.stringify(record)));
+}
+
+/**
+ * Deep clones a list of memory notes, keeping Date fields intact
+ */
+export function cloneMemoryNotes(notes: MemoryNote[]): MemoryNote[] {
+  return reviveMemoryNotes(JSON.parse(JSON.stringify(notes)));
+}
+
+/**
+ * Deep clones a list of review flags, keeping Date fields intact
+ */
+export function cloneReviewFlags(flags: ReviewFlagRecord[]): ReviewFlagRecord[] {
+  return reviveReviewFlags(JSON.parse(JSON.stringify(flags)));
+}
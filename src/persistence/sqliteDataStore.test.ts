@@ -0,0 +1,254 @@
+/**
+ * Tests for the SQLite data store and its migration runner
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { SqliteDataStore } from './sqliteDataStore.js';
+import { MIGRATIONS, Migration, runMigrations, getSchemaVersion } from './migrations.js';
+import { WorkLifeError } from '../utils/errorHandling.js';
+import { UserProfile, Message } from '../models/core.js';
+
+function createTestProfile(userId: string): UserProfile {
+  return {
+    userId,
+    personalInfo: {
+      age: 31,
+      currentRole: 'Teacher',
+      yearsOfExperience: 8,
+      education: 'MEd',
+    },
+    careerInfo: {
+      goals: [{ id: 'goal-1', description: 'Become an instructional designer', type: 'long_term', priority: 1 }],
+      interests: ['learning design', 'technology'],
+      struggles: [{ type: 'transition', description: 'Unsure how to switch', severity: 6 }],
+    },
+    skills: {
+      current: [{ name: 'curriculum design', level: 8, category: 'education' }],
+      learning: [{ name: 'articulate storyline', level: 3, category: 'tools' }],
+      target: [{ name: 'ux research', level: 6, category: 'design' }],
+    },
+    mindset: {
+      confidenceLevel: 0.5,
+      motivationLevel: 0.9,
+      primaryConcerns: ['salary cut'],
+    },
+    progress: {
+      completedActions: ['action-0'],
+      milestones: [{
+        id: 'm-1',
+        title: 'Portfolio',
+        description: 'Publish first portfolio piece',
+        targetDate: new Date('2026-12-01T00:00:00.000Z'),
+        completed: false,
+      }],
+      lastUpdated: new Date('2026-10-01T00:00:00.000Z'),
+    },
+  };
+}
+
+function createMessages(count: number, start: number): Message[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `msg-${start + i}`,
+    sender: i % 2 === 0 ? 'user' as const : 'system' as const,
+    content: `Message ${start + i}`,
+    timestamp: new Date(start + i),
+  }));
+}
+
+describe('SqliteDataStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worklife-sqlite-'));
+    filePath = path.join(tempDir, 'data.sqlite');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a full profile through normalized tables', async () => {
+    const store = await SqliteDataStore.open();
+    const original = createTestProfile('user-1');
+
+    await store.saveUserProfile(original);
+    const restored = await store.getUserProfile('user-1');
+
+    expect(restored).toEqual({
+      ...original,
+      personalInfo: { ...original.personalInfo, industry: undefined },
+      careerInfo: {
+        ...original.careerInfo,
+        currentPath: undefined,
+        goals: [{ ...original.careerInfo.goals[0], targetDate: undefined }],
+      },
+      progress: {
+        ...original.progress,
+        milestones: [{ ...original.progress.milestones[0], completedDate: undefined }],
+      },
+    });
+  });
+
+  it('should persist data across reopening the database file', async () => {
+    const store = await SqliteDataStore.open(filePath);
+    store.associateSessionWithUser('session-1', 'user-1');
+    await store.saveUserProfile(createTestProfile('user-1'));
+    await store.saveConversation('session-1', createMessages(3, 1000));
+    await store.trackActionCompletion('user-1', 'action-1');
+    await store.close();
+
+    const reopened = await SqliteDataStore.open(filePath);
+    const profile = await reopened.getUserProfile('user-1');
+    const history = await reopened.getConversationHistory('user-1');
+    const progress = await reopened.getProgressHistory('user-1');
+
+    expect(profile!.progress.completedActions).toEqual(['action-0', 'action-1']);
+    expect(history.map(m => m.id)).toEqual(['msg-1000', 'msg-1001', 'msg-1002']);
+    expect(progress).toHaveLength(1);
+    expect(progress[0].completedAt).toBeInstanceOf(Date);
+    await reopened.close();
+  });
+
+  it('should return the most recent messages across sessions when limited', async () => {
+    const store = await SqliteDataStore.open();
+    store.associateSessionWithUser('session-a', 'user-1');
+    store.associateSessionWithUser('session-b', 'user-1');
+    store.associateSessionWithUser('session-c', 'user-2');
+    await store.saveConversation('session-a', createMessages(4, 1000));
+    await store.saveConversation('session-b', createMessages(4, 2000));
+    await store.saveConversation('session-c', createMessages(4, 3000));
+
+    const history = await store.getConversationHistory('user-1', 5);
+
+    expect(history.map(m => m.id)).toEqual(['msg-1003', 'msg-2000', 'msg-2001', 'msg-2002', 'msg-2003']);
+  });
+
+  it('should turn progress entries from older databases into completion events', async () => {
+    const SQL = await initSqlJs();
+    const legacy = new SQL.Database();
+    runMigrations(legacy, MIGRATIONS.filter(m => m.version < 5));
+    legacy.run(
+      'INSERT INTO progress_entries (user_id, action_id, completed_at, milestone) VALUES (?, ?, ?, ?), (?, ?, ?, ?)',
+      ['user-1', 'action-2', 2000, null, 'user-1', 'action-1', 1000, 'm-1']
+    );
+    await fs.writeFile(filePath, legacy.export());
+    legacy.close();
+
+    const store = await SqliteDataStore.open(filePath);
+    const events = await store.getProgressEvents('user-1');
+
+    expect(events.map(e => e.sequence)).toEqual([1, 2]);
+    expect(await store.getProgressHistory('user-1')).toEqual([
+      { userId: 'user-1', actionId: 'action-1', completedAt: new Date(1000), milestone: 'm-1' },
+      { userId: 'user-1', actionId: 'action-2', completedAt: new Date(2000) },
+    ]);
+    await store.close();
+  });
+
+  it('should answer history queries through indexes instead of full scans', async () => {
+    const store = await SqliteDataStore.open();
+
+    const plan = store.explainQueryPlan(
+      `SELECT m.id FROM sessions s JOIN messages m ON m.session_id = s.session_id
+       WHERE s.user_id = ? ORDER BY m.timestamp DESC LIMIT ?`,
+      ['user-1', 10]
+    );
+
+    expect(plan.some(detail => detail.includes('idx_sessions_user'))).toBe(true);
+    expect(plan.some(detail => /SEARCH m USING/.test(detail))).toBe(true);
+    expect(plan.some(detail => /^SCAN (m|messages)\b/.test(detail))).toBe(false);
+  });
+
+  it('should record an event once when a write has to be retried', async () => {
+    const store = await SqliteDataStore.open(filePath);
+    await store.saveUserProfile(createTestProfile('user-1'));
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('disk busy'), { code: 'EBUSY' }));
+
+    await store.trackActionCompletion('user-1', 'action-1');
+    await store.close();
+
+    const reopened = await SqliteDataStore.open(filePath);
+    expect((await reopened.getProgressEvents('user-1')).map(e => `${e.sequence}:${e.actionId}`)).toEqual(['1:action-1']);
+    const saved = await reopened.getUserProfile('user-1');
+    expect(saved!.progress.completedActions).toEqual(['action-0', 'action-1']);
+    expect(saved!.version).toBe(2);
+    await reopened.close();
+  });
+
+  it('should undo a change whose write keeps failing', async () => {
+    const store = await SqliteDataStore.open(filePath);
+    const profile = createTestProfile('user-1');
+    await store.saveUserProfile(profile);
+    vi.spyOn(fs, 'rename').mockRejectedValue(new Error('disk full'));
+
+    await expect(store.trackActionCompletion('user-1', 'action-1')).rejects.toThrow('disk full');
+    await expect(store.saveUserProfile({ ...profile, personalInfo: { ...profile.personalInfo, currentRole: 'Tutor' } }))
+      .rejects.toThrow('disk full');
+    expect(profile.version).toBe(1);
+    expect(await store.getProgressEvents('user-1')).toEqual([]);
+
+    vi.restoreAllMocks();
+    await store.trackActionCompletion('user-1', 'action-2');
+    await store.close();
+
+    const reopened = await SqliteDataStore.open(filePath);
+    expect((await reopened.getProgressEvents('user-1')).map(e => `${e.sequence}:${e.actionId}`)).toEqual(['1:action-2']);
+    const saved = await reopened.getUserProfile('user-1');
+    expect(saved!.personalInfo.currentRole).toBe('Teacher');
+    expect(saved!.progress.completedActions).toEqual(['action-0', 'action-2']);
+    expect(saved!.version).toBe(2);
+    await reopened.close();
+  });
+});
+
+describe('runMigrations', () => {
+  it('should apply every migration once and record the schema version', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+
+    expect(runMigrations(db)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    expect(runMigrations(db)).toEqual([]);
+    db.close();
+  });
+
+  it('should only apply migrations newer than the current version', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    runMigrations(db);
+
+    const next: Migration = {
+      version: MIGRATIONS[MIGRATIONS.length - 1].version + 1,
+      name: 'add_users_timezone',
+      statements: ['ALTER TABLE users ADD COLUMN timezone TEXT'],
+    };
+
+    expect(runMigrations(db, [...MIGRATIONS, next])).toEqual([next.version]);
+    expect(getSchemaVersion(db)).toBe(next.version);
+    db.close();
+  });
+
+  it('should roll back a failing migration and leave the version unchanged', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    runMigrations(db);
+    const before = getSchemaVersion(db);
+
+    const broken: Migration = {
+      version: before + 1,
+      name: 'broken',
+      statements: ['CREATE TABLE extra (id TEXT)', 'ALTER TABLE missing_table ADD COLUMN x TEXT'],
+    };
+
+    expect(() => runMigrations(db, [...MIGRATIONS, broken])).toThrow(WorkLifeError);
+    expect(getSchemaVersion(db)).toBe(before);
+    expect(db.exec("SELECT name FROM sqlite_master WHERE name = 'extra'")).toEqual([]);
+    db.close();
+  });
+});
@@ -0,0 +1,1098 @@
+/**
+ * SQLite-backed DataStore implementation
+ * Stores profiles, conversations and progress in normalized tables
+ */
+
+import { promises as fs } from 'fs';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { UserProfile, Message, Goal, Challenge, Skill, Milestone, MemoryNote, ReviewFlagRecord } from '../models/core.js';
+import { GrowthPlan } from '../models/recommendations.js';
+import { withRetry, validateDataIntegrity, EncryptionError } from '../utils/errorHandling.js';
+import { ValidationError, validateUserProfile } from '../utils/validation.js';
+import {
+  DataStore,
+  ProgressEntry,
+  GrowthPlanVersion,
+  AnalysisKind,
+  AnalysisRecord,
+  nextProfileVersion,
+  validateReviewFlag
+} from './dataStore.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import { runMigrations } from './migrations.js';
+import {
+  reviveGrowthPlan,
+  reviveAnalysisRecord,
+  reviveUserProfile,
+  reviveProgressEvents,
+  reviveMemoryNotes,
+  reviveReviewFlags
+} from './serialization.js';
+import {
+  ProgressEvent,
+  ProgressEventPayload,
+  ProfileSnapshot,
+  validateProgressEvent,
+  applyProgressEvent,
+  projectUserProfile,
+  toProgressEntries
+} from './progressEvents.js';
+import { UserDataArchive, createUserDataArchive } from './userData.js';
+import {
+  ConversationEncryption,
+  DataStoreOptions,
+  KeyRotationReport,
+  WrappedDataKey,
+  rotateUserConversations
+} from './encryption.js';
+
+type Row = Record<string, SqlValue>;
+
+const SKILL_KINDS = ['current', 'learning', 'target'] as const;
+
+/**
+ * Durable implementation of DataStore on top of SQLite
+ * Runs pending schema migrations when opened. When a file path is given the
+ * database image is written back atomically after every change.
+ */
+export class SqliteDataStore implements DataStore {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private db: Database,
+    private readonly SQL: SqlJsStatic,
+    private readonly filePath?: string,
+    private readonly encryption?: ConversationEncryption
+  ) {}
+
+  /**
+   * Opens (or creates) a SQLite data store
+   * @param filePath - Database file on disk; omit for a purely in-memory database
+   * @param options - Optional encryption for conversation content
+   */
+  static async open(filePath?: string, options: DataStoreOptions = {}): Promise<SqliteDataStore> {
+    const SQL = await initSqlJs();
+
+    let existing: Uint8Array | undefined;
+    if (filePath) {
+      try {
+        existing = await fs.readFile(filePath);
+      } catch (error: any) {
+        if (!error || error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    const db = existing ? new SQL.Database(existing) : new SQL.Database();
+
+    const store = new SqliteDataStore(db, SQL, filePath, options.encryption);
+    const applied = runMigrations(db);
+    const backfilled = store.backfillProfileSnapshots();
+    if ((applied.length > 0 || backfilled > 0) && filePath) {
+      await store.persist();
+    }
+
+    return store;
+  }
+
+  async saveUserProfile(profile: UserProfile): Promise<void> {
+    // Validate profile data
+    const validationErrors = validateUserProfile(profile);
+    if (validationErrors.length > 0) {
+      throw validationErrors[0]; // Throw first validation error
+    }
+
+    // Validate data integrity
+    validateDataIntegrity(profile);
+
+    profile.version = await this.commit(() => this.transaction(() => {
+      // Reject saves based on a stale read
+      const versioned = { ...profile, version: nextProfileVersion(profile, this.readProfileVersion(profile.userId)) };
+      this.writeProfile(versioned);
+
+      // Record a snapshot so earlier states can still be replayed
+      this.db.run(
+        'INSERT INTO profile_snapshots (user_id, sequence, saved_at, profile) VALUES (?, ?, ?, ?)',
+        [profile.userId, this.lastSequence(profile.userId), Date.now(), JSON.stringify(versioned)]
+      );
+      return versioned.version;
+    }));
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const profile = this.readProfile(userId);
+      if (!profile) {
+        return null;
+      }
+
+      // Validate data integrity before returning
+      try {
+        validateDataIntegrity(profile);
+      } catch (error) {
+        // If data is corrupted, return null and log error
+        console.error(`Data integrity error for user ${userId}:`, error);
+        return null;
+      }
+
+      return profile;
+    });
+  }
+
+  async saveConversation(sessionId: string, messages: Message[]): Promise<void> {
+    // Validate inputs
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
+      throw new ValidationError('Session ID must be a non-empty string', 'sessionId', sessionId);
+    }
+
+    if (!Array.isArray(messages)) {
+      throw new ValidationError('Messages must be an array', 'messages', messages);
+    }
+
+    await this.commit(() => this.transaction(() => {
+      this.writeMessages(sessionId, this.sealMessages(sessionId, messages));
+    }));
+  }
+
+  async getConversationHistory(userId: string, limit?: number): Promise<Message[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const baseQuery = `SELECT m.id, m.sender, m.content, m.timestamp
+        FROM sessions s
+        JOIN messages m ON m.session_id = s.session_id
+        WHERE s.user_id = ?`;
+
+      // Apply limit if specified - newest rows first, then restore chronological order
+      if (limit !== undefined && limit > 0) {
+        const rows = this.all(
+          `${baseQuery} ORDER BY m.timestamp DESC, s.rowid DESC, m.position DESC LIMIT ?`,
+          [userId, limit]
+        );
+        return this.openMessages(userId, rows.reverse().map(row => this.toMessage(row)));
+      }
+
+      const rows = this.all(`${baseQuery} ORDER BY m.timestamp ASC, s.rowid ASC, m.position ASC`, [userId]);
+      return this.openMessages(userId, rows.map(row => this.toMessage(row)));
+    });
+  }
+
+  async trackActionCompletion(userId: string, actionId: string): Promise<void> {
+    await this.appendProgressEvent(userId, { type: 'action_completed', actionId });
+  }
+
+  async getProgressHistory(userId: string): Promise<ProgressEntry[]> {
+    return toProgressEntries(await this.getProgressEvents(userId));
+  }
+
+  async appendProgressEvent(userId: string, event: ProgressEventPayload): Promise<ProgressEvent> {
+    // Validate inputs
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    const validationErrors = validateProgressEvent(event);
+    if (validationErrors.length > 0) {
+      throw validationErrors[0]; // Throw first validation error
+    }
+
+    return this.commit(() => this.transaction(() => {
+      const stored: ProgressEvent = {
+        ...event,
+        sequence: this.lastSequence(userId) + 1,
+        userId,
+        occurredAt: new Date(),
+      };
+      const { type, ...payload } = event;
+      this.db.run(
+        'INSERT INTO progress_events (user_id, sequence, type, occurred_at, payload) VALUES (?, ?, ?, ?, ?)',
+        [userId, stored.sequence, type, stored.occurredAt.getTime(), JSON.stringify(payload)]
+      );
+
+      // Keep the current profile in step with the log
+      const profile = this.readProfile(userId);
+      if (profile) {
+        this.writeProfile({ ...applyProgressEvent(profile, stored), version: (profile.version ?? 0) + 1 });
+      }
+      return stored;
+    }));
+  }
+
+  async getProgressEvents(userId: string): Promise<ProgressEvent[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return this.readEvents(userId);
+    });
+  }
+
+  async getUserProfileAsOf(userId: string, asOf: Date): Promise<UserProfile | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return projectUserProfile(
+        this.readSnapshots(userId, asOf),
+        this.readEvents(userId, asOf),
+        asOf
+      );
+    });
+  }
+
+  async replayUserProfile(userId: string): Promise<UserProfile | null> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    return this.commit(() => this.transaction(() => {
+      const profile = projectUserProfile(this.readSnapshots(userId), this.readEvents(userId));
+      if (profile) {
+        // Replaying rebuilds the same revision, so readers holding it can still save
+        profile.version = this.readProfileVersion(userId) || 1;
+        this.writeProfile(profile);
+      }
+      return profile;
+    }));
+  }
+
+  async saveGrowthPlan(plan: GrowthPlan): Promise<GrowthPlanVersion> {
+    // Validate plan ownership
+    if (!plan || !plan.userId || typeof plan.userId !== 'string' || plan.userId.trim() === '') {
+      throw new ValidationError('Growth plan must belong to a user', 'userId', plan ? plan.userId : plan);
+    }
+
+    const savedAt = new Date();
+    const version = await this.commit(() => this.transaction(() => {
+      const rows = this.all('SELECT MAX(version) AS version FROM growth_plan_versions WHERE user_id = ?', [plan.userId]);
+      const next = ((rows[0].version as number | null) ?? 0) + 1;
+      this.db.run(
+        'INSERT INTO growth_plan_versions (user_id, version, plan_id, saved_at, plan) VALUES (?, ?, ?, ?, ?)',
+        [plan.userId, next, plan.id, savedAt.getTime(), JSON.stringify(plan)]
+      );
+      return next;
+    }));
+
+    return { version, savedAt, plan: reviveGrowthPlan(JSON.parse(JSON.stringify(plan))) };
+  }
+
+  async getActiveGrowthPlan(userId: string): Promise<GrowthPlan | null> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const rows = this.all(
+        'SELECT plan FROM growth_plan_versions WHERE user_id = ? ORDER BY version DESC LIMIT 1',
+        [userId]
+      );
+
+      return rows.length > 0 ? reviveGrowthPlan(JSON.parse(rows[0].plan as string)) : null;
+    });
+  }
+
+  async getGrowthPlanVersions(userId: string): Promise<GrowthPlanVersion[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return this.all(
+        'SELECT version, saved_at, plan FROM growth_plan_versions WHERE user_id = ? ORDER BY version',
+        [userId]
+      ).map(row => ({
+        version: row.version as number,
+        savedAt: new Date(row.saved_at as number),
+        plan: reviveGrowthPlan(JSON.parse(row.plan as string)),
+      }));
+    });
+  }
+
+  async saveAnalysisRecord(record: AnalysisRecord): Promise<void> {
+    // Validate record ownership
+    if (!record || !record.userId || typeof record.userId !== 'string' || record.userId.trim() === '') {
+      throw new ValidationError('Analysis record must belong to a user', 'userId', record ? record.userId : record);
+    }
+
+    await this.commit(() => {
+      this.db.run(
+        `INSERT OR REPLACE INTO analysis_records (id, user_id, kind, created_at, profile_snapshot, result)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.userId,
+          record.kind,
+          record.createdAt.getTime(),
+          JSON.stringify(record.profileSnapshot),
+          JSON.stringify(record.result),
+        ]
+      );
+    });
+  }
+
+  async getAnalysisRecords<K extends AnalysisKind>(userId: string, kind: K): Promise<AnalysisRecord<K>[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return this.all(
+        `SELECT id, user_id, kind, created_at, profile_snapshot, result FROM analysis_records
+         WHERE user_id = ? AND kind = ? ORDER BY created_at, rowid`,
+        [userId, kind]
+      ).map(row => this.toAnalysisRecord<K>(row));
+    });
+  }
+
+  async saveMemoryNote(note: MemoryNote): Promise<void> {
+    // Validate note ownership
+    if (!note || !note.userId || typeof note.userId !== 'string' || note.userId.trim() === '') {
+      throw new ValidationError('Memory note must belong to a user', 'userId', note ? note.userId : note);
+    }
+
+    await this.commit(() => this.transaction(() => this.writeMemoryNote(this.sealMemoryNote(note))));
+  }
+
+  async getMemoryNotes(userId: string): Promise<MemoryNote[]> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      return this.openMemoryNotes(userId, this.readMemoryNotes(userId));
+    });
+  }
+
+  async saveReviewFlag(flag: ReviewFlagRecord): Promise<void> {
+    validateReviewFlag(flag);
+
+    await this.commit(() => this.writeReviewFlag(flag));
+  }
+
+  async getReviewFlags(): Promise<ReviewFlagRecord[]> {
+    return this.readReviewFlags('SELECT flag FROM review_flags ORDER BY flagged_at, rowid');
+  }
+
+  async exportUserData(userId: string): Promise<UserDataArchive> {
+    return withRetry(async () => {
+      // Validate userId
+      if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+        throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+      }
+
+      const sessionIds = this.all('SELECT session_id FROM sessions WHERE user_id = ? ORDER BY session_id', [userId])
+        .map(row => row.session_id as string);
+
+      return createUserDataArchive(userId, {
+        profile: this.readProfile(userId),
+        profileSnapshots: this.readSnapshots(userId),
+        conversations: sessionIds.map(sessionId => ({
+          sessionId,
+          messages: this.openMessages(userId, this.readSessionMessages(sessionId)),
+        })),
+        progressEvents: this.readEvents(userId),
+        growthPlans: this.all(
+          'SELECT version, saved_at, plan FROM growth_plan_versions WHERE user_id = ? ORDER BY version',
+          [userId]
+        ).map(row => ({
+          version: row.version as number,
+          savedAt: new Date(row.saved_at as number),
+          plan: reviveGrowthPlan(JSON.parse(row.plan as string)),
+        })),
+        analyses: this.all(
+          `SELECT id, user_id, kind, created_at, profile_snapshot, result FROM analysis_records
+           WHERE user_id = ? ORDER BY created_at, rowid`,
+          [userId]
+        ).map(row => this.toAnalysisRecord(row)),
+        memoryNotes: this.openMemoryNotes(userId, this.readMemoryNotes(userId)),
+        reviewFlags: this.readReviewFlags('SELECT flag FROM review_flags WHERE user_id = ? ORDER BY flagged_at, rowid', [userId]),
+      });
+    });
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    await this.commit(() => {
+      this.transaction(() => this.deleteUserRows(userId));
+
+      // Rebuild the file so erased rows do not linger in free pages
+      this.db.run('VACUUM');
+    });
+  }
+
+  async purgeMessagesBefore(userId: string, before: Date): Promise<number> {
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    const where = 'session_id IN (SELECT session_id FROM sessions WHERE user_id = ?) AND timestamp < ?';
+    const params = [userId, before.getTime()];
+    const countPurgeable = () => this.all(`SELECT COUNT(*) AS count FROM messages WHERE ${where}`, params)[0].count as number;
+
+    // Skip the rewrite when there is nothing to purge
+    if (countPurgeable() === 0) {
+      return 0;
+    }
+
+    return this.commit(() => {
+      const purged = this.transaction(() => {
+        const count = countPurgeable();
+        this.db.run(`DELETE FROM messages WHERE ${where}`, params);
+        return count;
+      });
+
+      // Rebuild the file so purged rows do not linger in free pages
+      this.db.run('VACUUM');
+      return purged;
+    });
+  }
+
+  async listUserIds(): Promise<string[]> {
+    const tables = [
+      'users',
+      'sessions',
+      'progress_events',
+      'profile_snapshots',
+      'growth_plan_versions',
+      'analysis_records',
+      'memory_notes',
+      'review_flags',
+    ];
+    return this.all(`${tables.map(table => `SELECT user_id FROM ${table}`).join(' UNION ')} ORDER BY user_id`)
+      .map(row => row.user_id as string);
+  }
+
+  async importUserData(archive: UserDataArchive): Promise<void> {
+    const { userId } = archive;
+    // Validate userId
+    if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+      throw new ValidationError('User ID must be a non-empty string', 'userId', userId);
+    }
+
+    if (archive.profile) {
+      const validationErrors = validateUserProfile(archive.profile);
+      if (validationErrors.length > 0) {
+        throw validationErrors[0]; // Throw first validation error
+      }
+      validateDataIntegrity(archive.profile);
+    }
+
+    await this.commit(() => this.transaction(() => {
+      this.deleteUserRows(userId);
+
+      if (archive.profile) {
+        this.writeProfile(archive.profile);
+      }
+      for (const snapshot of archive.profileSnapshots) {
+        this.db.run(
+          'INSERT INTO profile_snapshots (user_id, sequence, saved_at, profile) VALUES (?, ?, ?, ?)',
+          [userId, snapshot.sequence, snapshot.savedAt.getTime(), JSON.stringify(snapshot.profile)]
+        );
+      }
+      for (const { sessionId, messages } of archive.conversations) {
+        this.db.run('INSERT OR REPLACE INTO sessions (session_id, user_id) VALUES (?, ?)', [sessionId, userId]);
+        this.writeMessages(sessionId, this.sealMessages(sessionId, messages));
+      }
+      for (const event of archive.progressEvents) {
+        const { type, sequence, occurredAt, userId: _owner, ...payload } = event;
+        this.db.run(
+          'INSERT INTO progress_events (user_id, sequence, type, occurred_at, payload) VALUES (?, ?, ?, ?, ?)',
+          [userId, sequence, type, occurredAt.getTime(), JSON.stringify(payload)]
+        );
+      }
+      for (const { version, savedAt, plan } of archive.growthPlans) {
+        this.db.run(
+          'INSERT INTO growth_plan_versions (user_id, version, plan_id, saved_at, plan) VALUES (?, ?, ?, ?, ?)',
+          [userId, version, plan.id, savedAt.getTime(), JSON.stringify(plan)]
+        );
+      }
+      for (const record of archive.analyses) {
+        this.db.run(
+          `INSERT OR REPLACE INTO analysis_records (id, user_id, kind, created_at, profile_snapshot, result)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            record.id,
+            userId,
+            record.kind,
+            record.createdAt.getTime(),
+            JSON.stringify(record.profileSnapshot),
+            JSON.stringify(record.result),
+          ]
+        );
+      }
+      for (const note of archive.memoryNotes || []) {
+        this.writeMemoryNote(this.sealMemoryNote({ ...note, userId }));
+      }
+      for (const flag of archive.reviewFlags || []) {
+        this.writeReviewFlag({ ...flag, userId });
+      }
+    }));
+  }
+
+  async rotateEncryptionKeys(): Promise<KeyRotationReport> {
+    const encryption = this.requireEncryption();
+
+    return this.commit(() => {
+      const userIds = this.all(
+        `SELECT user_id FROM user_data_keys
+         UNION SELECT s.user_id FROM sessions s WHERE EXISTS (SELECT 1 FROM messages m WHERE m.session_id = s.session_id)
+         UNION SELECT user_id FROM memory_notes`
+      ).map(row => row.user_id as string);
+
+      // Re-encrypt everything first so a failure leaves the old keys in place
+      const rotated = userIds.map(userId => {
+        const sessionIds = this.all('SELECT session_id FROM sessions WHERE user_id = ?', [userId])
+          .map(row => row.session_id as string);
+        return rotateUserConversations(
+          encryption,
+          userId,
+          this.readDataKeys(userId),
+          new Map(sessionIds.map(sessionId => [sessionId, this.readSessionMessages(sessionId)])),
+          this.readMemoryNotes(userId)
+        );
+      });
+
+      this.transaction(() => {
+        for (const { userId, dataKey, conversations, memoryNotes } of rotated) {
+          for (const [sessionId, messages] of conversations) {
+            this.writeMessages(sessionId, messages);
+          }
+          for (const note of memoryNotes) {
+            this.writeMemoryNote(note);
+          }
+          this.db.run('DELETE FROM user_data_keys WHERE user_id = ?', [userId]);
+          this.writeDataKey(dataKey);
+        }
+      });
+
+      return {
+        rotatedAt: new Date(),
+        masterKeyId: encryption.masterKeyId,
+        usersRotated: rotated.length,
+        messagesReencrypted: rotated.reduce((total, r) => total + r.messageCount, 0),
+      };
+    });
+  }
+
+  /**
+   * Helper method to associate a session with a user
+   * This is needed for conversation history retrieval
+   */
+  associateSessionWithUser(sessionId: string, userId: string): void {
+    this.db.run('INSERT OR REPLACE INTO sessions (session_id, user_id) VALUES (?, ?)', [sessionId, userId]);
+    this.persist().catch(error => console.error(`Failed to persist session ${sessionId}:`, error));
+  }
+
+  /**
+   * Returns the query plan SQLite chooses for a statement (useful for index checks)
+   */
+  explainQueryPlan(sql: string, params: SqlValue[] = []): string[] {
+    return this.all(`EXPLAIN QUERY PLAN ${sql}`, params).map(row => String(row.detail));
+  }
+
+  /**
+   * Waits until every pending write has reached the disk
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /**
+   * Flushes pending writes and releases the database
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.db.close();
+  }
+
+  // Private helper methods
+
+  /**
+   * Gives profiles stored before the event log existed their first snapshot
+   * The snapshot is timed at the profile's last update
+   * @returns Number of snapshots created
+   */
+  private backfillProfileSnapshots(): number {
+    const rows = this.all(
+      `SELECT user_id FROM users
+       WHERE user_id NOT IN (SELECT DISTINCT user_id FROM profile_snapshots)`
+    );
+
+    this.transaction(() => {
+      for (const row of rows) {
+        const profile = this.readProfile(row.user_id as string)!;
+        this.db.run(
+          'INSERT INTO profile_snapshots (user_id, sequence, saved_at, profile) VALUES (?, ?, ?, ?)',
+          [profile.userId, 0, profile.progress.lastUpdated.getTime(), JSON.stringify(profile)]
+        );
+      }
+    });
+
+    return rows.length;
+  }
+
+  private lastSequence(userId: string): number {
+    const rows = this.all('SELECT MAX(sequence) AS sequence FROM progress_events WHERE user_id = ?', [userId]);
+    return (rows[0].sequence as number | null) ?? 0;
+  }
+
+  private readEvents(userId: string, asOf?: Date): ProgressEvent[] {
+    return reviveProgressEvents(this.all(
+      `SELECT sequence, type, occurred_at, payload FROM progress_events
+       WHERE user_id = ? AND occurred_at <= ? ORDER BY sequence`,
+      [userId, asOf ? asOf.getTime() : Number.MAX_SAFE_INTEGER]
+    ).map(row => ({
+      ...JSON.parse(row.payload as string),
+      type: row.type,
+      sequence: row.sequence,
+      userId,
+      occurredAt: row.occurred_at,
+    })));
+  }
+
+  private readSnapshots(userId: string, asOf?: Date): ProfileSnapshot[] {
+    return this.all(
+      `SELECT sequence, saved_at, profile FROM profile_snapshots
+       WHERE user_id = ? AND saved_at <= ? ORDER BY saved_at, id`,
+      [userId, asOf ? asOf.getTime() : Number.MAX_SAFE_INTEGER]
+    ).map(row => ({
+      sequence: row.sequence as number,
+      savedAt: new Date(row.saved_at as number),
+      profile: reviveUserProfile(JSON.parse(row.profile as string)),
+    }));
+  }
+
+  private writeProfile(profile: UserProfile): void {
+    const { userId, personalInfo, careerInfo, skills, mindset, progress } = profile;
+
+    this.deleteProfileRows(userId);
+
+    this.db.run(
+      `INSERT INTO users (user_id, age, current_role, years_of_experience, education, industry,
+        current_path, confidence_level, motivation_level, last_updated, version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        userId,
+        personalInfo.age,
+        personalInfo.currentRole ?? null,
+        personalInfo.yearsOfExperience,
+        personalInfo.education,
+        personalInfo.industry ?? null,
+        careerInfo.currentPath !== undefined ? JSON.stringify(careerInfo.currentPath) : null,
+        mindset.confidenceLevel,
+        mindset.motivationLevel,
+        new Date(progress.lastUpdated).getTime(),
+        profile.version ?? 1,
+      ]
+    );
+
+    careerInfo.goals.forEach((goal, position) => {
+      this.db.run(
+        'INSERT INTO goals (user_id, position, id, description, type, priority, target_date) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [userId, position, goal.id, goal.description, goal.type, goal.priority, this.toTime(goal.targetDate)]
+      );
+    });
+
+    careerInfo.struggles.forEach((challenge, position) => {
+      this.db.run(
+        'INSERT INTO challenges (user_id, position, type, description, severity) VALUES (?, ?, ?, ?, ?)',
+        [userId, position, challenge.type, challenge.description, challenge.severity]
+      );
+    });
+
+    careerInfo.interests.forEach((interest, position) => {
+      this.db.run('INSERT INTO interests (user_id, position, interest) VALUES (?, ?, ?)', [userId, position, interest]);
+    });
+
+    mindset.primaryConcerns.forEach((concern, position) => {
+      this.db.run('INSERT INTO primary_concerns (user_id, position, concern) VALUES (?, ?, ?)', [userId, position, concern]);
+    });
+
+    for (const kind of SKILL_KINDS) {
+      skills[kind].forEach((skill, position) => {
+        this.db.run(
+          'INSERT INTO skills (user_id, kind, position, name, level, category) VALUES (?, ?, ?, ?, ?, ?)',
+          [userId, kind, position, skill.name, skill.level, skill.category]
+        );
+      });
+    }
+
+    progress.milestones.forEach((milestone, position) => {
+      this.db.run(
+        `INSERT INTO milestones (user_id, position, id, title, description, target_date, completed, completed_date)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          userId,
+          position,
+          milestone.id,
+          milestone.title,
+          milestone.description,
+          this.toTime(milestone.targetDate),
+          milestone.completed ? 1 : 0,
+          this.toTime(milestone.completedDate),
+        ]
+      );
+    });
+
+    progress.completedActions.forEach((actionId, position) => {
+      this.db.run('INSERT INTO completed_actions (user_id, position, action_id) VALUES (?, ?, ?)', [userId, position, actionId]);
+    });
+  }
+
+  private readProfile(userId: string): UserProfile | null {
+    const users = this.all('SELECT * FROM users WHERE user_id = ?', [userId]);
+    if (users.length === 0) {
+      return null;
+    }
+    const user = users[0];
+
+    const goals: Goal[] = this.all('SELECT * FROM goals WHERE user_id = ? ORDER BY position', [userId]).map(row => ({
+      id: row.id as string,
+      description: row.description as string,
+      type: row.type as Goal['type'],
+      priority: row.priority as number,
+      targetDate: this.fromTime(row.target_date),
+    }));
+
+    const struggles: Challenge[] = this.all('SELECT * FROM challenges WHERE user_id = ? ORDER BY position', [userId]).map(row => ({
+      type: row.type as Challenge['type'],
+      description: row.description as string,
+      severity: row.severity as number,
+    }));
+
+    const skillRows = this.all('SELECT * FROM skills WHERE user_id = ? ORDER BY kind, position', [userId]);
+    const skillsOfKind = (kind: string): Skill[] => skillRows
+      .filter(row => row.kind === kind)
+      .map(row => ({ name: row.name as string, level: row.level as number, category: row.category as string }));
+
+    const milestones: Milestone[] = this.all('SELECT * FROM milestones WHERE user_id = ? ORDER BY position', [userId]).map(row => ({
+      id: row.id as string,
+      title: row.title as string,
+      description: row.description as string,
+      targetDate: this.fromTime(row.target_date) as Date,
+      completed: row.completed === 1,
+      completedDate: this.fromTime(row.completed_date),
+    }));
+
+    return {
+      userId,
+      personalInfo: {
+        age: user.age as number,
+        currentRole: user.current_role === null ? undefined : user.current_role as string,
+        yearsOfExperience: user.years_of_experience as number,
+        education: user.education as string,
+        industry: user.industry === null ? undefined : user.industry as string,
+      },
+      careerInfo: {
+        currentPath: user.current_path === null ? undefined : JSON.parse(user.current_path as string),
+        goals,
+        interests: this.all('SELECT interest FROM interests WHERE user_id = ? ORDER BY position', [userId])
+          .map(row => row.interest as string),
+        struggles,
+      },
+      skills: {
+        current: skillsOfKind('current'),
+        learning: skillsOfKind('learning'),
+        target: skillsOfKind('target'),
+      },
+      mindset: {
+        confidenceLevel: user.confidence_level as number,
+        motivationLevel: user.motivation_level as number,
+        primaryConcerns: this.all('SELECT concern FROM primary_concerns WHERE user_id = ? ORDER BY position', [userId])
+          .map(row => row.concern as string),
+      },
+      progress: {
+        completedActions: this.all('SELECT action_id FROM completed_actions WHERE user_id = ? ORDER BY position', [userId])
+          .map(row => row.action_id as string),
+        milestones,
+        lastUpdated: new Date(user.last_updated as number),
+      },
+      version: user.version as number,
+    };
+  }
+
+  /**
+   * Version of the stored profile, or 0 when the user has none
+   */
+  private readProfileVersion(userId: string): number {
+    const rows = this.all('SELECT version FROM users WHERE user_id = ?', [userId]);
+    return rows.length > 0 ? rows[0].version as number : 0;
+  }
+
+  private deleteProfileRows(userId: string): void {
+    for (const table of ['goals', 'challenges', 'interests', 'primary_concerns', 'skills', 'milestones', 'completed_actions', 'users']) {
+      this.db.run(`DELETE FROM ${table} WHERE user_id = ?`, [userId]);
+    }
+  }
+
+  /**
+   * Removes every row held about a user; must run inside a transaction
+   */
+  private deleteUserRows(userId: string): void {
+    this.db.run('DELETE FROM messages WHERE session_id IN (SELECT session_id FROM sessions WHERE user_id = ?)', [userId]);
+    const tables = [
+      'sessions',
+      'progress_events',
+      'profile_snapshots',
+      'growth_plan_versions',
+      'analysis_records',
+      'memory_notes',
+      'review_flags',
+      'user_data_keys',
+    ];
+    for (const table of tables) {
+      this.db.run(`DELETE FROM ${table} WHERE user_id = ?`, [userId]);
+    }
+    this.deleteProfileRows(userId);
+  }
+
+  private readSessionMessages(sessionId: string): Message[] {
+    return this.all(
+      'SELECT id, sender, content, timestamp FROM messages WHERE session_id = ? ORDER BY position',
+      [sessionId]
+    ).map(row => this.toMessage(row));
+  }
+
+  private writeMessages(sessionId: string, messages: Message[]): void {
+    this.db.run('DELETE FROM messages WHERE session_id = ?', [sessionId]);
+    messages.forEach((message, position) => {
+      this.db.run(
+        'INSERT INTO messages (session_id, position, id, sender, content, timestamp) VALUES (?, ?, ?, ?, ?, ?)',
+        [sessionId, position, message.id, message.sender, message.content, new Date(message.timestamp).getTime()]
+      );
+    });
+  }
+
+  private requireEncryption(): ConversationEncryption {
+    if (!this.encryption) {
+      throw new EncryptionError('Encryption is not configured for this store');
+    }
+    return this.encryption;
+  }
+
+  /**
+   * Encrypts messages under the session owner's data key when encryption is configured
+   * Must run inside a transaction, since it may create the user's first data key
+   */
+  private sealMessages(sessionId: string, messages: Message[]): Message[] {
+    if (!this.encryption) {
+      return messages;
+    }
+
+    const owner = this.all('SELECT user_id FROM sessions WHERE session_id = ?', [sessionId]);
+    if (owner.length === 0) {
+      throw new EncryptionError(`Session ${sessionId} has no user, so its messages cannot be encrypted`, { sessionId });
+    }
+
+    const userId = owner[0].user_id as string;
+    return this.encryption.encryptMessages(messages, this.currentDataKey(this.encryption, userId));
+  }
+
+  private openMessages(userId: string, messages: Message[]): Message[] {
+    return this.encryption ? this.encryption.decryptMessages(messages, this.readDataKeys(userId)) : messages;
+  }
+
+  /**
+   * Encrypts a memory note under its user's data key when encryption is configured
+   * Must run inside a transaction, since it may create the user's first data key
+   */
+  private sealMemoryNote(note: MemoryNote): MemoryNote {
+    return this.encryption
+      ? this.encryption.encryptMemoryNote(note, this.currentDataKey(this.encryption, note.userId))
+      : note;
+  }
+
+  private openMemoryNotes(userId: string, notes: MemoryNote[]): MemoryNote[] {
+    return this.encryption ? this.encryption.decryptMemoryNotes(notes, this.readDataKeys(userId)) : notes;
+  }
+
+  /**
+   * The user's newest data key, created on first use
+   */
+  private currentDataKey(encryption: ConversationEncryption, userId: string): WrappedDataKey {
+    const keys = this.readDataKeys(userId);
+    let dataKey = keys[keys.length - 1];
+    if (!dataKey) {
+      dataKey = encryption.createDataKey(userId, 1);
+      this.writeDataKey(dataKey);
+    }
+    return dataKey;
+  }
+
+  private readDataKeys(userId: string): WrappedDataKey[] {
+    return this.all(
+      'SELECT version, master_key_id, wrapped_key, created_at FROM user_data_keys WHERE user_id = ? ORDER BY version',
+      [userId]
+    ).map(row => ({
+      userId,
+      version: row.version as number,
+      masterKeyId: row.master_key_id as string,
+      wrappedKey: row.wrapped_key as string,
+      createdAt: new Date(row.created_at as number),
+    }));
+  }
+
+  private writeDataKey(dataKey: WrappedDataKey): void {
+    this.db.run(
+      'INSERT INTO user_data_keys (user_id, version, master_key_id, wrapped_key, created_at) VALUES (?, ?, ?, ?, ?)',
+      [dataKey.userId, dataKey.version, dataKey.masterKeyId, dataKey.wrappedKey, dataKey.createdAt.getTime()]
+    );
+  }
+
+  private toMessage(row: Row): Message {
+    return {
+      id: row.id as string,
+      sender: row.sender as Message['sender'],
+      content: row.content as string,
+      timestamp: new Date(row.timestamp as number),
+    };
+  }
+
+  private toAnalysisRecord<K extends AnalysisKind>(row: Row): AnalysisRecord<K> {
+    return reviveAnalysisRecord<K>({
+      id: row.id,
+      userId: row.user_id,
+      kind: row.kind,
+      createdAt: row.created_at,
+      profileSnapshot: JSON.parse(row.profile_snapshot as string),
+      result: JSON.parse(row.result as string),
+    });
+  }
+
+  private writeMemoryNote(note: MemoryNote): void {
+    this.db.run(
+      'INSERT OR REPLACE INTO memory_notes (id, user_id, session_id, summarized_at, note) VALUES (?, ?, ?, ?, ?)',
+      [note.id, note.userId, note.sessionId, new Date(note.summarizedAt).getTime(), JSON.stringify(note)]
+    );
+  }
+
+  private readMemoryNotes(userId: string): MemoryNote[] {
+    return reviveMemoryNotes(
+      this.all('SELECT note FROM memory_notes WHERE user_id = ? ORDER BY summarized_at, rowid', [userId])
+        .map(row => JSON.parse(row.note as string))
+    );
+  }
+
+  private writeReviewFlag(flag: ReviewFlagRecord): void {
+    this.db.run(
+      'INSERT INTO review_flags (user_id, session_id, flagged_at, flag) VALUES (?, ?, ?, ?)',
+      [flag.userId, flag.sessionId, new Date(flag.flaggedAt).getTime(), JSON.stringify(flag)]
+    );
+  }
+
+  private readReviewFlags(sql: string, params: SqlValue[] = []): ReviewFlagRecord[] {
+    return reviveReviewFlags(this.all(sql, params).map(row => JSON.parse(row.flag as string)));
+  }
+
+  private toTime(date: Date | undefined): number | null {
+    return date ? new Date(date).getTime() : null;
+  }
+
+  private fromTime(value: SqlValue): Date | undefined {
+    return value === null ? undefined : new Date(value as number);
+  }
+
+  private all(sql: string, params: SqlValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private transaction<T>(work: () => T): T {
+    this.db.run('BEGIN');
+    try {
+      const result = work();
+      this.db.run('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change and writes the database image to the file
+   * Changes run one at a time and only the write is retried. A change whose write
+   * keeps failing is undone by reopening the image from before it.
+   */
+  private async commit<T>(change: () => T): Promise<T> {
+    if (!this.filePath) {
+      return change();
+    }
+    const filePath = this.filePath;
+
+    const run = this.writeChain.then(async () => {
+      const before = this.db.export();
+      try {
+        const result = change();
+        await withRetry(() => writeFileAtomic(filePath, this.db.export()));
+        return result;
+      } catch (error) {
+        this.restore(before);
+        throw error;
+      }
+    });
+    // Keep the chain alive even if this change fails
+    this.writeChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Replaces the database with an earlier image
+   */
+  private restore(image: Uint8Array): void {
+    // Sessions associated meanwhile are not part of the change
+    const sessions = this.all('SELECT session_id, user_id FROM sessions');
+    this.db.close();
+    this.db = new this.SQL.Database(image);
+    for (const { session_id, user_id } of sessions) {
+      this.db.run('INSERT OR IGNORE INTO sessions (session_id, user_id) VALUES (?, ?)', [session_id, user_id]);
+    }
+  }
+
+  /**
+   * Queues an atomic rewrite of the database file
+   * Writes are serialized so an older image never lands after a newer one
+   */
+  private persist(): Promise<void> {
+    if (!this.filePath) {
+      return Promise.resolve();
+    }
+    const filePath = this.filePath;
+    const write = this.writeChain.then(() => writeFileAtomic(filePath, this.db.export()));
+    // Keep the chain alive even if this write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
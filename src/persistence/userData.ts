@@ -0,0 +1,119 @@
+/**
+ * User data rights
+ * Portable export of everything stored about a user, and erasure of it
+ * from the data store and from any live sessions
+ */
+
+import { UserProfile, Message, MemoryNote, ReviewFlagRecord } from '../models/core.js';
+import { DataStore, GrowthPlanVersion, AnalysisRecord } from './dataStore.js';
+import { ProgressEvent, ProfileSnapshot } from './progressEvents.js';
+
+export const USER_DATA_ARCHIVE_FORMAT = 'worklife-user-data';
+export const USER_DATA_ARCHIVE_VERSION = 1;
+
+/**
+ * Messages of a single conversation session
+ */
+export interface UserConversation {
+  sessionId: string;
+  messages: Message[];
+}
+
+/**
+ * Everything held about one user, in a single JSON-serializable document
+ */
+export interface UserDataArchive {
+  format: typeof USER_DATA_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  userId: string;
+  profile: UserProfile | null;
+  profileSnapshots: ProfileSnapshot[];
+  conversations: UserConversation[];
+  progressEvents: ProgressEvent[];
+  growthPlans: GrowthPlanVersion[];
+  analyses: AnalysisRecord[];
+  memoryNotes: MemoryNote[];
+  reviewFlags: ReviewFlagRecord[];
+}
+
+/**
+ * Anything that keeps live sessions in memory and can drop a user's sessions
+ */
+export interface ActiveSessionRegistry {
+  removeUserSessions(userId: string): number;
+}
+
+/**
+ * Anything outside the data store that keeps records of a user's messages, such as the intent log
+ */
+export interface UserRecordHolder {
+  /** Deletes the user's records; returns how many were deleted */
+  eraseUserRecords(userId: string): Promise<number>;
+  /**
+   * Deletes the records older than the message retention cutoff
+   * @param dryRun - Only count the records that would be deleted
+   */
+  purgeRecordsBefore(before: Date, dryRun?: boolean): Promise<number>;
+}
+
+/**
+ * Outcome of erasing a user's data
+ */
+export interface UserDataErasureReport {
+  userId: string;
+  erasedAt: Date;
+  activeSessionsClosed: number;
+  /** Records erased outside the data store, such as intent log entries */
+  recordsErased: number;
+}
+
+/**
+ * Wraps the parts of a user's data into an archive
+ */
+export function createUserDataArchive(
+  userId: string,
+  data: Omit<UserDataArchive, 'format' | 'version' | 'exportedAt' | 'userId'>
+): UserDataArchive {
+  return {
+    format: USER_DATA_ARCHIVE_FORMAT,
+    version: USER_DATA_ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    userId,
+    ...data,
+  };
+}
+
+/**
+ * Erases a user from the data store, every live session registry and every other record holder
+ * Live sessions are closed first so none of them writes the data back
+ * @param userId - The user to erase
+ * @param dataStore - Store holding the user's data
+ * @param registries - Session holders such as ConversationManager or SessionManager
+ * @param holders - Other records of the user's messages, such as IntentAnalytics
+ */
+export async function eraseUserData(
+  userId: string,
+  dataStore: DataStore,
+  registries: ActiveSessionRegistry[] = [],
+  holders: UserRecordHolder[] = []
+): Promise<UserDataErasureReport> {
+  let activeSessionsClosed = 0;
+  for (const registry of registries) {
+    activeSessionsClosed += registry.removeUserSessions(userId);
+  }
+
+  await dataStore.deleteUserData(userId);
+
+  let recordsErased = 0;
+  for (const holder of holders) {
+    recordsErased += await holder.eraseUserRecords(userId);
+  }
+
+  return {
+    userId,
+    erasedAt: new Date(),
+    activeSessionsClosed,
+    recordsErased,
+  };
+}
@@ -4,3 +4,5 @@
 
 export * from './profileCollector.js';
 export * from './profileAnalyzer.js';
+export * from './profileAutoFill.js';
+export * from './profileInterview.js';
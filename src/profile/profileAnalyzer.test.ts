@@ -365,6 +365,37 @@ describe('ProfileAnalyzer', () => {
       expect(progress.completedMilestones).toBe(1);
     });
 
+    it('should only count progress made since the baseline profile', () => {
+      const baseline: UserProfile = {
+        userId: 'user1',
+        personalInfo: { age: 27, currentRole: 'Developer', yearsOfExperience: 4, education: 'BS CS' },
+        careerInfo: { goals: [], interests: [], struggles: [] },
+        skills: {
+          current: [{ name: 'JavaScript', level: 8, category: 'Programming' }],
+          learning: [],
+          target: [],
+        },
+        mindset: { confidenceLevel: 0.7, motivationLevel: 0.8, primaryConcerns: [] },
+        progress: { completedActions: ['action1'], milestones: [], lastUpdated: new Date('2024-01-01') },
+      };
+      const profile: UserProfile = {
+        ...baseline,
+        skills: {
+          ...baseline.skills,
+          current: [...baseline.skills.current, { name: 'TypeScript', level: 7, category: 'Programming' }],
+        },
+        progress: { ...baseline.progress, completedActions: ['action1', 'action2', 'action3'] },
+      };
+
+      const progress = analyzer.trackProgress(profile, {
+        start: new Date('2024-01-01'),
+        end: new Date('2024-12-31'),
+      }, baseline);
+
+      expect(progress.completedActions).toBe(2);
+      expect(progress.skillsAcquired).toEqual(['TypeScript']);
+    });
+
     it('should categorize direction-related challenges', () => {
       expect(analyzer.categorizeChallenge('I feel lost in my career')).toBe('direction');
       expect(analyzer.categorizeChallenge('Unclear about my path')).toBe('direction');
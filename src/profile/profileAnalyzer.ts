@@ -203,9 +203,15 @@ export class ProfileAnalyzer {
 
   /**
    * Tracks user progress over a specified timeframe
+   * @param profile - The profile as of the end of the timeframe
+   * @param timeframe - The period to report on
+   * @param baseline - The profile as of the start of the timeframe; when given,
+   *   only actions and skills gained since then are counted
    */
-  trackProgress(profile: UserProfile, timeframe: TimeRange): ProgressReport {
-    const completedActions = profile.progress.completedActions.length;
+  trackProgress(profile: UserProfile, timeframe: TimeRange, baseline?: UserProfile): ProgressReport {
+    const completedBefore = new Set(baseline ? baseline.progress.completedActions : []);
+    const completedActions = profile.progress.completedActions
+      .filter(id => !completedBefore.has(id)).length;
     const completedMilestones = profile.progress.milestones.filter(m => 
       m.completed && 
       m.completedDate && 
@@ -213,8 +219,11 @@ export class ProfileAnalyzer {
       m.completedDate <= timeframe.end
     ).length;
     
+    const acquiredBefore = new Set(baseline
+      ? baseline.skills.current.filter(s => s.level >= 7).map(s => s.name.toLowerCase())
+      : []);
     const skillsAcquired = profile.skills.current
-      .filter(s => s.level >= 7)
+      .filter(s => s.level >= 7 && !acquiredBefore.has(s.name.toLowerCase()))
       .map(s => s.name);
     
     const goalsAchieved = profile.careerInfo.goals.filter(g => 
@@ -0,0 +1,63 @@
+/**
+ * Tests for filling in profiles from chat
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyExtractedEntities, SELF_REPORTED_SKILL_CATEGORY } from './profileAutoFill.js';
+import { extractRichEntities } from '../intent/entityExtractor.js';
+import { UserProfile } from '../models/index.js';
+
+function createProfile(): UserProfile {
+  return {
+    userId: 'user-1',
+    personalInfo: { age: 31, currentRole: 'Cashier', yearsOfExperience: 2, education: 'High school diploma' },
+    careerInfo: { goals: [], interests: [], struggles: [] },
+    skills: { current: [{ name: 'Excel', level: 3, category: 'tools' }], learning: [], target: [] },
+    mindset: { confidenceLevel: 0.5, motivationLevel: 0.5, primaryConcerns: [] },
+    progress: { completedActions: [], milestones: [], lastUpdated: new Date('2026-10-01T00:00:00.000Z') },
+  };
+}
+
+describe('applyExtractedEntities', () => {
+  it('should fill role, experience, education and skills from what the user said', () => {
+    const profile = createProfile();
+    const message = 'I\'ve been a nurse for 7 years, I have a Bachelor\'s in nursing and I\'m pretty good at excel and SQL... ' +
+      'well, I\'m good at SQL';
+
+    const changes = applyExtractedEntities(profile, extractRichEntities(message));
+
+    expect(profile.personalInfo).toMatchObject({
+      currentRole: 'Nurse',
+      yearsOfExperience: 7,
+      education: 'Bachelor\'s in Nursing',
+    });
+    expect(profile.skills.current).toEqual([
+      { name: 'Excel', level: 6, category: 'tools' },
+      { name: 'SQL', level: 7, category: SELF_REPORTED_SKILL_CATEGORY },
+    ]);
+    expect(changes.map(change => change.field)).toEqual([
+      'personalInfo.currentRole',
+      'personalInfo.yearsOfExperience',
+      'personalInfo.education',
+      'skills.current.Excel',
+      'skills.current.SQL',
+    ]);
+    expect(changes[0]).toMatchObject({ previous: 'Cashier', value: 'Nurse', source: { kind: 'job_title' } });
+  });
+
+  it('should leave the profile alone when nothing new was said', () => {
+    const profile = createProfile();
+
+    expect(applyExtractedEntities(profile, extractRichEntities('I\'m a cashier with a high school diploma'))).toEqual([]);
+    expect(applyExtractedEntities(profile, extractRichEntities('I want to become a data scientist'))).toEqual([]);
+    expect(profile).toEqual(createProfile());
+  });
+
+  it('should not count years spent in another role as experience in the current one', () => {
+    const profile = createProfile();
+
+    applyExtractedEntities(profile, extractRichEntities('Before this I had 6 years as a teacher'));
+
+    expect(profile.personalInfo.yearsOfExperience).toBe(2);
+  });
+});
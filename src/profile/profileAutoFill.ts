@@ -0,0 +1,116 @@
+/**
+ * Profile auto-fill from chat
+ * Turns what users say about themselves ("I've been a nurse for 7 years", "I'm pretty
+ * good at SQL") into updates of their profile, so they are not asked again.
+ */
+
+import { UserProfile } from '../models/index.js';
+import { ExtractedEntity, EducationEntity, SkillProficiencyEntity } from '../intent/entityExtractor.js';
+
+/**
+ * Category given to skills the user rated themselves in chat
+ */
+export const SELF_REPORTED_SKILL_CATEGORY = 'self-reported';
+
+/**
+ * One profile field changed from an entity in a message
+ */
+export interface ProfileFieldChange {
+  field: string;
+  previous: unknown;
+  value: unknown;
+  source: ExtractedEntity;
+}
+
+/**
+ * Applies the profile details found in a message to a profile, in place
+ *
+ * Fills personalInfo.currentRole from roles the user says they hold now,
+ * yearsOfExperience from unqualified years or years in that role, education from the
+ * first degree mentioned, and skills.current from self-rated skills. Salaries,
+ * locations and companies have no profile field and are left to the conversation.
+ * @returns The fields that changed; empty when the profile already said the same
+ */
+export function applyExtractedEntities(profile: UserProfile, entities: ExtractedEntity[]): ProfileFieldChange[] {
+  const changes: ProfileFieldChange[] = [];
+  const set = <K extends keyof UserProfile['personalInfo']>(
+    field: K,
+    value: UserProfile['personalInfo'][K],
+    source: ExtractedEntity
+  ) => {
+    const previous = profile.personalInfo[field];
+    if (previous !== value) {
+      profile.personalInfo[field] = value;
+      changes.push({ field: `personalInfo.${field}`, previous, value, source });
+    }
+  };
+
+  for (const entity of entities) {
+    if (entity.kind === 'job_title' && entity.value.current) {
+      const role = toTitleCase(entity.value.title);
+      if (profile.personalInfo.currentRole?.toLowerCase() !== role.toLowerCase()) {
+        set('currentRole', role, entity);
+      }
+    }
+  }
+
+  for (const entity of entities) {
+    if (entity.kind !== 'years_of_experience' || entity.value.years < 0 || entity.value.years > 70) {
+      continue;
+    }
+    const { role } = entity.value;
+    if (!role || !profile.personalInfo.currentRole || profile.personalInfo.currentRole.toLowerCase() === role) {
+      set('yearsOfExperience', entity.value.years, entity);
+    }
+  }
+
+  const education = entities.find((entity): entity is EducationEntity => entity.kind === 'education');
+  if (education) {
+    const description = describeEducation(education.value);
+    if (!profile.personalInfo.education.toLowerCase().includes(description.toLowerCase())) {
+      set('education', description, education);
+    }
+  }
+
+  for (const entity of entities) {
+    if (entity.kind === 'skill_proficiency') {
+      applySkill(profile, entity, changes);
+    }
+  }
+
+  return changes;
+}
+
+function applySkill(profile: UserProfile, entity: SkillProficiencyEntity, changes: ProfileFieldChange[]): void {
+  const { skill, level } = entity.value;
+  const existing = profile.skills.current.find(current => current.name.toLowerCase() === skill);
+
+  if (existing) {
+    if (existing.level !== level) {
+      changes.push({ field: `skills.current.${existing.name}`, previous: existing.level, value: level, source: entity });
+      existing.level = level;
+    }
+    return;
+  }
+
+  // Keep the user's own spelling, so "SQL" stays in capitals
+  const offset = entity.text.toLowerCase().lastIndexOf(skill);
+  const name = entity.text.slice(offset, offset + skill.length);
+  profile.skills.current.push({ name, level, category: SELF_REPORTED_SKILL_CATEGORY });
+  changes.push({ field: `skills.current.${name}`, previous: undefined, value: level, source: entity });
+}
+
+/**
+ * Describes an extracted degree the way profiles store education, e.g. "Master's in Nursing"
+ */
+export function describeEducation({ degree, field }: { degree?: string; field?: string }): string {
+  const fieldText = field ? toTitleCase(field) : '';
+  return degree && fieldText ? `${degree} in ${fieldText}` : degree || fieldText;
+}
+
+/**
+ * Capitalizes the first letter of every word
+ */
+export function toTitleCase(text: string): string {
+  return text.replace(/(^|\s)[a-z]/g, letter => letter.toUpperCase());
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for the conversational profile interview
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyInterviewAnswer,
+  classifyInterviewReply,
+  describeInterviewAnswer,
+  missingInterviewFields,
+  parseInterviewAnswer,
+  stripNegativeReply
+} from './profileInterview.js';
+import { collectProfileData } from './profileCollector.js';
+import { UserProfile } from '../models/index.js';
+
+function createProfile(): UserProfile {
+  return collectProfileData({ userId: 'user-1', age: 28, yearsOfExperience: 0, education: 'BSc in Biology' });
+}
+
+describe('missingInterviewFields', () => {
+  it('should ask for what checkProfileCompleteness reports, with experience along with the role', () => {
+    expect(missingInterviewFields(createProfile())).toEqual(['currentRole', 'yearsOfExperience', 'goals', 'interests', 'struggles']);
+
+    const profile = createProfile();
+    profile.personalInfo.currentRole = 'Lab Technician';
+    profile.careerInfo.interests.push('research');
+    expect(missingInterviewFields(profile)).toEqual(['goals', 'struggles']);
+
+    expect(missingInterviewFields(null)).toHaveLength(6);
+  });
+});
+
+describe('parseInterviewAnswer', () => {
+  it('should read roles with or without a known title', () => {
+    expect(parseInterviewAnswer('currentRole', "I'm a senior nurse with 7 years of experience")).toEqual({
+      field: 'currentRole', role: 'Senior Nurse', yearsOfExperience: 7,
+    });
+    expect(parseInterviewAnswer('currentRole', 'I work as a barista.')).toEqual({ field: 'currentRole', role: 'Barista' });
+    expect(parseInterviewAnswer('currentRole', 'I really do not want to talk about work at all today')).toBeNull();
+  });
+
+  it('should read years of experience in digits, words or none', () => {
+    expect(parseInterviewAnswer('yearsOfExperience', 'about five')).toEqual({ field: 'yearsOfExperience', years: 5 });
+    expect(parseInterviewAnswer('yearsOfExperience', '12 years of experience')).toEqual({ field: 'yearsOfExperience', years: 12 });
+    expect(parseInterviewAnswer('yearsOfExperience', 'None, I just graduated')).toEqual({ field: 'yearsOfExperience', years: 0 });
+    expect(parseInterviewAnswer('yearsOfExperience', 'quite a while')).toBeNull();
+  });
+
+  it('should read degrees and other backgrounds', () => {
+    expect(parseInterviewAnswer('education', "I have a master's in computer science")).toEqual({
+      field: 'education', education: "Master's in Computer Science",
+    });
+    expect(parseInterviewAnswer('education', "I'm self-taught")).toEqual({ field: 'education', education: 'Self-taught' });
+  });
+
+  it('should split goals, interests and struggles into items', () => {
+    expect(parseInterviewAnswer('goals', 'I want to get promoted, and eventually run my own team')).toEqual({
+      field: 'goals',
+      goals: [
+        { description: 'Get promoted', type: 'short_term' },
+        { description: 'Eventually run my own team', type: 'long_term' },
+      ],
+    });
+    expect(parseInterviewAnswer('interests', "I'm interested in data, design and teaching")).toEqual({
+      field: 'interests', interests: ['data', 'design', 'teaching'],
+    });
+    expect(parseInterviewAnswer('struggles', "I'm not confident in interviews; I feel stuck")).toEqual({
+      field: 'struggles',
+      struggles: [
+        { description: "I'm not confident in interviews", type: 'confidence' },
+        { description: 'I feel stuck', type: 'stagnation' },
+      ],
+    });
+    expect(parseInterviewAnswer('goals', '  ')).toBeNull();
+  });
+});
+
+describe('applyInterviewAnswer', () => {
+  it('should set personal details and add to career lists', () => {
+    const profile = createProfile();
+    profile.careerInfo.interests.push('Data');
+
+    applyInterviewAnswer(profile, { field: 'currentRole', role: 'Nurse', yearsOfExperience: 7 });
+    applyInterviewAnswer(profile, { field: 'goals', goals: [{ description: 'Get promoted', type: 'short_term' }] });
+    applyInterviewAnswer(profile, { field: 'interests', interests: ['data', 'teaching'] });
+    applyInterviewAnswer(profile, { field: 'struggles', struggles: [{ description: 'I feel stuck', type: 'stagnation' }] });
+
+    expect(profile.personalInfo).toMatchObject({ currentRole: 'Nurse', yearsOfExperience: 7 });
+    expect(profile.careerInfo.goals).toEqual([
+      expect.objectContaining({ description: 'Get promoted', type: 'short_term', priority: 1 }),
+    ]);
+    expect(profile.careerInfo.interests).toEqual(['Data', 'teaching']);
+    expect(profile.careerInfo.struggles).toEqual([{ description: 'I feel stuck', type: 'stagnation', severity: 0.5 }]);
+  });
+});
+
+describe('interview replies', () => {
+  it('should tell confirmations, corrections and skips from answers', () => {
+    expect(classifyInterviewReply('Yes!')).toBe('affirmative');
+    expect(classifyInterviewReply("that's right")).toBe('affirmative');
+    expect(classifyInterviewReply('No, I am a teacher')).toBe('negative');
+    expect(stripNegativeReply('No, I am a teacher')).toBe('I am a teacher');
+    expect(classifyInterviewReply("I'd rather not say")).toBe('skip');
+    expect(classifyInterviewReply('Skip')).toBe('skip');
+    expect(classifyInterviewReply("Yes I'm a nurse")).toBe('answer');
+  });
+
+  it('should describe answers for confirmation', () => {
+    expect(describeInterviewAnswer({ field: 'yearsOfExperience', years: 1 })).toBe('you have 1 year of work experience');
+    expect(describeInterviewAnswer({ field: 'currentRole', role: 'Nurse', yearsOfExperience: 7 }))
+      .toBe('your current role is Nurse, with 7 years of experience');
+  });
+});
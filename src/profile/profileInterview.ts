@@ -0,0 +1,283 @@
+/**
+ * Conversational profile interview
+ * Asks for the profile fields a user has not filled in yet, one question at a time,
+ * and turns the free-text answers into profile updates the coach can confirm.
+ */
+
+import { Challenge, Goal, UserProfile } from '../models/index.js';
+import { extractRichEntities, findNumber } from '../intent/entityExtractor.js';
+import { ProfileAnalyzer } from './profileAnalyzer.js';
+import { describeEducation, toTitleCase } from './profileAutoFill.js';
+
+export type InterviewField = 'currentRole' | 'yearsOfExperience' | 'education' | 'goals' | 'interests' | 'struggles';
+
+/**
+ * Fields in the order they are asked
+ */
+export const INTERVIEW_FIELDS: InterviewField[] = [
+  'currentRole',
+  'yearsOfExperience',
+  'education',
+  'goals',
+  'interests',
+  'struggles',
+];
+
+export const INTERVIEW_QUESTIONS: Record<InterviewField, string> = {
+  currentRole: "What do you do right now? Your current role, or what you're studying, is a good start.",
+  yearsOfExperience: 'How many years of work experience do you have?',
+  education: "What's your educational background? A degree, a bootcamp or being self-taught all count.",
+  goals: 'What would you like to achieve in your career? List as many goals as you like, separated by commas.',
+  interests: 'Which kinds of work or topics interest you most?',
+  struggles: "What feels hardest about your career right now? Separate several challenges with commas.",
+};
+
+/**
+ * What a user's answer to one question says, ready to apply to their profile
+ */
+export type InterviewAnswer =
+  | { field: 'currentRole'; role: string; yearsOfExperience?: number }
+  | { field: 'yearsOfExperience'; years: number }
+  | { field: 'education'; education: string }
+  | { field: 'goals'; goals: Pick<Goal, 'description' | 'type'>[] }
+  | { field: 'interests'; interests: string[] }
+  | { field: 'struggles'; struggles: Pick<Challenge, 'description' | 'type'>[] };
+
+/**
+ * Severity given to challenges named in the interview, before anything else is known about them
+ */
+const INTERVIEW_CHALLENGE_SEVERITY = 0.5;
+
+const LONG_TERM_CUES = /\b(?:long[- ]term|eventually|someday|some day|one day|in (?:\d+|a few|five|ten) years|by \d{4}|before i retire)\b/i;
+
+const SKIP_REPLIES = /^(?:skip(?: (?:it|this|that))?|pass|next|(?:i'?d )?(?:rather|prefer) not(?: to)?(?: say| answer)?|no comment|no idea|n\/a)[\s.!,]*$/i;
+const AFFIRMATIVE_REPLIES = /^(?:yes|yeah|yep|yup|correct|right|sure|exactly|that'?s (?:right|correct|it)|sounds (?:right|good)|perfect|ok(?:ay)?)\b[\s.!,]*$/i;
+const NEGATIVE_REPLIES = /^(?:no|nope|not quite|not really|that'?s (?:wrong|not right|not it)|wrong)\b[\s.!,]*/i;
+
+/**
+ * The interview fields a profile still lacks, in the order they are asked
+ * Fields come from ProfileAnalyzer.checkProfileCompleteness; years of experience are
+ * asked along with the role, since a profile without a role has never recorded them.
+ * A user without a profile is asked everything.
+ */
+export function missingInterviewFields(profile: UserProfile | null, analyzer: ProfileAnalyzer = new ProfileAnalyzer()): InterviewField[] {
+  if (!profile) {
+    return [...INTERVIEW_FIELDS];
+  }
+
+  const missing = new Set(analyzer.checkProfileCompleteness(profile).missingFields);
+  if (missing.has('currentRole') && !profile.personalInfo.yearsOfExperience) {
+    missing.add('yearsOfExperience');
+  }
+  return INTERVIEW_FIELDS.filter(field => missing.has(field));
+}
+
+/**
+ * Whether a profile already answers an interview question
+ */
+export function isInterviewFieldFilled(profile: UserProfile, field: InterviewField): boolean {
+  switch (field) {
+    case 'currentRole':
+      return !!profile.personalInfo.currentRole;
+    case 'yearsOfExperience':
+      return profile.personalInfo.yearsOfExperience > 0;
+    case 'education':
+      return !!profile.personalInfo.education;
+    case 'goals':
+      return profile.careerInfo.goals.length > 0;
+    case 'interests':
+      return profile.careerInfo.interests.length > 0;
+    case 'struggles':
+      return profile.careerInfo.struggles.length > 0;
+  }
+}
+
+/**
+ * How the user replied to a question or to a confirmation
+ */
+export function classifyInterviewReply(reply: string): 'skip' | 'affirmative' | 'negative' | 'answer' {
+  const trimmed = reply.trim();
+  if (SKIP_REPLIES.test(trimmed)) {
+    return 'skip';
+  }
+  if (AFFIRMATIVE_REPLIES.test(trimmed)) {
+    return 'affirmative';
+  }
+  return NEGATIVE_REPLIES.test(trimmed) ? 'negative' : 'answer';
+}
+
+/**
+ * The part of a reply after a leading "no", as in "No, I'm a senior nurse"
+ */
+export function stripNegativeReply(reply: string): string {
+  return reply.trim().replace(NEGATIVE_REPLIES, '').trim();
+}
+
+/**
+ * Reads an answer to an interview question
+ * @returns What the answer says, or null when it says nothing usable for the field
+ */
+export function parseInterviewAnswer(
+  field: InterviewField,
+  answer: string,
+  analyzer: ProfileAnalyzer = new ProfileAnalyzer()
+): InterviewAnswer | null {
+  const text = answer.trim();
+  if (text === '') {
+    return null;
+  }
+  const entities = extractRichEntities(text);
+
+  switch (field) {
+    case 'currentRole': {
+      const title = entities.find(entity => entity.kind === 'job_title');
+      const role = title
+        ? toTitleCase(title.value.title)
+        : stripLeadIn(text, /^(?:i'?m|i am|i work as|i'?m working as|currently|right now)\s+(?:an?\s+|the\s+)?/i);
+      // Without a known title, only a short phrase reads as a role rather than a story
+      if (!role || (!title && (wordCount(role) > 6 || /^i\b/i.test(role)))) {
+        return null;
+      }
+      const years = entities.find(entity => entity.kind === 'years_of_experience');
+      const currentRole = title ? role : capitalize(role);
+      return years ? { field, role: currentRole, yearsOfExperience: years.value.years } : { field, role: currentRole };
+    }
+
+    case 'yearsOfExperience': {
+      const years = entities.find(entity => entity.kind === 'years_of_experience');
+      if (years) {
+        return { field, years: years.value.years };
+      }
+      if (/\b(?:none|no experience|zero|just (?:starting|started|graduated)|not yet)\b/i.test(text)) {
+        return { field, years: 0 };
+      }
+      const number = findNumber(text);
+      return number !== null && number >= 0 && number <= 60 ? { field, years: number } : null;
+    }
+
+    case 'education': {
+      const education = entities.find(entity => entity.kind === 'education');
+      if (education) {
+        return { field, education: describeEducation(education.value) };
+      }
+      const description = stripLeadIn(text, /^(?:i have an?|i've got an?|i hold an?|i studied|i did an?|i went to|i'?m)\s+/i);
+      return description && wordCount(description) <= 10 ? { field, education: capitalize(description) } : null;
+    }
+
+    case 'goals': {
+      const goals = splitList(text, /[,;\n]+/)
+        .map(item => stripLeadIn(item, /^(?:i want to|i'?d like to|i would like to|i hope to|my goal is to|to)\s+/i))
+        .filter(item => item.length > 0)
+        .map(item => ({
+          description: capitalize(item),
+          type: (LONG_TERM_CUES.test(item) ? 'long_term' : 'short_term') as Goal['type'],
+        }));
+      return goals.length > 0 ? { field, goals } : null;
+    }
+
+    case 'interests': {
+      const interests = splitList(
+        stripLeadIn(text, /^(?:i'?m (?:really )?interested in|i am interested in|i (?:really )?(?:like|love|enjoy))\s+/i),
+        /[,;\n]+|\s+(?:and|or)\s+/i
+      );
+      return interests.length > 0 ? { field, interests } : null;
+    }
+
+    case 'struggles': {
+      const struggles = splitList(text, /[,;\n]+/)
+        .map(item => stripLeadIn(item, /^(?:i'?m struggling with|i struggle with|my (?:biggest )?challenge is|i find it hard to)\s+/i))
+        .filter(item => item.length > 0)
+        .map(item => ({ description: capitalize(item), type: analyzer.categorizeChallenge(item) }));
+      return struggles.length > 0 ? { field, struggles } : null;
+    }
+  }
+}
+
+/**
+ * Applies an interview answer to a profile, in place
+ * Goals, interests and challenges are added to those already there
+ */
+export function applyInterviewAnswer(profile: UserProfile, answer: InterviewAnswer): void {
+  switch (answer.field) {
+    case 'currentRole':
+      profile.personalInfo.currentRole = answer.role;
+      if (answer.yearsOfExperience !== undefined) {
+        profile.personalInfo.yearsOfExperience = answer.yearsOfExperience;
+      }
+      break;
+
+    case 'yearsOfExperience':
+      profile.personalInfo.yearsOfExperience = answer.years;
+      break;
+
+    case 'education':
+      profile.personalInfo.education = answer.education;
+      break;
+
+    case 'goals': {
+      const existing = profile.careerInfo.goals.length;
+      profile.careerInfo.goals.push(...answer.goals.map((goal, index) => ({
+        id: `goal-${Date.now()}-${existing + index + 1}`,
+        description: goal.description,
+        type: goal.type,
+        priority: existing + index + 1,
+      })));
+      break;
+    }
+
+    case 'interests': {
+      const known = new Set(profile.careerInfo.interests.map(interest => interest.toLowerCase()));
+      profile.careerInfo.interests.push(...answer.interests.filter(interest => !known.has(interest.toLowerCase())));
+      break;
+    }
+
+    case 'struggles':
+      profile.careerInfo.struggles.push(...answer.struggles.map(struggle => ({
+        ...struggle,
+        severity: INTERVIEW_CHALLENGE_SEVERITY,
+      })));
+      break;
+  }
+}
+
+/**
+ * Says back what the coach understood from an answer, e.g. "your current role is Nurse"
+ */
+export function describeInterviewAnswer(answer: InterviewAnswer): string {
+  const years = (count: number) => `${count} year${count === 1 ? '' : 's'}`;
+
+  switch (answer.field) {
+    case 'currentRole':
+      return `your current role is ${answer.role}` +
+        (answer.yearsOfExperience !== undefined ? `, with ${years(answer.yearsOfExperience)} of experience` : '');
+    case 'yearsOfExperience':
+      return `you have ${years(answer.years)} of work experience`;
+    case 'education':
+      return `your education is ${answer.education}`;
+    case 'goals':
+      return `your goals are: ${answer.goals.map(goal => `${goal.description} (${goal.type.replace('_', '-')})`).join('; ')}`;
+    case 'interests':
+      return `you're interested in ${answer.interests.join(', ')}`;
+    case 'struggles':
+      return `you're facing: ${answer.struggles.map(struggle => `${struggle.description} (${struggle.type})`).join('; ')}`;
+  }
+}
+
+function stripLeadIn(text: string, leadIn: RegExp): string {
+  return text.trim().replace(leadIn, '').replace(/[.!]+$/, '').trim();
+}
+
+function splitList(text: string, separator: RegExp): string[] {
+  return text
+    .split(separator)
+    .map(item => item.trim().replace(/^(?:and|or)\s+/i, '').replace(/[.!]+$/, '').trim())
+    .filter(item => item.length > 0);
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -3,6 +3,7 @@
  * Constructs long-term growth plans with milestones and action steps
  */
 
+import { isDeepStrictEqual } from 'util';
 import { UserProfile, CareerPath, GrowthPlan, Phase, Milestone, ActionStep } from '../models/index.js';
 
 /**
@@ -364,6 +365,14 @@ function updatePhases(
   });
 }
 
+/**
+ * Checks whether two versions of a growth plan say the same thing
+ * Only when the plan was last updated is ignored.
+ */
+export function isSameGrowthPlan(previous: GrowthPlan, current: GrowthPlan): boolean {
+  return isDeepStrictEqual({ ...previous, lastUpdated: null }, { ...current, lastUpdated: null });
+}
+
 /**
  * Parses timeline string to extract months
  */
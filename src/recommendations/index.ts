@@ -8,3 +8,4 @@ export * from './actionStepGenerator.js';
 export * from './growthPlanBuilder.js';
 export * from './transitionAdvisor.js';
 export * from './inRoleGrowthAdvisor.js';
+export * from './planHistory.js';
@@ -0,0 +1,157 @@
+/**
+ * Tests for plan history comparison and phase progress
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  compareTransitionPlans,
+  compareInRoleGrowthAnalyses,
+  calculateTransitionPhaseProgress,
+  describeRelativeDate
+} from './planHistory.js';
+import { InRoleGrowthAnalysis } from './inRoleGrowthAdvisor.js';
+import { TransitionPlan, SkillRecommendation } from '../models/index.js';
+
+function skill(name: string): SkillRecommendation {
+  return { skill: name, priority: 1, reasoning: 'Needed', learningResources: [], estimatedTime: '3 months', dependencies: [] };
+}
+
+function createPlan(): TransitionPlan {
+  return {
+    sourceField: 'Marketing',
+    targetField: 'Data Science',
+    transferableSkills: ['communication'],
+    skillsToAcquire: [skill('python'), skill('statistics'), skill('sql')],
+    phases: [
+      {
+        name: 'Foundation',
+        duration: '0-3 months',
+        focus: 'Learn the basics',
+        actions: [
+          { id: 'action-1', description: 'Take a Python course', timeframe: 'this_month', category: 'learning', completed: false },
+          { id: 'action-2', description: 'Finish a statistics course', timeframe: 'this_month', category: 'learning', completed: false },
+        ],
+        successCriteria: ['Complete two courses'],
+      },
+      {
+        name: 'Application',
+        duration: '3-6 months',
+        focus: 'Build a portfolio',
+        actions: [
+          { id: 'action-3', description: 'Publish a portfolio project', timeframe: 'this_month', category: 'application', completed: false },
+        ],
+        successCriteria: ['One public project'],
+      },
+    ],
+    estimatedDuration: '6-9 months',
+    difficultyLevel: 'moderate',
+    risks: [],
+    successFactors: [],
+  };
+}
+
+function createAnalysis(isStagnant: boolean): InRoleGrowthAnalysis {
+  return {
+    scope: 'current_role_only',
+    opportunities: [
+      { type: 'visibility', description: 'Present at team meetings', actionable: true, estimatedImpact: 'medium' },
+      { type: 'leadership', description: 'Mentor a junior colleague', actionable: true, estimatedImpact: 'high' },
+    ],
+    skillRecommendations: [skill('public speaking')],
+    stagnationAssessment: {
+      isStagnant,
+      severity: isStagnant ? 'medium' : 'low',
+      reasons: [],
+      honestAssessment: 'Keep going',
+      growthLimitations: [],
+    },
+    alternativePaths: [],
+  };
+}
+
+describe('Plan History', () => {
+  describe('compareTransitionPlans', () => {
+    it('should never report a material change when a plan is compared with itself', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom('easy' as const, 'moderate' as const, 'challenging' as const),
+          fc.string({ minLength: 1, maxLength: 30 }),
+          (difficultyLevel, targetField) => {
+            const plan = { ...createPlan(), difficultyLevel, targetField };
+            const change = compareTransitionPlans(plan, { ...plan });
+            expect(change.isMaterial).toBe(false);
+            expect(change.changes).toEqual([]);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should report a material change when difficulty and direction change', () => {
+      const previous = createPlan();
+      const current = { ...createPlan(), targetField: 'UX Design', difficultyLevel: 'challenging' as const };
+
+      const change = compareTransitionPlans(previous, current);
+
+      expect(change.isMaterial).toBe(true);
+      expect(change.changes).toHaveLength(2);
+      expect(change.changes[0]).toContain('UX Design');
+      expect(change.changes[1]).toContain('challenging');
+    });
+
+    it('should ignore small differences in recommended skills', () => {
+      const previous = createPlan();
+      const current = { ...createPlan(), skillsToAcquire: [skill('Python'), skill('statistics'), skill('sql'), skill('pandas')] };
+
+      expect(compareTransitionPlans(previous, current).isMaterial).toBe(false);
+    });
+
+    it('should flag mostly different recommended skills', () => {
+      const previous = createPlan();
+      const current = { ...createPlan(), skillsToAcquire: [skill('figma'), skill('user research'), skill('sql')] };
+
+      expect(compareTransitionPlans(previous, current).changes).toEqual(['Most of the skills to acquire are different']);
+    });
+  });
+
+  describe('compareInRoleGrowthAnalyses', () => {
+    it('should report when the stagnation verdict flips', () => {
+      const change = compareInRoleGrowthAnalyses(createAnalysis(false), createAnalysis(true));
+
+      expect(change.isMaterial).toBe(true);
+      expect(change.changes).toEqual(['Your current role now looks stagnant']);
+    });
+
+    it('should not report a change for the same analysis', () => {
+      expect(compareInRoleGrowthAnalyses(createAnalysis(true), createAnalysis(true)).isMaterial).toBe(false);
+    });
+  });
+
+  describe('calculateTransitionPhaseProgress', () => {
+    it('should count completed actions per phase and mark finished phases', () => {
+      const progress = calculateTransitionPhaseProgress(createPlan(), ['action-1', 'action-2', 'other-action']);
+
+      expect(progress).toEqual([
+        { phaseName: 'Foundation', completedActions: 2, totalActions: 2, successCriteria: ['Complete two courses'], criteriaMet: true },
+        { phaseName: 'Application', completedActions: 0, totalActions: 1, successCriteria: ['One public project'], criteriaMet: false },
+      ]);
+    });
+  });
+
+  describe('describeRelativeDate', () => {
+    const now = new Date(2026, 9, 18, 15, 0);
+
+    it('should describe recent dates conversationally', () => {
+      expect(describeRelativeDate(new Date(2026, 9, 18, 9, 0), now)).toBe('earlier today');
+      expect(describeRelativeDate(new Date(2026, 9, 17, 9, 0), now)).toBe('yesterday');
+      expect(describeRelativeDate(new Date(2026, 9, 15, 9, 0), now)).toBe('on Thursday');
+      expect(describeRelativeDate(new Date(2026, 9, 6, 9, 0), now)).toBe('last Tuesday');
+    });
+
+    it('should fall back to the calendar date for older dates', () => {
+      expect(describeRelativeDate(new Date(2026, 8, 3, 9, 0), now)).toBe('on September 3');
+      expect(describeRelativeDate(new Date(2025, 8, 3, 9, 0), now)).toBe('on September 3, 2025');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Plan History
+ * Compares saved transition and in-role growth advice with fresh results
+ * and reports progress against previously built transition plans
+ */
+
+import { TransitionPlan } from '../models/index.js';
+import { AnalysisKind } from '../persistence/dataStore.js';
+import { InRoleGrowthAnalysis } from './inRoleGrowthAdvisor.js';
+
+/**
+ * Differences between two runs of the same advisor
+ */
+export interface AdviceChange {
+  isMaterial: boolean;
+  changes: string[];
+}
+
+/**
+ * Progress through a single transition phase
+ */
+export interface TransitionPhaseProgress {
+  phaseName: string;
+  completedActions: number;
+  totalActions: number;
+  successCriteria: string[];
+  criteriaMet: boolean;
+}
+
+/**
+ * What the coach remembers about the previous run of an advisor
+ */
+export interface PlanHistoryNote {
+  kind: AnalysisKind;
+  previousCreatedAt: Date;
+  change: AdviceChange;
+  phaseProgress?: TransitionPhaseProgress[];
+}
+
+/**
+ * Share of recommended skills that may change before advice counts as different
+ */
+const SKILL_OVERLAP_THRESHOLD = 0.5;
+
+/**
+ * Compares a previously saved transition plan with a newly generated one
+ * Advice is material when the direction, difficulty, timeline, phase structure
+ * or most of the recommended skills changed.
+ * @param previous - The plan saved earlier
+ * @param current - The plan just generated
+ * @returns Whether the advice changed materially, with readable reasons
+ */
+export function compareTransitionPlans(
+  previous: TransitionPlan,
+  current: TransitionPlan
+): AdviceChange {
+  const changes: string[] = [];
+
+  if (normalize(previous.targetField) !== normalize(current.targetField) ||
+      normalize(previous.sourceField) !== normalize(current.sourceField)) {
+    changes.push(
+      `Direction changed from ${previous.sourceField} → ${previous.targetField} to ${current.sourceField} → ${current.targetField}`
+    );
+  }
+
+  if (previous.difficultyLevel !== current.difficultyLevel) {
+    changes.push(`Difficulty changed from ${previous.difficultyLevel} to ${current.difficultyLevel}`);
+  }
+
+  if (normalize(previous.estimatedDuration) !== normalize(current.estimatedDuration)) {
+    changes.push(`Estimated duration changed from ${previous.estimatedDuration} to ${current.estimatedDuration}`);
+  }
+
+  if (previous.phases.length !== current.phases.length) {
+    changes.push(`Plan now has ${current.phases.length} phases instead of ${previous.phases.length}`);
+  }
+
+  const overlap = calculateOverlap(
+    previous.skillsToAcquire.map(s => s.skill),
+    current.skillsToAcquire.map(s => s.skill)
+  );
+  if (overlap < SKILL_OVERLAP_THRESHOLD) {
+    changes.push('Most of the skills to acquire are different');
+  }
+
+  return {
+    isMaterial: changes.length > 0,
+    changes,
+  };
+}
+
+/**
+ * Compares a previously saved in-role growth analysis with a new one
+ * Advice is material when the stagnation verdict flipped or the suggested
+ * opportunities and skills are mostly different.
+ * @param previous - The analysis saved earlier
+ * @param current - The analysis just generated
+ * @returns Whether the advice changed materially, with readable reasons
+ */
+export function compareInRoleGrowthAnalyses(
+  previous: InRoleGrowthAnalysis,
+  current: InRoleGrowthAnalysis
+): AdviceChange {
+  const changes: string[] = [];
+
+  const wasStagnant = previous.stagnationAssessment?.isStagnant ?? false;
+  const isStagnant = current.stagnationAssessment?.isStagnant ?? false;
+  if (wasStagnant !== isStagnant) {
+    changes.push(isStagnant
+      ? 'Your current role now looks stagnant'
+      : 'Your current role no longer looks stagnant');
+  }
+
+  const opportunityOverlap = calculateOverlap(
+    previous.opportunities.map(o => o.description),
+    current.opportunities.map(o => o.description)
+  );
+  if (opportunityOverlap < SKILL_OVERLAP_THRESHOLD) {
+    changes.push('Most of the growth opportunities are different');
+  }
+
+  const skillOverlap = calculateOverlap(
+    previous.skillRecommendations.map(s => s.skill),
+    current.skillRecommendations.map(s => s.skill)
+  );
+  if (skillOverlap < SKILL_OVERLAP_THRESHOLD) {
+    changes.push('Most of the recommended skills are different');
+  }
+
+  return {
+    isMaterial: changes.length > 0,
+    changes,
+  };
+}
+
+/**
+ * Calculates progress through each phase of a saved transition plan
+ * A phase's success criteria count as met once all of its actions are done.
+ * @param plan - The saved transition plan
+ * @param completedActionIds - Action IDs the user has completed
+ * @returns Progress for every phase, in plan order
+ */
+export function calculateTransitionPhaseProgress(
+  plan: TransitionPlan,
+  completedActionIds: string[]
+): TransitionPhaseProgress[] {
+  const completed = new Set(completedActionIds);
+
+  return plan.phases.map(phase => {
+    const completedActions = phase.actions.filter(a => a.completed || completed.has(a.id)).length;
+    return {
+      phaseName: phase.name,
+      completedActions,
+      totalActions: phase.actions.length,
+      successCriteria: phase.successCriteria,
+      criteriaMet: phase.actions.length > 0 && completedActions === phase.actions.length,
+    };
+  });
+}
+
+/**
+ * Describes when something happened the way a coach would say it
+ * e.g. "earlier today", "yesterday", "last Tuesday", "on March 3"
+ * @param date - When the event happened
+ * @param now - Reference point, defaults to the current time
+ */
+export function describeRelativeDate(date: Date, now: Date = new Date()): string {
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(now) - startOfDay(date)) / (24 * 60 * 60 * 1000));
+
+  if (days <= 0) {
+    return 'earlier today';
+  }
+  if (days === 1) {
+    return 'yesterday';
+  }
+  if (days < 7) {
+    return `on ${date.toLocaleDateString('en-US', { weekday: 'long' })}`;
+  }
+  if (days < 14) {
+    return `last ${date.toLocaleDateString('en-US', { weekday: 'long' })}`;
+  }
+
+  const sameYear = date.getFullYear() === now.getFullYear();
+  return `on ${date.toLocaleDateString('en-US', sameYear
+    ? { month: 'long', day: 'numeric' }
+    : { month: 'long', day: 'numeric', year: 'numeric' })}`;
+}
+
+// Private helper functions
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Jaccard overlap between two lists, ignoring case
+ */
+function calculateOverlap(a: string[], b: string[]): number {
+  const setA = new Set(a.map(normalize));
+  const setB = new Set(b.map(normalize));
+
+  if (setA.size === 0 && setB.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const item of setA) {
+    if (setB.has(item)) {
+      shared++;
+    }
+  }
+
+  return shared / (setA.size + setB.size - shared);
+}
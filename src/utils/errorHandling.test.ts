@@ -9,6 +9,8 @@ import {
   SessionTimeoutError,
   MissingFieldError,
   DatabaseUnavailableError,
+  ConcurrentModificationError,
+  LLMProviderError,
   withRetry,
   withErrorHandling,
   validateDataIntegrity,
@@ -44,6 +46,16 @@ describe('SessionTimeoutError', () => {
   });
 });
 
+describe('LLMProviderError', () => {
+  it('should only be recoverable for failures worth retrying', () => {
+    expect(new LLMProviderError('openai', 'no reply within 50 ms').recoverable).toBe(true);
+    expect(new LLMProviderError('openai', 'HTTP 429', 429).recoverable).toBe(true);
+    expect(new LLMProviderError('openai', 'HTTP 503', 503).recoverable).toBe(true);
+    expect(new LLMProviderError('openai', 'HTTP 401', 401).recoverable).toBe(false);
+    expect(new LLMProviderError('ollama', 'request cancelled', undefined, false).message).toBe('ollama: request cancelled');
+  });
+});
+
 describe('withRetry', () => {
   it('should succeed on first attempt', async () => {
     const operation = vi.fn().mockResolvedValue('success');
@@ -73,6 +85,20 @@ describe('withRetry', () => {
     expect(operation).toHaveBeenCalledTimes(1);
   });
 
+  it('should only retry conflicts when asked to', async () => {
+    const conflictOnce = () => vi.fn()
+      .mockRejectedValueOnce(new ConcurrentModificationError('UserProfile', 'user-1', 1, 2))
+      .mockResolvedValue('merged');
+
+    const plain = conflictOnce();
+    await expect(withRetry(plain, { delayMs: 10 })).rejects.toThrow(ConcurrentModificationError);
+    expect(plain).toHaveBeenCalledTimes(1);
+
+    const merging = conflictOnce();
+    expect(await withRetry(merging, { delayMs: 10, retryOnConflict: true })).toBe('merged');
+    expect(merging).toHaveBeenCalledTimes(2);
+  });
+
   it('should throw after max attempts', async () => {
     const operation = vi.fn().mockRejectedValue(new Error('Persistent error'));
     
@@ -42,6 +42,41 @@ export class DatabaseUnavailableError extends WorkLifeError {
   }
 }
 
+export class EncryptionError extends WorkLifeError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'ENCRYPTION_ERROR', false, context);
+    this.name = 'EncryptionError';
+  }
+}
+
+export class ConcurrentModificationError extends WorkLifeError {
+  constructor(entity: string, id: string, expectedVersion: number, actualVersion: number) {
+    super(
+      `${entity} ${id} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+      'CONCURRENT_MODIFICATION',
+      false,
+      { entity, id, expectedVersion, actualVersion }
+    );
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+export class LLMProviderError extends WorkLifeError {
+  /**
+   * @param status - HTTP status of the provider's answer; missing for timeouts and network failures
+   * @param recoverable - Worth retrying; timeouts, network failures, rate limits and server errors are by default
+   */
+  constructor(
+    provider: string,
+    message: string,
+    status?: number,
+    recoverable: boolean = status === undefined || status === 429 || status >= 500
+  ) {
+    super(`${provider}: ${message}`, 'LLM_PROVIDER_ERROR', recoverable, { provider, status });
+    this.name = 'LLMProviderError';
+  }
+}
+
 /**
  * Retry configuration
  */
@@ -50,6 +85,8 @@ export interface RetryConfig {
   delayMs: number;
   backoffMultiplier: number;
   maxDelayMs: number;
+  /** Retry after a ConcurrentModificationError; only safe when the operation re-reads before writing */
+  retryOnConflict: boolean;
 }
 
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
@@ -57,6 +94,7 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   delayMs: 100,
   backoffMultiplier: 2,
   maxDelayMs: 5000,
+  retryOnConflict: false,
 };
 
 /**
@@ -76,8 +114,9 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error as Error;
 
-      // Don't retry non-recoverable errors
-      if (error instanceof WorkLifeError && !error.recoverable) {
+      // Don't retry non-recoverable errors, apart from conflicts the caller can merge
+      const retryableConflict = finalConfig.retryOnConflict && error instanceof ConcurrentModificationError;
+      if (error instanceof WorkLifeError && !error.recoverable && !retryableConflict) {
         throw error;
       }
 
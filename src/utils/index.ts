@@ -5,3 +5,4 @@
 export * from './validation.js';
 export * from './errorHandling.js';
 export * from './sessionManager.js';
+export * from './userTokens.js';
@@ -267,6 +267,23 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('removeUserSessions', () => {
+    it('should drop active sessions and preserved states of the user only', () => {
+      sessionManager.createSession('user123', 'session1');
+      sessionManager.createSession('user123', 'session2');
+      sessionManager.createSession('user456', 'session3');
+      sessionManager.preserveSessionState('session1');
+      sessionManager.preserveSessionState('session3');
+
+      expect(sessionManager.removeUserSessions('user123')).toBe(2);
+
+      expect(sessionManager.getUserSessions('user123')).toEqual([]);
+      expect(sessionManager.getSession('session3')).not.toBeNull();
+      expect(sessionManager.restoreSession('user123', 'session1', 'session4')).toBeNull();
+      expect(sessionManager.getStats().preservedStates).toBe(1);
+    });
+  });
+
   describe('getStats', () => {
     it('should return correct statistics', () => {
       sessionManager.createSession('user123', 'session1');
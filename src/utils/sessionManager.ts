@@ -22,6 +22,7 @@ export class SessionManager {
   private sessions: Map<string, Session> = new Map();
   private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
   private preservedStates: Map<string, SessionContext> = new Map();
+  private preservedOwners: Map<string, string> = new Map();
   private config: SessionConfig;
 
   constructor(config: Partial<SessionConfig> = {}) {
@@ -142,6 +143,7 @@ export class SessionManager {
       }
 
       this.preservedStates.set(sessionId, preservedContext);
+      this.preservedOwners.set(sessionId, session.userId);
     }
   }
 
@@ -169,6 +171,7 @@ export class SessionManager {
     
     // Clean up old preserved state
     this.preservedStates.delete(oldSessionId);
+    this.preservedOwners.delete(oldSessionId);
 
     return session;
   }
@@ -206,6 +209,34 @@ export class SessionManager {
     return userSessions;
   }
 
+  /**
+   * Removes a user's active sessions and preserved states without keeping anything
+   * Used when the user's data is erased
+   * @returns Number of active sessions removed
+   */
+  removeUserSessions(userId: string): number {
+    let removed = 0;
+
+    for (const session of this.getUserSessions(userId)) {
+      const timer = this.sessionTimers.get(session.id);
+      if (timer) {
+        clearTimeout(timer);
+        this.sessionTimers.delete(session.id);
+      }
+      this.sessions.delete(session.id);
+      removed++;
+    }
+
+    for (const [sessionId, owner] of this.preservedOwners.entries()) {
+      if (owner === userId) {
+        this.preservedStates.delete(sessionId);
+        this.preservedOwners.delete(sessionId);
+      }
+    }
+
+    return removed;
+  }
+
   /**
    * Cleans up expired sessions
    */
@@ -262,6 +293,7 @@ export class SessionManager {
     this.sessions.clear();
     this.sessionTimers.clear();
     this.preservedStates.clear();
+    this.preservedOwners.clear();
   }
 
   // Private helper methods
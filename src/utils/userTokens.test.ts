@@ -0,0 +1,27 @@
+/**
+ * Tests for signed user tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createUserToken, verifyUserToken } from './userTokens.js';
+
+describe('User Tokens', () => {
+  it('should accept a token for the user it was issued to', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1 }), fc.string({ minLength: 1 }), (userId, secret) => {
+        expect(verifyUserToken(userId, createUserToken(userId, secret), secret)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject tokens for another user or secret', () => {
+    const token = createUserToken('user-1', 'secret');
+
+    expect(verifyUserToken('user-2', token, 'secret')).toBe(false);
+    expect(verifyUserToken('user-1', token, 'other-secret')).toBe(false);
+    expect(verifyUserToken('user-1', token.slice(1), 'secret')).toBe(false);
+    expect(verifyUserToken('user-1', '', 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Signed user tokens
+ * A token proves that the holder was given access to a userId by this server
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Creates a token for a userId, signed with the server secret
+ */
+export function createUserToken(userId: string, secret: string): string {
+  if (!secret) {
+    throw new Error('A secret is required to sign user tokens');
+  }
+  return createHmac('sha256', secret).update(userId).digest('base64url');
+}
+
+/**
+ * Checks a token against a userId in constant time
+ */
+export function verifyUserToken(userId: string, token: string, secret: string): boolean {
+  if (!userId || !token || !secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(createUserToken(userId, secret));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}